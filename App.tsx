@@ -14,9 +14,11 @@ import ContactDetailView from './components/ContactDetailView';
 import ContactEditor from './components/ContactEditor';
 import AutomationBuilderView from './components/AutomationBuilderView';
 import BulkEmailView from './components/BulkEmailView';
+import SegmentsView from './components/SegmentsView';
 import { Campaign, Contact } from './types';
 import { computeDashboardMetrics, useAppStore } from './store/AppStore';
 import { parseContactsCsv } from './services/csvImport';
+import { loadCustomFields } from './services/customFields';
 import { invokeEdgeFunction } from './services/edgeFunctions';
 import AlertDialog from './components/AlertDialog';
 import ConfirmDialog from './components/ConfirmDialog';
@@ -118,7 +120,7 @@ const App: React.FC = () => {
 
   const handleImportContactsCsv = async (file: File) => {
     const text = await file.text();
-    const rows = parseContactsCsv(text);
+    const rows = parseContactsCsv(text, await loadCustomFields());
     rows.forEach((row) => {
       actions.createContact({
         // Production: avoid synthetic/random lead scores; use a sensible default.
@@ -148,7 +150,7 @@ const App: React.FC = () => {
     navigate(`/content/${encodeURIComponent(campaignId)}`);
   };
 
-  const sendCampaignNow = async (campaignId: string, opts?: { maxRecipients?: number; segmentJson?: any }) => {
+  const sendCampaignNow = async (campaignId: string, opts?: { maxRecipients?: number; segmentJson?: any; segmentId?: string | null }) => {
     const campaign = campaigns.find(c => c.id === campaignId);
     if (!campaign) return;
 
@@ -161,6 +163,7 @@ const App: React.FC = () => {
         maxRecipients: typeof opts?.maxRecipients === 'number' ? opts?.maxRecipients : 1000,
         pageSize: 500,
         segmentJson: opts?.segmentJson ?? null,
+        segmentId: opts?.segmentId ?? null,
       });
       const queuedCount = Number((data as any)?.queued ?? 0);
 
@@ -274,8 +277,9 @@ const App: React.FC = () => {
           />
           <Route
             path="/contacts/:contactId"
-            element={<ContactRoute contacts={contacts} onBack={() => navigate('/contacts')} onEdit={openContactEditor} onCompose={(id) => { setComposeForContactId(id); navigate('/content'); }} onGoAutomations={() => navigate('/automations')} />}
+            element={<ContactRoute contacts={contacts} onBack={() => navigate('/contacts')} onEdit={openContactEditor} onCompose={(id) => { setComposeForContactId(id); navigate('/content'); }} onGoAutomations={() => navigate('/automations')} onGoScoringSettings={() => navigate('/settings?tab=scoring')} />}
           />
+          <Route path="/segments" element={<SegmentsView />} />
           <Route
             path="/content"
             element={<ContentView campaigns={visibleCampaigns} onOpenBuilder={openEmailBuilder} composeForContactName={composeForContactName} />}
@@ -311,10 +315,10 @@ const App: React.FC = () => {
         campaignId={sendCampaignId ?? ''}
         onClose={() => setSendCampaignId(null)}
         isSending={sendBusy}
-        onConfirm={({ maxRecipients, segmentJson }) => {
+        onConfirm={({ maxRecipients, segmentJson, segmentId }) => {
           const id = sendCampaignId;
           setSendCampaignId(null);
-          if (id) void sendCampaignNow(id, { maxRecipients, segmentJson });
+          if (id) void sendCampaignNow(id, { maxRecipients, segmentJson, segmentId });
         }}
       />
 
@@ -383,12 +387,14 @@ function ContactRoute({
   onEdit,
   onCompose,
   onGoAutomations,
+  onGoScoringSettings,
 }: {
   contacts: Contact[];
   onBack: () => void;
   onEdit: (id: string) => void;
   onCompose: (id: string) => void;
   onGoAutomations: () => void;
+  onGoScoringSettings: () => void;
 }) {
   const { contactId } = useParams();
   const contact = useMemo(() => contacts.find((c) => c.id === contactId) ?? null, [contacts, contactId]);
@@ -400,6 +406,7 @@ function ContactRoute({
       onEdit={() => onEdit(contact.id)}
       onSendEmail={() => onCompose(contact.id)}
       onAddToWorkflow={onGoAutomations}
+      onOpenScoringSettings={onGoScoringSettings}
     />
   );
 }
@@ -17,13 +17,40 @@ import {
   X,
   Eye,
 } from 'lucide-react';
-import type { Automation, AutomationStep, AutomationStepType } from '../types';
+import type { Automation, AutomationEdge, AutomationEdgeKind, AutomationStep, AutomationStepType } from '../types';
 import { Select } from './ui/Select';
 import { invokeEdgeFunction } from '../services/edgeFunctions';
 import { getSupabase, getWorkspaceId, isSupabaseConfigured } from '../services/supabase';
 import { useAppStore } from '../store/AppStore';
+import { useScoreModels } from '../services/scoreModels';
+import { useCustomFields } from '../services/customFields';
+import { CUSTOM_FIELD_PREFIX } from '../supabase/functions/_shared/customFields.ts';
+import CustomFieldInput from './CustomFieldInput';
 import AlertDialog from './AlertDialog';
 import AutomationRunsModal from './AutomationRunsModal';
+import AutomationGoalsPanel from './AutomationGoalsPanel';
+import AutomationEntryPanel from './AutomationEntryPanel';
+import SegmentBuilderModal, { describeSegment, type SegmentDefinition } from './SegmentBuilderModal';
+import SavedSegmentSelect from './SavedSegmentSelect';
+import {
+  isBranchStep,
+  isLoopEdge,
+  isSplitStep,
+  isWaitForEventStep,
+  isWebhookStep,
+  legacyEdges,
+  outgoing,
+  toGraph,
+  validateGraph,
+  type GraphIssue,
+} from '../supabase/functions/_shared/automationGraph.ts';
+import {
+  DATE_TRIGGER_FIELDS,
+  describeDateTrigger,
+  readDateTrigger,
+} from '../supabase/functions/_shared/automationDateTrigger.ts';
+import { WAIT_EVENT_TYPES, WEEKDAYS, type WaitMode } from '../supabase/functions/_shared/automationWait.ts';
+import type { SplitReport } from '../supabase/functions/_shared/automationSplit.ts';
 
 interface AutomationBuilderViewProps {
   automation: Automation;
@@ -45,14 +72,25 @@ type StepTemplate =
   | { kind: 'trigger.purchase'; title: string }
   | { kind: 'trigger.purchase_upgraded'; title: string }
   | { kind: 'trigger.purchase_cancelled'; title: string }
+  | { kind: 'trigger.date'; title: string; preset: Record<string, unknown> }
+  | { kind: 'trigger.segment_entered'; title: string }
+  | { kind: 'trigger.segment_exited'; title: string }
   | { kind: 'condition.lead_score'; title: string }
   | { kind: 'condition.lifecycle_stage'; title: string }
   | { kind: 'condition.last_open_days'; title: string }
   | { kind: 'condition.has_tag'; title: string }
+  | { kind: 'condition.branch'; title: string }
+  | { kind: 'condition.random_split'; title: string }
   | { kind: 'action.send_email'; title: string }
   | { kind: 'action.update_field'; title: string }
+  | { kind: 'action.add_tag'; title: string }
+  | { kind: 'action.remove_tag'; title: string }
+  | { kind: 'action.add_to_list'; title: string }
+  | { kind: 'action.remove_from_list'; title: string }
+  | { kind: 'action.set_lifecycle'; title: string }
   | { kind: 'action.notify'; title: string }
-  | { kind: 'wait'; title: string };
+  | { kind: 'action.webhook'; title: string }
+  | { kind: 'wait'; title: string; mode?: WaitMode };
 
 const STEP_GROUPS: Array<{
   title: string;
@@ -74,6 +112,14 @@ const STEP_GROUPS: Array<{
       { type: 'trigger', template: { kind: 'trigger.purchase', title: 'Purchase Made' } },
       { type: 'trigger', template: { kind: 'trigger.purchase_upgraded', title: 'Purchase Upgraded' } },
       { type: 'trigger', template: { kind: 'trigger.purchase_cancelled', title: 'Purchase Cancelled' } },
+      { type: 'trigger', template: { kind: 'trigger.segment_entered', title: 'Segment Entered' } },
+      { type: 'trigger', template: { kind: 'trigger.segment_exited', title: 'Segment Exited' } },
+      { type: 'trigger', template: { kind: 'trigger.date', title: 'Date: Birthday', preset: { field: 'attribute', attribute: 'birthday', match: 'anniversary' } } },
+      { type: 'trigger', template: { kind: 'trigger.date', title: 'Date: Signup Anniversary', preset: { field: 'created_at', match: 'anniversary' } } },
+      {
+        type: 'trigger',
+        template: { kind: 'trigger.date', title: 'Date: 30 Days After Purchase', preset: { field: 'last_purchase_date', match: 'once', offsetDays: 30 } },
+      },
     ],
   },
   {
@@ -84,6 +130,8 @@ const STEP_GROUPS: Array<{
       { type: 'condition', template: { kind: 'condition.lifecycle_stage', title: 'Check: Lifecycle Stage' } },
       { type: 'condition', template: { kind: 'condition.last_open_days', title: 'Check: Last Open > N days' } },
       { type: 'condition', template: { kind: 'condition.has_tag', title: 'Check: Has Tag' } },
+      { type: 'condition', template: { kind: 'condition.branch', title: 'Branch: Multi-way split' } },
+      { type: 'condition', template: { kind: 'condition.random_split', title: 'Split: Random A/B test' } },
     ],
   },
   {
@@ -91,14 +139,25 @@ const STEP_GROUPS: Array<{
     icon: Mail,
     items: [
       { type: 'action', template: { kind: 'action.send_email', title: 'Send Email' } },
+      { type: 'action', template: { kind: 'action.add_tag', title: 'Add Tag' } },
+      { type: 'action', template: { kind: 'action.remove_tag', title: 'Remove Tag' } },
+      { type: 'action', template: { kind: 'action.add_to_list', title: 'Add to List' } },
+      { type: 'action', template: { kind: 'action.remove_from_list', title: 'Remove from List' } },
+      { type: 'action', template: { kind: 'action.set_lifecycle', title: 'Set Lifecycle Stage' } },
       { type: 'action', template: { kind: 'action.update_field', title: 'Update Field' } },
       { type: 'action', template: { kind: 'action.notify', title: 'Notify Team' } },
+      { type: 'action', template: { kind: 'action.webhook', title: 'Webhook (HTTP POST)' } },
     ],
   },
   {
     title: 'Wait',
     icon: Clock,
-    items: [{ type: 'wait', template: { kind: 'wait', title: 'Wait 1 day' } }],
+    items: [
+      { type: 'wait', template: { kind: 'wait', title: 'Wait 1 day' } },
+      { type: 'wait', template: { kind: 'wait', title: 'Wait until date', mode: 'until_date' } },
+      { type: 'wait', template: { kind: 'wait', title: 'Wait until weekday', mode: 'until_weekday' } },
+      { type: 'wait', template: { kind: 'wait', title: 'Wait for event', mode: 'event' } },
+    ],
   },
 ];
 
@@ -130,6 +189,192 @@ function makeId(prefix: string) {
   return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
 }
 
+const CONDITION_KIND_OPTIONS = [
+  { value: 'condition.lead_score', label: 'Lead score' },
+  { value: 'condition.lifecycle_stage', label: 'Lifecycle stage' },
+  { value: 'condition.last_open_days', label: 'No opens in N days' },
+  { value: 'condition.has_tag', label: 'Has tag' },
+];
+
+// Links now live in automation.edges; drop the legacy per-step link keys once edges are written.
+function stripLegacyLinks(steps: AutomationStep[]): AutomationStep[] {
+  return steps.map((s) => {
+    const { next, nextYes, nextNo, ...rest } = (s.config ?? {}) as Record<string, unknown>;
+    if (next === undefined && nextYes === undefined && nextNo === undefined) return s;
+    return { ...s, config: rest };
+  });
+}
+
+/** Integer percentages that add up to 100 (remainder goes to the first paths). */
+function evenShares(n: number): number[] {
+  const base = Math.floor(100 / n);
+  return Array.from({ length: n }, (_, i) => base + (i < 100 - base * n ? 1 : 0));
+}
+
+function waitBaseConfig(mode: WaitMode = 'delay'): Record<string, unknown> {
+  if (mode === 'until_date') return { kind: 'wait', mode, date: '', time: '09:00' };
+  if (mode === 'until_weekday') return { kind: 'wait', mode, weekday: 1, time: '09:00' };
+  if (mode === 'event') return { kind: 'wait', mode, eventType: 'email_open', days: 3, sameAutomation: true };
+  return { kind: 'wait', mode, days: 1 };
+}
+
+const CONTACT_CHANGE_LABELS: Record<string, string> = {
+  'action.add_tag': 'Tag to add',
+  'action.remove_tag': 'Tag to remove',
+  'action.add_to_list': 'List to join',
+  'action.remove_from_list': 'List to leave',
+  'action.set_lifecycle': 'Lifecycle stage',
+};
+
+function edgeLabel(e: AutomationEdge, idx: number, from?: AutomationStep): string | undefined {
+  if (e.kind === 'yes') return isWebhookStep(from) ? 'Success' : isWaitForEventStep(from) ? 'Happened' : 'Yes';
+  if (e.kind === 'no') return isWebhookStep(from) ? 'Failed' : isWaitForEventStep(from) ? 'Timed out' : 'No';
+  if (e.kind === 'default') return 'Else';
+  if (e.kind === 'branch') return e.label || `Branch ${idx + 1}`;
+  if (e.kind === 'split') return `${e.label || `Path ${String.fromCharCode(65 + idx)}`} · ${Number(e.weight ?? 0)}%`;
+  return undefined;
+}
+
+const ConditionFields: React.FC<{ config: Record<string, unknown>; onChange: (patch: Record<string, unknown>) => void }> = ({ config, onChange }) => {
+  const kind = String(config?.kind ?? '');
+  const scoreModels = useScoreModels();
+  return (
+    <>
+      {kind === 'condition.lead_score' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-slate-700 mb-1">Score</label>
+            <Select<string>
+              value={String(config?.score ?? '')}
+              onChange={(v) => onChange({ score: v || undefined })}
+              options={[
+                { value: '', label: 'Lead score' },
+                ...scoreModels.map((m) => ({ value: m.key, label: m.name })),
+              ]}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Operator</label>
+            <Select<string>
+              value={String(config?.op ?? '>')}
+              onChange={(v) => onChange({ op: v })}
+              options={[
+                { value: '>', label: '>' },
+                { value: '>=', label: '>=' },
+                { value: '<', label: '<' },
+                { value: '<=', label: '<=' },
+              ]}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Value</label>
+            <input
+              type="number"
+              value={Number(config?.value ?? 50)}
+              onChange={(e) => onChange({ value: Number(e.target.value) })}
+              className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+            />
+          </div>
+        </div>
+      )}
+      {kind === 'condition.lifecycle_stage' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Lifecycle stage</label>
+          <Select<string>
+            value={String(config?.value ?? 'lead')}
+            onChange={(v) => onChange({ value: v })}
+            options={[
+              { value: 'cold', label: 'cold' },
+              { value: 'lead', label: 'lead' },
+              { value: 'mql', label: 'mql' },
+              { value: 'customer', label: 'customer' },
+              { value: 'churned', label: 'churned' },
+            ]}
+          />
+        </div>
+      )}
+      {kind === 'condition.last_open_days' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">No opens in last N days</label>
+          <input
+            type="number"
+            min={1}
+            value={Number(config?.days ?? 30)}
+            onChange={(e) => onChange({ days: Number(e.target.value) })}
+            className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+          />
+        </div>
+      )}
+      {kind === 'condition.has_tag' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Tag</label>
+          <input
+            value={String(config?.tag ?? '')}
+            onChange={(e) => onChange({ tag: e.target.value })}
+            className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+            placeholder="pricing"
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+// action.update_field: built-in contact fields, or a custom field ("custom.<key>") with a typed value input.
+const UpdateFieldFields: React.FC<{ config: Record<string, unknown>; onChange: (patch: Record<string, unknown>) => void }> = ({ config, onChange }) => {
+  const customFields = useCustomFields();
+  const field = String(config?.field ?? 'temperature');
+  const custom = field.startsWith(CUSTOM_FIELD_PREFIX)
+    ? customFields.find((f) => `${CUSTOM_FIELD_PREFIX}${f.key}` === field)
+    : undefined;
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-semibold text-slate-900">Update Field</div>
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Field</label>
+        <Select<string>
+          value={field}
+          onChange={(v) => onChange({ field: v })}
+          options={[
+            { value: 'temperature', label: 'temperature' },
+            { value: 'lifecycleStage', label: 'lifecycleStage' },
+            { value: 'status', label: 'status' },
+            { value: 'leadScore', label: 'leadScore' },
+            { value: 'tag', label: 'tag' },
+            { value: 'list', label: 'list' },
+            ...customFields.map((f) => ({ value: `${CUSTOM_FIELD_PREFIX}${f.key}`, label: `${f.label} (custom)` })),
+          ]}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Operation</label>
+        <Select<string>
+          value={String(config?.op ?? 'set')}
+          onChange={(v) => onChange({ op: v })}
+          options={[
+            { value: 'set', label: 'set' },
+            { value: 'add', label: 'add' },
+            { value: 'remove', label: custom ? 'remove / clear' : 'remove' },
+          ]}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Value</label>
+        {custom ? (
+          <CustomFieldInput field={custom} value={config?.value} onChange={(v) => onChange({ value: v })} />
+        ) : (
+          <input
+            value={String(config?.value ?? '')}
+            onChange={(e) => onChange({ value: e.target.value })}
+            className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+            placeholder="warm / lead / pricing / newsletter"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
 const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automation, onBack, onToggleStatus, onDelete, onUpdate }) => {
   const steps = automation.steps ?? [];
   const [selectedStepId, setSelectedStepId] = useState<string | null>(steps[0]?.id ?? null);
@@ -158,14 +403,26 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
   const [runsOpen, setRunsOpen] = useState(false);
   const [focusRunId, setFocusRunId] = useState<string | null>(null);
   const [alert, setAlert] = useState<{ title: string; message: string } | null>(null);
+  const [segmentModalOpen, setSegmentModalOpen] = useState(false);
+  // Declared split winners by step id (stored server-side in automation_split_state, not in steps).
+  const [splitWinners, setSplitWinners] = useState<Record<string, string>>({});
+
+  const graph = useMemo(() => toGraph(steps, automation.edges), [steps, automation.edges]);
+  const issues = useMemo(() => validateGraph(graph), [graph]);
+  const graphErrors = useMemo(() => issues.filter(i => i.level === 'error'), [issues]);
+  const errorNodeIds = useMemo(() => new Set(graphErrors.map(i => i.nodeId).filter(Boolean) as string[]), [graphErrors]);
 
   const addStep = (type: AutomationStepType, template: StepTemplate) => {
     const baseConfig =
       template.kind === 'action.send_email'
         ? { kind: 'action.send_email', template: 'Welcome V3', subject: 'Welcome to the community!', body: 'Hi {{firstName}},\n\nWelcome aboard!' }
         : template.kind === 'wait'
-          ? { kind: 'wait', days: 1 }
-          : { kind: template.kind };
+          ? waitBaseConfig(template.mode)
+          : template.kind === 'action.webhook'
+            ? { kind: 'action.webhook', method: 'POST', payload: '', timeoutMs: 10000, maxRetries: 3 }
+            : template.kind === 'trigger.date'
+              ? { kind: 'trigger.date', time: '09:00', ...template.preset }
+              : { kind: template.kind };
 
     const newStep: AutomationStep = { id: makeId('step'), type, title: template.title, config: baseConfig };
     const nextSteps = [...steps, newStep];
@@ -174,8 +431,10 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
   };
 
   const deleteStep = (id: string) => {
-    const nextSteps = steps.filter(s => s.id !== id);
-    onUpdate({ steps: nextSteps, lastActivityAt: new Date().toISOString() });
+    const nextSteps = stripLegacyLinks(steps.filter(s => s.id !== id));
+    const nextEdges = graph.edges.filter(e => e.from !== id && e.to !== id);
+    const goals = automation.goals?.map(g => (g.stepId === id ? { ...g, stepId: undefined } : g));
+    onUpdate({ steps: nextSteps, edges: nextEdges, goals, lastActivityAt: new Date().toISOString() });
     if (selectedStepId === id) setSelectedStepId(nextSteps[0]?.id ?? null);
   };
 
@@ -197,11 +456,30 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
 
   const applyRecipe = (recipeSteps: AutomationStep[]) => {
     const stamped = recipeSteps.map(s => ({ ...s, id: makeId('step') }));
-    onUpdate({ steps: stamped, lastActivityAt: new Date().toISOString() });
+    onUpdate({ steps: stamped, edges: legacyEdges(stamped), lastActivityAt: new Date().toISOString() });
     setSelectedStepId(stamped[0]?.id ?? null);
   };
 
-  const saveNow = () => onUpdate({ updatedAt: new Date().toISOString(), lastActivityAt: new Date().toISOString() });
+  const formatIssues = (list: GraphIssue[]) =>
+    list.map(i => `${i.level === 'error' ? 'Error' : 'Warning'}: ${i.message}`).join('\n');
+
+  const saveNow = () => {
+    // Errors block saving; warnings are surfaced but the workflow is still stored.
+    if (graphErrors.length > 0) {
+      setAlert({ title: 'Workflow has errors', message: formatIssues(issues) });
+      return;
+    }
+    onUpdate({ updatedAt: new Date().toISOString(), lastActivityAt: new Date().toISOString() });
+    if (issues.length > 0) setAlert({ title: 'Saved with warnings', message: formatIssues(issues) });
+  };
+
+  const toggleStatus = () => {
+    if (automation.status !== 'Running' && graphErrors.length > 0) {
+      setAlert({ title: 'Fix the workflow first', message: formatIssues(graphErrors) });
+      return;
+    }
+    onToggleStatus();
+  };
 
   const zoomPct = Math.round(zoom * 100);
   const clampZoom = (z: number) => Math.max(0.5, Math.min(1.6, z));
@@ -251,37 +529,55 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
   }, [steps]);
 
   const edges = useMemo(() => {
-    type Edge = { from: string; to: string; label?: 'Yes' | 'No' };
-    const out: Edge[] = [];
-    for (const s of steps) {
-      const cfg = (s.config ?? {}) as any;
-      if (s.type === 'condition') {
-        const yes = typeof cfg.nextYes === 'string' ? cfg.nextYes : null;
-        const no = typeof cfg.nextNo === 'string' ? cfg.nextNo : null;
-        if (yes && stepById.has(yes)) out.push({ from: s.id, to: yes, label: 'Yes' });
-        if (no && stepById.has(no)) out.push({ from: s.id, to: no, label: 'No' });
-      } else {
-        const next = typeof cfg.next === 'string' ? cfg.next : null;
-        if (next && stepById.has(next)) out.push({ from: s.id, to: next });
-      }
-    }
-    return out;
-  }, [steps, stepById]);
+    return graph.edges
+      .filter(e => stepById.has(e.from) && stepById.has(e.to))
+      .map(e => {
+        const arms = outgoing(graph, e.from).filter(x => x.kind === e.kind);
+        const label = edgeLabel(e, arms.findIndex(x => x.id === e.id), stepById.get(e.from));
+        return { ...e, label, guarded: Number(e.maxTraversals ?? 0) > 0 };
+      });
+  }, [graph, stepById]);
 
-  const upsertLink = (fromId: string, patch: Record<string, unknown>) => {
-    onUpdate({
-      steps: steps.map(s => (s.id === fromId ? { ...s, config: { ...(s.config ?? {}), ...patch } } : s)),
-      lastActivityAt: new Date().toISOString(),
-    });
+  const writeEdges = (nextEdges: AutomationEdge[], nextSteps: AutomationStep[] = steps) => {
+    onUpdate({ steps: stripLegacyLinks(nextSteps), edges: nextEdges, lastActivityAt: new Date().toISOString() });
   };
 
-  const addStepLinked = (fromId: string, type: AutomationStepType, template: StepTemplate, linkKind?: 'next' | 'nextYes' | 'nextNo') => {
+  const linkOf = (fromId: string, kind: AutomationEdgeKind) => graph.edges.find(e => e.from === fromId && e.kind === kind) ?? null;
+
+  // Single-target links (next / yes / no / default): replace or clear the existing one.
+  const upsertLink = (fromId: string, kind: AutomationEdgeKind, to: string) => {
+    const rest = graph.edges.filter(e => !(e.from === fromId && e.kind === kind));
+    writeEdges(to ? [...rest, { id: makeId('edge'), from: fromId, to, kind }] : rest);
+  };
+
+  const patchEdge = (id: string, patch: Partial<AutomationEdge>) => {
+    writeEdges(graph.edges.map(e => (e.id === id ? { ...e, ...patch } : e)));
+  };
+
+  const removeEdge = (id: string) => writeEdges(graph.edges.filter(e => e.id !== id));
+
+  const targetOptions = [
+    { value: '', label: '— Select step —' },
+    ...steps.filter(s => s.id !== selectedStepId && s.type !== 'trigger').map(s => ({ value: s.id, label: s.title })),
+  ];
+  const branchArms = selectedStepId ? outgoing(graph, selectedStepId).filter(e => e.kind === 'branch') : [];
+  const splitArms = selectedStepId ? outgoing(graph, selectedStepId).filter(e => e.kind === 'split') : [];
+  const splitTotal = splitArms.reduce((a, e) => a + (Number(e.weight ?? 0) || 0), 0);
+  const autoWinner = ((selectedStep?.config as any)?.autoWinner ?? {}) as Record<string, unknown>;
+  const splitWinnerId = selectedStepId ? String((selectedStep?.config as any)?.winnerEdgeId ?? splitWinners[selectedStepId] ?? '') : '';
+  const loopEdges = selectedStepId ? outgoing(graph, selectedStepId).filter(e => isLoopEdge(graph, e)) : [];
+
+  const addStepLinked = (fromId: string, type: AutomationStepType, template: StepTemplate, linkKind?: AutomationEdgeKind) => {
     const baseConfig =
       template.kind === 'action.send_email'
         ? { kind: 'action.send_email', template: 'Welcome V3', subject: 'Welcome to the community!', body: 'Hi {{firstName}},\n\nWelcome aboard!' }
         : template.kind === 'wait'
-          ? { kind: 'wait', days: 1 }
-          : { kind: template.kind };
+          ? waitBaseConfig(template.mode)
+          : template.kind === 'action.webhook'
+            ? { kind: 'action.webhook', method: 'POST', payload: '', timeoutMs: 10000, maxRetries: 3 }
+            : template.kind === 'trigger.date'
+              ? { kind: 'trigger.date', time: '09:00', ...template.preset }
+              : { kind: template.kind };
 
     const id = makeId('step');
     const from = stepById.get(fromId);
@@ -289,15 +585,29 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
     const newPos = { x: fromPos.x + 340, y: fromPos.y + 140 };
     const newStep: AutomationStep = { id, type, title: template.title, config: { ...baseConfig, x: newPos.x, y: newPos.y } };
 
-    const nextSteps = [...steps, newStep];
     // wire link
-    const key = linkKind ?? (from?.type === 'condition' ? 'nextYes' : 'next');
-    const patched = nextSteps.map(s => {
-      if (s.id !== fromId) return s;
-      return { ...s, config: { ...(s.config ?? {}), [key]: id } };
-    });
+    const kind: AutomationEdgeKind =
+      linkKind ?? (isBranchStep(from) ? 'branch' : isSplitStep(from) ? 'split' : from?.type === 'condition' ? 'yes' : 'next');
+    const arms = outgoing(graph, fromId).filter(e => e.kind === kind);
+    const edge: AutomationEdge =
+      kind === 'branch'
+        ? { id: makeId('edge'), from: fromId, to: id, kind, order: arms.length, label: `Branch ${arms.length + 1}`, when: { kind: 'condition.lead_score', op: '>', value: 50 } }
+        : kind === 'split'
+          ? { id: makeId('edge'), from: fromId, to: id, kind, order: arms.length, label: `Path ${String.fromCharCode(65 + arms.length)}` }
+          : { id: makeId('edge'), from: fromId, to: id, kind };
+    // single-target kinds replace the previous link
+    let rest = kind === 'branch' || kind === 'split' ? graph.edges : graph.edges.filter(e => !(e.from === fromId && e.kind === kind));
+    if (kind === 'split') {
+      // new path: rebalance all paths of this split evenly
+      const shares = evenShares(arms.length + 1);
+      rest = rest.map(e => {
+        const i = arms.findIndex(a => a.id === e.id);
+        return i >= 0 ? { ...e, weight: shares[i] } : e;
+      });
+      edge.weight = shares[arms.length];
+    }
 
-    onUpdate({ steps: patched, lastActivityAt: new Date().toISOString() });
+    writeEdges([...rest, edge], [...steps, newStep]);
     setSelectedStepId(id);
   };
 
@@ -340,6 +650,31 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
     };
   }, [isPanning, pan.x, pan.y, zoom]);
 
+  const applySplitReports = (out: any) => {
+    const splits: SplitReport[] = Array.isArray(out?.splits) ? out.splits : [];
+    setSplitWinners(Object.fromEntries(splits.filter(sp => sp.winnerEdgeId).map(sp => [sp.stepId, String(sp.winnerEdgeId)])));
+  };
+
+  const selectedIsSplit = Boolean(selectedStep && isSplitStep(selectedStep));
+  useEffect(() => {
+    if (!selectedIsSplit || !isSupabaseConfigured()) return;
+    let cancelled = false;
+    invokeEdgeFunction('automation-runs', { automationId: automation.id, limit: 1 })
+      .then(out => { if (!cancelled) applySplitReports(out); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [automation.id, selectedStepId, selectedIsSplit]);
+
+  const resetSplitWinner = async (stepId: string) => {
+    if ((selectedStep?.config as any)?.winnerEdgeId) updateSelectedConfig({ winnerEdgeId: undefined, winnerAt: undefined });
+    if (!isSupabaseConfigured()) return;
+    try {
+      applySplitReports(await invokeEdgeFunction('automation-runs', { automationId: automation.id, limit: 1, resetSplitStepId: stepId }));
+    } catch (e) {
+      setAlert({ title: 'Reset failed', message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
   useEffect(() => {
     if (!isTestOpen) return;
     if (testContactId) return;
@@ -372,6 +707,7 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
         workspaceId: ws,
         automationId: automation.id,
         contactId: cid,
+        ignoreEntryPolicy: true,
       });
       const workerRes: any = await invokeEdgeFunction('automation-worker', { workspaceId: ws, batch: 25 });
       setIsTestOpen(false);
@@ -443,7 +779,7 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
             Test Run
           </button>
           <button
-            onClick={onToggleStatus}
+            onClick={toggleStatus}
             className={`px-4 py-2 rounded-lg font-semibold text-sm flex items-center gap-2 shadow-sm transition-colors ${
               automation.status === 'Running' ? 'bg-amber-600 hover:bg-amber-700 text-white' : 'bg-emerald-600 hover:bg-emerald-700 text-white'
             } icon-on-solid`}
@@ -484,12 +820,38 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
               </div>
             ))}
           </div>
+
+          <div className="border-t border-slate-100 mt-6 pt-4">
+            <AutomationEntryPanel
+              policy={automation.entryPolicy}
+              onChange={(entryPolicy) => onUpdate({ entryPolicy, lastActivityAt: new Date().toISOString() })}
+            />
+          </div>
+
+          <div className="border-t border-slate-100 mt-6 pt-4">
+            <AutomationGoalsPanel
+              goals={automation.goals ?? []}
+              steps={steps}
+              onChange={(goals) => onUpdate({ goals, lastActivityAt: new Date().toISOString() })}
+            />
+          </div>
         </div>
 
         {/* Canvas */}
         <div className="xl:col-span-6 bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden">
           <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
-            <h3 className="font-semibold text-slate-800">Workflow</h3>
+            <div className="flex items-center gap-2">
+              <h3 className="font-semibold text-slate-800">Workflow</h3>
+              {issues.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setAlert({ title: 'Workflow issues', message: formatIssues(issues) })}
+                  className={`px-2 py-0.5 rounded-md text-[11px] font-semibold ${graphErrors.length > 0 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-800'}`}
+                >
+                  {graphErrors.length > 0 ? `${graphErrors.length} error(s)` : `${issues.length} warning(s)`}
+                </button>
+              )}
+            </div>
             <div className="flex items-center gap-2">
               <div className="text-xs text-slate-500 mr-2">{zoomPct}%</div>
               <button
@@ -556,13 +918,14 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
                     const y2 = to.y + to.h / 2;
                     const mx = (x1 + x2) / 2;
                     const path = `M ${x1} ${y1} C ${mx} ${y1}, ${mx} ${y2}, ${x2} ${y2}`;
+                    const labelW = Math.max(32, (e.label?.length ?? 0) * 7 + 14);
                     return (
-                      <g key={idx}>
-                        <path d={path} stroke="rgba(15,23,42,0.35)" strokeWidth="2" fill="none" />
+                      <g key={e.id || idx}>
+                        <path d={path} stroke="rgba(15,23,42,0.35)" strokeWidth="2" strokeDasharray={e.guarded ? '6 4' : undefined} fill="none" />
                         <circle cx={x2} cy={y2} r="4" fill="rgba(2,132,199,0.9)" />
                         {e.label && (
                           <g>
-                            <rect x={mx - 16} y={(y1 + y2) / 2 - 10} width="32" height="20" rx="10" fill="white" stroke="rgba(15,23,42,0.12)" />
+                            <rect x={mx - labelW / 2} y={(y1 + y2) / 2 - 10} width={labelW} height="20" rx="10" fill="white" stroke="rgba(15,23,42,0.12)" />
                             <text x={mx} y={(y1 + y2) / 2 + 4} textAnchor="middle" fontSize="11" fill="#0b1220" fontWeight="600">
                               {e.label}
                             </text>
@@ -596,7 +959,11 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
                           if (e.key === 'Enter' || e.key === ' ') setSelectedStepId(s.id);
                         }}
                         className={`absolute text-left rounded-xl border shadow-sm bg-white px-4 py-3 transition-colors cursor-grab select-none ${
-                          isSelected ? 'border-sky-300 ring-2 ring-sky-100' : 'border-slate-200 hover:border-slate-300'
+                          isSelected
+                            ? 'border-sky-300 ring-2 ring-sky-100'
+                            : errorNodeIds.has(s.id)
+                              ? 'border-red-300 hover:border-red-400'
+                              : 'border-slate-200 hover:border-slate-300'
                         }`}
                         style={{ left: n.x, top: n.y, width: n.w, height: n.h }}
                         data-node="1"
@@ -687,15 +1054,99 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
                 />
               </div>
               {selectedStep.type === 'wait' && (
-                <div className="space-y-2">
-                  <label className="block text-sm font-medium text-slate-700">Wait (days)</label>
-                  <input
-                    type="number"
-                    min={0}
-                    value={Number((selectedStep.config as any)?.days ?? 1)}
-                    onChange={(e) => updateSelectedConfig({ days: Number(e.target.value) })}
-                    className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
-                  />
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Wait</label>
+                    <Select<string>
+                      value={String((selectedStep.config as any)?.mode ?? 'delay')}
+                      onChange={(v) => updateSelectedConfig(waitBaseConfig(v as WaitMode))}
+                      options={[
+                        { value: 'delay', label: 'For a number of days' },
+                        { value: 'until_date', label: 'Until a date and time' },
+                        { value: 'until_weekday', label: 'Until a weekday and time' },
+                        { value: 'event', label: 'For an event (up to N days)' },
+                      ]}
+                    />
+                  </div>
+                  {(['until_date', 'until_weekday'] as const).includes((selectedStep.config as any)?.mode) && (
+                    <div className="grid grid-cols-2 gap-3">
+                      {(selectedStep.config as any)?.mode === 'until_date' ? (
+                        <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Date</label>
+                          <input
+                            type="date"
+                            value={String((selectedStep.config as any)?.date ?? '')}
+                            onChange={(e) => updateSelectedConfig({ date: e.target.value })}
+                            className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                          />
+                        </div>
+                      ) : (
+                        <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Weekday</label>
+                          <Select<string>
+                            value={String((selectedStep.config as any)?.weekday ?? 1)}
+                            onChange={(v) => updateSelectedConfig({ weekday: Number(v) })}
+                            options={WEEKDAYS.map((d, i) => ({ value: String(i), label: d }))}
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Time</label>
+                        <input
+                          type="time"
+                          value={String((selectedStep.config as any)?.time ?? '09:00')}
+                          onChange={(e) => updateSelectedConfig({ time: e.target.value })}
+                          className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                        />
+                      </div>
+                      <div className="col-span-2 text-xs text-slate-500">In each contact’s timezone (UTC when unknown).</div>
+                    </div>
+                  )}
+                  {(selectedStep.config as any)?.mode === 'event' && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Event</label>
+                      <Select<string>
+                        value={String((selectedStep.config as any)?.eventType ?? 'email_open')}
+                        onChange={(v) => updateSelectedConfig({ eventType: v })}
+                        options={WAIT_EVENT_TYPES}
+                      />
+                      {['email_open', 'link_click'].includes(String((selectedStep.config as any)?.eventType ?? 'email_open')) && (
+                        <label className="mt-2 flex items-center gap-2 text-sm text-slate-700">
+                          <input
+                            type="checkbox"
+                            checked={(selectedStep.config as any)?.sameAutomation !== false}
+                            onChange={(e) => updateSelectedConfig({ sameAutomation: e.target.checked })}
+                          />
+                          Only emails from this automation
+                        </label>
+                      )}
+                    </div>
+                  )}
+                  {['delay', 'event'].includes(String((selectedStep.config as any)?.mode ?? 'delay')) && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">
+                        {(selectedStep.config as any)?.mode === 'event' ? 'Give up after (days)' : 'Wait (days)'}
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={Number((selectedStep.config as any)?.days ?? 1)}
+                        onChange={(e) => updateSelectedConfig({ days: Number(e.target.value) })}
+                        className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                      />
+                    </div>
+                  )}
+                  {isWaitForEventStep(selectedStep) &&
+                    ([['yes', 'If it happened'], ['no', 'If it timed out']] as const).map(([kind, label]) => (
+                      <div key={kind} className="grid grid-cols-1 gap-2">
+                        <label className="text-xs font-semibold text-slate-500">{label}</label>
+                        <Select<string>
+                          value={linkOf(selectedStep.id, kind)?.to ?? ''}
+                          onChange={(v) => upsertLink(selectedStep.id, kind, v)}
+                          options={targetOptions}
+                        />
+                      </div>
+                    ))}
                 </div>
               )}
 
@@ -768,6 +1219,109 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
                       />
                     </div>
                   )}
+                  {['trigger.segment_entered', 'trigger.segment_exited'].includes(String((selectedStep.config as any)?.kind ?? '')) && (
+                    <div className="space-y-3">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Segment</label>
+                        <SavedSegmentSelect
+                          segments={state.segments ?? []}
+                          value={String((selectedStep.config as any)?.segmentId ?? '')}
+                          onChange={(segmentId) => updateSelectedConfig({ segmentId })}
+                          customLabel="Conditions on this trigger"
+                        />
+                      </div>
+                      {!(selectedStep.config as any)?.segmentId && (
+                        <>
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">Segment name</label>
+                            <input
+                              value={String((selectedStep.config as any)?.segmentName ?? '')}
+                              onChange={(e) => updateSelectedConfig({ segmentName: e.target.value })}
+                              className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                              placeholder="Hot leads"
+                            />
+                          </div>
+                          <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700">
+                            {describeSegment((selectedStep.config as any)?.segment as SegmentDefinition | undefined)}
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => setSegmentModalOpen(true)}
+                            className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
+                          >
+                            Edit segment
+                          </button>
+                        </>
+                      )}
+                      <div className="text-xs text-slate-500">
+                        Fires when a contact {(selectedStep.config as any)?.kind === 'trigger.segment_exited' ? 'stops' : 'starts'} matching.
+                        Contacts who already match when the automation starts (or after the segment is edited) don’t fire.
+                      </div>
+                      <SegmentBuilderModal
+                        isOpen={segmentModalOpen}
+                        onClose={() => setSegmentModalOpen(false)}
+                        value={((selectedStep.config as any)?.segment as SegmentDefinition | undefined) ?? { logic: 'AND', conditions: [] }}
+                        onChange={(segment) => updateSelectedConfig({ segment })}
+                      />
+                    </div>
+                  )}
+                  {String((selectedStep.config as any)?.kind ?? '') === 'trigger.date' && (
+                    <div className="space-y-3">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Date field</label>
+                        <Select<string>
+                          value={readDateTrigger(selectedStep.config).field}
+                          onChange={(v) => updateSelectedConfig({ field: v })}
+                          options={DATE_TRIGGER_FIELDS}
+                        />
+                      </div>
+                      {readDateTrigger(selectedStep.config).field === 'attribute' && (
+                        <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Attribute name</label>
+                          <input
+                            value={String((selectedStep.config as any)?.attribute ?? 'birthday')}
+                            onChange={(e) => updateSelectedConfig({ attribute: e.target.value })}
+                            className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                            placeholder="birthday"
+                          />
+                        </div>
+                      )}
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Repeat</label>
+                          <Select<string>
+                            value={readDateTrigger(selectedStep.config).match}
+                            onChange={(v) => updateSelectedConfig({ match: v })}
+                            options={[
+                              { value: 'anniversary', label: 'Every year' },
+                              { value: 'once', label: 'Once' },
+                            ]}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Days offset</label>
+                          <input
+                            type="number"
+                            value={readDateTrigger(selectedStep.config).offsetDays}
+                            onChange={(e) => updateSelectedConfig({ offsetDays: Math.trunc(Number(e.target.value) || 0) })}
+                            className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Time (contact’s timezone)</label>
+                        <input
+                          type="time"
+                          value={readDateTrigger(selectedStep.config).time}
+                          onChange={(e) => updateSelectedConfig({ time: e.target.value })}
+                          className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                        />
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {describeDateTrigger(readDateTrigger(selectedStep.config))}. Negative offsets fire before the date. Each contact fires once per occurrence.
+                      </div>
+                    </div>
+                  )}
                   {String((selectedStep.config as any)?.kind ?? '') === 'trigger.page_visited' && (
                     <div>
                       <label className="block text-sm font-medium text-slate-700 mb-1">URL contains (optional)</label>
@@ -830,42 +1384,218 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
                 </div>
               )}
 
-              {selectedStep.type === 'condition' && (
+              {selectedStep.type === 'condition' && !isBranchStep(selectedStep) && !isSplitStep(selectedStep) && (
                 <div className="space-y-3">
                   {/* Condition settings */}
-                  {String((selectedStep.config as any)?.kind ?? '') === 'condition.lead_score' && (
-                    <div className="grid grid-cols-2 gap-3">
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700 mb-1">Operator</label>
+                  <ConditionFields config={(selectedStep.config ?? {}) as Record<string, unknown>} onChange={updateSelectedConfig} />
+
+                  <div className="text-sm font-semibold text-slate-900">Branching</div>
+                  {(['yes', 'no'] as const).map(kind => (
+                    <div key={kind} className="grid grid-cols-1 gap-2">
+                      <label className="text-xs font-semibold text-slate-500">{kind.toUpperCase()} path</label>
+                      <Select<string>
+                        value={linkOf(selectedStep.id, kind)?.to ?? ''}
+                        onChange={(v) => upsertLink(selectedStep.id, kind, v)}
+                        options={targetOptions}
+                      />
+                      <button
+                        type="button"
+                        className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
+                        onClick={() => addStepLinked(selectedStep.id, 'action', { kind: 'action.send_email', title: 'Send Email' }, kind)}
+                      >
+                        + Add step as {kind.toUpperCase()}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {isBranchStep(selectedStep) && (
+                <div className="space-y-3">
+                  <div className="text-sm font-semibold text-slate-900">Branches</div>
+                  <div className="text-xs text-slate-500">Checked top to bottom. The first matching branch wins; otherwise the default path is taken.</div>
+                  {branchArms.map((arm, idx) => (
+                    <div key={arm.id} className="rounded-lg border border-slate-200 p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          value={arm.label ?? ''}
+                          onChange={(e) => patchEdge(arm.id, { label: e.target.value })}
+                          className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                          placeholder={`Branch ${idx + 1}`}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeEdge(arm.id)}
+                          className="p-2 rounded-lg hover:bg-red-50 text-slate-500 hover:text-red-700 icon-inherit"
+                          title="Remove branch"
+                        >
+                          <Trash2 className="app-icon w-4 h-4" />
+                        </button>
+                      </div>
+                      <Select<string>
+                        value={String(arm.when?.kind ?? 'condition.lead_score')}
+                        onChange={(v) => patchEdge(arm.id, { when: { kind: v } })}
+                        options={CONDITION_KIND_OPTIONS}
+                      />
+                      <ConditionFields
+                        config={arm.when ?? {}}
+                        onChange={(patch) => patchEdge(arm.id, { when: { ...(arm.when ?? {}), ...patch } })}
+                      />
+                      <label className="text-xs font-semibold text-slate-500">Go to</label>
+                      <Select<string>
+                        value={arm.to}
+                        onChange={(v) => { if (v) patchEdge(arm.id, { to: v }); }}
+                        options={targetOptions.filter(o => o.value)}
+                      />
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
+                    onClick={() => addStepLinked(selectedStep.id, 'action', { kind: 'action.send_email', title: 'Send Email' }, 'branch')}
+                  >
+                    + Add branch
+                  </button>
+                  <div className="grid grid-cols-1 gap-2">
+                    <label className="text-xs font-semibold text-slate-500">Otherwise (default)</label>
+                    <Select<string>
+                      value={linkOf(selectedStep.id, 'default')?.to ?? ''}
+                      onChange={(v) => upsertLink(selectedStep.id, 'default', v)}
+                      options={targetOptions}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {isSplitStep(selectedStep) && (
+                <div className="space-y-3">
+                  <div className="text-sm font-semibold text-slate-900">Paths</div>
+                  <div className="text-xs text-slate-500">
+                    Each contact is assigned to one path at random (always the same path for the same contact).
+                  </div>
+                  {splitWinnerId && (
+                    <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs text-emerald-900 flex items-center justify-between gap-2">
+                      <span>
+                        Winner: <span className="font-semibold">{splitArms.find(a => a.id === splitWinnerId)?.label ?? 'removed path'}</span>
+                        {' '}— all new contacts take this path.
+                      </span>
+                      <button
+                        type="button"
+                        className="font-semibold underline"
+                        onClick={() => void resetSplitWinner(selectedStep.id)}
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  )}
+                  {splitArms.map((arm, idx) => (
+                    <div key={arm.id} className="rounded-lg border border-slate-200 p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          value={arm.label ?? ''}
+                          onChange={(e) => patchEdge(arm.id, { label: e.target.value })}
+                          className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                          placeholder={`Path ${String.fromCharCode(65 + idx)}`}
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={Number(arm.weight ?? 0)}
+                          onChange={(e) => patchEdge(arm.id, { weight: Math.max(0, Math.min(100, Math.floor(Number(e.target.value) || 0))) })}
+                          className="w-20 bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                          title="Percent of contacts"
+                        />
+                        <span className="text-sm text-slate-500">%</span>
+                        <button
+                          type="button"
+                          onClick={() => removeEdge(arm.id)}
+                          className="p-2 rounded-lg hover:bg-red-50 text-slate-500 hover:text-red-700 icon-inherit"
+                          title="Remove path"
+                        >
+                          <Trash2 className="app-icon w-4 h-4" />
+                        </button>
+                      </div>
+                      <label className="text-xs font-semibold text-slate-500">Go to</label>
+                      <Select<string>
+                        value={arm.to}
+                        onChange={(v) => { if (v) patchEdge(arm.id, { to: v }); }}
+                        options={targetOptions.filter(o => o.value)}
+                      />
+                    </div>
+                  ))}
+                  <div className={`text-xs ${splitTotal === 100 ? 'text-slate-500' : 'text-amber-700'}`}>
+                    Total: {splitTotal}%{splitTotal === 100 ? '' : ' (scaled to 100% when running)'}
+                  </div>
+                  <button
+                    type="button"
+                    className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
+                    onClick={() => addStepLinked(selectedStep.id, 'action', { kind: 'action.send_email', title: 'Send Email' }, 'split')}
+                  >
+                    + Add path
+                  </button>
+
+                  <div className="border-t border-slate-100 pt-3 space-y-2">
+                    <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(autoWinner.enabled)}
+                        onChange={(e) => updateSelectedConfig({ autoWinner: { ...autoWinner, enabled: e.target.checked } })}
+                      />
+                      Pick a winner automatically
+                    </label>
+                    {Boolean(autoWinner.enabled) && (
+                      <div className="grid grid-cols-1 gap-2">
+                        <label className="text-xs font-semibold text-slate-500">Winning metric</label>
                         <Select<string>
-                          value={String((selectedStep.config as any)?.op ?? '>')}
-                          onChange={(v) => updateSelectedConfig({ op: v })}
+                          value={String(autoWinner.metric ?? 'click')}
+                          onChange={(v) => updateSelectedConfig({ autoWinner: { ...autoWinner, metric: v } })}
                           options={[
-                            { value: '>', label: '>' },
-                            { value: '>=', label: '>=' },
-                            { value: '<', label: '<' },
-                            { value: '<=', label: '<=' },
+                            { value: 'click', label: 'Click rate' },
+                            { value: 'open', label: 'Open rate' },
                           ]}
                         />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-slate-700 mb-1">Value</label>
+                        <label className="text-xs font-semibold text-slate-500">Min. contacts per path</label>
                         <input
                           type="number"
-                          value={Number((selectedStep.config as any)?.value ?? 50)}
-                          onChange={(e) => updateSelectedConfig({ value: Number(e.target.value) })}
+                          min={1}
+                          value={Number(autoWinner.minPerArm ?? 100)}
+                          onChange={(e) => updateSelectedConfig({ autoWinner: { ...autoWinner, minPerArm: Math.max(1, Math.floor(Number(e.target.value) || 1)) } })}
                           className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
                         />
+                        <label className="text-xs font-semibold text-slate-500">Confidence</label>
+                        <Select<string>
+                          value={String(autoWinner.confidence ?? 0.95)}
+                          onChange={(v) => updateSelectedConfig({ autoWinner: { ...autoWinner, confidence: Number(v) } })}
+                          options={[
+                            { value: '0.9', label: '90%' },
+                            { value: '0.95', label: '95%' },
+                            { value: '0.99', label: '99%' },
+                          ]}
+                        />
                       </div>
-                    </div>
-                  )}
-                  {String((selectedStep.config as any)?.kind ?? '') === 'condition.lifecycle_stage' && (
-                    <div>
-                      <label className="block text-sm font-medium text-slate-700 mb-1">Lifecycle stage</label>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {selectedStep.type === 'action' && (selectedStep.config as any)?.kind === 'action.update_field' && (
+                <UpdateFieldFields config={(selectedStep.config ?? {}) as Record<string, unknown>} onChange={updateSelectedConfig} />
+              )}
+
+              {selectedStep.type === 'action' && CONTACT_CHANGE_LABELS[String((selectedStep.config as any)?.kind ?? '')] && (
+                <div className="space-y-3">
+                  <div className="text-sm font-semibold text-slate-900">{selectedStep.title}</div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                      {CONTACT_CHANGE_LABELS[String((selectedStep.config as any)?.kind ?? '')]}
+                    </label>
+                    {(selectedStep.config as any)?.kind === 'action.set_lifecycle' ? (
                       <Select<string>
-                        value={String((selectedStep.config as any)?.value ?? 'lead')}
+                        value={String((selectedStep.config as any)?.value ?? '')}
                         onChange={(v) => updateSelectedConfig({ value: v })}
                         options={[
+                          { value: '', label: '— Select stage —' },
                           { value: 'cold', label: 'cold' },
                           { value: 'lead', label: 'lead' },
                           { value: 'mql', label: 'mql' },
@@ -873,110 +1603,17 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
                           { value: 'churned', label: 'churned' },
                         ]}
                       />
-                    </div>
-                  )}
-                  {String((selectedStep.config as any)?.kind ?? '') === 'condition.last_open_days' && (
-                    <div>
-                      <label className="block text-sm font-medium text-slate-700 mb-1">No opens in last N days</label>
-                      <input
-                        type="number"
-                        min={1}
-                        value={Number((selectedStep.config as any)?.days ?? 30)}
-                        onChange={(e) => updateSelectedConfig({ days: Number(e.target.value) })}
-                        className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
-                      />
-                    </div>
-                  )}
-                  {String((selectedStep.config as any)?.kind ?? '') === 'condition.has_tag' && (
-                    <div>
-                      <label className="block text-sm font-medium text-slate-700 mb-1">Tag</label>
+                    ) : (
                       <input
-                        value={String((selectedStep.config as any)?.tag ?? '')}
-                        onChange={(e) => updateSelectedConfig({ tag: e.target.value })}
+                        value={String((selectedStep.config as any)?.value ?? '')}
+                        onChange={(e) => updateSelectedConfig({ value: e.target.value })}
                         className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
-                        placeholder="pricing"
+                        placeholder={String((selectedStep.config as any)?.kind ?? '').includes('list') ? 'newsletter' : 'vip'}
                       />
-                    </div>
-                  )}
-
-                  <div className="text-sm font-semibold text-slate-900">Branching</div>
-                  <div className="grid grid-cols-1 gap-2">
-                    <label className="text-xs font-semibold text-slate-500">YES path</label>
-                    <Select<string>
-                      value={String(((selectedStep.config as any)?.nextYes ?? '') as any)}
-                      onChange={(v) => upsertLink(selectedStep.id, { nextYes: v || undefined })}
-                      options={[
-                        { value: '', label: '— Select step —' },
-                        ...steps.filter(s => s.id !== selectedStep.id).map(s => ({ value: s.id, label: s.title })),
-                      ]}
-                    />
-                    <button
-                      type="button"
-                      className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
-                      onClick={() => addStepLinked(selectedStep.id, 'action', { kind: 'action.send_email', title: 'Send Email' }, 'nextYes')}
-                    >
-                      + Add step as YES
-                    </button>
+                    )}
                   </div>
-                  <div className="grid grid-cols-1 gap-2">
-                    <label className="text-xs font-semibold text-slate-500">NO path</label>
-                    <Select<string>
-                      value={String(((selectedStep.config as any)?.nextNo ?? '') as any)}
-                      onChange={(v) => upsertLink(selectedStep.id, { nextNo: v || undefined })}
-                      options={[
-                        { value: '', label: '— Select step —' },
-                        ...steps.filter(s => s.id !== selectedStep.id).map(s => ({ value: s.id, label: s.title })),
-                      ]}
-                    />
-                    <button
-                      type="button"
-                      className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
-                      onClick={() => addStepLinked(selectedStep.id, 'action', { kind: 'action.send_email', title: 'Send Email' }, 'nextNo')}
-                    >
-                      + Add step as NO
-                    </button>
-                  </div>
-                </div>
-              )}
-
-              {selectedStep.type === 'action' && (selectedStep.config as any)?.kind === 'action.update_field' && (
-                <div className="space-y-3">
-                  <div className="text-sm font-semibold text-slate-900">Update Field</div>
-                  <div>
-                    <label className="block text-sm font-medium text-slate-700 mb-1">Field</label>
-                    <Select<string>
-                      value={String((selectedStep.config as any)?.field ?? 'temperature')}
-                      onChange={(v) => updateSelectedConfig({ field: v })}
-                      options={[
-                        { value: 'temperature', label: 'temperature' },
-                        { value: 'lifecycleStage', label: 'lifecycleStage' },
-                        { value: 'status', label: 'status' },
-                        { value: 'leadScore', label: 'leadScore' },
-                        { value: 'tag', label: 'tag' },
-                        { value: 'list', label: 'list' },
-                      ]}
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-slate-700 mb-1">Operation</label>
-                    <Select<string>
-                      value={String((selectedStep.config as any)?.op ?? 'set')}
-                      onChange={(v) => updateSelectedConfig({ op: v })}
-                      options={[
-                        { value: 'set', label: 'set' },
-                        { value: 'add', label: 'add' },
-                        { value: 'remove', label: 'remove' },
-                      ]}
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-slate-700 mb-1">Value</label>
-                    <input
-                      value={String((selectedStep.config as any)?.value ?? '')}
-                      onChange={(e) => updateSelectedConfig({ value: e.target.value })}
-                      className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
-                      placeholder="warm / lead / pricing / newsletter"
-                    />
+                  <div className="text-xs text-slate-500">
+                    Also logs the matching contact event, so automations triggered by it start. An automation never re-triggers itself this way.
                   </div>
                 </div>
               )}
@@ -1014,20 +1651,138 @@ const AutomationBuilderView: React.FC<AutomationBuilderViewProps> = ({ automatio
                 </div>
               )}
 
+              {isWebhookStep(selectedStep) && (
+                <div className="space-y-3">
+                  <div className="text-sm font-semibold text-slate-900">Webhook</div>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Method</label>
+                      <Select<string>
+                        value={String((selectedStep.config as any)?.method ?? 'POST')}
+                        onChange={(v) => updateSelectedConfig({ method: v })}
+                        options={[
+                          { value: 'POST', label: 'POST' },
+                          { value: 'PUT', label: 'PUT' },
+                          { value: 'PATCH', label: 'PATCH' },
+                        ]}
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <label className="block text-sm font-medium text-slate-700 mb-1">URL</label>
+                      <input
+                        value={String((selectedStep.config as any)?.url ?? '')}
+                        onChange={(e) => updateSelectedConfig({ url: e.target.value })}
+                        className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                        placeholder="https://hooks.example.com/flowmail"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Headers</label>
+                    <textarea
+                      value={String((selectedStep.config as any)?.headers ?? '')}
+                      onChange={(e) => updateSelectedConfig({ headers: e.target.value })}
+                      className="w-full h-16 bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none resize-none font-mono text-xs"
+                      placeholder="Authorization: Bearer …"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">JSON payload</label>
+                    <textarea
+                      value={String((selectedStep.config as any)?.payload ?? '')}
+                      onChange={(e) => updateSelectedConfig({ payload: e.target.value })}
+                      className="w-full h-32 bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none resize-none font-mono text-xs"
+                      placeholder={'{\n  "email": "{{contact.email}}",\n  "run": "{{run.id}}",\n  "plan": "{{event.meta.plan}}"\n}'}
+                    />
+                    <div className="text-xs text-slate-500 mt-1">
+                      Empty sends {'{ contact, event, run }'}. A value that is exactly {'"{{contact}}"'} inserts the whole object.
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Timeout (ms)</label>
+                      <input
+                        type="number"
+                        min={1000}
+                        max={30000}
+                        value={Number((selectedStep.config as any)?.timeoutMs ?? 10000)}
+                        onChange={(e) => updateSelectedConfig({ timeoutMs: Number(e.target.value) })}
+                        className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Retries</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={8}
+                        value={Number((selectedStep.config as any)?.maxRetries ?? 3)}
+                        onChange={(e) => updateSelectedConfig({ maxRetries: Number(e.target.value) })}
+                        className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Success only if response field equals</label>
+                    <div className="grid grid-cols-2 gap-3">
+                      <input
+                        value={String((selectedStep.config as any)?.matchPath ?? '')}
+                        onChange={(e) => updateSelectedConfig({ matchPath: e.target.value })}
+                        className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                        placeholder="data.status (optional)"
+                      />
+                      <input
+                        value={String((selectedStep.config as any)?.matchValue ?? '')}
+                        onChange={(e) => updateSelectedConfig({ matchValue: e.target.value })}
+                        className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                        placeholder="approved"
+                      />
+                    </div>
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    Timeouts, 429 and 5xx responses are retried with backoff. Link a failure path to handle errors; without one a failed call fails the run.
+                  </div>
+                  {([['yes', 'On success'], ['no', 'On failure']] as const).map(([kind, label]) => (
+                    <div key={kind} className="grid grid-cols-1 gap-2">
+                      <label className="text-xs font-semibold text-slate-500">{label}</label>
+                      <Select<string>
+                        value={linkOf(selectedStep.id, kind)?.to ?? ''}
+                        onChange={(v) => upsertLink(selectedStep.id, kind, v)}
+                        options={targetOptions}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {selectedStep.type !== 'condition' && (
                 <div className="space-y-2">
-                  <div className="text-sm font-semibold text-slate-900">Next step</div>
+                  <div className="text-sm font-semibold text-slate-900">{isWebhookStep(selectedStep) || isWaitForEventStep(selectedStep) ? 'Next step (either outcome)' : 'Next step'}</div>
                   <Select<string>
-                    value={String(((selectedStep.config as any)?.next ?? '') as any)}
-                    onChange={(v) => upsertLink(selectedStep.id, { next: v || undefined })}
-                    options={[
-                      { value: '', label: '— Select step —' },
-                      ...steps.filter(s => s.id !== selectedStep.id).map(s => ({ value: s.id, label: s.title })),
-                    ]}
+                    value={linkOf(selectedStep.id, 'next')?.to ?? ''}
+                    onChange={(v) => upsertLink(selectedStep.id, 'next', v)}
+                    options={targetOptions}
                   />
                 </div>
               )}
 
+              {loopEdges.map(e => (
+                <div key={e.id} className="space-y-1">
+                  <label className="block text-sm font-medium text-slate-700">
+                    Loop guard: max times per run
+                    <span className="text-slate-500 font-normal"> → {stepById.get(e.to)?.title ?? e.to}</span>
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={e.maxTraversals ?? ''}
+                    onChange={(ev) => patchEdge(e.id, { maxTraversals: Number(ev.target.value) > 0 ? Math.floor(Number(ev.target.value)) : undefined })}
+                    className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+                    placeholder="Required for loops"
+                  />
+                </div>
+              ))}
+
               <div className="text-xs text-slate-500 border-t border-slate-100 pt-4">
                 Type: <span className="font-semibold text-slate-700">{selectedStep.type}</span>
               </div>
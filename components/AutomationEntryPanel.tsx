@@ -0,0 +1,44 @@
+import React from 'react';
+import type { AutomationEntryMode, AutomationEntryPolicy } from '../types';
+import { Select } from './ui/Select';
+
+const MODE_OPTIONS: Array<{ value: AutomationEntryMode; label: string }> = [
+  { value: 'unlimited', label: 'Every time the trigger fires' },
+  { value: 'not_if_active', label: 'Only if not currently active' },
+  { value: 'once_per_days', label: 'Once every N days' },
+  { value: 'once', label: 'Once per contact, ever' },
+];
+
+const AutomationEntryPanel: React.FC<{
+  policy: AutomationEntryPolicy | undefined;
+  onChange: (policy: AutomationEntryPolicy) => void;
+}> = ({ policy, onChange }) => {
+  const mode = policy?.mode ?? 'unlimited';
+  return (
+    <div>
+      <div className="text-xs uppercase tracking-wider text-slate-500 font-semibold mb-1">Entry</div>
+      <div className="text-xs text-slate-500 mb-2">Blocked entries show up as “skipped” in Runs.</div>
+      <div className="space-y-2">
+        <Select<string>
+          value={mode}
+          onChange={(v) => onChange(v === 'once_per_days' ? { mode: v, days: policy?.days ?? 30 } : { mode: v as AutomationEntryMode })}
+          options={MODE_OPTIONS}
+        />
+        {mode === 'once_per_days' && (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              value={Number(policy?.days ?? 30)}
+              onChange={(e) => onChange({ mode, days: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+              className="w-24 bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+            />
+            <span className="text-sm text-slate-600">days between entries</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AutomationEntryPanel;
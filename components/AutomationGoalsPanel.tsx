@@ -0,0 +1,107 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import type { AutomationGoal, AutomationGoalKind, AutomationGoalRole, AutomationStep } from '../types';
+import { Select } from './ui/Select';
+
+const KIND_OPTIONS: Array<{ value: AutomationGoalKind; label: string }> = [
+  { value: 'event', label: 'Event happens' },
+  { value: 'lifecycle_stage', label: 'Lifecycle stage becomes' },
+  { value: 'tag_added', label: 'Tag added' },
+];
+
+const VALUE_PLACEHOLDER: Record<AutomationGoalKind, string> = {
+  event: 'purchase',
+  lifecycle_stage: 'customer',
+  tag_added: 'vip',
+};
+
+function makeGoalId() {
+  return `goal_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
+}
+
+const AutomationGoalsPanel: React.FC<{
+  goals: AutomationGoal[];
+  steps: AutomationStep[];
+  onChange: (goals: AutomationGoal[]) => void;
+}> = ({ goals, steps, onChange }) => {
+  const patch = (id: string, p: Partial<AutomationGoal>) => onChange(goals.map(g => (g.id === id ? { ...g, ...p } : g)));
+  const add = (role: AutomationGoalRole) =>
+    onChange([...goals, { id: makeGoalId(), role, kind: 'event', value: role === 'goal' ? 'purchase' : 'unsubscribed' }]);
+
+  const stepOptions = [
+    { value: '', label: 'End the run' },
+    ...steps.filter(s => s.type !== 'trigger').map(s => ({ value: s.id, label: `Jump to: ${s.title}` })),
+  ];
+
+  const renderGoal = (g: AutomationGoal) => (
+    <div key={g.id} className="rounded-lg border border-slate-200 p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Select<string>
+          className="flex-1"
+          value={g.kind}
+          onChange={(v) => patch(g.id, { kind: v as AutomationGoalKind })}
+          options={KIND_OPTIONS}
+        />
+        <button
+          type="button"
+          onClick={() => onChange(goals.filter(x => x.id !== g.id))}
+          className="p-2 rounded-lg hover:bg-red-50 text-slate-500 hover:text-red-700 icon-inherit"
+          title="Remove"
+        >
+          <Trash2 className="app-icon w-4 h-4" />
+        </button>
+      </div>
+      <input
+        value={g.value}
+        onChange={(e) => patch(g.id, { value: e.target.value })}
+        className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+        placeholder={VALUE_PLACEHOLDER[g.kind]}
+      />
+      {g.role === 'goal' && (
+        <Select<string>
+          value={g.stepId ?? ''}
+          onChange={(v) => patch(g.id, { stepId: v || undefined })}
+          options={stepOptions}
+        />
+      )}
+    </div>
+  );
+
+  const goalRows = goals.filter(g => g.role === 'goal');
+  const exitRows = goals.filter(g => g.role === 'exit');
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-xs uppercase tracking-wider text-slate-500 font-semibold mb-1">Goals</div>
+        <div className="text-xs text-slate-500 mb-2">Contacts who reach a goal count as converted and leave (or jump to a step).</div>
+        <div className="space-y-2">
+          {goalRows.map(renderGoal)}
+          <button
+            type="button"
+            onClick={() => add('goal')}
+            className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
+          >
+            + Add goal
+          </button>
+        </div>
+      </div>
+      <div>
+        <div className="text-xs uppercase tracking-wider text-slate-500 font-semibold mb-1">Exit conditions</div>
+        <div className="text-xs text-slate-500 mb-2">Contacts leave immediately without converting.</div>
+        <div className="space-y-2">
+          {exitRows.map(renderGoal)}
+          <button
+            type="button"
+            onClick={() => add('exit')}
+            className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
+          >
+            + Add exit condition
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutomationGoalsPanel;
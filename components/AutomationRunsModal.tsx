@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { X } from 'lucide-react';
 import { getSupabase, isSupabaseConfigured } from '../services/supabase';
 import { invokeEdgeFunction } from '../services/edgeFunctions';
+import type { SplitReport } from '../supabase/functions/_shared/automationSplit.ts';
 
 type RunRow = {
   id: string;
@@ -12,8 +13,12 @@ type RunRow = {
   started_at?: string | null;
   finished_at?: string | null;
   last_error?: string | null;
+  goal_reached_at?: string | null;
+  exit_reason?: string | null;
 };
 
+const pct = (n: number, d: number) => (d > 0 ? `${((n / d) * 100).toFixed(1)}%` : '—');
+
 export default function AutomationRunsModal({
   isOpen,
   onClose,
@@ -26,6 +31,7 @@ export default function AutomationRunsModal({
   runId?: string | null;
 }) {
   const [rows, setRows] = useState<RunRow[]>([]);
+  const [splits, setSplits] = useState<SplitReport[]>([]);
   const [contactLabel, setContactLabel] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
@@ -38,6 +44,7 @@ export default function AutomationRunsModal({
     (async () => {
       setError('');
       let nextRows: any[] = [];
+      let nextSplits: SplitReport[] = [];
       let edgeFailed = false;
 
       // Prefer Edge Function (service-role read) so this works even if automation_runs RLS policies are missing.
@@ -50,6 +57,7 @@ export default function AutomationRunsModal({
             limit: 50,
           });
           nextRows = Array.isArray(out?.rows) ? out.rows : [];
+          nextSplits = Array.isArray(out?.splits) ? out.splits : [];
         } catch (e) {
           edgeFailed = true;
           const msg = e instanceof Error ? e.message : String(e);
@@ -64,7 +72,7 @@ export default function AutomationRunsModal({
         if (sb) {
           const q = sb
             .from('automation_runs')
-            .select('id, automation_id, contact_id, status, current_step_id, started_at, finished_at, last_error')
+            .select('id, automation_id, contact_id, status, current_step_id, started_at, finished_at, last_error, goal_reached_at, exit_reason')
             .order('started_at', { ascending: false })
             .limit(50);
           const res = runId
@@ -82,6 +90,7 @@ export default function AutomationRunsModal({
       }
 
       setRows(nextRows as any);
+      setSplits(nextSplits);
       const ids = Array.from(new Set((nextRows as any[]).map((r) => String(r.contact_id ?? '')).filter(Boolean)));
         if (ids.length > 0) {
           const sb = getSupabase();
@@ -129,7 +138,61 @@ export default function AutomationRunsModal({
             <div className="text-slate-600 text-sm">Loading…</div>
           ) : error ? (
             <div className="text-red-700 text-sm whitespace-pre-line">Failed to load runs.\n\n{error}</div>
-          ) : rows.length === 0 && runId ? (
+          ) : null}
+
+          {!loading && !error && splits.length > 0 && (
+            <div className="space-y-4 mb-6">
+              {splits.map((sp) => {
+                const total = sp.arms.reduce((a, x) => a + x.entrants, 0);
+                return (
+                  <div key={sp.stepId} className="border border-slate-200 rounded-lg overflow-hidden">
+                    <div className="px-4 py-3 bg-slate-50 border-b border-slate-200 flex items-center justify-between gap-3">
+                      <div>
+                        <div className="font-semibold text-slate-900 text-sm">{sp.title}</div>
+                        <div className="text-xs text-slate-500">
+                          {total} entrant(s) · conversion = {sp.metric === 'open' ? 'opened' : 'clicked'} an email from this automation
+                          {sp.pValue !== null ? ` · confidence ${Math.max(0, (1 - sp.pValue) * 100).toFixed(1)}%` : ''}
+                        </div>
+                      </div>
+                      {sp.winnerEdgeId ? (
+                        <span className="px-2 py-1 rounded-md text-[11px] font-semibold bg-emerald-100 text-emerald-800">
+                          Winner: {sp.arms.find(a => a.edgeId === sp.winnerEdgeId)?.label ?? '—'}
+                        </span>
+                      ) : (
+                        <span className="px-2 py-1 rounded-md text-[11px] font-semibold bg-slate-200 text-slate-700">
+                          {sp.autoWinner ? 'Testing (auto-winner on)' : 'Testing'}
+                        </span>
+                      )}
+                    </div>
+                    <table className="w-full text-left text-sm">
+                      <thead className="border-b border-slate-200">
+                        <tr>
+                          <th className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Path</th>
+                          <th className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Weight</th>
+                          <th className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Entrants</th>
+                          <th className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Opened</th>
+                          <th className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Clicked</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {sp.arms.map((a) => (
+                          <tr key={a.edgeId}>
+                            <td className="px-4 py-2 font-semibold text-slate-900">{a.label}</td>
+                            <td className="px-4 py-2 text-slate-700">{a.weight}%</td>
+                            <td className="px-4 py-2 text-slate-700">{a.entrants}</td>
+                            <td className="px-4 py-2 text-slate-700">{a.opens} ({pct(a.opens, a.entrants)})</td>
+                            <td className="px-4 py-2 text-slate-700">{a.clicks} ({pct(a.clicks, a.entrants)})</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {loading || error ? null : rows.length === 0 && runId ? (
             <div className="text-slate-700 text-sm whitespace-pre-line">
               No runs found for this test run id.
               {'\n\n'}
@@ -156,7 +219,13 @@ export default function AutomationRunsModal({
                 <tbody className="divide-y divide-slate-100">
                   {rows.map((r) => (
                     <tr key={r.id}>
-                      <td className="px-4 py-3 font-semibold text-slate-900">{r.status}</td>
+                      <td className="px-4 py-3 font-semibold text-slate-900">
+                        {r.status}
+                        {r.goal_reached_at && <div className="text-xs font-medium text-emerald-700">Goal reached</div>}
+                        {r.exit_reason && (
+                          <div className="text-xs font-medium text-slate-500">{r.status === 'skipped' ? 'Skipped' : 'Exit'}: {r.exit_reason}</div>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-slate-700">{contactLabel[r.contact_id] ?? 'Contact'}</td>
                       <td className="px-4 py-3 text-slate-700">{r.started_at ? new Date(r.started_at).toLocaleString() : '—'}</td>
                       <td className="px-4 py-3 text-slate-700">{r.finished_at ? new Date(r.finished_at).toLocaleString() : '—'}</td>
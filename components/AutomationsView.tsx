@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Plus, Zap, GitBranch, PlayCircle, PauseCircle, MoreHorizontal } from 'lucide-react';
+import { Plus, Zap, GitBranch, PlayCircle, PauseCircle, MoreHorizontal, Target } from 'lucide-react';
 import { Automation } from '../types';
 import { Button } from './ui/Button';
 import { Card } from './ui/Card';
@@ -110,6 +110,18 @@ const AutomationsView: React.FC<AutomationsViewProps> = ({ automations, onCreate
                 <PlayCircle className="app-icon app-icon-muted w-4 h-4" />
                 <span>Active contacts: <span className="font-medium text-slate-800">{automation.count}</span></span>
               </div>
+              {(automation.goals?.some(g => g.role === 'goal') ?? false) && (
+                <div className="flex items-center gap-2 text-sm text-slate-600">
+                  <Target className="app-icon app-icon-muted w-4 h-4" />
+                  <span>
+                    Goal conversion:{' '}
+                    <span className="font-medium text-slate-800">
+                      {automation.totalRuns ? `${(((automation.goalConversions ?? 0) / automation.totalRuns) * 100).toFixed(1)}%` : '—'}
+                    </span>
+                    {automation.totalRuns ? <span className="text-slate-500"> ({automation.goalConversions ?? 0}/{automation.totalRuns} runs)</span> : null}
+                  </span>
+                </div>
+              )}
             </div>
 
             <div className="mt-6 pt-4 border-t border-slate-100 flex items-center justify-between">
@@ -4,12 +4,14 @@ import { invokeEdgeFunction } from '../services/edgeFunctions';
 import { getWorkspaceId } from '../services/supabase';
 import SegmentBuilderModal, { type SegmentDefinition } from './SegmentBuilderModal';
 import ContactPickerModal from './ContactPickerModal';
+import SavedSegmentSelect from './SavedSegmentSelect';
 import { useAppStore } from '../store/AppStore';
 
 export default function BulkEmailView() {
   const workspaceId = useMemo(() => getWorkspaceId() || 'default', []);
   const { state } = useAppStore();
   const contacts = state.contacts ?? [];
+  const segments = state.segments ?? [];
 
   const [subject, setSubject] = useState('');
   const [body, setBody] = useState('');
@@ -21,6 +23,7 @@ export default function BulkEmailView() {
 
   const [useSegment, setUseSegment] = useState(false);
   const [segment, setSegment] = useState<SegmentDefinition>({ logic: 'AND', conditions: [] });
+  const [segmentId, setSegmentId] = useState('');
   const [segOpen, setSegOpen] = useState(false);
 
   const [previewBusy, setPreviewBusy] = useState(false);
@@ -61,7 +64,8 @@ export default function BulkEmailView() {
           sampleSize: 0,
           maxRecipients,
           pageSize: 500,
-          segmentJson: recipientMode === 'all' && useSegment ? segment : null,
+          segmentJson: recipientMode === 'all' && useSegment && !segmentId ? segment : null,
+          segmentId: recipientMode === 'all' && useSegment && segmentId ? segmentId : null,
           contactIds: recipientMode === 'selected' ? selectedContactIds : null,
         });
         if (cancelled) return;
@@ -81,7 +85,7 @@ export default function BulkEmailView() {
     return () => {
       cancelled = true;
     };
-  }, [workspaceId, subject, body, maxRecipients, recipientMode, selectedContactIds.join(','), useSegment, segmentKey]);
+  }, [workspaceId, subject, body, maxRecipients, recipientMode, selectedContactIds.join(','), useSegment, segmentKey, segmentId]);
 
   const send = async () => {
     setMessage(null);
@@ -97,7 +101,8 @@ export default function BulkEmailView() {
         body,
         maxRecipients,
         pageSize: 500,
-        segmentJson: recipientMode === 'all' && useSegment ? segment : null,
+        segmentJson: recipientMode === 'all' && useSegment && !segmentId ? segment : null,
+        segmentId: recipientMode === 'all' && useSegment && segmentId ? segmentId : null,
         contactIds: recipientMode === 'selected' ? selectedContactIds : null,
         sendImmediately: sendInstantly,
       });
@@ -105,6 +110,7 @@ export default function BulkEmailView() {
       if (mode === 'instant') {
         const sent = Number((data as any)?.sent ?? 0);
         const failed = Number((data as any)?.failed ?? 0);
+        const suppressed = Number((data as any)?.suppressed ?? 0);
         const errors = Array.isArray((data as any)?.errors) ? ((data as any).errors as any[]) : [];
         const errorText =
           failed > 0 && errors.length > 0
@@ -112,7 +118,7 @@ export default function BulkEmailView() {
             : '';
         setMessage({
           kind: failed > 0 ? 'err' : 'ok',
-          text: `Sent ${sent} emails instantly.${failed > 0 ? ` Failed: ${failed}.` : ''}${errorText}`,
+          text: `Sent ${sent} emails instantly.${failed > 0 ? ` Failed: ${failed}.` : ''}${suppressed > 0 ? ` Skipped ${suppressed} suppressed address(es).` : ''}${errorText}`,
         });
       } else {
         const queued = Number((data as any)?.queued ?? 0);
@@ -279,14 +285,17 @@ export default function BulkEmailView() {
               </button>
             </div>
             {useSegment && (
-              <div className="mt-3">
-                <button
-                  type="button"
-                  onClick={() => setSegOpen(true)}
-                  className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-100 font-semibold text-sm"
-                >
-                  Edit segment
-                </button>
+              <div className="mt-3 space-y-3">
+                <SavedSegmentSelect segments={segments} value={segmentId} onChange={setSegmentId} />
+                {!segmentId && (
+                  <button
+                    type="button"
+                    onClick={() => setSegOpen(true)}
+                    className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-100 font-semibold text-sm"
+                  >
+                    Edit segment
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -1,7 +1,16 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { ArrowLeft, Mail, Pencil, GitBranch, MapPin, Building2, Globe, Phone } from 'lucide-react';
-import { Pie, PieChart, Cell, ResponsiveContainer } from 'recharts';
+import { Pie, PieChart, Cell, ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
 import type { Contact } from '../types';
+import { getSupabase, getWorkspaceId } from '../services/supabase';
+import LeadScoreBreakdown from './LeadScoreBreakdown';
+import { useLeadScoringModel } from '../services/scoreModels';
+import { useCustomFields } from '../services/customFields';
+import { formatCustomValue } from '../supabase/functions/_shared/customFields.ts';
+
+type ScorePoint = { date: string; score: number; reason: string };
+
+const HISTORY_LIMIT = 200;
 
 interface ContactDetailViewProps {
   contact: Contact;
@@ -9,14 +18,53 @@ interface ContactDetailViewProps {
   onEdit: () => void;
   onSendEmail: () => void;
   onAddToWorkflow: () => void;
+  onOpenScoringSettings: () => void;
 }
 
-const ContactDetailView: React.FC<ContactDetailViewProps> = ({ contact, onBack, onEdit, onSendEmail, onAddToWorkflow }) => {
-  const score = Math.min(100, Math.max(0, contact.leadScore ?? 0));
+const ContactDetailView: React.FC<ContactDetailViewProps> = ({ contact, onBack, onEdit, onSendEmail, onAddToWorkflow, onOpenScoringSettings }) => {
+  const scoring = useLeadScoringModel();
+  const score = contact.leadScore ?? 0;
+  // The ring spans the workspace's score caps (Settings → Lead Scoring).
+  const scoreRange = Math.max(1, scoring.max - scoring.min);
+  const scoreFilled = Math.min(scoreRange, Math.max(0, score - scoring.min));
+  // Temperature is set by lead-score-worker from the workspace's scoring thresholds.
+  const temperature = String(contact.temperature ?? '').toLowerCase();
+  const leadLabel = temperature === 'hot' ? 'Hot Lead' : temperature === 'warm' ? 'Warm Lead' : 'Cold Lead';
   const scoreData = useMemo(() => ([
-    { name: 'Score', value: score },
-    { name: 'Remaining', value: 100 - score },
-  ]), [score]);
+    { name: 'Score', value: scoreFilled },
+    { name: 'Remaining', value: scoreRange - scoreFilled },
+  ]), [scoreFilled, scoreRange]);
+
+  const customFields = useCustomFields();
+  const namedScores = scoring.models.map((m) => ({ key: m.key, name: m.name, value: Number(contact.scores?.[m.key] ?? 0) }));
+  const [history, setHistory] = useState<ScorePoint[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const sb = getSupabase();
+      if (!sb) return;
+      // Newest rows first, so long histories show their latest part.
+      const { data, error } = await sb
+        .from('lead_score_history')
+        .select('score,reason,recorded_at')
+        .eq('workspace_id', getWorkspaceId() || 'default')
+        .eq('contact_id', contact.id)
+        .order('recorded_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+      if (cancelled || error) return;
+      setHistory(
+        (data ?? [])
+          .slice()
+          .reverse()
+          .map((r: any) => ({
+            date: new Date(r.recorded_at).toLocaleDateString(),
+            score: Number(r.score ?? 0),
+            reason: String(r.reason ?? ''),
+          })),
+      );
+    })();
+    return () => { cancelled = true; };
+  }, [contact.id]);
 
   const events = (contact.events ?? []).slice().sort((a, b) => (b.occurredAt.localeCompare(a.occurredAt)));
 
@@ -95,6 +143,13 @@ const ContactDetailView: React.FC<ContactDetailViewProps> = ({ contact, onBack,
             <div className="flex justify-between gap-6"><span className="text-slate-500">Company</span><span className="text-slate-800 font-medium">{contact.company || '-'}</span></div>
             <div className="flex justify-between gap-6"><span className="text-slate-500">Job Title</span><span className="text-slate-800 font-medium">{contact.jobTitle || '-'}</span></div>
             <div className="flex justify-between gap-6"><span className="text-slate-500">Timezone</span><span className="text-slate-800 font-medium">{contact.timezone || '-'}</span></div>
+            <div className="flex justify-between gap-6"><span className="text-slate-500">Email Frequency</span><span className="text-slate-800 font-medium">{contact.emailFrequency === 'digest' ? 'Weekly digest' : 'Every email'}</span></div>
+            {contact.pausedUntil && new Date(contact.pausedUntil).getTime() > Date.now() && (
+              <div className="flex justify-between gap-6"><span className="text-slate-500">Emails Paused Until</span><span className="text-slate-800 font-medium">{new Date(contact.pausedUntil).toLocaleDateString()}</span></div>
+            )}
+            {customFields.map((f) => (
+              <div key={f.key} className="flex justify-between gap-6"><span className="text-slate-500">{f.label}</span><span className="text-slate-800 font-medium text-right">{formatCustomValue(contact.attributes?.[f.key]) || '-'}</span></div>
+            ))}
           </div>
         </div>
 
@@ -112,15 +167,24 @@ const ContactDetailView: React.FC<ContactDetailViewProps> = ({ contact, onBack,
                 </PieChart>
               </ResponsiveContainer>
               <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
-                <span className="text-2xl font-bold text-slate-800">{score}/100</span>
-                <span className="text-xs text-slate-500 font-medium">{score >= 80 ? 'Very Hot Lead' : score >= 50 ? 'Warm Lead' : 'Cold Lead'}</span>
+                <span className="text-2xl font-bold text-slate-800">{score}/{scoring.max}</span>
+                <span className="text-xs text-slate-500 font-medium">{leadLabel}</span>
               </div>
             </div>
-            <div className="space-y-3 text-sm">
-              <div className="flex justify-between"><span className="text-slate-500">Engagement</span><span className="font-semibold text-slate-800">{Math.min(100, score + 7)}</span></div>
-              <div className="flex justify-between"><span className="text-slate-500">Profile</span><span className="font-semibold text-slate-800">{Math.max(0, score - 7)}</span></div>
-              <div className="flex justify-between"><span className="text-slate-500">Behavior</span><span className="font-semibold text-slate-800">{Math.min(100, score + 3)}</span></div>
-            </div>
+            {namedScores.length > 0 ? (
+              <div className="space-y-3 text-sm">
+                {namedScores.map((s) => (
+                  <div key={s.key} className="flex justify-between"><span className="text-slate-500">{s.name}</span><span className="font-semibold text-slate-800">{s.value}</span></div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-slate-500">
+                No score models configured.{' '}
+                <button type="button" onClick={onOpenScoringSettings} className="font-medium text-sky-700 hover:underline">
+                  Set up scoring
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -136,6 +200,34 @@ const ContactDetailView: React.FC<ContactDetailViewProps> = ({ contact, onBack,
         </div>
       </div>
 
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Score history */}
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+          <h3 className="font-semibold text-slate-800 mb-4">Score History</h3>
+          {history.length === 0 ? (
+            <div className="text-slate-500 text-sm">No score changes recorded yet.</div>
+          ) : (
+            <div className="h-48 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={history} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fill: '#94a3b8', fontSize: 12 }} dy={10} />
+                  <YAxis axisLine={false} tickLine={false} tick={{ fill: '#94a3b8', fontSize: 12 }} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                    itemStyle={{ fontSize: '12px', fontWeight: 600 }}
+                    formatter={(value: any, _name: any, item: any) => [value, `Score (${item?.payload?.reason ?? ''})`]}
+                  />
+                  <Line type="stepAfter" dataKey="score" stroke="#10b981" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+
+        <LeadScoreBreakdown contactId={contact.id} />
+      </div>
+
       {/* Timeline */}
       <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
         <h3 className="font-semibold text-slate-800 mb-4">Key Event Timeline</h3>
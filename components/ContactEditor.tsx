@@ -2,6 +2,9 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { X, Save } from 'lucide-react';
 import type { Contact } from '../types';
 import { Select } from './ui/Select';
+import CustomFieldInput from './CustomFieldInput';
+import { useCustomFields } from '../services/customFields';
+import { coerceCustomValue, withCustomValue } from '../supabase/functions/_shared/customFields.ts';
 
 interface ContactEditorProps {
   isOpen: boolean;
@@ -20,12 +23,15 @@ const ContactEditor: React.FC<ContactEditorProps> = ({ isOpen, onClose, onSave,
   const [location, setLocation] = useState('');
   const [website, setWebsite] = useState('');
   const [timezone, setTimezone] = useState('GMT-8');
+  const [birthday, setBirthday] = useState('');
   const [lifecycleStage, setLifecycleStage] = useState<'cold' | 'lead' | 'mql' | 'customer' | 'churned'>('lead');
   const [temperature, setTemperature] = useState<'cold' | 'warm' | 'hot'>('warm');
   const [status, setStatus] = useState<'Subscribed' | 'Unsubscribed' | 'Bounced'>('Subscribed');
   const [tagsText, setTagsText] = useState('');
   const [listsText, setListsText] = useState('');
   const [acquisitionSource, setAcquisitionSource] = useState<Contact['acquisitionSource']>('Manual');
+  const [customValues, setCustomValues] = useState<Record<string, unknown>>({});
+  const customFields = useCustomFields();
 
   const isEditing = !!initialContact;
   const title = isEditing ? 'Edit Contact' : 'Create Contact';
@@ -42,6 +48,7 @@ const ContactEditor: React.FC<ContactEditorProps> = ({ isOpen, onClose, onSave,
     setLocation(c?.location ?? '');
     setWebsite(c?.website ?? '');
     setTimezone(c?.timezone ?? 'GMT-8');
+    setBirthday(String(c?.attributes?.birthday ?? ''));
     const stage = String(c?.lifecycleStage ?? 'lead').toLowerCase();
     setLifecycleStage((stage === 'subscriber' ? 'lead' : stage) as any);
     setTemperature(String(c?.temperature ?? 'warm').toLowerCase() as any);
@@ -49,6 +56,7 @@ const ContactEditor: React.FC<ContactEditorProps> = ({ isOpen, onClose, onSave,
     setTagsText((c?.tags ?? []).join(', '));
     setListsText((c?.lists ?? []).join(', '));
     setAcquisitionSource(c?.acquisitionSource ?? 'Manual');
+    setCustomValues({ ...(c?.attributes ?? {}) });
   }, [isOpen, initialContact]);
 
   const canSave = useMemo(() => {
@@ -68,6 +76,11 @@ const ContactEditor: React.FC<ContactEditorProps> = ({ isOpen, onClose, onSave,
       .map(t => t.trim())
       .filter(Boolean);
     const name = `${firstName} ${lastName}`.trim();
+    // Defined custom fields are saved typed (cleared when empty or invalid); other attributes are kept as they are.
+    let attributes: Record<string, unknown> = { ...(initialContact?.attributes ?? {}), birthday };
+    for (const field of customFields) {
+      attributes = withCustomValue(attributes, field.key, coerceCustomValue(field, customValues[field.key]));
+    }
 
     onSave({
       name,
@@ -80,6 +93,7 @@ const ContactEditor: React.FC<ContactEditorProps> = ({ isOpen, onClose, onSave,
       location: location.trim() || undefined,
       website: website.trim() || undefined,
       timezone,
+      attributes: attributes as Contact['attributes'],
       lifecycleStage,
       temperature,
       status,
@@ -122,6 +136,10 @@ const ContactEditor: React.FC<ContactEditorProps> = ({ isOpen, onClose, onSave,
               <label className="block text-sm font-medium text-slate-700 mb-1">Timezone</label>
               <input value={timezone} onChange={(e) => setTimezone(e.target.value)} className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none" />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Birthday</label>
+              <input type="date" value={birthday} onChange={(e) => setBirthday(e.target.value)} className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none" />
+            </div>
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">Lifecycle Stage</label>
               <Select<'cold' | 'lead' | 'mql' | 'customer' | 'churned'>
@@ -201,6 +219,20 @@ const ContactEditor: React.FC<ContactEditorProps> = ({ isOpen, onClose, onSave,
               <label className="block text-sm font-medium text-slate-700 mb-1">Website</label>
               <input value={website} onChange={(e) => setWebsite(e.target.value)} className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none" />
             </div>
+
+            {customFields.length > 0 && (
+              <div className="md:col-span-2 pt-2 border-t border-slate-100 text-sm font-semibold text-slate-800">Custom Fields</div>
+            )}
+            {customFields.map((field) => (
+              <div key={field.key} className={field.type === 'multi_select' ? 'md:col-span-2' : undefined}>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{field.label}</label>
+                <CustomFieldInput
+                  field={field}
+                  value={customValues[field.key]}
+                  onChange={(v) => setCustomValues((prev) => ({ ...prev, [field.key]: v }))}
+                />
+              </div>
+            ))}
           </div>
         </div>
 
@@ -59,7 +59,7 @@ export default function ContentView({ campaigns, onOpenBuilder, composeForContac
           <div className="min-w-0">
             <div className="text-sm font-semibold text-slate-900 truncate">Composing for {composeForContactName}</div>
             <div className="text-xs text-slate-600 mt-0.5">
-              You can use placeholders like <span className="font-mono">{'{{firstName}}'}</span> inside your email content.
+              You can use placeholders like <span className="font-mono">{'{{firstName}}'}</span> or custom fields like <span className="font-mono">{'{{custom.plan}}'}</span> inside your email content.
             </div>
           </div>
         </Card>
@@ -0,0 +1,70 @@
+import React from 'react';
+import type { CustomField } from '../types';
+import { Select } from './ui/Select';
+
+const inputClass = 'w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none';
+
+// Input for one custom field value. Values are left raw (text, booleans, option lists); callers run
+// coerceCustomValue when saving.
+const CustomFieldInput: React.FC<{
+  field: CustomField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}> = ({ field, value, onChange }) => {
+  const text = value === null || value === undefined ? '' : Array.isArray(value) ? value.join(', ') : String(value);
+
+  if (field.type === 'boolean') {
+    return (
+      <Select<string>
+        value={value === true || text === 'true' ? 'true' : value === false || text === 'false' ? 'false' : ''}
+        onChange={(v) => onChange(v === '' ? null : v === 'true')}
+        options={[
+          { value: '', label: '—' },
+          { value: 'true', label: 'Yes' },
+          { value: 'false', label: 'No' },
+        ]}
+      />
+    );
+  }
+
+  if (field.type === 'enum' && field.options.length > 0) {
+    return (
+      <Select<string>
+        value={text}
+        onChange={(v) => onChange(v || null)}
+        options={[{ value: '', label: '—' }, ...field.options.map((o) => ({ value: o, label: o }))]}
+      />
+    );
+  }
+
+  if (field.type === 'multi_select' && field.options.length > 0) {
+    const selected = Array.isArray(value) ? value.map(String) : text.split(',').map((v) => v.trim()).filter(Boolean);
+    const toggle = (option: string) =>
+      onChange(selected.includes(option) ? selected.filter((v) => v !== option) : [...selected, option]);
+    return (
+      <div className="flex flex-wrap gap-2">
+        {field.options.map((o) => (
+          <label
+            key={o}
+            className={`px-3 py-1.5 rounded-lg border text-sm cursor-pointer ${selected.includes(o) ? 'border-sky-500 bg-sky-50 text-sky-700' : 'border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+          >
+            <input type="checkbox" className="sr-only" checked={selected.includes(o)} onChange={() => toggle(o)} />
+            {o}
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <input
+      type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+      value={text}
+      onChange={(e) => onChange(e.target.value)}
+      className={inputClass}
+      placeholder={field.type === 'multi_select' ? 'Comma-separated' : undefined}
+    />
+  );
+};
+
+export default CustomFieldInput;
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Select } from './ui/Select';
+import {
+  CUSTOM_FIELD_PREFIX,
+  CUSTOM_FIELD_TYPES,
+  customFieldKey,
+  type CustomField,
+  type CustomFieldType,
+} from '../supabase/functions/_shared/customFields.ts';
+
+const inputClass = 'w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const hasOptions = (type: CustomFieldType) => type === 'enum' || type === 'multi_select';
+
+const FieldRow: React.FC<{
+  field: CustomField;
+  onChange: (next: CustomField) => void;
+  onRemove: () => void;
+}> = ({ field, onChange, onRemove }) => {
+  // Options are edited as text and split on blur, so commas can be typed.
+  const [optionsText, setOptionsText] = useState(field.options.join(', '));
+  useEffect(() => setOptionsText(field.options.join(', ')), [field.options]);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-12 gap-3 items-start">
+      <div className="sm:col-span-4">
+        <input value={field.label} onChange={(e) => onChange({ ...field, label: e.target.value })} className={inputClass} />
+        <div className="text-xs text-slate-400 mt-1 font-mono">{`{{${CUSTOM_FIELD_PREFIX}${field.key}}}`}</div>
+      </div>
+      <div className="sm:col-span-3">
+        <Select<string>
+          value={field.type}
+          onChange={(v) => onChange({ ...field, type: v as CustomFieldType, options: hasOptions(v as CustomFieldType) ? field.options : [] })}
+          options={CUSTOM_FIELD_TYPES.map((t) => ({ value: t.value, label: t.label }))}
+        />
+      </div>
+      <div className="sm:col-span-4">
+        {hasOptions(field.type) && (
+          <input
+            value={optionsText}
+            onChange={(e) => setOptionsText(e.target.value)}
+            onBlur={() =>
+              onChange({ ...field, options: [...new Set(optionsText.split(',').map((o) => o.trim()).filter(Boolean))] })
+            }
+            className={inputClass}
+            placeholder="Options, comma-separated"
+          />
+        )}
+      </div>
+      <div className="sm:col-span-1 flex justify-end">
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-2 rounded-lg hover:bg-red-50 text-slate-500 hover:text-red-700"
+          title="Remove"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Settings → Custom Fields: the workspace's contact field definitions (saved with "Save Changes").
+export default function CustomFieldsSettings({
+  value,
+  onChange,
+}: {
+  value: CustomField[];
+  onChange: (next: CustomField[]) => void;
+}) {
+  const [label, setLabel] = useState('');
+  const [type, setType] = useState<CustomFieldType>('string');
+
+  const add = () => {
+    const name = label.trim();
+    if (!name) return;
+    const key = customFieldKey(name, value.map((f) => f.key));
+    onChange([...value, { key, label: name, type, options: [] }]);
+    setLabel('');
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <h2 className="text-lg font-semibold text-slate-800 mb-1">Custom Fields</h2>
+      <div className="text-xs text-slate-500 mb-4 border-b border-slate-100 pb-3">
+        Extra contact fields for your workspace. Edit them on contacts, import them from CSV columns named like the
+        field, filter on them in segments ("Custom Field"), set them in automations ("Update Field") and use them in
+        emails with the merge tag shown under each name. Removing a field keeps its values on contacts.
+      </div>
+      <div className="space-y-4">
+        {value.length === 0 && <div className="text-sm text-slate-500">No custom fields yet.</div>}
+        {value.map((f) => (
+          <FieldRow
+            key={f.key}
+            field={f}
+            onChange={(next) => onChange(value.map((x) => (x.key === f.key ? next : x)))}
+            onRemove={() => onChange(value.filter((x) => x.key !== f.key))}
+          />
+        ))}
+        <div className="grid grid-cols-1 sm:grid-cols-12 gap-3 items-center pt-3 border-t border-slate-100">
+          <div className="sm:col-span-4">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+              className={inputClass}
+              placeholder="New field name, e.g. Plan"
+            />
+          </div>
+          <div className="sm:col-span-3">
+            <Select<string>
+              value={type}
+              onChange={(v) => setType(v as CustomFieldType)}
+              options={CUSTOM_FIELD_TYPES.map((t) => ({ value: t.value, label: t.label }))}
+            />
+          </div>
+          <div className="sm:col-span-5">
+            <button
+              type="button"
+              onClick={add}
+              disabled={!label.trim()}
+              className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50 font-semibold text-sm flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add field
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
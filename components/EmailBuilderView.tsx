@@ -18,14 +18,10 @@ import {
   RectangleHorizontal,
   Share2,
   Palette as PaletteIcon,
-  Facebook,
-  Instagram,
-  Linkedin,
-  Youtube,
-  Twitter,
 } from 'lucide-react';
 import type { Campaign, EmailBlock, EmailStyle } from '../types';
 import { Select } from './ui/Select';
+import { DEFAULT_EMAIL_STYLE, renderEmailBlock, renderEmailHtml, renderEmailText } from '../supabase/functions/_shared/emailRender.ts';
 
 interface EmailBuilderViewProps {
   campaign: Campaign;
@@ -45,14 +41,6 @@ function defaultBlocks(name: string): EmailBlock[] {
   ];
 }
 
-const DEFAULT_STYLE: EmailStyle = {
-  primaryColor: '#0284c7',
-  secondaryColor: '#0f172a',
-  primaryFont: 'Inter',
-  secondaryFont: 'Inter',
-  textScale: 1,
-};
-
 function makeProductBlock(): EmailBlock {
   return {
     id: makeId('blk'),
@@ -94,6 +82,7 @@ function MinusIconFallback(props: { className?: string }) {
 export default function EmailBuilderView({ campaign, onBack, onUpdate }: EmailBuilderViewProps) {
   const [selectedBlockId, setSelectedBlockId] = useState<string | null>(campaign.emailBlocks?.[0]?.id ?? null);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [previewTab, setPreviewTab] = useState<'html' | 'text'>('html');
   const [panelTab, setPanelTab] = useState<'elements' | 'styles'>('elements');
   const [isTestSendOpen, setIsTestSendOpen] = useState(false);
   const [testEmail, setTestEmail] = useState('test@example.com');
@@ -101,7 +90,7 @@ export default function EmailBuilderView({ campaign, onBack, onUpdate }: EmailBu
 
   const blocks = useMemo(() => (campaign.emailBlocks && campaign.emailBlocks.length > 0 ? campaign.emailBlocks : defaultBlocks(campaign.name)), [campaign.emailBlocks, campaign.name]);
   const selected = useMemo(() => blocks.find(b => b.id === selectedBlockId) ?? null, [blocks, selectedBlockId]);
-  const style = campaign.emailStyle ?? DEFAULT_STYLE;
+  const style = campaign.emailStyle ?? DEFAULT_EMAIL_STYLE;
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -117,7 +106,7 @@ export default function EmailBuilderView({ campaign, onBack, onUpdate }: EmailBu
 
   const ensureStyle = () => {
     if (campaign.emailStyle) return;
-    onUpdate({ emailStyle: DEFAULT_STYLE });
+    onUpdate({ emailStyle: DEFAULT_EMAIL_STYLE });
   };
 
   const addBlock = (block: EmailBlock) => {
@@ -231,7 +220,6 @@ export default function EmailBuilderView({ campaign, onBack, onUpdate }: EmailBu
           />
         );
       }
-      return <div className="text-xl font-bold text-slate-900" style={{ fontFamily: style.secondaryFont || fontFamily }}>{b.text}</div>;
     }
     if (b.type === 'text') {
       if (isEditing) {
@@ -245,79 +233,9 @@ export default function EmailBuilderView({ campaign, onBack, onUpdate }: EmailBu
           />
         );
       }
-      return <div className="text-sm text-slate-700 whitespace-pre-line leading-relaxed">{b.text}</div>;
-    }
-    if (b.type === 'button') return (
-      <a
-        href={b.href}
-        onClick={(e) => e.preventDefault()}
-        className="inline-flex items-center justify-center px-4 py-2 rounded-lg text-white text-sm font-semibold"
-        style={{ background: style.primaryColor }}
-      >
-        {b.text}
-      </a>
-    );
-    if (b.type === 'image') return (
-      <img src={b.src} alt={b.alt ?? 'Image'} className="w-full rounded-lg border border-slate-200" />
-    );
-    if (b.type === 'product') {
-      return (
-        <div className="space-y-3">
-          {b.title && <div className="text-sm font-semibold text-slate-900">{b.title}</div>}
-          <div className="grid grid-cols-2 gap-3">
-            {b.items.map((it) => (
-              <a
-                key={it.id}
-                href={it.url || '#'}
-                onClick={(e) => e.preventDefault()}
-                className="block rounded-lg border border-slate-200 overflow-hidden hover:shadow-sm transition-shadow bg-white"
-              >
-                {it.imageUrl ? (
-                  <img src={it.imageUrl} alt={it.name} className="w-full h-28 object-cover border-b border-slate-100" />
-                ) : (
-                  <div className="w-full h-28 bg-slate-100 border-b border-slate-100" />
-                )}
-                <div className="p-2">
-                  <div className="text-xs font-semibold text-slate-900 truncate">{it.name}</div>
-                  <div className="text-xs text-slate-600 mt-0.5">{it.price}</div>
-                </div>
-              </a>
-            ))}
-          </div>
-        </div>
-      );
-    }
-    if (b.type === 'social') {
-      const iconFor = (network: EmailBlock extends any ? any : never) => {
-        switch (network) {
-          case 'Facebook': return Facebook;
-          case 'Instagram': return Instagram;
-          case 'LinkedIn': return Linkedin;
-          case 'YouTube': return Youtube;
-          case 'X': return Twitter;
-          default: return Share2;
-        }
-      };
-      return (
-        <div className="flex items-center justify-center gap-3">
-          {b.items.map((it) => (
-            <a
-              key={it.id}
-              href={it.url}
-              onClick={(e) => e.preventDefault()}
-              className="w-9 h-9 rounded-full border border-slate-200 bg-white flex items-center justify-center text-slate-700 hover:bg-slate-50 transition-colors"
-              title={it.network}
-            >
-              {(() => {
-                const Icon = iconFor(it.network);
-                return <Icon className="app-icon w-4 h-4" />;
-              })()}
-            </a>
-          ))}
-        </div>
-      );
     }
-    return <div className="w-full h-px bg-slate-200" />;
+    // Blocks render exactly as they are sent (shared renderer); links are inert on the canvas.
+    return <div dangerouslySetInnerHTML={{ __html: renderEmailBlock(b, { style }) }} />;
   };
 
   const SortableBlock: React.FC<{ b: EmailBlock }> = ({ b }) => {
@@ -680,6 +598,16 @@ export default function EmailBuilderView({ campaign, onBack, onUpdate }: EmailBu
                   className="w-full bg-transparent text-slate-900 font-semibold outline-none"
                   style={{ fontFamily: style.secondaryFont || fontFamily }}
                 />
+                <div className="mt-3 flex items-center gap-2 text-xs text-slate-500">
+                  <label className="font-semibold uppercase tracking-wider shrink-0">Topic</label>
+                  <input
+                    value={campaign.topicList ?? ''}
+                    onChange={(e) => onUpdate({ topicList: e.target.value })}
+                    placeholder="None (everyone in the audience)"
+                    title="Preference center topic: only contacts on this list receive the campaign"
+                    className="flex-1 bg-transparent text-slate-700 outline-none"
+                  />
+                </div>
               </div>
               <div className="p-5 space-y-4">
                 <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={onDragEnd}>
@@ -691,7 +619,7 @@ export default function EmailBuilderView({ campaign, onBack, onUpdate }: EmailBu
                 </DndContext>
               </div>
               <div className="px-5 py-4 border-t border-slate-100 text-xs text-slate-500 flex justify-between">
-                <span>Unsubscribe</span>
+                <span>Manage preferences or unsubscribe</span>
                 <span>© {new Date().getFullYear()} FlowMail</span>
               </div>
             </div>
@@ -821,17 +749,45 @@ export default function EmailBuilderView({ campaign, onBack, onUpdate }: EmailBu
                 <div className="text-xs text-slate-500 font-medium">Preview</div>
                 <div className="font-semibold text-slate-800">{campaign.subject || '(No subject)'}</div>
               </div>
-              <button onClick={() => setIsPreviewOpen(false)} className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50 font-medium">
-                Close
-              </button>
-            </div>
-            <div className="p-6 overflow-y-auto bg-slate-50">
-              <div className="max-w-2xl mx-auto bg-white border border-slate-200 rounded-xl shadow-sm p-6 space-y-4" style={emailVars}>
-                {blocks.map(b => (
-                  <div key={b.id}>{renderBlockPreview(b)}</div>
-                ))}
+              <div className="flex items-center gap-3">
+                <div className="grid grid-cols-2 gap-1 bg-slate-100 rounded-lg p-1">
+                  <button
+                    type="button"
+                    onClick={() => setPreviewTab('html')}
+                    className={`px-3 py-1 rounded-md text-sm font-semibold ${previewTab === 'html' ? 'bg-white border border-slate-200 text-slate-900' : 'text-slate-600 hover:text-slate-900'}`}
+                  >
+                    HTML
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPreviewTab('text')}
+                    className={`px-3 py-1 rounded-md text-sm font-semibold ${previewTab === 'text' ? 'bg-white border border-slate-200 text-slate-900' : 'text-slate-600 hover:text-slate-900'}`}
+                  >
+                    Plain text
+                  </button>
+                </div>
+                <button onClick={() => setIsPreviewOpen(false)} className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50 font-medium">
+                  Close
+                </button>
               </div>
             </div>
+            {previewTab === 'html' ? (
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={renderEmailHtml(blocks, { style, title: campaign.subject })}
+                className="w-full h-[70vh] border-0 bg-slate-50"
+              />
+            ) : (
+              <div className="h-[70vh] overflow-y-auto bg-slate-50 p-6">
+                <div className="text-xs text-slate-500 mb-3">
+                  Sent alongside the HTML for email clients that don't show HTML. Links are listed at the end; the unsubscribe link is added when sending.
+                </div>
+                <pre className="max-w-2xl mx-auto bg-white border border-slate-200 rounded-xl p-6 text-sm text-slate-700 whitespace-pre-wrap font-mono">
+                  {renderEmailText(blocks)}
+                </pre>
+              </div>
+            )}
           </div>
         </div>
       )}
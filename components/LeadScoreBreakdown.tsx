@@ -0,0 +1,100 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { getSupabase, getWorkspaceId } from '../services/supabase';
+
+type ChangeRow = {
+  id: string;
+  event_type: string | null;
+  rule_key: string;
+  rule_label: string;
+  delta: number;
+  occurred_at: string;
+};
+
+type RuleGroup = { key: string; label: string; total: number; rows: ChangeRow[] };
+
+const CHANGES_LIMIT = 500;
+
+const signed = (n: number) => (n > 0 ? `+${n}` : String(n));
+
+// Contributions to a contact's lead score (lead_score_changes, written by lead-score-worker), grouped by rule.
+const LeadScoreBreakdown: React.FC<{ contactId: string }> = ({ contactId }) => {
+  const [rows, setRows] = useState<ChangeRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const sb = getSupabase();
+      if (!sb) return;
+      setLoading(true);
+      const { data, error } = await sb
+        .from('lead_score_changes')
+        .select('id,event_type,rule_key,rule_label,delta,occurred_at')
+        .eq('workspace_id', getWorkspaceId() || 'default')
+        .eq('contact_id', contactId)
+        .order('occurred_at', { ascending: false })
+        .limit(CHANGES_LIMIT);
+      if (cancelled) return;
+      setRows(error ? [] : ((data ?? []) as ChangeRow[]));
+      setLoading(false);
+    })();
+    return () => { cancelled = true; };
+  }, [contactId]);
+
+  const groups = useMemo(() => {
+    const byKey = new Map<string, RuleGroup>();
+    for (const r of rows) {
+      const g = byKey.get(r.rule_key) ?? { key: r.rule_key, label: r.rule_label, total: 0, rows: [] };
+      g.total += Number(r.delta ?? 0);
+      g.rows.push(r);
+      byKey.set(r.rule_key, g);
+    }
+    return Array.from(byKey.values()).sort((a, b) => Math.abs(b.total) - Math.abs(a.total));
+  }, [rows]);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <h3 className="font-semibold text-slate-800 mb-4">Score Breakdown</h3>
+      {loading && <div className="text-slate-500 text-sm">Loading…</div>}
+      {!loading && groups.length === 0 && <div className="text-slate-500 text-sm">No score changes recorded yet.</div>}
+      <div className="divide-y divide-slate-100">
+        {groups.map((g) => (
+          <div key={g.key} className="py-2">
+            <button
+              type="button"
+              onClick={() => setOpen((prev) => ({ ...prev, [g.key]: !prev[g.key] }))}
+              className="w-full flex items-center justify-between gap-4 text-sm text-left"
+            >
+              <span className="flex items-center gap-2 text-slate-700 font-medium min-w-0">
+                {open[g.key] ? <ChevronDown className="app-icon w-4 h-4" /> : <ChevronRight className="app-icon w-4 h-4" />}
+                <span className="truncate">{g.label}</span>
+                <span className="text-xs text-slate-400 font-normal">×{g.rows.length}</span>
+              </span>
+              <span className={`font-semibold ${g.total < 0 ? 'text-red-600' : 'text-emerald-600'}`}>{signed(g.total)}</span>
+            </button>
+            {open[g.key] && (
+              <div className="mt-2 ml-6 space-y-1">
+                {g.rows.map((r) => (
+                  <div key={r.id} className="flex justify-between gap-4 text-xs text-slate-500">
+                    <span>
+                      {new Date(r.occurred_at).toLocaleString()}
+                      {r.event_type ? ` · ${r.event_type}` : ''}
+                    </span>
+                    <span className="font-medium text-slate-700">{signed(Number(r.delta ?? 0))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {rows.length >= CHANGES_LIMIT && (
+        <div className="text-xs text-slate-400 mt-3">Showing the latest {CHANGES_LIMIT} changes.</div>
+      )}
+    </div>
+  );
+};
+
+export default LeadScoreBreakdown;
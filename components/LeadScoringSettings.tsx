@@ -0,0 +1,451 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Select } from './ui/Select';
+import {
+  DEFAULT_LEAD_SCORING,
+  LEAD_SCORE_DECAY_MODES,
+  LEAD_SCORING_EVENT_TYPES,
+  LEAD_SCORING_RULE_KINDS,
+  SCORE_MODEL_KINDS,
+  scoreModelKey,
+  type FitRule,
+  type LeadScoreDecayMode,
+  type LeadScoringModel,
+  type LeadScoringRule,
+  type LeadScoringRuleKind,
+  type ScoreModel,
+  type ScoreModelKind,
+} from '../supabase/functions/_shared/leadScoring.ts';
+import {
+  SEGMENT_FIELDS,
+  segmentFieldMeta,
+  segmentOperatorTakesValue,
+  segmentOperatorsFor,
+} from '../supabase/functions/_shared/segments.ts';
+import type { SegmentCondition, SegmentField } from '../types';
+
+const inputClass = 'w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  onChange: (next: number) => void;
+  hint?: string;
+}> = ({ label, value, onChange, hint }) => {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+      <input type="number" value={value} onChange={(e) => onChange(Number(e.target.value) || 0)} className={inputClass} />
+      {hint && <div className="text-xs text-slate-500 mt-1">{hint}</div>}
+    </div>
+  );
+};
+
+const RulesEditor: React.FC<{ rules: LeadScoringRule[]; onChange: (next: LeadScoringRule[]) => void }> = ({ rules, onChange }) => {
+  const patchRule = (id: string, patch: Partial<LeadScoringRule>) =>
+    onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  return (
+    <div className="space-y-3">
+      {rules.map((rule) => (
+        <div key={rule.id} className="grid grid-cols-1 sm:grid-cols-12 gap-3 items-center">
+          <div className="sm:col-span-5">
+            <Select<string>
+              value={rule.kind}
+              onChange={(v) => patchRule(rule.id, { kind: v as LeadScoringRuleKind })}
+              options={LEAD_SCORING_RULE_KINDS.map((k) => ({ value: k.value, label: k.label }))}
+            />
+          </div>
+          <div className="sm:col-span-4">
+            <input
+              value={rule.contains}
+              onChange={(e) => patchRule(rule.id, { contains: e.target.value })}
+              className={inputClass}
+              placeholder={rule.kind === 'tag' ? 'e.g. vip' : rule.kind === 'form' ? 'e.g. webinar' : 'e.g. /pricing'}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <input
+              type="number"
+              value={rule.points}
+              onChange={(e) => patchRule(rule.id, { points: Number(e.target.value) || 0 })}
+              className={inputClass}
+              title="Points"
+            />
+          </div>
+          <div className="sm:col-span-1 flex justify-end">
+            <button
+              type="button"
+              onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+              className="p-2 rounded-lg hover:bg-red-50 text-slate-500 hover:text-red-700"
+              title="Remove rule"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rules, { id: `rule_${Date.now().toString(16)}`, kind: 'link', contains: '', points: 5 }])}
+        className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm flex items-center gap-2"
+      >
+        <Plus className="w-4 h-4" />
+        Add rule
+      </button>
+    </div>
+  );
+};
+
+/** Default value for a fit condition on `field` (as in the segment builder). */
+function fitCondition(field: SegmentField, id: string): SegmentCondition {
+  const meta = segmentFieldMeta(field);
+  const op = segmentOperatorsFor(field)[0].value;
+  if (meta?.kind === 'number') return { id, field, op, value: 0 };
+  if (meta?.kind === 'date') return { id, field, op, value: 30 };
+  return { id, field, op, value: meta?.options?.[0] ?? '' };
+}
+
+// Fit rules read the contact row only: activity history and other named scores are left out.
+const FIT_FIELDS = SEGMENT_FIELDS.filter((f) => f.kind !== 'activity' && f.kind !== 'sends' && f.value !== 'score');
+
+const FitRulesEditor: React.FC<{ rules: FitRule[]; onChange: (next: FitRule[]) => void }> = ({ rules, onChange }) => {
+  const patchRule = (id: string, patch: Partial<FitRule>) => onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  return (
+    <div className="space-y-3">
+      {rules.map((rule) => {
+        const c = rule.condition;
+        const meta = segmentFieldMeta(c.field);
+        const ops = segmentOperatorsFor(c.field);
+        const isDays = c.op === 'within_days' || c.op === 'not_within_days';
+        const setCondition = (patch: Partial<SegmentCondition>) => patchRule(rule.id, { condition: { ...c, ...patch } });
+        let valueInput: React.ReactNode = null;
+        if (segmentOperatorTakesValue(c.op)) {
+          if (meta?.kind === 'choice' && meta.options) {
+            valueInput = (
+              <Select<string>
+                value={String(c.value ?? '')}
+                onChange={(v) => setCondition({ value: v })}
+                options={meta.options.map((o) => ({ value: o, label: o }))}
+              />
+            );
+          } else if (meta?.kind === 'number' || isDays) {
+            valueInput = (
+              <input
+                type="number"
+                value={Number(c.value ?? 0)}
+                onChange={(e) => setCondition({ value: Number(e.target.value) })}
+                className={inputClass}
+                placeholder={isDays ? 'days' : undefined}
+              />
+            );
+          } else if (meta?.kind === 'date') {
+            valueInput = (
+              <input type="date" value={String(c.value ?? '')} onChange={(e) => setCondition({ value: e.target.value })} className={inputClass} />
+            );
+          } else {
+            valueInput = (
+              <input
+                value={String(c.value ?? '')}
+                onChange={(e) => setCondition({ value: e.target.value })}
+                className={inputClass}
+                placeholder={c.field === 'jobTitle' ? 'e.g. director' : ''}
+              />
+            );
+          }
+        }
+        return (
+          <div key={rule.id} className="grid grid-cols-1 sm:grid-cols-12 gap-3 items-center">
+            <div className="sm:col-span-4">
+              <Select<string>
+                value={c.field}
+                onChange={(v) => patchRule(rule.id, { condition: fitCondition(v as SegmentField, c.id) })}
+                options={FIT_FIELDS.map((f) => ({ value: f.value, label: f.label }))}
+              />
+            </div>
+            <div className="sm:col-span-3">
+              <Select<string>
+                value={c.op}
+                onChange={(v) => {
+                  const days = v === 'within_days' || v === 'not_within_days';
+                  // Date operators switch between a day count and a calendar date.
+                  const value =
+                    meta?.kind === 'date' && days !== (typeof c.value === 'number')
+                      ? days ? 30 : new Date().toISOString().slice(0, 10)
+                      : c.value;
+                  setCondition({ op: v as SegmentCondition['op'], value });
+                }}
+                options={ops}
+              />
+            </div>
+            <div className="sm:col-span-2">{valueInput}</div>
+            <div className="sm:col-span-2">
+              <input
+                type="number"
+                value={rule.points}
+                onChange={(e) => patchRule(rule.id, { points: Number(e.target.value) || 0 })}
+                className={inputClass}
+                title="Points"
+              />
+            </div>
+            <div className="sm:col-span-1 flex justify-end">
+              <button
+                type="button"
+                onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+                className="p-2 rounded-lg hover:bg-red-50 text-slate-500 hover:text-red-700"
+                title="Remove rule"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => {
+          const id = `fit_${Date.now().toString(16)}`;
+          onChange([...rules, { id, condition: fitCondition('jobTitle', `cond_${id}`), points: 10 }]);
+        }}
+        className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm flex items-center gap-2"
+      >
+        <Plus className="w-4 h-4" />
+        Add rule
+      </button>
+    </div>
+  );
+};
+
+const ScoreModelCard: React.FC<{ model: ScoreModel; onChange: (next: ScoreModel) => void; onRemove: () => void }> = ({
+  model,
+  onChange,
+  onRemove,
+}) => {
+  return (
+    <div className="p-4 rounded-xl border border-slate-200 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-12 gap-3 items-end">
+        <div className="sm:col-span-5">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+          <input value={model.name} onChange={(e) => onChange({ ...model, name: e.target.value })} className={inputClass} />
+          <div className="text-xs text-slate-500 mt-1">
+            Key <span className="font-mono">{model.key}</span> (used by segments and automations)
+          </div>
+        </div>
+        <div className="sm:col-span-4">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Scored from</label>
+          <Select<string>
+            value={model.kind}
+            onChange={(v) => onChange({ ...model, kind: v as ScoreModelKind })}
+            options={SCORE_MODEL_KINDS.map((k) => ({ value: k.value, label: k.label }))}
+          />
+        </div>
+        <div className="sm:col-span-3 flex justify-end">
+          <button
+            type="button"
+            onClick={onRemove}
+            className="px-3 py-2 rounded-lg border border-slate-300 text-slate-700 hover:bg-red-50 hover:text-red-700 font-medium text-sm flex items-center gap-2"
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove
+          </button>
+        </div>
+      </div>
+
+      {model.kind === 'fit' ? (
+        <div>
+          <div className="text-sm font-medium text-slate-700 mb-2">Points when the contact matches</div>
+          <FitRulesEditor rules={model.fit} onChange={(fit) => onChange({ ...model, fit })} />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {LEAD_SCORING_EVENT_TYPES.map((t) => (
+              <NumberField
+                key={t.value}
+                label={t.label}
+                value={model.events[t.value] ?? 0}
+                onChange={(n) => onChange({ ...model, events: { ...model.events, [t.value]: n } })}
+              />
+            ))}
+          </div>
+          <div>
+            <div className="text-sm font-medium text-slate-700 mb-2">Rules</div>
+            <RulesEditor rules={model.rules} onChange={(rules) => onChange({ ...model, rules })} />
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <NumberField label="Minimum score" value={model.min} onChange={(n) => onChange({ ...model, min: n })} />
+        <NumberField label="Maximum score" value={model.max} onChange={(n) => onChange({ ...model, max: n })} />
+      </div>
+    </div>
+  );
+};
+
+export default function LeadScoringSettings({
+  value,
+  onChange,
+  onRecalculate,
+  recalculating,
+  disabled,
+}: {
+  value: LeadScoringModel;
+  onChange: (next: LeadScoringModel) => void;
+  onRecalculate: () => void;
+  recalculating: boolean;
+  disabled?: boolean;
+}) {
+  const patchModel = (key: string, next: ScoreModel) =>
+    onChange({ ...value, models: value.models.map((m) => (m.key === key ? next : m)) });
+  const addModel = (kind: ScoreModelKind) => {
+    const name = kind === 'fit' ? 'Fit' : 'Engagement';
+    const key = scoreModelKey(name, value.models.map((m) => m.key));
+    const suffix = /_(\d+)$/.exec(key)?.[1];
+    onChange({
+      ...value,
+      models: [...value.models, { key, name: suffix ? `${name} ${suffix}` : name, kind, fit: [], events: {}, rules: [], min: 0, max: 100 }],
+    });
+  };
+
+  return (
+    <>
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-slate-800 mb-4 border-b border-slate-100 pb-3">Points per event</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {LEAD_SCORING_EVENT_TYPES.map((t) => (
+            <NumberField
+              key={t.value}
+              label={t.label}
+              value={value.events[t.value] ?? 0}
+              onChange={(n) => onChange({ ...value, events: { ...value.events, [t.value]: n } })}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-slate-800 mb-1">Rules</h2>
+        <div className="text-xs text-slate-500 mb-4 border-b border-slate-100 pb-3">
+          The first matching rule replaces the event's points (e.g. a pricing link click is worth 5 instead of 3).
+        </div>
+        <RulesEditor rules={value.rules} onChange={(rules) => onChange({ ...value, rules })} />
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-slate-800 mb-1">Decay</h2>
+        <div className="text-xs text-slate-500 mb-4 border-b border-slate-100 pb-3">
+          Scores drift back towards 0 over time, so old engagement stops counting as much. Applied once a day.
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Decay</label>
+            <Select<string>
+              value={value.decay.mode}
+              onChange={(v) => onChange({ ...value, decay: { ...value.decay, mode: v as LeadScoreDecayMode } })}
+              options={LEAD_SCORE_DECAY_MODES.map((m) => ({ value: m.value, label: m.label }))}
+            />
+          </div>
+          {value.decay.mode === 'half_life' && (
+            <NumberField
+              label="Half-life (days)"
+              value={value.decay.halfLifeDays}
+              onChange={(n) => onChange({ ...value, decay: { ...value.decay, halfLifeDays: Math.max(1, n) } })}
+              hint="A score halves over this many days without new activity."
+            />
+          )}
+          {value.decay.mode === 'linear' && (
+            <NumberField
+              label="Points lost per week"
+              value={value.decay.pointsPerWeek}
+              onChange={(n) => onChange({ ...value, decay: { ...value.decay, pointsPerWeek: Math.max(0, n) } })}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-slate-800 mb-4 border-b border-slate-100 pb-3">Inactivity, caps & temperature</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <NumberField
+            label="Inactive after (days)"
+            value={value.inactivity.days}
+            onChange={(n) => onChange({ ...value, inactivity: { ...value.inactivity, days: Math.max(0, Math.floor(n)) } })}
+            hint="No opens, clicks or purchases for this long. 0 turns it off."
+          />
+          <NumberField
+            label="Points when inactive"
+            value={value.inactivity.points}
+            onChange={(n) => onChange({ ...value, inactivity: { ...value.inactivity, points: n } })}
+            hint="Applied again every inactivity period, e.g. -5."
+          />
+          <NumberField label="Minimum score" value={value.min} onChange={(n) => onChange({ ...value, min: n })} />
+          <NumberField label="Maximum score" value={value.max} onChange={(n) => onChange({ ...value, max: n })} />
+          <NumberField label="Warm at score" value={value.warm} onChange={(n) => onChange({ ...value, warm: n })} />
+          <NumberField label="Hot at score" value={value.hot} onChange={(n) => onChange({ ...value, hot: n })} />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-slate-800 mb-1">Named scores</h2>
+        <div className="text-xs text-slate-500 mb-4 border-b border-slate-100 pb-3">
+          Extra scores kept next to the lead score, e.g. a demographic fit score. Use them in segments ("Named Score")
+          and in lead score checks in automations.
+        </div>
+        <div className="space-y-4">
+          {value.models.map((m) => (
+            <ScoreModelCard
+              key={m.key}
+              model={m}
+              onChange={(next) => patchModel(m.key, next)}
+              onRemove={() => onChange({ ...value, models: value.models.filter((x) => x.key !== m.key) })}
+            />
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => addModel('fit')}
+              className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add fit score
+            </button>
+            <button
+              type="button"
+              onClick={() => addModel('engagement')}
+              className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add engagement score
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <div className="text-sm font-semibold text-slate-800">Recalculate all scores</div>
+          <div className="text-xs text-slate-500">
+            Saves the model, then replays every contact's history with it. New events are always scored with the saved model.
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onChange(DEFAULT_LEAD_SCORING)}
+            className="px-4 py-2 rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50 font-medium text-sm"
+          >
+            Reset to defaults
+          </button>
+          <button
+            type="button"
+            onClick={onRecalculate}
+            disabled={recalculating || disabled}
+            className="px-4 py-2 rounded-lg bg-slate-900 hover:bg-slate-800 disabled:opacity-50 text-white font-medium text-sm"
+          >
+            {recalculating ? 'Recalculating…' : 'Save & recalculate'}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -2,7 +2,9 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { X, Save } from 'lucide-react';
 import { getSupabase, getWorkspaceId } from '../services/supabase';
 import { Select } from './ui/Select';
-import SegmentBuilderModal, { type SegmentDefinition } from './SegmentBuilderModal';
+import SegmentBuilderModal, { describeSegment, type SegmentDefinition } from './SegmentBuilderModal';
+import SavedSegmentSelect from './SavedSegmentSelect';
+import { useAppStore } from '../store/AppStore';
 
 type Cadence = 'weekly' | 'monthly';
 
@@ -23,7 +25,10 @@ export default function NewsletterScheduleModal({
   const [status, setStatus] = useState<'active' | 'paused'>('active');
   const [name, setName] = useState<string>('Newsletter');
   const [segment, setSegment] = useState<SegmentDefinition>({ logic: 'AND', conditions: [] });
+  const [segmentId, setSegmentId] = useState('');
   const [segOpen, setSegOpen] = useState(false);
+  const { state } = useAppStore();
+  const segments = state.segments ?? [];
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
@@ -36,6 +41,7 @@ export default function NewsletterScheduleModal({
     setStatus('active');
     setName('Newsletter');
     setSegment({ logic: 'AND', conditions: [] });
+    setSegmentId('');
     setSaving(false);
   }, [isOpen, campaignId]);
 
@@ -60,7 +66,9 @@ export default function NewsletterScheduleModal({
         timezone,
         next_run_at: nextRunAt,
         name,
-        segment_json: segment,
+        // A saved segment is resolved at send time, so later edits apply to this schedule.
+        segment_id: segmentId || null,
+        segment_json: segmentId ? null : segment,
       };
       const { error } = await sb.from('newsletter_schedules').insert(row);
       if (error) throw new Error(error.message);
@@ -173,15 +181,22 @@ export default function NewsletterScheduleModal({
             <div className="flex items-center justify-between">
               <div>
                 <div className="text-sm font-semibold text-slate-900">Recipients (segment)</div>
-                <div className="text-xs text-slate-500">Choose who should receive it.</div>
+                <div className="text-xs text-slate-500">
+                  {segmentId ? 'Choose who should receive it.' : describeSegment(segment)}
+                </div>
               </div>
-              <button
-                type="button"
-                className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
-                onClick={() => setSegOpen(true)}
-              >
-                Edit segment
-              </button>
+              {!segmentId && (
+                <button
+                  type="button"
+                  className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
+                  onClick={() => setSegOpen(true)}
+                >
+                  Edit segment
+                </button>
+              )}
+            </div>
+            <div className="mt-3">
+              <SavedSegmentSelect segments={segments} value={segmentId} onChange={setSegmentId} />
             </div>
           </div>
         </div>
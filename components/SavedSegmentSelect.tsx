@@ -0,0 +1,34 @@
+import React from 'react';
+import type { Segment } from '../types';
+import { Select } from './ui/Select';
+import { describeSegment } from './SegmentBuilderModal';
+
+/**
+ * Picks a saved segment by id. An empty value means "use the caller's own (inline) conditions".
+ * The chosen segment is referenced, not copied: later edits on the Segments screen apply.
+ */
+export default function SavedSegmentSelect({
+  segments,
+  value,
+  onChange,
+  customLabel = 'Custom conditions',
+}: {
+  segments: Segment[];
+  value: string;
+  onChange: (segmentId: string) => void;
+  customLabel?: string;
+}) {
+  const selected = segments.find((s) => s.id === value) ?? null;
+
+  return (
+    <div className="space-y-1">
+      <Select<string>
+        value={selected ? selected.id : ''}
+        onChange={onChange}
+        options={[{ value: '', label: customLabel }, ...segments.map((s) => ({ value: s.id, label: s.name }))]}
+      />
+      {selected && <div className="text-xs text-slate-500">{describeSegment(selected.definition)}</div>}
+      {value && !selected && <div className="text-xs text-amber-700">The saved segment was deleted. Pick another one.</div>}
+    </div>
+  );
+}
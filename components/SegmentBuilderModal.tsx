@@ -1,53 +1,374 @@
-import React, { useMemo, useState } from 'react';
-import { X, Plus, Trash2 } from 'lucide-react';
-import type { Contact } from '../types';
+import React, { useState } from 'react';
+import { X, Plus, Trash2, FolderPlus } from 'lucide-react';
+import type { Contact, CustomField, SegmentCondition, SegmentDefinition, SegmentField, SegmentGroup, SegmentLogic, SegmentNode } from '../types';
 import { Select } from './ui/Select';
+import { useAppStore } from '../store/AppStore';
+import { useScoreModels } from '../services/scoreModels';
+import { useCustomFields } from '../services/customFields';
+import { CUSTOM_FIELD_SEGMENT_KINDS } from '../supabase/functions/_shared/customFields.ts';
+import {
+  SEGMENT_FIELDS,
+  SEGMENT_MAX_RECENT_EMAILS,
+  evalSegment,
+  isSegmentGroup,
+  segmentConditionKind,
+  segmentFieldMeta,
+  segmentOperatorTakesValue,
+  segmentOperatorsFor,
+  segmentUsesActivity,
+  type SegmentActivity,
+} from '../supabase/functions/_shared/segments.ts';
 
-export type SegmentLogic = 'AND' | 'OR';
+export type { SegmentCondition, SegmentDefinition, SegmentLogic } from '../types';
+export { describeSegment } from '../supabase/functions/_shared/segments.ts';
 
-export type SegmentCondition =
-  | { id: string; field: 'lifecycleStage'; op: 'equals'; value: string }
-  | { id: string; field: 'temperature'; op: 'equals'; value: string }
-  | { id: string; field: 'status'; op: 'equals'; value: Contact['status'] }
-  | { id: string; field: 'tag'; op: 'contains'; value: string }
-  | { id: string; field: 'list'; op: 'contains'; value: string }
-  | { id: string; field: 'leadScore'; op: '>=' | '<=' | '>' | '<'; value: number };
-
-export type SegmentDefinition = {
-  logic: SegmentLogic;
-  conditions: SegmentCondition[];
-};
+// Groups nest at most this deep (root = 1); deeper logic is rarely readable.
+const MAX_DEPTH = 3;
 
 function makeId(prefix: string) {
   return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
 }
 
+/** Contact as the snake_case row the shared segment engine evaluates. */
+function contactRow(contact: Contact) {
+  return {
+    status: contact.status,
+    tags: contact.tags ?? [],
+    lists: contact.lists ?? [],
+    lifecycle_stage: contact.lifecycleStage,
+    temperature: contact.temperature,
+    lead_score: contact.leadScore,
+    scores: contact.scores ?? {},
+    attributes: contact.attributes ?? {},
+    company: contact.company,
+    job_title: contact.jobTitle,
+    location: contact.location,
+    timezone: contact.timezone,
+    acquisition_source: contact.acquisitionSource,
+    total_opens: contact.totalOpens,
+    total_clicks: contact.totalClicks,
+    total_purchases: contact.totalPurchases,
+    last_open_date: contact.lastOpenDate,
+    last_click_date: contact.lastClickDate,
+    last_purchase_date: contact.lastPurchaseDate,
+    created_at: contact.createdAt,
+  };
+}
+
+/** The contact's timeline and recent sends as the contact_events / email_sends rows the engine reads. */
+function contactActivity(contact: Contact): SegmentActivity {
+  return {
+    events: (contact.events ?? []).map((e) => ({
+      event_type: e.type,
+      occurred_at: e.occurredAt,
+      campaign_id: e.campaignId ?? null,
+      meta: e.meta ?? null,
+    })),
+    sends: (contact.recentSends ?? []).map((s) => ({ campaign_id: s.campaignId, sent_at: s.sentAt, opened_at: s.openedAt ?? null })),
+  };
+}
+
 export function evaluateSegment(contact: Contact, segment: SegmentDefinition): boolean {
-  const norm = (s: unknown) => String(s ?? '').trim().toLowerCase();
-  const stage = norm(contact.lifecycleStage);
-  const temp = norm(contact.temperature);
+  return evalSegment(contactRow(contact), segment, segmentUsesActivity(segment) ? contactActivity(contact) : null);
+}
+
+/** Condition with the default operator and value for a field (custom fields: for the chosen field's type). */
+function conditionFor(field: SegmentField, id = makeId('cond'), custom?: CustomField): SegmentCondition {
+  const meta = segmentFieldMeta(field);
+  const extra: Partial<SegmentCondition> = custom ? { attribute: custom.key, attributeKind: CUSTOM_FIELD_SEGMENT_KINDS[custom.type] } : {};
+  const kind = segmentConditionKind({ field, ...extra });
+  const op = segmentOperatorsFor(field, extra.attributeKind)[0].value;
+  if (kind === 'number') return { id, field, op, value: custom ? 0 : 50, ...extra };
+  if (kind === 'date') return { id, field, op, value: 30, ...extra };
+  if (kind === 'activity') return { id, field, op, value: '', count: 1 };
+  if (kind === 'sends') return { id, field, op, value: 3 };
+  return { id, field, op, value: (custom ? customChoices(custom) : meta?.options)?.[0] ?? '', ...extra };
+}
+
+/** Values a "Custom Field" condition offers to pick from (booleans compare as "true" / "false"). */
+function customChoices(field: CustomField): string[] {
+  return field.type === 'boolean' ? ['true', 'false'] : field.options;
+}
+
+const fieldClass = 'bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none';
+const inputClass = `w-full ${fieldClass}`;
+
+const ConditionRow: React.FC<{
+  condition: SegmentCondition;
+  onChange: (next: SegmentCondition) => void;
+  onRemove: () => void;
+}> = ({ condition, onChange, onRemove }) => {
+  const { state } = useAppStore();
+  const scoreModels = useScoreModels();
+  const customFields = useCustomFields();
+  const meta = segmentFieldMeta(condition.field);
+  const custom = condition.field === 'custom' ? customFields.find((f) => f.key === condition.attribute) : undefined;
+  const kind = segmentConditionKind(condition);
+  const choices = custom ? customChoices(custom) : meta?.options;
+  const ops = segmentOperatorsFor(condition.field, condition.attributeKind);
+  const op = ops.some(o => o.value === condition.op) ? condition.op : ops[0].value;
+  const isDays = op === 'within_days' || op === 'not_within_days';
 
-  const evalCond = (c: SegmentCondition) => {
-    if (c.field === 'lifecycleStage') return stage === norm(c.value);
-    if (c.field === 'temperature') return temp === norm(c.value);
-    if (c.field === 'status') return contact.status === c.value;
-    if (c.field === 'tag') return (contact.tags ?? []).some(t => norm(t) === norm(c.value) || norm(t).includes(norm(c.value)));
-    if (c.field === 'list') return (contact.lists ?? []).some(t => norm(t) === norm(c.value) || norm(t).includes(norm(c.value)));
-    if (c.field === 'leadScore') {
-      const s = typeof contact.leadScore === 'number' ? contact.leadScore : 0;
-      if (c.op === '>=') return s >= c.value;
-      if (c.op === '<=') return s <= c.value;
-      if (c.op === '>') return s > c.value;
-      return s < c.value;
+  const setOp = (next: string) => {
+    const patch: SegmentCondition = { ...condition, op: next as SegmentCondition['op'] };
+    // Date operators switch between a day count and a calendar date.
+    if (kind === 'date') {
+      const days = next === 'within_days' || next === 'not_within_days';
+      if (days && typeof condition.value !== 'number') patch.value = 30;
+      if (!days && typeof condition.value === 'number') patch.value = new Date().toISOString().slice(0, 10);
     }
-    return true;
+    onChange(patch);
   };
 
-  if (segment.conditions.length === 0) return true;
-  return segment.logic === 'AND'
-    ? segment.conditions.every(evalCond)
-    : segment.conditions.some(evalCond);
-}
+  let valueInput: React.ReactNode = null;
+  if (segmentOperatorTakesValue(op)) {
+    if (condition.field === 'openedEmail') {
+      valueInput = (
+        <Select<string>
+          value={String(condition.value ?? '')}
+          onChange={(v) =>
+            onChange({ ...condition, value: v, valueLabel: state.campaigns.find((c) => c.id === v)?.name || undefined })
+          }
+          options={[
+            { value: '', label: 'Any email' },
+            ...state.campaigns.map((c) => ({ value: c.id, label: c.name })),
+          ]}
+        />
+      );
+    } else if (meta?.kind === 'activity') {
+      valueInput = (
+        <input
+          value={String(condition.value ?? '')}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          className={inputClass}
+          placeholder={condition.field === 'clickedLink' ? 'URL contains, e.g. /pricing (blank = any)' : 'Form name (blank = any)'}
+        />
+      );
+    } else if (meta?.kind === 'sends') {
+      valueInput = (
+        <input
+          type="number"
+          min={1}
+          max={SEGMENT_MAX_RECENT_EMAILS}
+          value={Number(condition.value ?? 1)}
+          onChange={(e) => onChange({ ...condition, value: Number(e.target.value) })}
+          className={inputClass}
+          placeholder="emails"
+        />
+      );
+    } else if (kind === 'choice' && choices && choices.length > 0) {
+      valueInput = (
+        <Select<string>
+          value={String(condition.value)}
+          onChange={(v) => onChange({ ...condition, value: v })}
+          options={choices.map(o => ({ value: o, label: o }))}
+        />
+      );
+    } else if (kind === 'number' || isDays) {
+      valueInput = (
+        <input
+          type="number"
+          min={0}
+          value={Number(condition.value ?? 0)}
+          onChange={(e) => onChange({ ...condition, value: Number(e.target.value) })}
+          className={inputClass}
+          placeholder={isDays ? 'days' : undefined}
+        />
+      );
+    } else if (kind === 'date') {
+      valueInput = (
+        <input
+          type="date"
+          value={String(condition.value ?? '')}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          className={inputClass}
+        />
+      );
+    } else {
+      valueInput = (
+        <input
+          value={String(condition.value ?? '')}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          className={inputClass}
+          placeholder={condition.field === 'tag' ? 'e.g. webinar_signup' : condition.field === 'list' ? 'e.g. newsletter' : ''}
+        />
+      );
+    }
+  }
+
+  return (
+    <div className="p-3 rounded-xl border border-slate-200 bg-white">
+      <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center">
+        <div className="md:col-span-4">
+          <Select<string>
+            value={condition.field}
+            onChange={(v) => onChange(conditionFor(v as SegmentField, condition.id))}
+            options={SEGMENT_FIELDS.map(f => ({ value: f.value, label: f.label }))}
+          />
+        </div>
+        <div className="md:col-span-3">
+          <Select<string> value={op} onChange={setOp} options={ops} />
+        </div>
+        <div className="md:col-span-4">{valueInput}</div>
+        <div className="md:col-span-1 flex justify-end">
+          <button
+            type="button"
+            onClick={onRemove}
+            className="p-2 rounded-lg hover:bg-red-50 text-slate-500 hover:text-red-700"
+            title="Remove"
+          >
+            <Trash2 className="app-icon w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      {condition.field === 'score' && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+          <span>Score</span>
+          <Select<string>
+            value={condition.scoreKey ?? ''}
+            onChange={(v) => onChange({ ...condition, scoreKey: v || undefined })}
+            options={[
+              { value: '', label: scoreModels.length ? 'Choose a score' : 'No named scores (Settings → Lead Scoring)' },
+              ...scoreModels.map((m) => ({ value: m.key, label: m.name })),
+            ]}
+          />
+        </div>
+      )}
+      {condition.field === 'custom' && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+          <span>Field</span>
+          <Select<string>
+            value={condition.attribute ?? ''}
+            onChange={(v) => {
+              const next = customFields.find((f) => f.key === v);
+              onChange(next ? conditionFor('custom', condition.id, next) : { ...condition, attribute: undefined });
+            }}
+            options={[
+              { value: '', label: customFields.length ? 'Choose a field' : 'No custom fields (Settings → Custom Fields)' },
+              ...customFields.map((f) => ({ value: f.key, label: f.label })),
+            ]}
+          />
+        </div>
+      )}
+      {meta?.kind === 'activity' && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+          <span>{op === 'fewer_than' ? 'Fewer than' : 'At least'}</span>
+          <input
+            type="number"
+            min={1}
+            value={Number(condition.count ?? 1)}
+            onChange={(e) => onChange({ ...condition, count: Math.max(1, Number(e.target.value) || 1) })}
+            className={`w-20 ${fieldClass}`}
+          />
+          <span>time(s), in the last</span>
+          <input
+            type="number"
+            min={0}
+            value={condition.days ?? ''}
+            onChange={(e) => onChange({ ...condition, days: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+            className={`w-24 ${fieldClass}`}
+            placeholder="ever"
+          />
+          <span>days</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const GroupEditor: React.FC<{
+  group: SegmentDefinition | SegmentGroup;
+  depth: number;
+  onChange: (next: SegmentDefinition | SegmentGroup) => void;
+  onRemove?: () => void;
+}> = ({ group, depth, onChange, onRemove }) => {
+  const setNodes = (conditions: SegmentNode[]) => onChange({ ...group, conditions });
+  const patchNode = (id: string, next: SegmentNode) => setNodes(group.conditions.map(n => (n.id === id ? next : n)));
+  const removeNode = (id: string) => setNodes(group.conditions.filter(n => n.id !== id));
+
+  return (
+    <div className={depth > 1 ? 'p-3 rounded-xl border border-sky-200 bg-sky-50/40 space-y-3' : 'space-y-3'}>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-sm font-semibold text-slate-700">{depth > 1 ? 'Group: match' : 'Match'}</div>
+        <Select<SegmentLogic>
+          value={group.logic}
+          onChange={(v) => onChange({ ...group, logic: v })}
+          options={[
+            { value: 'AND', label: 'ALL conditions (AND)' },
+            { value: 'OR', label: 'ANY condition (OR)' },
+          ]}
+        />
+        <label className="flex items-center gap-2 text-sm text-slate-700 select-none">
+          <input
+            type="checkbox"
+            checked={group.negate === true}
+            onChange={(e) => onChange({ ...group, negate: e.target.checked || undefined })}
+            className="h-4 w-4"
+          />
+          NOT (exclude matches)
+        </label>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm flex items-center gap-2"
+            onClick={() => setNodes([...group.conditions, conditionFor('lifecycleStage')])}
+          >
+            <Plus className="app-icon w-4 h-4" />
+            Add condition
+          </button>
+          {depth < MAX_DEPTH && (
+            <button
+              type="button"
+              className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm flex items-center gap-2"
+              onClick={() => setNodes([
+                ...group.conditions,
+                { type: 'group', id: makeId('grp'), logic: group.logic === 'AND' ? 'OR' : 'AND', conditions: [conditionFor('lifecycleStage')] },
+              ])}
+            >
+              <FolderPlus className="app-icon w-4 h-4" />
+              Add group
+            </button>
+          )}
+          {onRemove && (
+            <button
+              type="button"
+              onClick={onRemove}
+              className="p-2 rounded-lg hover:bg-red-50 text-slate-500 hover:text-red-700"
+              title="Remove group"
+            >
+              <Trash2 className="app-icon w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {group.conditions.length === 0 && (
+        <div className="text-sm text-slate-500">
+          {depth > 1 ? 'Empty group (matches everyone).' : 'No conditions yet. Add one to start filtering.'}
+        </div>
+      )}
+
+      {group.conditions.map((node) =>
+        isSegmentGroup(node) ? (
+          <GroupEditor
+            key={node.id}
+            group={node}
+            depth={depth + 1}
+            onChange={(next) => patchNode(node.id, next as SegmentGroup)}
+            onRemove={() => removeNode(node.id)}
+          />
+        ) : (
+          <ConditionRow
+            key={node.id}
+            condition={node}
+            onChange={(next) => patchNode(node.id, next)}
+            onRemove={() => removeNode(node.id)}
+          />
+        ),
+      )}
+    </div>
+  );
+};
 
 export default function SegmentBuilderModal({
   isOpen,
@@ -68,207 +389,28 @@ export default function SegmentBuilderModal({
     setLocal(value);
   }, [isOpen, value.logic, value.conditions.length]);
 
-  const canApply = useMemo(() => true, []);
-
   if (!isOpen) return null;
 
-  const update = (patch: Partial<SegmentDefinition>) => {
-    setLocal(prev => ({ ...prev, ...patch }));
-  };
-
-  const addCondition = () => {
-    const cond: SegmentCondition = { id: makeId('cond'), field: 'lifecycleStage', op: 'equals', value: 'lead' };
-    update({ conditions: [...local.conditions, cond] });
-  };
-
-  const removeCondition = (id: string) => {
-    update({ conditions: local.conditions.filter(c => c.id !== id) });
-  };
-
-  const patchCondition = (id: string, patch: Partial<SegmentCondition>) => {
-    update({
-      conditions: local.conditions.map(c => (c.id === id ? ({ ...c, ...patch } as any) : c)),
-    });
-  };
-
   const apply = () => {
-    if (!canApply) return;
     onChange(local);
     onClose();
   };
 
-  const fields = [
-    { value: 'lifecycleStage', label: 'Lifecycle Stage' },
-    { value: 'temperature', label: 'Temperature' },
-    { value: 'status', label: 'Status' },
-    { value: 'tag', label: 'Tag' },
-    { value: 'list', label: 'List' },
-    { value: 'leadScore', label: 'Lead Score' },
-  ] as const;
-
-  const lifecycleValues = [
-    { value: 'cold', label: 'cold' },
-    { value: 'lead', label: 'lead' },
-    { value: 'mql', label: 'mql' },
-    { value: 'customer', label: 'customer' },
-    { value: 'churned', label: 'churned' },
-  ];
-
-  const tempValues = [
-    { value: 'cold', label: 'cold' },
-    { value: 'warm', label: 'warm' },
-    { value: 'hot', label: 'hot' },
-  ];
-
   return (
     <div className="fixed inset-0 bg-black/50 z-[110] flex items-center justify-center backdrop-blur-sm p-4">
       <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
         <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
           <div>
             <div className="text-lg font-semibold text-slate-900">Advanced Segmentation</div>
-            <div className="text-xs text-slate-500">Build AND/OR conditions (client-side filtering for now).</div>
+            <div className="text-xs text-slate-500">Combine conditions with AND/OR, nest groups, and use NOT to exclude.</div>
           </div>
           <button onClick={onClose} className="text-slate-500 hover:text-slate-700">
             <X className="app-icon w-5 h-5" />
           </button>
         </div>
 
-        <div className="p-6 space-y-4 overflow-y-auto">
-          <div className="flex items-center gap-3">
-            <div className="text-sm font-semibold text-slate-700">Match</div>
-            <Select<SegmentLogic>
-              value={local.logic}
-              onChange={(v) => update({ logic: v })}
-              options={[
-                { value: 'AND', label: 'ALL conditions (AND)' },
-                { value: 'OR', label: 'ANY condition (OR)' },
-              ]}
-            />
-            <button
-              type="button"
-              className="ml-auto px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm flex items-center gap-2"
-              onClick={addCondition}
-            >
-              <Plus className="app-icon w-4 h-4" />
-              Add condition
-            </button>
-          </div>
-
-          <div className="space-y-3">
-            {local.conditions.length === 0 && (
-              <div className="text-sm text-slate-500">No conditions yet. Add one to start filtering.</div>
-            )}
-
-            {local.conditions.map((c) => {
-              return (
-                <div key={c.id} className="p-4 rounded-xl border border-slate-200 bg-white">
-                  <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center">
-                    <div className="md:col-span-4">
-                      <Select<any>
-                        value={c.field}
-                        onChange={(v) => {
-                          if (v === 'leadScore') {
-                            patchCondition(c.id, { field: 'leadScore', op: '>=', value: 50 } as any);
-                          } else if (v === 'status') {
-                            patchCondition(c.id, { field: 'status', op: 'equals', value: 'Subscribed' } as any);
-                          } else if (v === 'tag') {
-                            patchCondition(c.id, { field: 'tag', op: 'contains', value: '' } as any);
-                          } else if (v === 'list') {
-                            patchCondition(c.id, { field: 'list', op: 'contains', value: '' } as any);
-                          } else if (v === 'temperature') {
-                            patchCondition(c.id, { field: 'temperature', op: 'equals', value: 'warm' } as any);
-                          } else {
-                            patchCondition(c.id, { field: 'lifecycleStage', op: 'equals', value: 'lead' } as any);
-                          }
-                        }}
-                        options={fields as any}
-                      />
-                    </div>
-
-                    <div className="md:col-span-3">
-                      {c.field === 'leadScore' ? (
-                        <Select<any>
-                          value={c.op}
-                          onChange={(v) => patchCondition(c.id, { op: v } as any)}
-                          options={[
-                            { value: '>=', label: '>=' },
-                            { value: '<=', label: '<=' },
-                            { value: '>', label: '>' },
-                            { value: '<', label: '<' },
-                          ]}
-                        />
-                      ) : (
-                        <Select<any>
-                          value={c.op}
-                          onChange={(v) => patchCondition(c.id, { op: v } as any)}
-                          options={[{ value: 'equals', label: 'equals' }, { value: 'contains', label: 'contains' }].filter((o) =>
-                            c.field === 'tag' || c.field === 'list' ? o.value === 'contains' : o.value === 'equals'
-                          )}
-                        />
-                      )}
-                    </div>
-
-                    <div className="md:col-span-4">
-                      {c.field === 'lifecycleStage' && (
-                        <Select<string>
-                          value={String(c.value)}
-                          onChange={(v) => patchCondition(c.id, { value: v } as any)}
-                          options={lifecycleValues}
-                        />
-                      )}
-                      {c.field === 'temperature' && (
-                        <Select<string>
-                          value={String(c.value)}
-                          onChange={(v) => patchCondition(c.id, { value: v } as any)}
-                          options={tempValues}
-                        />
-                      )}
-                      {c.field === 'status' && (
-                        <Select<Contact['status']>
-                          value={c.value as any}
-                          onChange={(v) => patchCondition(c.id, { value: v } as any)}
-                          options={[
-                            { value: 'Subscribed', label: 'Subscribed' },
-                            { value: 'Unsubscribed', label: 'Unsubscribed' },
-                            { value: 'Bounced', label: 'Bounced' },
-                          ]}
-                        />
-                      )}
-                      {(c.field === 'tag' || c.field === 'list') && (
-                        <input
-                          value={String((c as any).value ?? '')}
-                          onChange={(e) => patchCondition(c.id, { value: e.target.value } as any)}
-                          className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
-                          placeholder={c.field === 'tag' ? 'e.g. webinar_signup' : 'e.g. newsletter'}
-                        />
-                      )}
-                      {c.field === 'leadScore' && (
-                        <input
-                          type="number"
-                          min={0}
-                          max={100}
-                          value={Number((c as any).value ?? 0)}
-                          onChange={(e) => patchCondition(c.id, { value: Number(e.target.value) } as any)}
-                          className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
-                        />
-                      )}
-                    </div>
-
-                    <div className="md:col-span-1 flex justify-end">
-                      <button
-                        type="button"
-                        onClick={() => removeCondition(c.id)}
-                        className="p-2 rounded-lg hover:bg-red-50 text-slate-500 hover:text-red-700"
-                        title="Remove"
-                      >
-                        <Trash2 className="app-icon w-4 h-4" />
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+        <div className="p-6 overflow-y-auto">
+          <GroupEditor group={local} depth={1} onChange={(next) => setLocal(next as SegmentDefinition)} />
         </div>
 
         <div className="px-6 py-4 border-t border-slate-100 bg-white flex items-center justify-end gap-2">
@@ -286,5 +428,3 @@ export default function SegmentBuilderModal({
     </div>
   );
 }
-
-
@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, FileEdit, Trash2, X, Save } from 'lucide-react';
+import type { Automation, Contact, Segment, SegmentDefinition } from '../types';
+import { useAppStore } from '../store/AppStore';
+import { Button } from './ui/Button';
+import ConfirmDialog from './ConfirmDialog';
+import SegmentBuilderModal, { describeSegment, evaluateSegment } from './SegmentBuilderModal';
+
+const EMPTY_SEGMENT: SegmentDefinition = { logic: 'AND', conditions: [] };
+
+function countMatches(contacts: Contact[], definition: SegmentDefinition): { total: number; subscribed: number } {
+  let total = 0;
+  let subscribed = 0;
+  for (const c of contacts) {
+    if (!evaluateSegment(c, definition)) continue;
+    total++;
+    if (c.status === 'Subscribed') subscribed++;
+  }
+  return { total, subscribed };
+}
+
+/** Automations with a segment trigger pointing at this saved segment. */
+function automationsUsing(automations: Automation[], segmentId: string): Automation[] {
+  return automations.filter((a) => (a.steps ?? []).some((s) => (s.config as any)?.segmentId === segmentId));
+}
+
+function SegmentEditorModal({
+  isOpen,
+  initial,
+  contacts,
+  onClose,
+  onSave,
+}: {
+  isOpen: boolean;
+  initial: Segment | null;
+  contacts: Contact[];
+  onClose: () => void;
+  onSave: (patch: { name: string; description?: string; definition: SegmentDefinition }) => void;
+}) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [definition, setDefinition] = useState<SegmentDefinition>(EMPTY_SEGMENT);
+  const [builderOpen, setBuilderOpen] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(initial?.name ?? '');
+    setDescription(initial?.description ?? '');
+    setDefinition(initial?.definition ?? EMPTY_SEGMENT);
+    setBuilderOpen(false);
+  }, [isOpen, initial]);
+
+  const matches = useMemo(() => countMatches(contacts, definition), [contacts, definition]);
+
+  if (!isOpen) return null;
+
+  const canSave = name.trim().length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <div className="font-semibold text-lg text-slate-900">{initial ? 'Edit segment' : 'New segment'}</div>
+            <div className="text-xs text-slate-500">Schedules, bulk sends and automations using it pick up changes automatically.</div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="app-icon w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+              placeholder="e.g. Hot leads"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Description (optional)</label>
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none"
+            />
+          </div>
+          <div className="p-4 rounded-xl border border-slate-200 bg-white">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="text-sm font-semibold text-slate-900">Conditions</div>
+                <div className="text-xs text-slate-500">{describeSegment(definition)}</div>
+              </div>
+              <button
+                type="button"
+                className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
+                onClick={() => setBuilderOpen(true)}
+              >
+                Edit conditions
+              </button>
+            </div>
+            <div className="mt-3 text-sm text-slate-700">
+              Matches <span className="font-semibold">{matches.total.toLocaleString()}</span> contacts
+              ({matches.subscribed.toLocaleString()} subscribed).
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 bg-white flex items-center justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50 font-semibold">
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              if (!canSave) return;
+              onSave({ name: name.trim(), description: description.trim() || undefined, definition });
+              onClose();
+            }}
+            disabled={!canSave}
+            className="px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-700 text-white font-semibold flex items-center gap-2 disabled:opacity-50"
+          >
+            <Save className="app-icon w-4 h-4" />
+            Save segment
+          </button>
+        </div>
+
+        <SegmentBuilderModal isOpen={builderOpen} onClose={() => setBuilderOpen(false)} value={definition} onChange={setDefinition} />
+      </div>
+    </div>
+  );
+}
+
+export default function SegmentsView() {
+  const { state, actions } = useAppStore();
+  const contacts = state.contacts ?? [];
+  const segments = state.segments ?? [];
+  const automations = state.automations ?? [];
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<Segment | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Segment | null>(null);
+
+  // Recomputed whenever contacts or segments change, so counts stay live.
+  const counts = useMemo(
+    () => new Map(segments.map((s) => [s.id, countMatches(contacts, s.definition)])),
+    [contacts, segments],
+  );
+
+  const openCreate = () => {
+    setEditing(null);
+    setEditorOpen(true);
+  };
+
+  const openEdit = (segment: Segment) => {
+    setEditing(segment);
+    setEditorOpen(true);
+  };
+
+  const pendingDeleteUsers = pendingDelete ? automationsUsing(automations, pendingDelete.id) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">Segments</h1>
+          <p className="text-slate-500 text-sm mt-1">Saved audiences you can reuse in campaigns, bulk emails, schedules and automations.</p>
+        </div>
+        <Button onClick={openCreate} variant="primary">
+          <Plus className="app-icon w-4 h-4" />
+          New Segment
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-x-auto">
+        <table className="w-full min-w-[800px] text-left">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200">
+              <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Segment</th>
+              <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Conditions</th>
+              <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Contacts</th>
+              <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {segments.map((segment) => {
+              const count = counts.get(segment.id) ?? { total: 0, subscribed: 0 };
+              const usedBy = automationsUsing(automations, segment.id).length;
+              return (
+                <tr key={segment.id} className="hover:bg-slate-50 transition-colors group cursor-pointer" onClick={() => openEdit(segment)}>
+                  <td className="px-6 py-4">
+                    <div className="font-medium text-slate-800">{segment.name}</div>
+                    {segment.description && <div className="text-xs text-slate-500">{segment.description}</div>}
+                    {usedBy > 0 && <div className="text-xs text-slate-500">Used by {usedBy} automation{usedBy === 1 ? '' : 's'}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-600">{describeSegment(segment.definition)}</td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="text-sm font-semibold text-slate-800">{count.total.toLocaleString()}</div>
+                    <div className="text-xs text-slate-500">{count.subscribed.toLocaleString()} subscribed</div>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openEdit(segment);
+                        }}
+                        className="p-2 text-slate-400 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors cursor-pointer icon-inherit"
+                        title="Edit"
+                      >
+                        <FileEdit className="app-icon w-4 h-4 pointer-events-none" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setPendingDelete(segment);
+                        }}
+                        className="p-2 text-slate-400 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors cursor-pointer icon-inherit"
+                        title="Delete"
+                      >
+                        <Trash2 className="app-icon w-4 h-4 pointer-events-none" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {segments.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-6 py-12 text-center text-sm text-slate-500">
+                  No saved segments yet. Create one to reuse the same audience everywhere.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <SegmentEditorModal
+        isOpen={editorOpen}
+        initial={editing}
+        contacts={contacts}
+        onClose={() => setEditorOpen(false)}
+        onSave={(patch) => {
+          if (editing) actions.updateSegment(editing.id, patch);
+          else actions.createSegment(patch);
+        }}
+      />
+
+      <ConfirmDialog
+        isOpen={!!pendingDelete}
+        title="Delete this segment?"
+        description={
+          pendingDeleteUsers.length > 0
+            ? `It is used by ${pendingDeleteUsers.map((a) => a.name).join(', ')}. Their segment triggers stop firing, and schedules using it are skipped until you pick another segment.`
+            : 'Schedules using it are skipped until you pick another segment. This action cannot be undone.'
+        }
+        confirmText="Delete"
+        cancelText="Cancel"
+        onConfirm={() => {
+          if (!pendingDelete) return;
+          actions.deleteSegment(pendingDelete.id);
+          setPendingDelete(null);
+        }}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { X, Send, SlidersHorizontal } from 'lucide-react';
 import { invokeEdgeFunction } from '../services/edgeFunctions';
 import { getWorkspaceId } from '../services/supabase';
 import SegmentBuilderModal, { type SegmentDefinition } from './SegmentBuilderModal';
+import SavedSegmentSelect from './SavedSegmentSelect';
+import { useAppStore } from '../store/AppStore';
 
 export default function SendCampaignModal({
   isOpen,
@@ -14,13 +16,16 @@ export default function SendCampaignModal({
   isOpen: boolean;
   campaignId: string;
   onClose: () => void;
-  onConfirm: (args: { maxRecipients: number; segmentJson: SegmentDefinition | null }) => void;
+  onConfirm: (args: { maxRecipients: number; segmentJson: SegmentDefinition | null; segmentId: string | null }) => void;
   isSending: boolean;
 }) {
   const [maxRecipients, setMaxRecipients] = useState<number>(1000);
   const [useSegment, setUseSegment] = useState(false);
   const [segment, setSegment] = useState<SegmentDefinition>({ logic: 'AND', conditions: [] });
+  const [segmentId, setSegmentId] = useState('');
   const [segOpen, setSegOpen] = useState(false);
+  const { state } = useAppStore();
+  const segments = state.segments ?? [];
 
   const [previewBusy, setPreviewBusy] = useState(false);
   const [previewError, setPreviewError] = useState<string | null>(null);
@@ -40,6 +45,7 @@ export default function SendCampaignModal({
     setMaxRecipients(1000);
     setUseSegment(false);
     setSegment({ logic: 'AND', conditions: [] });
+    setSegmentId('');
     setPreviewBusy(false);
     setPreviewError(null);
     setPreview(null);
@@ -61,7 +67,8 @@ export default function SendCampaignModal({
           sampleSize: 0,
           maxRecipients,
           pageSize: 500,
-          segmentJson: useSegment ? segment : null,
+          segmentJson: useSegment && !segmentId ? segment : null,
+          segmentId: useSegment && segmentId ? segmentId : null,
         });
         if (cancelled) return;
         setPreview({
@@ -80,7 +87,7 @@ export default function SendCampaignModal({
     return () => {
       cancelled = true;
     };
-  }, [isOpen, campaignId, workspaceId, maxRecipients, useSegment, segmentKey]);
+  }, [isOpen, campaignId, workspaceId, maxRecipients, useSegment, segmentKey, segmentId]);
 
   if (!isOpen) return null;
 
@@ -135,14 +142,17 @@ export default function SendCampaignModal({
                 </button>
               </div>
               {useSegment && (
-                <div className="mt-3">
-                  <button
-                    type="button"
-                    className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
-                    onClick={() => setSegOpen(true)}
-                  >
-                    Edit segment
-                  </button>
+                <div className="mt-3 space-y-3">
+                  <SavedSegmentSelect segments={segments} value={segmentId} onChange={setSegmentId} />
+                  {!segmentId && (
+                    <button
+                      type="button"
+                      className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 font-semibold text-sm"
+                      onClick={() => setSegOpen(true)}
+                    >
+                      Edit segment
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -166,7 +176,11 @@ export default function SendCampaignModal({
             Cancel
           </button>
           <button
-            onClick={() => onConfirm({ maxRecipients, segmentJson: useSegment ? segment : null })}
+            onClick={() => onConfirm({
+              maxRecipients,
+              segmentJson: useSegment && !segmentId ? segment : null,
+              segmentId: useSegment && segmentId ? segmentId : null,
+            })}
             disabled={sendDisabled}
             className="px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-700 text-white font-semibold flex items-center gap-2 disabled:opacity-50"
           >
@@ -1,11 +1,31 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { User, Bell, Lock, CreditCard, Save } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { User, Bell, Lock, CreditCard, Save, Gauge, SlidersHorizontal, ShieldOff } from 'lucide-react';
 import { useAuth } from '../store/AuthStore';
 import { getSupabase, getWorkspaceId, isSupabaseConfigured } from '../services/supabase';
+import { invokeEdgeFunction } from '../services/edgeFunctions';
+import { useAppStore } from '../store/AppStore';
+import LeadScoringSettings from './LeadScoringSettings';
+import CustomFieldsSettings from './CustomFieldsSettings';
+import SuppressionsSettings from './SuppressionsSettings';
+import { loadCustomFields, saveCustomFields } from '../services/customFields';
+import type { CustomField } from '../types';
+import { readLeadScoringModel, type LeadScoringModel } from '../supabase/functions/_shared/leadScoring.ts';
+import { readPreferenceLists } from '../supabase/functions/_shared/preferences.ts';
+
+type SettingsTab = 'profile' | 'notifications' | 'scoring' | 'fields' | 'suppressions' | 'security' | 'billing';
+
+const SETTINGS_TABS: SettingsTab[] = ['profile', 'notifications', 'scoring', 'fields', 'suppressions', 'security', 'billing'];
 
 const SettingsView: React.FC = () => {
   const { state: authState } = useAuth();
-  const [tab, setTab] = useState<'profile' | 'notifications' | 'security' | 'billing'>('profile');
+  const { actions } = useAppStore();
+  // Other screens link to a tab with /settings?tab=<tab>.
+  const [params] = useSearchParams();
+  const [tab, setTab] = useState<SettingsTab>(() => {
+    const requested = params.get('tab') as SettingsTab | null;
+    return requested && SETTINGS_TABS.includes(requested) ? requested : 'profile';
+  });
   const [busy, setBusy] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
 
@@ -20,6 +40,11 @@ const SettingsView: React.FC = () => {
   const [timezone, setTimezone] = useState<string>('UTC');
   const [defaultFromEmail, setDefaultFromEmail] = useState<string>('jimmy@peremis.com');
   const [teamNotifyEmail, setTeamNotifyEmail] = useState<string>('jimmy@peremis.com');
+  const [maxAutomationEmailsPerDay, setMaxAutomationEmailsPerDay] = useState<string>('');
+  const [preferenceLists, setPreferenceLists] = useState<string>('');
+  const [leadScoring, setLeadScoring] = useState<LeadScoringModel>(() => readLeadScoringModel(null));
+  const [recalculating, setRecalculating] = useState(false);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
 
   const workspaceId = useMemo(() => getWorkspaceId() || 'default', [authState.user?.id]);
 
@@ -52,7 +77,7 @@ const SettingsView: React.FC = () => {
         setMessage(null);
         const { data, error } = await sb
           .from('workspace_settings')
-          .select('company_name,timezone,default_from_email,team_notify_email')
+          .select('company_name,timezone,default_from_email,team_notify_email,max_automation_emails_per_day,preference_lists,lead_scoring')
           .eq('workspace_id', workspaceId)
           .maybeSingle();
         if (cancelled) return;
@@ -62,7 +87,13 @@ const SettingsView: React.FC = () => {
           setTimezone(String((data as any).timezone ?? 'UTC'));
           setDefaultFromEmail(String((data as any).default_from_email ?? 'jimmy@peremis.com'));
           setTeamNotifyEmail(String((data as any).team_notify_email ?? 'jimmy@peremis.com'));
+          const cap = Number((data as any).max_automation_emails_per_day ?? 0);
+          setMaxAutomationEmailsPerDay(cap > 0 ? String(cap) : '');
+          setPreferenceLists(readPreferenceLists((data as any).preference_lists).join(', '));
+          setLeadScoring(readLeadScoringModel((data as any).lead_scoring));
         }
+        const fields = await loadCustomFields();
+        if (!cancelled) setCustomFields(fields);
       } catch (e) {
         if (!cancelled) setMessage(`Failed to load settings: ${fmtErr(e)}`);
       }
@@ -97,10 +128,14 @@ const SettingsView: React.FC = () => {
           timezone: timezone || null,
           default_from_email: defaultFromEmail || null,
           team_notify_email: teamNotifyEmail || null,
+          max_automation_emails_per_day: Number(maxAutomationEmailsPerDay) > 0 ? Math.floor(Number(maxAutomationEmailsPerDay)) : null,
+          preference_lists: readPreferenceLists(preferenceLists.split(',')),
           updated_at: new Date().toISOString(),
         }, { onConflict: 'workspace_id' });
         if (error) throw error;
       }
+      if (user && tab === 'scoring') await saveLeadScoring();
+      if (user && tab === 'fields') await saveCustomFields(customFields);
       setMessage('Saved.');
     } catch (e) {
       setMessage(fmtErr(e));
@@ -109,6 +144,44 @@ const SettingsView: React.FC = () => {
     }
   };
 
+  const saveLeadScoring = async () => {
+    const sb = getSupabase();
+    if (!sb) throw new Error('Supabase is not configured.');
+    const { error } = await sb.from('workspace_settings').upsert({
+      workspace_id: workspaceId,
+      lead_scoring: readLeadScoringModel(leadScoring),
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'workspace_id' });
+    if (error) throw error;
+  };
+
+  const recalculateScores = async () => {
+    setMessage(null);
+    try {
+      setRecalculating(true);
+      await saveLeadScoring();
+      // The worker rebuilds a batch of contacts per call; the first call starts over with the saved model.
+      let replayed = 0;
+      let updated = 0;
+      for (let restart = true; ; restart = false) {
+        const res = await invokeEdgeFunction<{ done?: boolean; replayedEvents?: number; updatedContacts?: number }>('lead-score-worker', {
+          workspaceId,
+          mode: 'recalculate',
+          restart,
+        });
+        replayed += Number(res?.replayedEvents ?? 0);
+        updated += Number(res?.updatedContacts ?? 0);
+        if (res?.done !== false) break;
+      }
+      actions.refreshAll();
+      setMessage(`Recalculated scores from ${replayed.toLocaleString()} events (${updated.toLocaleString()} contacts above the base score).`);
+    } catch (e) {
+      setMessage(fmtErr(e));
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
   return (
     <div className="max-w-4xl mx-auto space-y-8">
       <div>
@@ -131,6 +204,24 @@ const SettingsView: React.FC = () => {
           >
             <Bell className="w-4 h-4" /> Notifications
           </button>
+          <button
+            onClick={() => setTab('scoring')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg font-medium transition-colors ${tab === 'scoring' ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <Gauge className="w-4 h-4" /> Lead Scoring
+          </button>
+          <button
+            onClick={() => setTab('fields')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg font-medium transition-colors ${tab === 'fields' ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <SlidersHorizontal className="w-4 h-4" /> Custom Fields
+          </button>
+          <button
+            onClick={() => setTab('suppressions')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg font-medium transition-colors ${tab === 'suppressions' ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <ShieldOff className="w-4 h-4" /> Suppressions
+          </button>
           <button
             onClick={() => setTab('security')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg font-medium transition-colors ${tab === 'security' ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
@@ -203,6 +294,16 @@ const SettingsView: React.FC = () => {
                       <input value={defaultFromEmail} onChange={(e) => setDefaultFromEmail(e.target.value)} type="email" className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" />
                     </div>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Max automated emails per contact per day</label>
+                    <input value={maxAutomationEmailsPerDay} onChange={(e) => setMaxAutomationEmailsPerDay(e.target.value)} type="number" min={1} className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="No limit" />
+                    <div className="text-xs text-slate-500 mt-1">Automation emails over the limit wait until the contact is back under it (rolling 24 hours).</div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Preference center topics</label>
+                    <input value={preferenceLists} onChange={(e) => setPreferenceLists(e.target.value)} type="text" className="w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="e.g. Product updates, Events, Offers" />
+                    <div className="text-xs text-slate-500 mt-1">Lists contacts can join or leave from the preferences link in every email. Campaigns with a topic only go to contacts on that list.</div>
+                  </div>
                 </div>
               </div>
             </>
@@ -221,6 +322,22 @@ const SettingsView: React.FC = () => {
             </div>
           )}
 
+          {tab === 'scoring' && (
+            <LeadScoringSettings
+              value={leadScoring}
+              onChange={setLeadScoring}
+              onRecalculate={() => { void recalculateScores(); }}
+              recalculating={recalculating}
+              disabled={authState.status !== 'signed_in'}
+            />
+          )}
+
+          {tab === 'fields' && (
+            <CustomFieldsSettings value={customFields} onChange={setCustomFields} />
+          )}
+
+          {tab === 'suppressions' && authState.status === 'signed_in' && <SuppressionsSettings />}
+
           {tab === 'security' && (
             <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
               <h2 className="text-lg font-semibold text-slate-800 mb-4 border-b border-slate-100 pb-3">Security & API</h2>
@@ -241,16 +358,18 @@ const SettingsView: React.FC = () => {
             </div>
           )}
 
-          <div className="flex justify-end">
-             <button
-               onClick={() => { void save(); }}
-               disabled={busy || authState.status !== 'signed_in'}
-               className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-lg font-medium flex items-center gap-2 shadow-sm transition-colors"
-             >
-               <Save className="w-4 h-4" />
-               {busy ? 'Saving…' : 'Save Changes'}
-             </button>
-          </div>
+          {tab !== 'suppressions' && (
+            <div className="flex justify-end">
+              <button
+                onClick={() => { void save(); }}
+                disabled={busy || authState.status !== 'signed_in'}
+                className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-lg font-medium flex items-center gap-2 shadow-sm transition-colors"
+              >
+                <Save className="w-4 h-4" />
+                {busy ? 'Saving…' : 'Save Changes'}
+              </button>
+            </div>
+          )}
 
         </div>
       </div>
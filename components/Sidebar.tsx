@@ -10,6 +10,7 @@ import {
   LogOut,
   Mail,
   MailPlus,
+  Filter,
   X
 } from 'lucide-react';
 import { NavLink } from 'react-router-dom';
@@ -22,6 +23,7 @@ const Sidebar: React.FC<{ isOpen?: boolean; onClose?: () => void }> = ({ isOpen
     { icon: Send, label: 'Campaigns', to: '/campaigns' },
     { icon: GitBranch, label: 'Automations', to: '/automations' },
     { icon: Users, label: 'Contacts', to: '/contacts' },
+    { icon: Filter, label: 'Segments', to: '/segments' },
     { icon: MailPlus, label: 'Bulk Email', to: '/bulk-email' },
     { icon: FileText, label: 'Content', to: '/content' },
     { icon: BarChart2, label: 'Reports', to: '/reports' },
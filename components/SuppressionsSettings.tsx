@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Plus, Trash2, Upload } from 'lucide-react';
+import { Select } from './ui/Select';
+import {
+  addSuppressions,
+  loadSuppressions,
+  parseSuppressionsCsv,
+  removeSuppression,
+  suppressionsToCsv,
+} from '../services/suppressions';
+import {
+  readSuppressionTarget,
+  SUPPRESSION_REASONS,
+  type Suppression,
+  type SuppressionReason,
+} from '../supabase/functions/_shared/suppressions.ts';
+
+const inputClass = 'w-full bg-white text-slate-700 border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none';
+const buttonClass = 'px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50 font-semibold text-sm flex items-center gap-2';
+
+const MAX_ROWS = 200;
+
+const reasonLabel = (reason: SuppressionReason) => SUPPRESSION_REASONS.find((r) => r.value === reason)?.label ?? reason;
+
+// Settings → Suppressions: addresses and domains that are never emailed. Changes apply immediately.
+export default function SuppressionsSettings() {
+  const [entries, setEntries] = useState<Suppression[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [address, setAddress] = useState('');
+  const [reason, setReason] = useState<SuppressionReason>('manual');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const reload = async () => {
+    try {
+      setEntries(await loadSuppressions());
+    } catch (e) {
+      setMessage(`Failed to load suppressions: ${e instanceof Error ? e.message : String((e as any)?.message ?? e)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { void reload(); }, []);
+
+  const run = async (fn: () => Promise<string | null>) => {
+    setMessage(null);
+    setBusy(true);
+    try {
+      const done = await fn();
+      await reload();
+      if (done) setMessage(done);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : String((e as any)?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const add = () => run(async () => {
+    const target = readSuppressionTarget(address);
+    if (!target) return 'Enter an email address or a domain (example.com).';
+    await addSuppressions([{ ...target, reason, source: 'settings' }]);
+    setAddress('');
+    return null;
+  });
+
+  const importCsv = (file: File) => run(async () => {
+    const { entries: parsed, skipped } = parseSuppressionsCsv(await file.text(), reason);
+    await addSuppressions(parsed);
+    return `Imported ${parsed.length} address(es).${skipped > 0 ? ` Skipped ${skipped} row(s) without a valid email or domain.` : ''}`;
+  });
+
+  const exportCsv = () => {
+    const blob = new Blob([suppressionsToCsv(entries)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `suppressions-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const filtered = useMemo(() => {
+    const s = search.trim().toLowerCase();
+    return s ? entries.filter((e) => e.value.includes(s) || e.reason.includes(s) || e.source.toLowerCase().includes(s)) : entries;
+  }, [entries, search]);
+
+  const counts = useMemo(
+    () => SUPPRESSION_REASONS.map((r) => ({ ...r, count: entries.filter((e) => e.reason === r.value).length })),
+    [entries],
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-start justify-between gap-4 mb-1">
+        <h2 className="text-lg font-semibold text-slate-800">Suppressions</h2>
+        <div className="flex gap-2">
+          <button type="button" onClick={() => fileInputRef.current?.click()} disabled={busy} className={buttonClass}>
+            <Upload className="w-4 h-4" /> Import CSV
+          </button>
+          <button type="button" onClick={exportCsv} disabled={entries.length === 0} className={buttonClass}>
+            <Download className="w-4 h-4" /> Export CSV
+          </button>
+        </div>
+      </div>
+      <div className="text-xs text-slate-500 mb-4 border-b border-slate-100 pb-3">
+        Addresses and whole domains listed here are never emailed, whatever sends the email (campaigns, newsletters,
+        bulk emails, automations). Unsubscribes, bounces and spam complaints are added automatically. CSV imports read
+        an <span className="font-mono">email</span> (or <span className="font-mono">domain</span>) column and an optional{' '}
+        <span className="font-mono">reason</span> column; rows without a reason use the reason selected below.
+      </div>
+
+      {message && <div className="mb-4 rounded-lg bg-slate-50 border border-slate-200 p-3 text-sm text-slate-700">{message}</div>}
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {counts.map((c) => (
+          <span key={c.value} className="px-2.5 py-1 rounded-full text-xs font-medium border bg-slate-50 text-slate-600 border-slate-200">
+            {c.label}: {c.count}
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-12 gap-3 items-center mb-4">
+        <div className="sm:col-span-6">
+          <input
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') void add(); }}
+            className={inputClass}
+            placeholder="jane@example.com or example.com"
+          />
+        </div>
+        <div className="sm:col-span-3">
+          <Select<string>
+            value={reason}
+            onChange={(v) => setReason(v as SuppressionReason)}
+            options={SUPPRESSION_REASONS.map((r) => ({ value: r.value, label: r.label }))}
+          />
+        </div>
+        <div className="sm:col-span-3">
+          <button type="button" onClick={() => { void add(); }} disabled={busy || !address.trim()} className={buttonClass}>
+            <Plus className="w-4 h-4" /> Suppress
+          </button>
+        </div>
+      </div>
+
+      <input value={search} onChange={(e) => setSearch(e.target.value)} className={`${inputClass} mb-3`} placeholder="Search addresses, reasons, sources…" />
+
+      {loading ? (
+        <div className="text-sm text-slate-500">Loading…</div>
+      ) : filtered.length === 0 ? (
+        <div className="text-sm text-slate-500">{entries.length === 0 ? 'No suppressed addresses.' : 'No matches.'}</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                <th className="py-2 pr-3">Address</th>
+                <th className="py-2 pr-3">Reason</th>
+                <th className="py-2 pr-3">Source</th>
+                <th className="py-2 pr-3">Added</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.slice(0, MAX_ROWS).map((e) => (
+                <tr key={`${e.kind}:${e.value}`} className="border-b border-slate-50">
+                  <td className="py-2 pr-3 text-slate-800">
+                    {e.value}
+                    {e.kind === 'domain' && <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 text-xs">domain</span>}
+                  </td>
+                  <td className="py-2 pr-3 text-slate-600">{reasonLabel(e.reason)}</td>
+                  <td className="py-2 pr-3 text-slate-500">{e.source}</td>
+                  <td className="py-2 pr-3 text-slate-500">{e.createdAt ? new Date(e.createdAt).toLocaleDateString() : '-'}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => { void run(async () => { await removeSuppression(e); return null; }); }}
+                      disabled={busy}
+                      className="p-2 rounded-lg hover:bg-red-50 text-slate-500 hover:text-red-700"
+                      title="Remove (the address can be emailed again)"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {filtered.length > MAX_ROWS && (
+            <div className="text-xs text-slate-500 mt-2">Showing {MAX_ROWS} of {filtered.length}. Search or export the CSV to see the rest.</div>
+          )}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) void importCsv(file);
+        }}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
-import type { Contact } from '../types';
+import type { Contact, CustomField } from '../types';
+import { coerceCustomValue, CUSTOM_FIELD_PREFIX } from '../supabase/functions/_shared/customFields.ts';
 
-function splitCsvLine(line: string): string[] {
+export function splitCsvLine(line: string): string[] {
   const out: string[] = [];
   let cur = '';
   let inQuotes = false;
@@ -26,7 +27,13 @@ function splitCsvLine(line: string): string[] {
   return out.map(v => v.replace(/^"|"$/g, '').trim());
 }
 
-export function parseContactsCsv(text: string): Array<Partial<Contact>> {
+/** Column for a custom field: its key, its label or "custom.<key>" (case-insensitive). */
+function customFieldColumn(headers: string[], field: CustomField): string | null {
+  const names = [field.key, field.label, `${CUSTOM_FIELD_PREFIX}${field.key}`].map(n => n.toLowerCase());
+  return headers.find(h => names.includes(h)) ?? null;
+}
+
+export function parseContactsCsv(text: string, customFields: CustomField[] = []): Array<Partial<Contact>> {
   const lines = text
     .split(/\r?\n/)
     .map(l => l.trim())
@@ -36,6 +43,10 @@ export function parseContactsCsv(text: string): Array<Partial<Contact>> {
 
   const headers = splitCsvLine(lines[0]).map(h => h.toLowerCase());
   const rows = lines.slice(1);
+  const customColumns = customFields.flatMap(field => {
+    const column = customFieldColumn(headers, field);
+    return column ? [{ field, column }] : [];
+  });
 
   return rows.map(line => {
     const cols = splitCsvLine(line);
@@ -59,6 +70,13 @@ export function parseContactsCsv(text: string): Array<Partial<Contact>> {
 
     const name = (row['name'] || `${firstName} ${lastName}`.trim()).trim();
 
+    // Cells that don't fit the field's type (or options) are skipped.
+    const attributes: NonNullable<Contact['attributes']> = {};
+    for (const { field, column } of customColumns) {
+      const value = coerceCustomValue(field, row[column]);
+      if (value !== null) attributes[field.key] = value;
+    }
+
     return {
       name,
       firstName: firstName || undefined,
@@ -75,11 +93,14 @@ export function parseContactsCsv(text: string): Array<Partial<Contact>> {
       status: (row['status'] || 'Subscribed') as any,
       tags,
       lists,
+      attributes: customColumns.length > 0 ? attributes : undefined,
       acquisitionSource: 'imported_csv',
     };
   });
 }
 
-
-
-
+/** One CSV cell, quoted when it contains a comma, quote or line break. */
+export function csvCell(value: unknown): string {
+  const s = String(value ?? '');
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { getSupabase, getWorkspaceId } from './supabase';
+import { readCustomFields, type CustomField } from '../supabase/functions/_shared/customFields.ts';
+
+/** The workspace's custom contact fields (Settings → Custom Fields); empty when signed out or none are defined. */
+export async function loadCustomFields(): Promise<CustomField[]> {
+  const sb = getSupabase();
+  if (!sb) return [];
+  const { data, error } = await sb
+    .from('contact_fields')
+    .select('key,label,type,options,position')
+    .eq('workspace_id', getWorkspaceId() || 'default')
+    .order('position', { ascending: true });
+  if (error || !data) return [];
+  return readCustomFields(data);
+}
+
+/** Replaces the workspace's field definitions (values on contacts are kept when a field is removed). */
+export async function saveCustomFields(fields: CustomField[]): Promise<void> {
+  const sb = getSupabase();
+  if (!sb) throw new Error('Supabase is not configured.');
+  const ws = getWorkspaceId() || 'default';
+  const now = new Date().toISOString();
+  if (fields.length > 0) {
+    const { error } = await sb.from('contact_fields').upsert(
+      fields.map((f, i) => ({ workspace_id: ws, key: f.key, label: f.label, type: f.type, options: f.options, position: i, updated_at: now })),
+      { onConflict: 'workspace_id,key' },
+    );
+    if (error) throw error;
+  }
+  let removed = sb.from('contact_fields').delete().eq('workspace_id', ws);
+  if (fields.length > 0) removed = removed.not('key', 'in', `(${fields.map((f) => JSON.stringify(f.key)).join(',')})`);
+  const { error } = await removed;
+  if (error) throw error;
+}
+
+/** Custom fields for editors and pickers (contact editor, segment builder, automation field updates). */
+export function useCustomFields(): CustomField[] {
+  const [fields, setFields] = useState<CustomField[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    loadCustomFields()
+      .then((f) => { if (!cancelled) setFields(f); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, []);
+  return fields;
+}
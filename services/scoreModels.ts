@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { getSupabase, getWorkspaceId } from './supabase';
+import { readLeadScoringModel, type LeadScoringModel, type ScoreModel } from '../supabase/functions/_shared/leadScoring.ts';
+
+/** The workspace's lead scoring model (Settings → Lead Scoring); the defaults when signed out or never saved. */
+export async function loadLeadScoringModel(): Promise<LeadScoringModel> {
+  const sb = getSupabase();
+  if (!sb) return readLeadScoringModel(null);
+  const { data, error } = await sb
+    .from('workspace_settings')
+    .select('lead_scoring')
+    .eq('workspace_id', getWorkspaceId() || 'default')
+    .maybeSingle();
+  if (error || !data) return readLeadScoringModel(null);
+  return readLeadScoringModel((data as any).lead_scoring);
+}
+
+/** The workspace's named scores; empty when signed out or none are defined. */
+export async function loadScoreModels(): Promise<ScoreModel[]> {
+  return (await loadLeadScoringModel()).models;
+}
+
+/** Lead scoring model for displays that depend on it (score caps, named scores); the defaults until loaded. */
+export function useLeadScoringModel(): LeadScoringModel {
+  const [model, setModel] = useState<LeadScoringModel>(() => readLeadScoringModel(null));
+  useEffect(() => {
+    let cancelled = false;
+    loadLeadScoringModel()
+      .then((m) => { if (!cancelled) setModel(m); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, []);
+  return model;
+}
+
+/** Named scores for score pickers (segment conditions, automation conditions). */
+export function useScoreModels(): ScoreModel[] {
+  return useLeadScoringModel().models;
+}
@@ -1,4 +1,4 @@
-import type { Automation, Campaign, Contact, WorkspaceSettings, ChartData } from '../types';
+import type { Automation, Campaign, Contact, Segment, WorkspaceSettings, ChartData } from '../types';
 import type { UiState } from '../store/AppStore';
 
 // IMPORTANT: Production must never show demo/dummy data. This function now returns an empty state.
@@ -8,6 +8,7 @@ export interface SeedState {
   campaigns: Campaign[];
   contacts: Contact[];
   automations: Automation[];
+  segments: Segment[];
   chartData: ChartData[];
   settings: WorkspaceSettings;
   ui: UiState;
@@ -28,7 +29,7 @@ export function createSeedState(): SeedState {
     defaultFromEmail: undefined,
     teamNotifyEmail: undefined,
   };
-  return { campaigns: [], contacts: [], automations: [], chartData: [], settings, ui };
+  return { campaigns: [], contacts: [], automations: [], segments: [], chartData: [], settings, ui };
 }
 
 
@@ -1,11 +1,12 @@
-import type { Automation, Campaign, Contact } from '../types';
+import type { Automation, Campaign, Contact, Segment } from '../types';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { createSeedState } from './seedData';
-import type { ContactEvent } from '../types';
+import type { ContactEmailSend, ContactEvent } from '../types';
+import { SEGMENT_MAX_RECENT_EMAILS } from '../supabase/functions/_shared/segments.ts';
 
 export type SupabaseRepo = {
   ensureSeedData: () => Promise<void>;
-  fetchAll: () => Promise<{ contacts: Contact[]; campaigns: Campaign[]; automations: Automation[] }>;
+  fetchAll: () => Promise<{ contacts: Contact[]; campaigns: Campaign[]; automations: Automation[]; segments: Segment[] }>;
 
   upsertContact: (contact: Contact) => Promise<void>;
   patchContact: (id: string, patch: Partial<Contact>) => Promise<void>;
@@ -18,9 +19,12 @@ export type SupabaseRepo = {
   upsertAutomation: (automation: Automation) => Promise<void>;
   patchAutomation: (id: string, patch: Partial<Automation>) => Promise<void>;
   deleteAutomation: (id: string) => Promise<void>;
+
+  upsertSegment: (segment: Segment) => Promise<void>;
+  deleteSegment: (id: string) => Promise<void>;
 };
 
-type Table = 'contacts' | 'campaigns' | 'automations';
+type Table = 'contacts' | 'campaigns' | 'automations' | 'segments';
 
 function shouldSeedDemoData(): boolean {
   // Default OFF for production. Turn on explicitly in dev if you want sample data.
@@ -77,6 +81,7 @@ export function createSupabaseRepo(sb: SupabaseClient, workspaceId: string): Sup
     job_title: c.jobTitle ?? null,
     location: c.location ?? null,
     website: c.website ?? null,
+    attributes: c.attributes ?? {},
     events: c.events ?? null,
     created_at: c.createdAt ? new Date(c.createdAt).toISOString() : new Date().toISOString(),
     updated_at: new Date().toISOString(),
@@ -107,11 +112,15 @@ export function createSupabaseRepo(sb: SupabaseClient, workspaceId: string): Sup
     unsubscribed: typeof r.unsubscribed === 'boolean' ? r.unsubscribed : undefined,
     bounced: typeof r.bounced === 'boolean' ? r.bounced : undefined,
     spamComplaint: typeof r.spam_complaint === 'boolean' ? r.spam_complaint : undefined,
+    emailFrequency: r.email_frequency === 'digest' ? 'digest' : undefined,
+    pausedUntil: toIso(r.paused_until),
     leadScore: typeof r.lead_score === 'number' ? r.lead_score : undefined,
+    scores: r.scores && typeof r.scores === 'object' ? r.scores : undefined,
     company: r.company ?? undefined,
     jobTitle: r.job_title ?? undefined,
     location: r.location ?? undefined,
     website: r.website ?? undefined,
+    attributes: r.attributes && typeof r.attributes === 'object' ? r.attributes : undefined,
     events: r.events ?? undefined,
     createdAt: toIso(r.created_at),
     updatedAt: toIso(r.updated_at),
@@ -134,6 +143,7 @@ export function createSupabaseRepo(sb: SupabaseClient, workspaceId: string): Sup
     click_count: c.clickCount ?? null,
     conversion_count: c.conversionCount ?? null,
     segment_name: c.segmentName ?? null,
+    topic_list: c.topicList || null,
     email_blocks: c.emailBlocks ?? null,
     email_style: c.emailStyle ?? null,
     created_at: c.createdAt ? new Date(c.createdAt).toISOString() : new Date().toISOString(),
@@ -158,6 +168,7 @@ export function createSupabaseRepo(sb: SupabaseClient, workspaceId: string): Sup
     clickCount: typeof r.click_count === 'number' ? r.click_count : undefined,
     conversionCount: typeof r.conversion_count === 'number' ? r.conversion_count : undefined,
     segmentName: r.segment_name ?? undefined,
+    topicList: r.topic_list ?? undefined,
     emailBlocks: r.email_blocks ?? undefined,
     emailStyle: r.email_style ?? undefined,
   });
@@ -172,6 +183,9 @@ export function createSupabaseRepo(sb: SupabaseClient, workspaceId: string): Sup
     trigger: a.trigger ?? null,
     last_activity_at: a.lastActivityAt ? new Date(a.lastActivityAt).toISOString() : null,
     steps: a.steps ?? null,
+    edges: a.edges ?? null,
+    goals: a.goals ?? null,
+    entry_policy: a.entryPolicy ?? null,
     created_at: a.createdAt ? new Date(a.createdAt).toISOString() : new Date().toISOString(),
     updated_at: new Date().toISOString(),
   });
@@ -187,6 +201,31 @@ export function createSupabaseRepo(sb: SupabaseClient, workspaceId: string): Sup
     updatedAt: toIso(r.updated_at),
     lastActivityAt: toIso(r.last_activity_at),
     steps: r.steps ?? undefined,
+    edges: r.edges ?? undefined,
+    goals: r.goals ?? undefined,
+    entryPolicy: r.entry_policy ?? undefined,
+  });
+
+  const segmentToRow = (s: Segment) => ({
+    workspace_id: ws,
+    id: s.id,
+    name: s.name,
+    description: s.description ?? null,
+    definition: s.definition,
+    created_at: s.createdAt ? new Date(s.createdAt).toISOString() : new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  });
+
+  const rowToSegment = (r: any): Segment => ({
+    id: r.id,
+    name: r.name,
+    description: r.description ?? undefined,
+    definition: {
+      logic: r.definition?.logic === 'OR' ? 'OR' : 'AND',
+      conditions: Array.isArray(r.definition?.conditions) ? r.definition.conditions : [],
+    },
+    createdAt: toIso(r.created_at),
+    updatedAt: toIso(r.updated_at),
   });
 
   async function count(table: Table): Promise<number> {
@@ -249,7 +288,7 @@ export function createSupabaseRepo(sb: SupabaseClient, workspaceId: string): Sup
     if (contactIds.length > 0) {
       const evRes = await sb
         .from('contact_events')
-        .select('id, contact_id, event_type, title, occurred_at, meta')
+        .select('id, contact_id, event_type, title, occurred_at, meta, campaign_id')
         .eq('workspace_id', ws)
         .in('contact_id', contactIds)
         .order('occurred_at', { ascending: false });
@@ -260,6 +299,7 @@ export function createSupabaseRepo(sb: SupabaseClient, workspaceId: string): Sup
             type: r.event_type,
             title: r.title,
             occurredAt: new Date(r.occurred_at).toISOString(),
+            campaignId: r.campaign_id ?? undefined,
             meta: r.meta ?? undefined,
           } as any;
           const arr = eventsByContact.get(r.contact_id) ?? [];
@@ -269,15 +309,47 @@ export function createSupabaseRepo(sb: SupabaseClient, workspaceId: string): Sup
       }
     }
 
+    // Latest sends per contact, for "opened none of the last N emails" segment conditions.
+    const sendsByContact = new Map<string, ContactEmailSend[]>();
+    if (contactIds.length > 0) {
+      const sendsRes = await sb
+        .from('email_sends')
+        .select('contact_id, campaign_id, sent_at, opened_at')
+        .eq('workspace_id', ws)
+        .in('contact_id', contactIds)
+        .not('sent_at', 'is', null)
+        .order('sent_at', { ascending: false })
+        .limit(10000);
+      if (!sendsRes.error && Array.isArray(sendsRes.data)) {
+        for (const r of sendsRes.data as any[]) {
+          const arr = sendsByContact.get(r.contact_id) ?? [];
+          if (arr.length >= SEGMENT_MAX_RECENT_EMAILS) continue;
+          arr.push({
+            campaignId: String(r.campaign_id ?? ''),
+            sentAt: new Date(r.sent_at).toISOString(),
+            openedAt: r.opened_at ? new Date(r.opened_at).toISOString() : undefined,
+          });
+          sendsByContact.set(r.contact_id, arr);
+        }
+      }
+    }
+
+    // Saved segments (newer table); older deployments without it just have none.
+    const segmentsRes = await sb.from('segments').select('*').eq('workspace_id', ws).order('name', { ascending: true });
+    const segments = !segmentsRes.error && Array.isArray(segmentsRes.data) ? segmentsRes.data.map(rowToSegment) : [];
+
     const enriched = contacts.map((c) => {
       const ev = eventsByContact.get(c.id);
-      return ev && ev.length > 0 ? { ...c, events: ev } : c;
+      const sends = sendsByContact.get(c.id);
+      const withEvents = ev && ev.length > 0 ? { ...c, events: ev } : c;
+      return sends ? { ...withEvents, recentSends: sends } : withEvents;
     });
 
     return {
       contacts: enriched,
       campaigns: (campaignsRes.data ?? []).map(rowToCampaign),
       automations: (automationsRes.data ?? []).map(rowToAutomation),
+      segments,
     };
   }
 
@@ -311,6 +383,9 @@ export function createSupabaseRepo(sb: SupabaseClient, workspaceId: string): Sup
     upsertAutomation: async (a) => upsert('automations', automationToRow(a)),
     patchAutomation: async (id, p) => patch('automations', id, { ...p, updated_at: new Date().toISOString() }),
     deleteAutomation: async (id) => del('automations', id),
+
+    upsertSegment: async (s) => upsert('segments', segmentToRow(s)),
+    deleteSegment: async (id) => del('segments', id),
   };
 }
 
@@ -0,0 +1,102 @@
+import { getSupabase, getWorkspaceId } from './supabase';
+import { csvCell, splitCsvLine } from './csvImport';
+import {
+  readSuppression,
+  readSuppressionReason,
+  suppressionRow,
+  type Suppression,
+  type SuppressionReason,
+} from '../supabase/functions/_shared/suppressions.ts';
+
+const PAGE = 1000;
+
+/** The workspace's suppression list (Settings → Suppressions), newest first. */
+export async function loadSuppressions(): Promise<Suppression[]> {
+  const sb = getSupabase();
+  if (!sb) return [];
+  const ws = getWorkspaceId() || 'default';
+  const out: Suppression[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await sb
+      .from('suppressions')
+      .select('kind,value,reason,source,created_at')
+      .eq('workspace_id', ws)
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE - 1);
+    if (error) throw error;
+    const rows = data ?? [];
+    rows.forEach((r) => {
+      const s = readSuppression(r);
+      if (s) out.push(s);
+    });
+    if (rows.length < PAGE) return out;
+  }
+}
+
+/** Adds entries; addresses already on the list keep their original reason and date. */
+export async function addSuppressions(entries: Suppression[]): Promise<void> {
+  const sb = getSupabase();
+  if (!sb) throw new Error('Supabase is not configured.');
+  const ws = getWorkspaceId() || 'default';
+  for (let i = 0; i < entries.length; i += PAGE) {
+    const { error } = await sb
+      .from('suppressions')
+      .upsert(entries.slice(i, i + PAGE).map((s) => suppressionRow(ws, s)), { onConflict: 'workspace_id,kind,value', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+}
+
+export async function removeSuppression(entry: Pick<Suppression, 'kind' | 'value'>): Promise<void> {
+  const sb = getSupabase();
+  if (!sb) throw new Error('Supabase is not configured.');
+  const { error } = await sb
+    .from('suppressions')
+    .delete()
+    .eq('workspace_id', getWorkspaceId() || 'default')
+    .eq('kind', entry.kind)
+    .eq('value', entry.value);
+  if (error) throw error;
+}
+
+/**
+ * Suppression entries from a CSV with an `email` (or `domain` / `address`) column and optional `reason`
+ * column; without a header row the first column is read. Rows without a usable address are counted in
+ * `skipped`.
+ */
+export function parseSuppressionsCsv(text: string, reason: SuppressionReason = 'manual'): { entries: Suppression[]; skipped: number } {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  if (lines.length === 0) return { entries: [], skipped: 0 };
+
+  const headers = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const addressCol = headers.findIndex((h) => ['email', 'email address', 'domain', 'address', 'value'].includes(h));
+  const reasonCol = headers.indexOf('reason');
+  const hasHeader = addressCol >= 0;
+  const rows = hasHeader ? lines.slice(1) : lines;
+
+  const seen = new Set<string>();
+  const entries: Suppression[] = [];
+  let skipped = 0;
+  for (const line of rows) {
+    const cols = splitCsvLine(line);
+    const s = readSuppression({
+      value: cols[hasHeader ? addressCol : 0],
+      reason: readSuppressionReason(reasonCol >= 0 ? cols[reasonCol] : '', reason),
+      source: 'csv_import',
+    });
+    if (!s) {
+      skipped++;
+      continue;
+    }
+    const key = `${s.kind}:${s.value}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    entries.push(s);
+  }
+  return { entries, skipped };
+}
+
+export function suppressionsToCsv(entries: Suppression[]): string {
+  const lines = [['address', 'type', 'reason', 'source', 'added_at'].join(',')];
+  entries.forEach((s) => lines.push([s.value, s.kind, s.reason, s.source, s.createdAt ?? ''].map(csvCell).join(',')));
+  return `${lines.join('\n')}\n`;
+}
@@ -1,5 +1,5 @@
 import { useMemo, useSyncExternalStore } from 'react';
-import type { Automation, Campaign, ChartData, Contact, Metric, WorkspaceSettings, ContactEvent } from '../types';
+import type { Automation, Campaign, ChartData, Contact, Metric, Segment, WorkspaceSettings, ContactEvent } from '../types';
 import { createSeedState } from '../services/seedData';
 import { loadFromStorage, saveToStorage } from '../services/storage';
 import { getSupabase, getWorkspaceId, isSupabaseConfigured } from '../services/supabase';
@@ -19,6 +19,7 @@ export interface AppState {
   campaigns: Campaign[];
   contacts: Contact[];
   automations: Automation[];
+  segments: Segment[];
   chartData: ChartData[];
   settings?: WorkspaceSettings;
   ui?: UiState;
@@ -232,22 +233,26 @@ async function refreshAutomationMetricsFromSupabase(): Promise<void> {
   const ws = getWorkspaceId() || 'default';
   const { data: rows, error } = await sb
     .from('automation_runs')
-    .select('automation_id,contact_id,status,started_at,finished_at,last_error')
+    .select('automation_id,contact_id,status,started_at,finished_at,last_error,goal_reached_at')
     .eq('workspace_id', ws)
     .order('started_at', { ascending: false })
     .limit(10000);
   if (error) throw error;
 
-  const byAutomation = new Map<string, { contacts: Set<string>; lastAt: string | null; errors: number }>();
+  const byAutomation = new Map<string, { contacts: Set<string>; lastAt: string | null; errors: number; runs: number; goals: number }>();
   (rows ?? []).forEach((r: any) => {
     const aid = String(r?.automation_id ?? '').trim();
     if (!aid) return;
     const cid = String(r?.contact_id ?? '').trim();
     const st = String(r?.status ?? '').toLowerCase();
+    // Entries blocked by the entry policy never ran.
+    if (st === 'skipped') return;
     const hasErr = Boolean(r?.last_error) || st === 'failed';
     const t = String(r?.finished_at ?? r?.started_at ?? '').trim() || null;
-    const cur = byAutomation.get(aid) ?? { contacts: new Set<string>(), lastAt: null, errors: 0 };
+    const cur = byAutomation.get(aid) ?? { contacts: new Set<string>(), lastAt: null, errors: 0, runs: 0, goals: 0 };
     if (cid) cur.contacts.add(cid);
+    cur.runs += 1;
+    if (r?.goal_reached_at) cur.goals += 1;
     if (t && (!cur.lastAt || new Date(t) > new Date(cur.lastAt))) cur.lastAt = t;
     if (hasErr) cur.errors += 1;
     byAutomation.set(aid, cur);
@@ -256,7 +261,7 @@ async function refreshAutomationMetricsFromSupabase(): Promise<void> {
   setState((prev) => {
     const nextAutos = prev.automations.map((a) => {
       const stats = byAutomation.get(String(a.id)) ?? null;
-      if (!stats) return { ...a, errorCount: 0 };
+      if (!stats) return { ...a, errorCount: 0, totalRuns: 0, goalConversions: 0 };
       const count = stats.contacts.size;
       return {
         ...a,
@@ -264,6 +269,8 @@ async function refreshAutomationMetricsFromSupabase(): Promise<void> {
         runs: `${count} contacts`,
         lastActivityAt: stats.lastAt ?? a.lastActivityAt,
         errorCount: stats.errors,
+        totalRuns: stats.runs,
+        goalConversions: stats.goals,
       };
     });
     return { ...prev, automations: nextAutos };
@@ -282,6 +289,7 @@ function normalizeLoadedState(s: AppState): AppState {
     campaigns: Array.isArray(s.campaigns) ? s.campaigns : seeded.campaigns,
     contacts: Array.isArray(s.contacts) ? s.contacts : seeded.contacts,
     automations: Array.isArray(s.automations) ? s.automations : seeded.automations,
+    segments: Array.isArray(s.segments) ? s.segments : seeded.segments,
     chartData: Array.isArray(s.chartData) ? s.chartData : seeded.chartData,
     settings: s.settings ?? seeded.settings,
     ui,
@@ -339,6 +347,8 @@ async function runAutomationKick(workspaceId: string) {
   try {
     const ws = String(workspaceId || getWorkspaceId() || 'default').trim() || 'default';
     // Process triggers -> queue -> steps. Email delivery is handled separately by SMTP gateway workers.
+    // Segment membership first so segment entry/exit triggers see the edit; optional (older deployments).
+    await invokeEdgeFunction('segment-membership-worker', { workspaceId: ws }).catch(() => null);
     await invokeEdgeFunction('automation-scanner', { workspaceId: ws, limit: 200 });
     await invokeEdgeFunction('automation-worker', { workspaceId: ws, batch: 25 });
   } catch (e) {
@@ -392,6 +402,7 @@ async function hydrateFromSupabase(): Promise<void> {
       contacts: (data.contacts ?? []).filter((c) => !demoContactEmails.has(String(c.email ?? '').toLowerCase())),
       campaigns: (data.campaigns ?? []).filter((c) => !demoCampaignNames.has(String(c.name ?? ''))),
       automations: (data.automations ?? []).filter((a) => !demoAutomationNames.has(String(a.name ?? ''))),
+      segments: data.segments ?? [],
     }));
     await refreshCampaignMetricsFromSupabase();
     await refreshAutomationMetricsFromSupabase();
@@ -453,6 +464,10 @@ export interface AppActions {
   updateAutomation: (id: string, patch: Partial<Automation>) => void;
   deleteAutomation: (id: string) => void;
   toggleAutomationStatus: (id: string) => void;
+
+  createSegment: (patch: Partial<Segment>) => Segment;
+  updateSegment: (id: string, patch: Partial<Segment>) => void;
+  deleteSegment: (id: string) => void;
 }
 
 const actions: AppActions = {
@@ -522,6 +537,7 @@ const actions: AppActions = {
       emailBlocks: patch.emailBlocks,
       emailStyle: patch.emailStyle,
       segmentName: patch.segmentName,
+      topicList: patch.topicList,
           createdAt,
           updatedAt: createdAt,
       sentCount: patch.sentCount ?? 0,
@@ -670,6 +686,8 @@ const actions: AppActions = {
     const removedTags = prevTags.filter((t) => !nextTags.some((n) => n.toLowerCase() === t.toLowerCase()));
     const addedLists = nextLists.filter((t) => !prevLists.some((p) => p.toLowerCase() === t.toLowerCase()));
     const removedLists = prevLists.filter((t) => !nextLists.some((n) => n.toLowerCase() === t.toLowerCase()));
+    const prevStage = String(prevContact?.lifecycleStage ?? '');
+    const stageChanged = patch.lifecycleStage !== undefined && String(patch.lifecycleStage ?? '') !== prevStage;
 
     setState((prev) => {
       const updatedAt = nowIso();
@@ -707,7 +725,18 @@ const actions: AppActions = {
     for (const l of removedLists) {
       void logContactEvent({ contactId: id, eventType: 'list_left', title: `List Left: ${l}`, occurredAt, meta: { list: l } });
     }
-    if (addedTags.length || removedTags.length || addedLists.length || removedLists.length) {
+    if (stageChanged) {
+      void logContactEvent({
+        contactId: id,
+        eventType: 'lifecycle_changed',
+        title: `Lifecycle Stage: ${patch.lifecycleStage ?? '—'}`,
+        occurredAt,
+        meta: { from: prevStage || null, to: patch.lifecycleStage ?? null },
+      });
+    }
+    // Score / temperature / status edits can move the contact in or out of trigger segments.
+    const segmentFieldChanged = patch.leadScore !== undefined || patch.temperature !== undefined || patch.status !== undefined;
+    if (addedTags.length || removedTags.length || addedLists.length || removedLists.length || stageChanged || segmentFieldChanged) {
       scheduleAutomationKickCurrent();
     }
   },
@@ -774,6 +803,41 @@ const actions: AppActions = {
     const a = getState().automations.find((x) => x.id === id);
     if (a?.status === 'Running') scheduleAutomationKickCurrent();
   },
+
+  createSegment: (patch) => {
+    const createdAt = nowIso();
+    const segment: Segment = {
+      id: patch.id ?? uid('seg'),
+      name: patch.name?.trim() || 'Untitled Segment',
+      description: patch.description,
+      definition: patch.definition ?? { logic: 'AND', conditions: [] },
+      createdAt,
+      updatedAt: createdAt,
+    };
+    setState((prev) => ({ ...prev, segments: [...prev.segments, segment] }));
+    void getRepo().then((repo) => repo?.upsertSegment(segment));
+    return segment;
+  },
+
+  updateSegment: (id, patch) => {
+    setState((prev) => {
+      const updatedAt = nowIso();
+      const segments = prev.segments.map((s) => (s.id === id ? { ...s, ...patch, updatedAt } : s));
+      return { ...prev, segments };
+    });
+    void getRepo().then((repo) => {
+      if (!repo) return;
+      const s = getState().segments.find((x) => x.id === id);
+      if (s) return repo.upsertSegment(s);
+    });
+    // Segment triggers re-evaluate membership against the new definition.
+    if (patch.definition) scheduleAutomationKickCurrent();
+  },
+
+  deleteSegment: (id) => {
+    setState((prev) => ({ ...prev, segments: prev.segments.filter((s) => s.id !== id) }));
+    void getRepo().then((repo) => repo?.deleteSegment(id));
+  },
 };
 
 export function useAppStore(): { state: AppState; actions: AppActions } {
@@ -0,0 +1,55 @@
+// Shared helpers for Supabase Edge Functions: auth guards.
+//
+// - Runner token: cron/runner calls send `x-flowmail-runner-token: $FLOWMAIL_RUNNER_TOKEN`.
+// - Workspace user: interactive calls from the app send the user's JWT; workspaceId == auth user id.
+// If FLOWMAIL_RUNNER_TOKEN isn't configured, guards allow the request.
+
+import { env, supabaseUrl } from "./env.ts";
+import { json } from "./http.ts";
+
+export function bearerFrom(req: Request): string | null {
+  const h = String(req.headers.get("authorization") ?? "");
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m?.[1]?.trim() ? m[1].trim() : null;
+}
+
+export async function authUserId(req: Request): Promise<string | null> {
+  const sbUrl = supabaseUrl();
+  const service = env("SUPABASE_SERVICE_ROLE_KEY");
+  const jwt = bearerFrom(req);
+  if (!sbUrl || !service || !jwt) return null;
+  const res = await fetch(`${sbUrl}/auth/v1/user`, {
+    method: "GET",
+    headers: {
+      apikey: service,
+      Authorization: `Bearer ${jwt}`,
+    },
+  });
+  if (!res.ok) return null;
+  const u = await res.json().catch(() => null);
+  const id = u?.id ? String(u.id).trim() : "";
+  return id || null;
+}
+
+function hasRunnerToken(req: Request, required: string): boolean {
+  const got = String(req.headers.get("x-flowmail-runner-token") ?? "").trim();
+  return Boolean(got) && got === required;
+}
+
+export function requireRunnerToken(req: Request): Response | null {
+  const required = env("FLOWMAIL_RUNNER_TOKEN");
+  if (!required) return null; // not enforced
+  if (!hasRunnerToken(req, required)) return json({ error: "Unauthorized" }, 401);
+  return null;
+}
+
+export async function requireRunnerTokenOrWorkspaceUser(req: Request, workspaceId: string): Promise<Response | null> {
+  const required = env("FLOWMAIL_RUNNER_TOKEN");
+  if (!required) return null;
+  // Runner-token path (cron/runner).
+  if (hasRunnerToken(req, required)) return null;
+  // Interactive path: allow signed-in user if workspace matches their auth user id.
+  const uid = await authUserId(req);
+  if (uid && String(workspaceId).trim() === uid) return null;
+  return json({ error: "Unauthorized" }, 401);
+}
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { requireRunnerTokenOrWorkspaceUser } from "./auth.ts";
+import { jsonResponse, withEnv, withStub, type StubRequest } from "./testServer.ts";
+
+declare const Deno: any;
+
+const RUNNER_TOKEN = "runner-secret";
+const USER_JWT = "user-jwt";
+const USER_ID = "0b6f3c1e-user";
+
+// Supabase Auth stand-in: GET /auth/v1/user answers for USER_JWT only.
+function authServer(req: StubRequest) {
+  if (req.path === "/auth/v1/user" && req.headers.get("authorization") === `Bearer ${USER_JWT}`) {
+    return jsonResponse({ id: USER_ID });
+  }
+  return jsonResponse({ message: "invalid JWT" }, 401);
+}
+
+function call(headers: Record<string, string>, workspaceId = USER_ID) {
+  return requireRunnerTokenOrWorkspaceUser(new Request("http://localhost/fn", { method: "POST", headers }), workspaceId);
+}
+
+async function assertUnauthorized(res: Response | null) {
+  assert.ok(res);
+  assert.equal(res.status, 401);
+  assert.deepEqual(await res.json(), { error: "Unauthorized" });
+}
+
+function withAuth(fn: (requests: StubRequest[]) => Promise<void>) {
+  return withStub(authServer, (base, requests) =>
+    withEnv({ SUPABASE_URL: base, SUPABASE_SERVICE_ROLE_KEY: "service-role-key", FLOWMAIL_RUNNER_TOKEN: RUNNER_TOKEN }, () => fn(requests))
+  );
+}
+
+Deno.test("allows a valid runner token without calling Supabase Auth", async () => {
+  await withAuth(async (requests) => {
+    assert.equal(await call({ "x-flowmail-runner-token": RUNNER_TOKEN }, "any-workspace"), null);
+    assert.equal(requests.length, 0);
+  });
+});
+
+Deno.test("allows a user JWT for the user's own workspace", async () => {
+  await withAuth(async (requests) => {
+    assert.equal(await call({ Authorization: `Bearer ${USER_JWT}` }), null);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].headers.get("apikey"), "service-role-key");
+  });
+});
+
+Deno.test("rejects a user JWT for another workspace", async () => {
+  await withAuth(async () => {
+    await assertUnauthorized(await call({ Authorization: `Bearer ${USER_JWT}` }, "someone-else"));
+  });
+});
+
+Deno.test("rejects a missing token", async () => {
+  await withAuth(async (requests) => {
+    await assertUnauthorized(await call({}));
+    assert.equal(requests.length, 0);
+  });
+});
+
+Deno.test("rejects a bad runner token and a bad JWT", async () => {
+  await withAuth(async () => {
+    await assertUnauthorized(await call({ "x-flowmail-runner-token": "wrong" }));
+    await assertUnauthorized(await call({ Authorization: "Bearer not-a-jwt" }));
+    await assertUnauthorized(await call({ Authorization: USER_JWT }));
+  });
+});
+
+Deno.test("is not enforced when FLOWMAIL_RUNNER_TOKEN isn't configured", async () => {
+  await withEnv({ FLOWMAIL_RUNNER_TOKEN: "" }, async () => {
+    assert.equal(await call({}), null);
+  });
+});
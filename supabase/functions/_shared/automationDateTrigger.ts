@@ -0,0 +1,120 @@
+// Date-based automation triggers (`trigger.date`), shared by the builder and automation-date-triggers.
+//
+// A trigger fires relative to a contact date:
+// - field:      created_at | last_purchase_date | attribute (contacts.attributes[<attribute>], e.g. "birthday")
+// - match:      anniversary (every year on the date's month/day) | once (on the date itself)
+// - offsetDays: shifts the day (30 = "30 days after the last purchase", -7 = "a week before the birthday")
+// - time:       HH:MM in the contact's timezone when the trigger fires that day
+//
+// automation-date-triggers evaluates these on a schedule: a trigger is due once the contact's local date
+// is the occurrence day and the local time has passed `time`. The occurrence (local YYYY-MM-DD) is the
+// dedupe key, so each contact fires at most once per occurrence. Feb 29 anniversaries fire on Feb 28
+// in non-leap years.
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+import { localParts, parseTime, resolveTimeZone } from "./timezone.ts";
+
+export const DATE_TRIGGER_KIND = "trigger.date";
+
+export type DateTriggerField = "created_at" | "last_purchase_date" | "attribute";
+export type DateTriggerMatch = "anniversary" | "once";
+
+export interface DateTriggerConfig {
+  field: DateTriggerField;
+  attribute: string;
+  match: DateTriggerMatch;
+  offsetDays: number;
+  time: string;
+}
+
+// Contact row columns the evaluation needs.
+export type DateTriggerContact = {
+  timezone?: unknown;
+  created_at?: unknown;
+  last_purchase_date?: unknown;
+  attributes?: unknown;
+};
+
+type Ymd = { y: number | null; mo: number; d: number };
+
+export const DATE_TRIGGER_FIELDS: Array<{ value: DateTriggerField; label: string }> = [
+  { value: "created_at", label: "Signup date" },
+  { value: "last_purchase_date", label: "Last purchase date" },
+  { value: "attribute", label: "Custom date attribute" },
+];
+
+export function readDateTrigger(cfg: Record<string, unknown> | null | undefined): DateTriggerConfig {
+  const field = String(cfg?.field ?? "");
+  return {
+    field: field === "last_purchase_date" || field === "attribute" ? field : "created_at",
+    attribute: String(cfg?.attribute ?? "birthday").trim() || "birthday",
+    match: String(cfg?.match ?? "") === "once" ? "once" : "anniversary",
+    offsetDays: Math.trunc(Number(cfg?.offsetDays ?? 0) || 0),
+    time: String(cfg?.time ?? "09:00").trim() || "09:00",
+  };
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function isLeap(y: number): boolean {
+  return (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0;
+}
+
+/** Calendar date of the contact's field, in the contact's timezone for timestamps. */
+function contactDate(cfg: DateTriggerConfig, contact: DateTriggerContact, tz: string): Ymd | null {
+  if (cfg.field === "attribute") {
+    const raw = String((contact.attributes as Record<string, unknown> | null)?.[cfg.attribute] ?? "").trim();
+    const full = /^(\d{4})-(\d{2})-(\d{2})/.exec(raw);
+    if (full) return { y: Number(full[1]), mo: Number(full[2]), d: Number(full[3]) };
+    // Year-less dates ("--05-17" / "05-17") only make sense as anniversaries.
+    const md = /^(?:--)?(\d{2})-(\d{2})$/.exec(raw);
+    return md ? { y: null, mo: Number(md[1]), d: Number(md[2]) } : null;
+  }
+  const v = cfg.field === "created_at" ? contact.created_at : contact.last_purchase_date;
+  const ms = v ? new Date(String(v)).getTime() : NaN;
+  if (!Number.isFinite(ms)) return null;
+  const p = localParts(ms, tz);
+  return { y: p.y, mo: p.mo, d: p.d };
+}
+
+/**
+ * Occurrence key (contact-local YYYY-MM-DD) when the trigger is due for this contact now, else null.
+ * Due means: today (local) minus offsetDays is the contact's date (or its anniversary) and the local
+ * time is at or past `time`.
+ */
+export function dateTriggerOccurrence(cfg: DateTriggerConfig, contact: DateTriggerContact, now = Date.now()): string | null {
+  const tz = resolveTimeZone(contact.timezone as string | null | undefined);
+  const base = contactDate(cfg, contact, tz);
+  if (!base) return null;
+
+  const today = localParts(now, tz);
+  const { h, m } = parseTime(cfg.time);
+  if (today.h * 60 + today.mi < h * 60 + m) return null;
+
+  const shifted = new Date(Date.UTC(today.y, today.mo - 1, today.d - cfg.offsetDays));
+  const sy = shifted.getUTCFullYear();
+  const smo = shifted.getUTCMonth() + 1;
+  const sd = shifted.getUTCDate();
+
+  if (cfg.match === "once") {
+    if (base.y === null || base.y !== sy || base.mo !== smo || base.d !== sd) return null;
+  } else {
+    const leapDay = base.mo === 2 && base.d === 29 && !isLeap(sy);
+    const hit = leapDay ? smo === 2 && sd === 28 : base.mo === smo && base.d === sd;
+    // The date itself is not its own anniversary.
+    if (!hit || (base.y !== null && sy <= base.y)) return null;
+  }
+  return `${today.y}-${pad(today.mo)}-${pad(today.d)}`;
+}
+
+export function describeDateTrigger(cfg: DateTriggerConfig): string {
+  const field = cfg.field === "attribute" ? cfg.attribute : DATE_TRIGGER_FIELDS.find((f) => f.value === cfg.field)?.label ?? cfg.field;
+  const shift = cfg.offsetDays === 0
+    ? ""
+    : ` ${Math.abs(cfg.offsetDays)} day(s) ${cfg.offsetDays > 0 ? "after" : "before"}`;
+  const when = cfg.match === "anniversary" ? `Every year${shift ? `,${shift}` : " on"} ${field}` : `${shift.trim() || "On"} ${field}`;
+  return `${when}, ${cfg.time} contact time`;
+}
@@ -0,0 +1,50 @@
+// Automation entry policy (re-entry / concurrency), shared by the builder and the run starters.
+//
+// Modes:
+// - unlimited:      every matching trigger starts a run (default; pre-policy behavior)
+// - once:           a contact can enter this automation only once, ever
+// - once_per_days:  at most one run per contact every `days` days
+// - not_if_active:  no new run while the contact still has a running one
+//
+// Blocked entries are logged as automation_runs rows with status "skipped" and the reason in exit_reason.
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+export type AutomationEntryMode = "unlimited" | "once" | "once_per_days" | "not_if_active";
+
+export interface AutomationEntryPolicy {
+  mode: AutomationEntryMode;
+  days?: number; // once_per_days
+}
+
+export type PriorRuns = {
+  // most recent non-skipped run, if any
+  lastStartedAt: string | null;
+  hasActive: boolean;
+};
+
+export function readEntryPolicy(v: unknown): AutomationEntryPolicy {
+  const mode = String((v as any)?.mode ?? "");
+  if (mode === "once" || mode === "not_if_active") return { mode };
+  if (mode === "once_per_days") return { mode, days: Math.max(1, Math.floor(Number((v as any)?.days ?? 30) || 30)) };
+  return { mode: "unlimited" };
+}
+
+/** Why the contact may not enter now, or null when entry is allowed. */
+export function entrySkipReason(policy: AutomationEntryPolicy, prior: PriorRuns, now = Date.now()): string | null {
+  if (policy.mode === "once" && prior.lastStartedAt) return "Already entered this automation (entry: once)";
+  if (policy.mode === "not_if_active" && prior.hasActive) return "Already active in this automation";
+  if (policy.mode === "once_per_days" && prior.lastStartedAt) {
+    const days = Number(policy.days ?? 30);
+    const since = (now - new Date(prior.lastStartedAt).getTime()) / (1000 * 60 * 60 * 24);
+    if (since < days) return `Entered ${Math.floor(since)} day(s) ago (entry: once per ${days} days)`;
+  }
+  return null;
+}
+
+export function describeEntryPolicy(policy: AutomationEntryPolicy): string {
+  if (policy.mode === "once") return "Once per contact";
+  if (policy.mode === "once_per_days") return `Once every ${policy.days ?? 30} days`;
+  if (policy.mode === "not_if_active") return "Only if not currently active";
+  return "Every time the trigger fires";
+}
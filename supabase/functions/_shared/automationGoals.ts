@@ -0,0 +1,65 @@
+// Automation goals and exit conditions, shared by the builder and automation-scanner.
+//
+// Goals live on the automation (automations.goals) and are checked against new contact_events for
+// contacts with an active run:
+// - role "goal":  the run converts (automation_runs.goal_reached_at). If `stepId` is set the run jumps
+//                 to that step, otherwise it completes immediately.
+// - role "exit":  the run stops (status "exited") without converting, e.g. the contact unsubscribed.
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+export type AutomationGoalRole = "goal" | "exit";
+export type AutomationGoalKind = "event" | "lifecycle_stage" | "tag_added";
+
+export interface AutomationGoal {
+  id: string;
+  role: AutomationGoalRole;
+  kind: AutomationGoalKind;
+  // kind=event: contact_events.event_type (e.g. purchase); kind=lifecycle_stage: stage; kind=tag_added: tag
+  value: string;
+  // role=goal: jump here instead of completing the run
+  stepId?: string;
+}
+
+export type GoalEvent = {
+  event_type?: string | null;
+  meta?: Record<string, unknown> | null;
+};
+
+function norm(s: unknown) {
+  return String(s ?? "").trim().toLowerCase();
+}
+
+/** Parses automations.goals (jsonb); drops malformed entries. */
+export function readGoals(v: unknown): AutomationGoal[] {
+  if (!Array.isArray(v)) return [];
+  return v
+    .filter((g) => g && typeof g === "object" && String((g as any).id ?? "") && String((g as any).value ?? "").trim())
+    .map((g: any) => ({
+      id: String(g.id),
+      role: g.role === "exit" ? "exit" : "goal",
+      kind: g.kind === "lifecycle_stage" || g.kind === "tag_added" ? g.kind : "event",
+      value: String(g.value).trim(),
+      stepId: String(g.stepId ?? "") || undefined,
+    }));
+}
+
+export function goalMatches(goal: AutomationGoal, ev: GoalEvent): boolean {
+  const type = norm(ev?.event_type);
+  const meta = (ev?.meta ?? {}) as Record<string, unknown>;
+  if (goal.kind === "event") return type === norm(goal.value);
+  if (goal.kind === "lifecycle_stage") return type === "lifecycle_changed" && norm(meta.to) === norm(goal.value);
+  if (goal.kind === "tag_added") return type === "tag_added" && norm(meta.tag) === norm(goal.value);
+  return false;
+}
+
+/** First matching goal for `ev`; exit conditions take precedence over goals. */
+export function matchGoal(goals: AutomationGoal[], ev: GoalEvent): AutomationGoal | null {
+  return goals.find((g) => g.role === "exit" && goalMatches(g, ev)) ?? goals.find((g) => g.role === "goal" && goalMatches(g, ev)) ?? null;
+}
+
+export function describeGoal(goal: AutomationGoal): string {
+  if (goal.kind === "lifecycle_stage") return `Lifecycle stage becomes ${goal.value}`;
+  if (goal.kind === "tag_added") return `Tag added: ${goal.value}`;
+  return `Event: ${goal.value}`;
+}
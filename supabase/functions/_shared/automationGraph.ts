@@ -0,0 +1,409 @@
+// Automation graph model, shared by the builder (validation) and the edge functions (execution).
+//
+// An automation is a directed graph:
+// - nodes: automations.steps (trigger | condition | action | wait)
+// - edges: automations.edges (typed links between steps)
+//
+// Edge kinds:
+// - next:    the single successor of a trigger / action / wait step
+// - yes/no:  outcomes of a yes/no condition step, success / failure of an `action.webhook` step, or
+//            event happened / timed out for a wait-for-event step (mode "event"); webhook and
+//            wait-for-event steps without yes/no links just follow `next`
+// - branch:  one arm of a multi-way `condition.branch` step; arms are checked by `order`, first match wins
+// - default: fallback arm of a `condition.branch` step
+// - split:   one path of a `condition.random_split` step; contacts are assigned by `weight` (deterministic per contact)
+//
+// Steps may have several incoming edges (merge points). Cycles are allowed only when every cycle has
+// at least one edge with a `maxTraversals` guard; once a guarded edge was followed that many times in
+// a run it is skipped (branch arms fall through, otherwise the run completes).
+//
+// Automations saved before edges existed have `edges = null`; their links are derived from
+// config.next / nextYes / nextNo with array order as the fallback (see legacyEdges).
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+export type GraphStepType = "trigger" | "condition" | "action" | "wait";
+
+export interface GraphStep {
+  id: string;
+  type: GraphStepType;
+  title: string;
+  config?: Record<string, unknown>;
+}
+
+export type AutomationEdgeKind = "next" | "yes" | "no" | "branch" | "default" | "split";
+
+export interface AutomationEdge {
+  id: string;
+  from: string;
+  to: string;
+  kind: AutomationEdgeKind;
+  label?: string;
+  // branch arms: condition config (same shape as a condition step config, e.g. { kind: "condition.lead_score", op: ">", value: 50 })
+  when?: Record<string, unknown>;
+  order?: number;
+  // split paths: share of entrants in percent (scaled if the paths don't add up to 100)
+  weight?: number;
+  // loop guard: max times this edge may be followed within one run
+  maxTraversals?: number;
+}
+
+export interface AutomationGraph {
+  nodes: GraphStep[];
+  edges: AutomationEdge[];
+}
+
+export const BRANCH_KIND = "condition.branch";
+export const SPLIT_KIND = "condition.random_split";
+export const WEBHOOK_KIND = "action.webhook";
+
+export type GraphIssue = {
+  level: "error" | "warning";
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+};
+
+function str(v: unknown): string | null {
+  return typeof v === "string" && v.length > 0 ? v : null;
+}
+
+export function stepKind(step: GraphStep | null | undefined): string {
+  return String(step?.config?.kind ?? "");
+}
+
+export function isBranchStep(step: GraphStep | null | undefined): boolean {
+  return step?.type === "condition" && stepKind(step) === BRANCH_KIND;
+}
+
+export function isSplitStep(step: GraphStep | null | undefined): boolean {
+  return step?.type === "condition" && stepKind(step) === SPLIT_KIND;
+}
+
+export function isWebhookStep(step: GraphStep | null | undefined): boolean {
+  return step?.type === "action" && stepKind(step) === WEBHOOK_KIND;
+}
+
+export function isWaitForEventStep(step: GraphStep | null | undefined): boolean {
+  return step?.type === "wait" && String(step?.config?.mode ?? "") === "event";
+}
+
+/** Non-condition steps whose result can route along yes / no (falling back to next). */
+export function hasOutcomeLinks(step: GraphStep | null | undefined): boolean {
+  return isWebhookStep(step) || isWaitForEventStep(step);
+}
+
+export function edgeId(from: string, kind: AutomationEdgeKind, to: string): string {
+  return `${from}:${kind}:${to}`;
+}
+
+/** Edges implied by the pre-graph model (config.next / nextYes / nextNo, array order as fallback). */
+export function legacyEdges(steps: GraphStep[]): AutomationEdge[] {
+  const list = Array.isArray(steps) ? steps : [];
+  const ids = new Set(list.map((s) => String(s?.id)));
+  const out: AutomationEdge[] = [];
+  list.forEach((s, idx) => {
+    const cfg = (s?.config ?? {}) as Record<string, unknown>;
+    if (s?.type === "condition") {
+      const yes = str(cfg.nextYes);
+      const no = str(cfg.nextNo);
+      if (yes && ids.has(yes)) out.push({ id: edgeId(s.id, "yes", yes), from: s.id, to: yes, kind: "yes" });
+      if (no && ids.has(no)) out.push({ id: edgeId(s.id, "no", no), from: s.id, to: no, kind: "no" });
+      return;
+    }
+    const following = list[idx + 1];
+    const next = str(cfg.next) ?? (following && following.type !== "trigger" ? String(following.id ?? "") || null : null);
+    if (next && ids.has(next)) out.push({ id: edgeId(s.id, "next", next), from: s.id, to: next, kind: "next" });
+  });
+  return out;
+}
+
+/** `edges` is authoritative once saved (even if empty); null/undefined means a legacy automation. */
+export function toGraph(steps: unknown, edges?: unknown): AutomationGraph {
+  const nodes = (Array.isArray(steps) ? steps : []) as GraphStep[];
+  return {
+    nodes,
+    edges: Array.isArray(edges) ? (edges as AutomationEdge[]) : legacyEdges(nodes),
+  };
+}
+
+export function findNode(graph: AutomationGraph, id: string): GraphStep | null {
+  return graph.nodes.find((s) => String(s?.id) === String(id)) ?? null;
+}
+
+export function outgoing(graph: AutomationGraph, nodeId: string): AutomationEdge[] {
+  return graph.edges
+    .filter((e) => e.from === nodeId)
+    .sort((a, b) => Number(a.order ?? 0) - Number(b.order ?? 0));
+}
+
+export function incoming(graph: AutomationGraph, nodeId: string): AutomationEdge[] {
+  return graph.edges.filter((e) => e.to === nodeId);
+}
+
+/** First step to execute when a run starts at `triggerId`. */
+export function entryAfterTrigger(graph: AutomationGraph, triggerId: string): string | null {
+  return outgoing(graph, triggerId).find((e) => e.kind === "next")?.to ?? null;
+}
+
+// ----- Conditions -----
+
+export type ConditionContact = {
+  leadScore: number;
+  // Named scores by key (contacts.scores).
+  scores: Record<string, number>;
+  lifecycleStage: string;
+  tags: string[];
+  lists: string[];
+  lastOpenDate: string | null;
+};
+
+function norm(s: unknown) {
+  return String(s ?? "").trim().toLowerCase();
+}
+
+/** Normalize a contacts row (snake_case) or a Contact (camelCase) for condition checks. */
+export function conditionContact(row: any): ConditionContact {
+  const arr = (v: unknown) => (Array.isArray(v) ? v.map((x) => String(x)) : []);
+  return {
+    leadScore: Number(row?.lead_score ?? row?.leadScore ?? 0) || 0,
+    scores: row?.scores && typeof row.scores === "object" ? (row.scores as Record<string, number>) : {},
+    lifecycleStage: norm(row?.lifecycle_stage ?? row?.lifecycleStage ?? ""),
+    tags: arr(row?.tags),
+    lists: arr(row?.lists),
+    lastOpenDate: String(row?.last_open_date ?? row?.lastOpenDate ?? "") || null,
+  };
+}
+
+/** Evaluates a yes/no condition config (a condition step's config, or a branch arm's `when`). */
+export function evaluateCondition(config: Record<string, unknown> | null | undefined, contact: ConditionContact, now = Date.now()): boolean {
+  const kind = String(config?.kind ?? "");
+  if (kind === "condition.lead_score") {
+    const op = String(config?.op ?? ">");
+    const value = Number(config?.value ?? 50);
+    // config.score picks a named score by key; unset (or "lead_score") is the lead score.
+    const key = String(config?.score ?? "").trim();
+    const s = key && key !== "lead_score" ? Number(contact.scores[key] ?? 0) || 0 : contact.leadScore;
+    return op === ">=" ? s >= value : op === "<" ? s < value : op === "<=" ? s <= value : s > value;
+  }
+  if (kind === "condition.lifecycle_stage") {
+    return contact.lifecycleStage === norm(config?.value ?? "lead");
+  }
+  if (kind === "condition.last_open_days") {
+    const days = Number(config?.days ?? 30);
+    const last = contact.lastOpenDate ? new Date(contact.lastOpenDate).getTime() : NaN;
+    const diffDays = Number.isFinite(last) ? Math.floor((now - last) / (1000 * 60 * 60 * 24)) : 999999;
+    return diffDays >= days; // "has not opened in N days"
+  }
+  if (kind === "condition.has_tag") {
+    const want = norm(config?.tag ?? "");
+    return !want ? true : contact.tags.some((t) => norm(t) === want || norm(t).includes(want));
+  }
+  throw new Error(`Unsupported condition: ${kind || "(none)"}`);
+}
+
+// ----- Execution -----
+
+export type EdgeTraversals = Record<string, number>;
+
+/** FNV-1a; stable across runtimes so a contact always lands in the same split path. */
+function hash32(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Weighted pick among split paths for `seed` (stepId + contactId). Non-positive weights never win unless all are. */
+export function pickSplitArm(arms: AutomationEdge[], seed: string): AutomationEdge | null {
+  if (arms.length === 0) return null;
+  const weights = arms.map((a) => Math.max(0, Number(a.weight ?? 0) || 0));
+  const total = weights.reduce((a, b) => a + b, 0);
+  const w = total > 0 ? weights : arms.map(() => 1);
+  const point = (hash32(seed) / 0x100000000) * (total > 0 ? total : arms.length);
+  let acc = 0;
+  for (let i = 0; i < arms.length; i++) {
+    acc += w[i];
+    if (point < acc) return arms[i];
+  }
+  return arms[arms.length - 1];
+}
+
+function canTraverse(edge: AutomationEdge, traversals: EdgeTraversals): boolean {
+  const max = Number(edge.maxTraversals ?? 0);
+  if (!(max > 0)) return true;
+  return Number(traversals[edge.id] ?? 0) < max;
+}
+
+/**
+ * Picks the edge to follow out of `step`.
+ * - condition.branch: first arm (by order) whose `when` matches, else the default arm
+ * - condition.random_split: the declared winner (config.winnerEdgeId), else a weighted path picked from `contactId`
+ * - yes/no conditions: `outcome` selects the yes or no edge
+ * - action.webhook / wait-for-event: `outcome` selects the yes / no edge when present, else next
+ * - everything else: the next edge
+ * Exhausted loop guards are skipped. Returns null when the run should complete.
+ */
+export function pickEdge(
+  graph: AutomationGraph,
+  step: GraphStep,
+  opts: { outcome?: boolean; contact?: ConditionContact; contactId?: string; traversals?: EdgeTraversals; now?: number } = {},
+): AutomationEdge | null {
+  const traversals = opts.traversals ?? {};
+  const out = outgoing(graph, step.id);
+  if (isSplitStep(step)) {
+    const arms = out.filter((e) => e.kind === "split");
+    const winnerId = str(step.config?.winnerEdgeId);
+    const e = arms.find((a) => a.id === winnerId) ?? pickSplitArm(arms, `${step.id}:${opts.contactId ?? ""}`);
+    return e && canTraverse(e, traversals) ? e : null;
+  }
+  if (isBranchStep(step)) {
+    const contact = opts.contact ?? conditionContact(null);
+    for (const e of out) {
+      if (e.kind !== "branch" || !canTraverse(e, traversals)) continue;
+      if (evaluateCondition(e.when ?? {}, contact, opts.now)) return e;
+    }
+    const def = out.find((e) => e.kind === "default");
+    return def && canTraverse(def, traversals) ? def : null;
+  }
+  if (hasOutcomeLinks(step) && opts.outcome !== undefined) {
+    const e = out.find((x) => x.kind === (opts.outcome ? "yes" : "no"));
+    if (e) return canTraverse(e, traversals) ? e : null;
+  }
+  const kind: AutomationEdgeKind = step.type === "condition" ? (opts.outcome ? "yes" : "no") : "next";
+  const e = out.find((x) => x.kind === kind);
+  return e && canTraverse(e, traversals) ? e : null;
+}
+
+// ----- Validation -----
+
+function allowedKinds(step: GraphStep): AutomationEdgeKind[] {
+  if (isBranchStep(step)) return ["branch", "default"];
+  if (isSplitStep(step)) return ["split"];
+  if (hasOutcomeLinks(step)) return ["next", "yes", "no"];
+  if (step.type === "condition") return ["yes", "no"];
+  return ["next"];
+}
+
+/** Nodes on a cycle made only of unguarded edges (empty if every cycle has a guard). */
+function unguardedCycleNodes(graph: AutomationGraph): string[] {
+  const adj = new Map<string, string[]>();
+  for (const e of graph.edges) {
+    if (Number(e.maxTraversals ?? 0) > 0) continue;
+    adj.set(e.from, [...(adj.get(e.from) ?? []), e.to]);
+  }
+  const color = new Map<string, 0 | 1 | 2>();
+  const stack: string[] = [];
+  const found = new Set<string>();
+  const visit = (id: string) => {
+    color.set(id, 1);
+    stack.push(id);
+    for (const to of adj.get(id) ?? []) {
+      const c = color.get(to) ?? 0;
+      if (c === 1) stack.slice(stack.indexOf(to)).forEach((x) => found.add(x));
+      else if (c === 0) visit(to);
+    }
+    stack.pop();
+    color.set(id, 2);
+  };
+  for (const n of graph.nodes) if ((color.get(n.id) ?? 0) === 0) visit(n.id);
+  return Array.from(found);
+}
+
+/** True when `edge` sits on a cycle (its target can reach its source). */
+export function isLoopEdge(graph: AutomationGraph, edge: AutomationEdge): boolean {
+  const seen = new Set<string>();
+  const queue = [edge.to];
+  while (queue.length) {
+    const id = queue.shift() as string;
+    if (id === edge.from) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const e of graph.edges) if (e.from === id) queue.push(e.to);
+  }
+  return false;
+}
+
+export function validateGraph(graph: AutomationGraph): GraphIssue[] {
+  const issues: GraphIssue[] = [];
+  const byId = new Map<string, GraphStep>();
+  for (const n of graph.nodes) {
+    if (byId.has(n.id)) issues.push({ level: "error", nodeId: n.id, message: `Duplicate step id "${n.id}".` });
+    byId.set(n.id, n);
+  }
+  if (graph.nodes.length === 0) return issues;
+
+  const triggers = graph.nodes.filter((n) => n.type === "trigger");
+  if (triggers.length === 0) issues.push({ level: "error", message: "Add a trigger so contacts can enter this automation." });
+
+  const edgeIds = new Set<string>();
+  for (const e of graph.edges) {
+    if (edgeIds.has(e.id)) issues.push({ level: "error", edgeId: e.id, message: `Duplicate link id "${e.id}".` });
+    edgeIds.add(e.id);
+    const from = byId.get(e.from);
+    const to = byId.get(e.to);
+    if (!from || !to) {
+      issues.push({ level: "error", edgeId: e.id, message: "A link points to a step that no longer exists." });
+      continue;
+    }
+    if (to.type === "trigger") {
+      issues.push({ level: "error", edgeId: e.id, nodeId: to.id, message: `"${to.title}" is a trigger and can't be the target of a link.` });
+    }
+    if (!allowedKinds(from).includes(e.kind)) {
+      issues.push({ level: "error", edgeId: e.id, nodeId: from.id, message: `"${from.title}" can't have a "${e.kind}" link.` });
+    }
+    if (e.kind === "branch" && !String(e.when?.kind ?? "").startsWith("condition.")) {
+      issues.push({ level: "error", edgeId: e.id, nodeId: from.id, message: `A branch of "${from.title}" has no condition.` });
+    }
+    if (e.kind === "split" && !(Number(e.weight ?? 0) > 0)) {
+      issues.push({ level: "error", edgeId: e.id, nodeId: from.id, message: `A path of "${from.title}" has no percentage.` });
+    }
+  }
+
+  for (const n of graph.nodes) {
+    const out = graph.edges.filter((e) => e.from === n.id);
+    const count = (k: AutomationEdgeKind) => out.filter((e) => e.kind === k).length;
+    if (isBranchStep(n)) {
+      if (count("branch") < 2) issues.push({ level: "warning", nodeId: n.id, message: `"${n.title}" has fewer than two branches.` });
+      if (count("default") > 1) issues.push({ level: "error", nodeId: n.id, message: `"${n.title}" has more than one default branch.` });
+      if (count("default") === 0) issues.push({ level: "warning", nodeId: n.id, message: `"${n.title}" has no default branch; unmatched contacts exit.` });
+    } else if (isSplitStep(n)) {
+      const total = out.filter((e) => e.kind === "split").reduce((a, e) => a + Math.max(0, Number(e.weight ?? 0) || 0), 0);
+      if (count("split") < 2) issues.push({ level: "warning", nodeId: n.id, message: `"${n.title}" needs at least two paths to split traffic.` });
+      else if (Math.round(total) !== 100) issues.push({ level: "warning", nodeId: n.id, message: `"${n.title}" paths add up to ${Math.round(total)}%; they will be scaled to 100%.` });
+    } else if (n.type === "condition") {
+      if (count("yes") > 1 || count("no") > 1) issues.push({ level: "error", nodeId: n.id, message: `"${n.title}" has more than one YES or NO link.` });
+      if (count("yes") === 0 || count("no") === 0) issues.push({ level: "warning", nodeId: n.id, message: `"${n.title}" is missing a YES or NO path; those contacts exit.` });
+    } else {
+      if (count("next") > 1) issues.push({ level: "error", nodeId: n.id, message: `"${n.title}" has more than one next step.` });
+      if (count("yes") > 1 || count("no") > 1) {
+        issues.push({ level: "error", nodeId: n.id, message: `"${n.title}" has more than one YES or NO link.` });
+      }
+    }
+  }
+
+  const cyc = unguardedCycleNodes(graph);
+  if (cyc.length > 0) {
+    const names = cyc.map((id) => byId.get(id)?.title ?? id).join(" → ");
+    issues.push({ level: "error", nodeId: cyc[0], message: `Loop without a guard: ${names}. Set "max times per run" on one of its links.` });
+  }
+
+  // Reachability from triggers
+  const reach = new Set<string>();
+  const queue = triggers.map((t) => t.id);
+  while (queue.length) {
+    const id = queue.shift() as string;
+    if (reach.has(id)) continue;
+    reach.add(id);
+    for (const e of graph.edges) if (e.from === id) queue.push(e.to);
+  }
+  for (const n of graph.nodes) {
+    if (triggers.length > 0 && !reach.has(n.id)) {
+      issues.push({ level: "warning", nodeId: n.id, message: `"${n.title}" can't be reached from any trigger.` });
+    }
+  }
+
+  return issues;
+}
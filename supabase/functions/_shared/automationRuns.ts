@@ -0,0 +1,91 @@
+// Shared helpers for Supabase Edge Functions: starting automation runs.
+//
+// Used by automation-scanner (event triggers) and automation-trigger (manual / test runs) so both apply
+// the automation's entry policy the same way (see automationEntry.ts).
+//
+// Loop protection: contact events written by automation actions (tag / list / lifecycle changes) carry
+// meta.automation_chain, the automations that led to them. A run started from such an event inherits
+// the chain, so automation A → tag → automation B → tag → A is stopped before A runs again.
+
+import { dbInsert, dbSelectOne, q } from "./db.ts";
+import { entrySkipReason, readEntryPolicy } from "./automationEntry.ts";
+
+// Longest chain of automations triggering each other through contact changes.
+export const MAX_AUTOMATION_CHAIN = 5;
+
+/** Automation ids recorded on an event's / run's meta (oldest first). */
+export function automationChain(meta: unknown): string[] {
+  const chain = (meta as any)?.automation_chain;
+  return Array.isArray(chain) ? chain.map((x) => String(x)) : [];
+}
+
+/** True when starting `automationId` from an event with this chain would loop. */
+export function chainBlocksEntry(chain: string[], automationId: string): boolean {
+  return chain.includes(automationId) || chain.length >= MAX_AUTOMATION_CHAIN;
+}
+
+export type StartRunResult = {
+  runId: string | null;
+  // entry policy reason when the contact was not allowed in (a "skipped" run row is logged)
+  skipped: string | null;
+};
+
+/** Creates a run and enqueues `stepId`, unless the entry policy blocks the contact. */
+export async function startRun(opts: {
+  workspaceId: string;
+  automation: { id: unknown; entry_policy?: unknown };
+  contactId: string;
+  stepId: string;
+  meta?: Record<string, unknown> | null;
+  payload?: Record<string, unknown> | null;
+  ignoreEntryPolicy?: boolean;
+}): Promise<StartRunResult> {
+  const { workspaceId, contactId, stepId } = opts;
+  const automationId = String(opts.automation.id);
+
+  if (!opts.ignoreEntryPolicy) {
+    const policy = readEntryPolicy(opts.automation.entry_policy);
+    if (policy.mode !== "unlimited") {
+      const base = `automation_runs?select=id,started_at&workspace_id=eq.${q(workspaceId)}&automation_id=eq.${q(automationId)}&contact_id=eq.${q(contactId)}`;
+      const last = await dbSelectOne(`${base}&status=neq.skipped&order=started_at.desc`);
+      const active = policy.mode === "not_if_active" ? await dbSelectOne(`${base}&status=eq.running`) : null;
+      const reason = entrySkipReason(policy, { lastStartedAt: last?.started_at ?? null, hasActive: Boolean(active) });
+      if (reason) {
+        const nowIso = new Date().toISOString();
+        const [row] = await dbInsert("automation_runs", [{
+          workspace_id: workspaceId,
+          automation_id: automationId,
+          contact_id: contactId,
+          status: "skipped",
+          exit_reason: reason,
+          started_at: nowIso,
+          finished_at: nowIso,
+          meta: opts.meta ?? null,
+        }], { returning: true });
+        return { runId: row?.id ? String(row.id) : null, skipped: reason };
+      }
+    }
+  }
+
+  const [run] = await dbInsert("automation_runs", [{
+    workspace_id: workspaceId,
+    automation_id: automationId,
+    contact_id: contactId,
+    status: "running",
+    current_step_id: stepId,
+    meta: opts.meta ?? null,
+  }], { returning: true });
+  if (!run?.id) return { runId: null, skipped: null };
+
+  await dbInsert("automation_queue", [{
+    workspace_id: workspaceId,
+    run_id: run.id,
+    automation_id: automationId,
+    contact_id: contactId,
+    step_id: stepId,
+    execute_at: new Date().toISOString(),
+    status: "queued",
+    payload: opts.payload ?? null,
+  }]);
+  return { runId: String(run.id), skipped: null };
+}
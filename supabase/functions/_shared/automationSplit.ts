@@ -0,0 +1,246 @@
+// Shared helpers for Supabase Edge Functions: random split (A/B/n) bookkeeping for automations.
+//
+// - Each contact is assigned once per split step (automation_split_assignments; first assignment wins).
+// - A path "converts" when the contact opens / clicks an email sent by this automation after being assigned.
+// - Auto-winner: once every path has `minPerArm` entrants and the leader beats the runner-up with the
+//   configured confidence (one-sided two-proportion z-test), the winner is stored in automation_split_state
+//   and all later entrants follow that path. The automation's steps are never rewritten (builder edits
+//   stay intact); the test is evaluated at most once per SPLIT_WINNER_CHECK_INTERVAL_MS per step.
+// - Older automations may still carry config.winnerEdgeId on the step; it is honored the same way.
+
+import { dbDelete, dbFetch, dbInsert, dbPatch, dbSelect, dbSelectOne, q } from "./db.ts";
+import { isSplitStep, outgoing, type AutomationGraph, type GraphStep } from "./automationGraph.ts";
+
+export type SplitMetric = "open" | "click";
+
+export type SplitArmStats = {
+  edgeId: string;
+  label: string;
+  to: string;
+  weight: number;
+  entrants: number;
+  opens: number;
+  clicks: number;
+};
+
+export type SplitReport = {
+  stepId: string;
+  title: string;
+  metric: SplitMetric;
+  autoWinner: boolean;
+  winnerEdgeId: string | null;
+  winnerAt: string | null;
+  // p-value of "leader is better than runner-up" on `metric` (null until two paths have entrants)
+  pValue: number | null;
+  arms: SplitArmStats[];
+};
+
+export const SPLIT_WINNER_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export type AutoWinnerConfig = {
+  enabled: boolean;
+  metric: SplitMetric;
+  minPerArm: number;
+  confidence: number;
+};
+
+export function autoWinnerConfig(step: GraphStep): AutoWinnerConfig {
+  const cfg = (step.config?.autoWinner ?? {}) as Record<string, unknown>;
+  return {
+    enabled: Boolean(cfg.enabled),
+    metric: cfg.metric === "open" ? "open" : "click",
+    minPerArm: Math.max(1, Math.floor(Number(cfg.minPerArm ?? 100) || 100)),
+    confidence: Math.min(0.999, Math.max(0.8, Number(cfg.confidence ?? 0.95) || 0.95)),
+  };
+}
+
+// Standard normal CDF (Abramowitz & Stegun 26.2.17, |error| < 7.5e-8).
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const d = 0.3989422804014327 * Math.exp((-z * z) / 2);
+  const p = d * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - p : p;
+}
+
+function conversions(a: SplitArmStats, metric: SplitMetric) {
+  return metric === "open" ? a.opens : a.clicks;
+}
+
+/** Leader by conversion rate and the one-sided p-value of it beating the runner-up. */
+export function splitLeader(arms: SplitArmStats[], metric: SplitMetric): { leader: SplitArmStats | null; pValue: number | null } {
+  const ranked = arms
+    .filter((a) => a.entrants > 0)
+    .sort((a, b) => conversions(b, metric) / b.entrants - conversions(a, metric) / a.entrants);
+  if (ranked.length < 2) return { leader: ranked[0] ?? null, pValue: null };
+  const [a, b] = ranked;
+  const c1 = conversions(a, metric);
+  const c2 = conversions(b, metric);
+  const pooled = (c1 + c2) / (a.entrants + b.entrants);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.entrants + 1 / b.entrants));
+  if (!(se > 0)) return { leader: a, pValue: 1 };
+  const z = (c1 / a.entrants - c2 / b.entrants) / se;
+  return { leader: a, pValue: 1 - normalCdf(z) };
+}
+
+/** Winning edge id, or null while the test is still running. */
+export function pickSplitWinner(arms: SplitArmStats[], cfg: AutoWinnerConfig): string | null {
+  if (arms.length < 2 || arms.some((a) => a.entrants < cfg.minPerArm)) return null;
+  const { leader, pValue } = splitLeader(arms, cfg.metric);
+  return leader && pValue !== null && pValue <= 1 - cfg.confidence ? leader.edgeId : null;
+}
+
+export async function recordSplitAssignment(row: {
+  workspaceId: string;
+  automationId: string;
+  stepId: string;
+  contactId: string;
+  runId: string;
+  edgeId: string;
+  viaWinner: boolean;
+}): Promise<void> {
+  await dbInsert("automation_split_assignments", [{
+    workspace_id: row.workspaceId,
+    automation_id: row.automationId,
+    step_id: row.stepId,
+    contact_id: row.contactId,
+    run_id: row.runId,
+    edge_id: row.edgeId,
+    via_winner: row.viaWinner,
+  }], { onConflict: "workspace_id,automation_id,step_id,contact_id", ignoreDuplicates: true });
+}
+
+/** Per-path stats for every split step of an automation (or just `stepId`). */
+export async function loadSplitReports(
+  workspaceId: string,
+  automationId: string,
+  graph: AutomationGraph,
+  stepId?: string,
+): Promise<SplitReport[]> {
+  const steps = graph.nodes.filter((n) => isSplitStep(n) && (!stepId || n.id === stepId));
+  if (steps.length === 0) return [];
+
+  const winners = new Map(
+    (await dbSelect(
+      `automation_split_state?select=step_id,edge_id,declared_at&workspace_id=eq.${q(workspaceId)}&automation_id=eq.${q(automationId)}${stepId ? `&step_id=eq.${q(stepId)}` : ""}&edge_id=not.is.null`,
+    )).map((r) => [String(r.step_id), r]),
+  );
+
+  // Contacts routed after a winner was declared are not part of the experiment.
+  const assignments = await dbSelect(
+    `automation_split_assignments?select=step_id,edge_id,contact_id,assigned_at&workspace_id=eq.${q(workspaceId)}&automation_id=eq.${q(automationId)}${stepId ? `&step_id=eq.${q(stepId)}` : ""}&via_winner=is.false&limit=10000`,
+  );
+  const sends = await dbSelect(
+    `email_sends?select=contact_id,created_at,opened_at,clicked_at&workspace_id=eq.${q(workspaceId)}&campaign_id=eq.${q(automationId)}&meta->>source=eq.automation&limit=20000`,
+  );
+  const sendsByContact = new Map<string, any[]>();
+  for (const s of sends) {
+    const cid = String(s.contact_id ?? "");
+    if (!cid) continue;
+    sendsByContact.set(cid, [...(sendsByContact.get(cid) ?? []), s]);
+  }
+
+  return steps.map((step) => {
+    const arms: SplitArmStats[] = outgoing(graph, step.id)
+      .filter((e) => e.kind === "split")
+      .map((e, idx) => ({
+        edgeId: e.id,
+        label: e.label || `Path ${String.fromCharCode(65 + idx)}`,
+        to: e.to,
+        weight: Number(e.weight ?? 0) || 0,
+        entrants: 0,
+        opens: 0,
+        clicks: 0,
+      }));
+    const byEdge = new Map(arms.map((a) => [a.edgeId, a]));
+    for (const r of assignments) {
+      if (String(r.step_id) !== step.id) continue;
+      const arm = byEdge.get(String(r.edge_id));
+      if (!arm) continue;
+      arm.entrants++;
+      const since = new Date(String(r.assigned_at)).getTime();
+      const after = (sendsByContact.get(String(r.contact_id)) ?? []).filter((s) => new Date(String(s.created_at)).getTime() >= since);
+      if (after.some((s) => s.opened_at)) arm.opens++;
+      if (after.some((s) => s.clicked_at)) arm.clicks++;
+    }
+    const cfg = autoWinnerConfig(step);
+    const winner = winners.get(step.id);
+    return {
+      stepId: step.id,
+      title: step.title,
+      metric: cfg.metric,
+      autoWinner: cfg.enabled,
+      winnerEdgeId: String(winner?.edge_id ?? step.config?.winnerEdgeId ?? "") || null,
+      winnerAt: String(winner?.declared_at ?? step.config?.winnerAt ?? "") || null,
+      pValue: splitLeader(arms, cfg.metric).pValue,
+      arms,
+    };
+  });
+}
+
+function withWinner(step: GraphStep, winnerEdgeId: string, winnerAt: unknown): GraphStep {
+  return { ...step, config: { ...(step.config ?? {}), winnerEdgeId, winnerAt: String(winnerAt ?? "") || undefined } };
+}
+
+/**
+ * Takes this interval's winner check for the step: true for the first caller when the state row is new or
+ * its last check is older than SPLIT_WINNER_CHECK_INTERVAL_MS (concurrent workers race on the same row).
+ */
+async function claimWinnerCheck(workspaceId: string, automationId: string, stepId: string, state: any | null): Promise<boolean> {
+  const now = Date.now();
+  const checkedAt = new Date(now).toISOString();
+  if (!state) {
+    const inserted = await dbInsert("automation_split_state", [{
+      workspace_id: workspaceId,
+      automation_id: automationId,
+      step_id: stepId,
+      checked_at: checkedAt,
+    }], { returning: true, onConflict: "workspace_id,automation_id,step_id", ignoreDuplicates: true });
+    return inserted.length > 0;
+  }
+  if (now - new Date(String(state.checked_at)).getTime() < SPLIT_WINNER_CHECK_INTERVAL_MS) return false;
+  const cutoff = new Date(now - SPLIT_WINNER_CHECK_INTERVAL_MS).toISOString();
+  const claimed = await dbFetch<any[] | null>(
+    `automation_split_state?workspace_id=eq.${q(workspaceId)}&automation_id=eq.${q(automationId)}&step_id=eq.${q(stepId)}&edge_id=is.null&checked_at=lt.${q(cutoff)}&select=step_id`,
+    { method: "PATCH", headers: { Prefer: "return=representation" }, body: JSON.stringify({ checked_at: checkedAt }) },
+  );
+  return Array.isArray(claimed) && claimed.length > 0;
+}
+
+/**
+ * Returns `step` with the declared winner (if any) applied to its config in memory, for pickEdge.
+ * With auto-winner on and no winner yet, re-evaluates the test at most once per interval and stores a
+ * significant winner in automation_split_state.
+ */
+export async function maybeDeclareSplitWinner(
+  workspaceId: string,
+  automationId: string,
+  graph: AutomationGraph,
+  step: GraphStep,
+): Promise<GraphStep> {
+  if (step.config?.winnerEdgeId) return step;
+  const state = await dbSelectOne(
+    `automation_split_state?select=edge_id,declared_at,checked_at&workspace_id=eq.${q(workspaceId)}&automation_id=eq.${q(automationId)}&step_id=eq.${q(step.id)}`,
+  );
+  if (state?.edge_id) return withWinner(step, String(state.edge_id), state.declared_at);
+  const cfg = autoWinnerConfig(step);
+  if (!cfg.enabled) return step;
+  if (!(await claimWinnerCheck(workspaceId, automationId, step.id, state))) return step;
+
+  const [report] = await loadSplitReports(workspaceId, automationId, graph, step.id);
+  const winner = report ? pickSplitWinner(report.arms, cfg) : null;
+  if (!winner) return step;
+
+  const declaredAt = new Date().toISOString();
+  await dbPatch(
+    `automation_split_state?workspace_id=eq.${q(workspaceId)}&automation_id=eq.${q(automationId)}&step_id=eq.${q(step.id)}&edge_id=is.null`,
+    { edge_id: winner, declared_at: declaredAt },
+  );
+  return withWinner(step, winner, declaredAt);
+}
+
+/** Clears a declared winner (and the check throttle) so the split test runs again. */
+export async function resetSplitWinner(workspaceId: string, automationId: string, stepId: string): Promise<void> {
+  await dbDelete(
+    `automation_split_state?workspace_id=eq.${q(workspaceId)}&automation_id=eq.${q(automationId)}&step_id=eq.${q(stepId)}`,
+  );
+}
@@ -0,0 +1,91 @@
+// Automation wait steps, shared by the builder (summaries) and automation-worker / automation-scanner.
+//
+// Modes (wait step config.mode):
+// - delay (default):  `days`; wait steps saved before modes existed only have `days`
+// - until_date:       `date` (YYYY-MM-DD) at `time` (HH:MM) in the contact's timezone; a past date continues at once
+// - until_weekday:    the next `weekday` (0 = Sunday … 6 = Saturday) at `time` in the contact's timezone
+// - event:            wait up to `days` for `eventType` (email_open, link_click, purchase…), then route YES if it
+//                     happened or NO on timeout. automation-scanner wakes the queued item as soon as the event arrives.
+//
+// Contacts without a valid timezone use UTC (see timezone.ts).
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+import { localParts, parseTime, resolveTimeZone, zonedTimeToUtc } from "./timezone.ts";
+
+export type WaitMode = "delay" | "until_date" | "until_weekday" | "event";
+
+export interface WaitConfig {
+  mode: WaitMode;
+  days: number;
+  date: string;
+  time: string;
+  weekday: number;
+  eventType: string;
+  // event mode, email_open / link_click: only count emails sent by this automation
+  sameAutomation: boolean;
+}
+
+// Stored on the queue item payload while a wait-for-event step is pending (matched by automation-scanner).
+export type WaitEventPayload = {
+  event_type: string;
+  since: string;
+  automation_id?: string;
+};
+
+export const WAIT_EVENT_TYPES: Array<{ value: string; label: string }> = [
+  { value: "email_open", label: "Opens an email" },
+  { value: "link_click", label: "Clicks a link" },
+  { value: "purchase", label: "Makes a purchase" },
+  { value: "form_submitted", label: "Submits a form" },
+  { value: "page_visited", label: "Visits a page" },
+];
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function readWaitConfig(cfg: Record<string, unknown> | null | undefined): WaitConfig {
+  const raw = String(cfg?.mode ?? "");
+  const mode: WaitMode = raw === "until_date" || raw === "until_weekday" || raw === "event" ? raw : "delay";
+  const weekday = Math.floor(Number(cfg?.weekday ?? 1));
+  return {
+    mode,
+    days: Math.max(0, Number(cfg?.days ?? 1) || 0),
+    date: String(cfg?.date ?? "").trim(),
+    time: String(cfg?.time ?? "09:00").trim() || "09:00",
+    weekday: weekday >= 0 && weekday <= 6 ? weekday : 1,
+    eventType: String(cfg?.eventType ?? "email_open").trim() || "email_open",
+    sameAutomation: cfg?.sameAutomation !== false,
+  };
+}
+
+/** When a delay / until_date / until_weekday wait ends; for `event` this is the timeout. */
+export function waitUntil(cfg: WaitConfig, timeZone: string | null | undefined, now = new Date()): Date {
+  const tz = resolveTimeZone(timeZone);
+  const nowMs = now.getTime();
+  if (cfg.mode === "until_date") {
+    const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(cfg.date);
+    if (!m) return now;
+    const { h, m: mi } = parseTime(cfg.time);
+    const at = zonedTimeToUtc(Number(m[1]), Number(m[2]), Number(m[3]), h, mi, tz);
+    return at.getTime() > nowMs ? at : now;
+  }
+  if (cfg.mode === "until_weekday") {
+    const local = localParts(nowMs, tz);
+    const { h, m: mi } = parseTime(cfg.time);
+    const ahead = (cfg.weekday - local.weekday + 7) % 7;
+    let at = zonedTimeToUtc(local.y, local.mo, local.d + ahead, h, mi, tz);
+    if (at.getTime() <= nowMs) at = zonedTimeToUtc(local.y, local.mo, local.d + ahead + 7, h, mi, tz);
+    return at;
+  }
+  return new Date(nowMs + cfg.days * DAY_MS);
+}
+
+/** Does `ev` (a contact_events row) end a pending wait-for-event? */
+export function waitEventMatches(wait: WaitEventPayload, ev: { event_type?: unknown; occurred_at?: unknown; campaign_id?: unknown }): boolean {
+  if (String(ev.event_type ?? "") !== wait.event_type) return false;
+  if (new Date(String(ev.occurred_at ?? "")).getTime() < new Date(wait.since).getTime()) return false;
+  if (wait.automation_id && String(ev.campaign_id ?? "") !== wait.automation_id) return false;
+  return true;
+}
@@ -0,0 +1,102 @@
+// Best send time, shared by best-time-worker (learning) and campaign-scheduler (picking a send slot).
+//
+// Opens are counted per hour of the week in the contact's own timezone: a 168-slot array indexed by
+// weekday * 24 + hour (weekday 0 = Sunday), stored in contacts.best_time_hours. The workspace keeps
+// the same curve over all contacts' opens (best_time_cursor.workspace_hours).
+//
+// Confidence grows with the number of opens seen: samples / (samples + BEST_TIME_PRIOR_OPENS), so 5
+// opens give 0.5 and 20 give 0.8. When picking a slot, the contact's curve is blended with the workspace
+// curve by that confidence, so contacts with few opens mostly follow the workspace.
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+import { localParts, parseTime, zonedTimeToUtc } from "./timezone.ts";
+
+export const HOURS_PER_WEEK = 168;
+export const BEST_TIME_PRIOR_OPENS = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** A stored curve (jsonb array), or all zeros when missing / malformed. */
+export function readHours(raw: unknown): number[] {
+  const out = new Array<number>(HOURS_PER_WEEK).fill(0);
+  if (!Array.isArray(raw)) return out;
+  for (let i = 0; i < HOURS_PER_WEEK; i++) {
+    const n = Number(raw[i] ?? 0);
+    out[i] = Number.isFinite(n) && n > 0 ? n : 0;
+  }
+  return out;
+}
+
+/** Slot of an instant in a (resolved) timezone. */
+export function hourOfWeek(utcMs: number, timeZone: string): number {
+  const p = localParts(utcMs, timeZone);
+  return p.weekday * 24 + p.h;
+}
+
+export function sampleCount(hours: number[]): number {
+  return hours.reduce((a, b) => a + b, 0);
+}
+
+export function bestTimeConfidence(samples: number): number {
+  return samples > 0 ? samples / (samples + BEST_TIME_PRIOR_OPENS) : 0;
+}
+
+/** Hour of day with the most opens, any weekday (null without opens). */
+export function peakHour(hours: number[]): number | null {
+  const byHour = new Array<number>(24).fill(0);
+  hours.forEach((n, i) => (byHour[i % 24] += n));
+  const max = Math.max(...byHour);
+  return max > 0 ? byHour.indexOf(max) : null;
+}
+
+function normalized(hours: number[]): number[] {
+  const total = sampleCount(hours);
+  return total > 0 ? hours.map((n) => n / total) : hours.map(() => 1 / HOURS_PER_WEEK);
+}
+
+/** Share of opens per slot: the contact's curve weighted by its confidence, the workspace's for the rest. */
+export function blendedDistribution(contactHours: number[], workspaceHours: number[]): number[] {
+  const confidence = bestTimeConfidence(sampleCount(contactHours));
+  const own = normalized(contactHours);
+  const fallback = normalized(workspaceHours);
+  return own.map((p, i) => confidence * p + (1 - confidence) * fallback[i]);
+}
+
+/**
+ * Next send instant within the daily window (window_start / window_end, "HH:MM" in `timeZone`) over
+ * the coming week, at the hour the distribution rates highest; ties go to the earliest slot. Sends go
+ * out on the hour, or at window_start in its own hour. A window ending before it starts runs to midnight.
+ */
+export function bestSendTime(
+  distribution: number[],
+  now: Date,
+  timeZone: string,
+  windowStart: string,
+  windowEnd: string,
+): Date {
+  const start = parseTime(windowStart);
+  const end = parseTime(windowEnd);
+  const startMin = start.h * 60 + start.m;
+  const endMin = end.h * 60 + end.m >= startMin ? end.h * 60 + end.m : 23 * 60 + 59;
+  let best: Date | null = null;
+  let bestScore = -1;
+  for (let day = 0; day <= 7; day++) {
+    const local = localParts(now.getTime() + day * DAY_MS, timeZone);
+    // One timezone lookup per day; hours after the window start are counted on from it.
+    const dayStart = zonedTimeToUtc(local.y, local.mo, local.d, start.h, start.m, timeZone).getTime();
+    for (let h = start.h; h * 60 <= endMin; h++) {
+      const minute = h === start.h ? start.m : 0;
+      if (h * 60 + minute > endMin) break;
+      const at = dayStart + (h * 60 + minute - startMin) * 60 * 1000;
+      if (at <= now.getTime()) continue;
+      const score = distribution[local.weekday * 24 + h] ?? 0;
+      if (score > bestScore) {
+        best = new Date(at);
+        bestScore = score;
+      }
+    }
+  }
+  return best ?? new Date(now.getTime() + DAY_MS);
+}
@@ -0,0 +1,178 @@
+// Custom contact fields: fields a workspace defines itself (public.contact_fields) on top of the fixed
+// contact columns. Values live in contacts.attributes under the field key, typed by the field:
+//   { "plan": "pro", "seats": 12, "beta_user": true, "renewal_date": "2026-03-01", "interests": ["ai", "crm"] }
+//
+// Used by the contact editor, CSV import, segment "Custom Field" conditions, merge tags
+// ({{custom.<key>}}, see html.ts) and automation `action.update_field` ("custom.<key>" fields).
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+import type { SegmentFieldKind } from "./segments.ts";
+
+export type CustomFieldType = "string" | "number" | "boolean" | "date" | "enum" | "multi_select";
+
+export type CustomFieldValue = string | number | boolean | string[];
+
+export type CustomField = {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  // Allowed values for enum / multi_select (empty = any).
+  options: string[];
+};
+
+export const CUSTOM_FIELD_TYPES: Array<{ value: CustomFieldType; label: string }> = [
+  { value: "string", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "boolean", label: "Yes / No" },
+  { value: "date", label: "Date" },
+  { value: "enum", label: "Single choice" },
+  { value: "multi_select", label: "Multiple choice" },
+];
+
+// How segment conditions compare each type (choice values for booleans are "true" / "false").
+export const CUSTOM_FIELD_SEGMENT_KINDS: Record<CustomFieldType, SegmentFieldKind> = {
+  string: "text",
+  number: "number",
+  boolean: "choice",
+  date: "date",
+  enum: "choice",
+  multi_select: "membership",
+};
+
+// Prefix of custom fields in merge tags and `action.update_field` configs.
+export const CUSTOM_FIELD_PREFIX = "custom.";
+
+const TRUE_WORDS = ["true", "yes", "y", "1"];
+const FALSE_WORDS = ["false", "no", "n", "0"];
+
+function isCustomFieldType(v: unknown): v is CustomFieldType {
+  return CUSTOM_FIELD_TYPES.some((t) => t.value === v);
+}
+
+/** Key for a new field from its label ("Renewal date" → "renewal_date"), unique among `taken`. */
+export function customFieldKey(label: string, taken: string[]): string {
+  let base = String(label ?? "").trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  if (!base || /^[0-9]/.test(base)) base = `field_${base}`.replace(/_+$/, "");
+  let key = base;
+  for (let i = 2; taken.includes(key); i++) key = `${base}_${i}`;
+  return key;
+}
+
+function readOptions(raw: unknown): string[] {
+  const items = Array.isArray(raw) ? raw : String(raw ?? "").split(",");
+  return [...new Set(items.map((o) => String(o ?? "").trim()).filter(Boolean))];
+}
+
+/** A contact_fields row (or a field from the editor), or null when it has no usable key. */
+export function readCustomField(raw: unknown): CustomField | null {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const key = String(r.key ?? "").trim();
+  if (!key) return null;
+  const type = isCustomFieldType(r.type) ? r.type : "string";
+  return {
+    key,
+    label: String(r.label ?? "").trim() || key,
+    type,
+    options: type === "enum" || type === "multi_select" ? readOptions(r.options) : [],
+  };
+}
+
+export function readCustomFields(rows: unknown): CustomField[] {
+  const out: CustomField[] = [];
+  for (const row of Array.isArray(rows) ? rows : []) {
+    const f = readCustomField(row);
+    if (f && !out.some((o) => o.key === f.key)) out.push(f);
+  }
+  return out;
+}
+
+/** The listed option matching `v` case-insensitively (any value when the field lists none). */
+function matchOption(field: CustomField, v: string): string | null {
+  if (!v) return null;
+  if (field.options.length === 0) return v;
+  return field.options.find((o) => o.toLowerCase() === v.toLowerCase()) ?? null;
+}
+
+/**
+ * A raw value (form input, CSV cell, automation config, stored jsonb) as the field's type, or null when
+ * it is empty or doesn't fit (not a number, not a date, not one of the options).
+ */
+export function coerceCustomValue(field: CustomField, raw: unknown): CustomFieldValue | null {
+  if (raw === null || raw === undefined) return null;
+  if (field.type === "multi_select") {
+    const items = Array.isArray(raw) ? raw : String(raw).split(/[;,|]/);
+    const out: string[] = [];
+    for (const item of items) {
+      const v = matchOption(field, String(item ?? "").trim());
+      if (v && !out.includes(v)) out.push(v);
+    }
+    return out.length > 0 ? out : null;
+  }
+  if (Array.isArray(raw)) return coerceCustomValue(field, raw[0]);
+  if (field.type === "boolean") {
+    if (typeof raw === "boolean") return raw;
+    const s = String(raw).trim().toLowerCase();
+    return TRUE_WORDS.includes(s) ? true : FALSE_WORDS.includes(s) ? false : null;
+  }
+  const s = String(raw).trim();
+  if (!s) return null;
+  if (field.type === "number") {
+    const n = typeof raw === "number" ? raw : Number(s.replace(/,/g, ""));
+    return Number.isFinite(n) ? n : null;
+  }
+  if (field.type === "date") {
+    const day = /^(\d{4})-(\d{2})-(\d{2})/.exec(s);
+    if (day) return `${day[1]}-${day[2]}-${day[3]}`;
+    const ms = new Date(s).getTime();
+    return Number.isFinite(ms) ? new Date(ms).toISOString().slice(0, 10) : null;
+  }
+  if (field.type === "enum") return matchOption(field, s);
+  return s;
+}
+
+/** A stored value as text (merge tags, contact details): lists comma-separated, booleans Yes / No. */
+export function formatCustomValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map((v) => String(v ?? "")).filter(Boolean).join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+/** Merge-tag variables for a contact's attributes: { "custom.plan": "pro", ... }. */
+export function customFieldVars(attributes: unknown): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!attributes || typeof attributes !== "object" || Array.isArray(attributes)) return out;
+  for (const [k, v] of Object.entries(attributes as Record<string, unknown>)) out[`${CUSTOM_FIELD_PREFIX}${k}`] = formatCustomValue(v);
+  return out;
+}
+
+/**
+ * New value of a custom field for `action.update_field`: "set" replaces it, "add" adds options to a
+ * multiple choice field or a number to a number field, "remove" takes options out of a multiple choice
+ * field and clears any other field. null = clear the value.
+ */
+export function updateCustomValue(field: CustomField, current: unknown, op: string, value: unknown): CustomFieldValue | null {
+  const next = coerceCustomValue(field, value);
+  if (field.type === "multi_select" && (op === "add" || op === "remove")) {
+    const items = (coerceCustomValue(field, current) as string[] | null) ?? [];
+    const changed = (next as string[] | null) ?? [];
+    const out = op === "add"
+      ? [...items, ...changed.filter((v) => !items.includes(v))]
+      : items.filter((v) => !changed.includes(v));
+    return out.length > 0 ? out : null;
+  }
+  if (op === "add" && field.type === "number") {
+    return (Number(coerceCustomValue(field, current) ?? 0) || 0) + (Number(next ?? 0) || 0);
+  }
+  if (op === "remove") return null;
+  return next;
+}
+
+/** Attributes with `key` set to `value` (dropped when null). */
+export function withCustomValue(attributes: unknown, key: string, value: CustomFieldValue | null): Record<string, unknown> {
+  const out = { ...(attributes && typeof attributes === "object" && !Array.isArray(attributes) ? attributes as Record<string, unknown> : {}) };
+  if (value === null) delete out[key];
+  else out[key] = value;
+  return out;
+}
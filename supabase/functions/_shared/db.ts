@@ -0,0 +1,111 @@
+// Shared helpers for Supabase Edge Functions: PostgREST client.
+//
+// - dbFetch: service-role client (bypasses RLS). Used by workers/cron functions.
+// - userDbFetch: caller-scoped client (anon key + caller JWT), so RLS applies.
+
+import { env, supabaseUrl } from "./env.ts";
+
+export class DbError extends Error {
+  status: number;
+  body: string;
+
+  constructor(status: number, body: string) {
+    super(`DB error ${status}: ${body}`);
+    this.name = "DbError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+async function request<T>(base: string, apikey: string, authorization: string, path: string, init?: RequestInit): Promise<T> {
+  const headers: Record<string, string> = {
+    Authorization: authorization,
+    apikey,
+    "Content-Type": "application/json",
+    ...(init?.headers as any),
+  };
+  const res = await fetch(`${base}/rest/v1/${path}`, { ...(init ?? {}), headers });
+  const body = await res.text();
+  if (!res.ok) throw new DbError(res.status, body);
+  return (body ? JSON.parse(body) : null) as T;
+}
+
+export async function dbFetch<T = any>(path: string, init?: RequestInit): Promise<T> {
+  const url = supabaseUrl();
+  const service = env("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+  return request<T>(url, service, `Bearer ${service}`, path, init);
+}
+
+export async function userDbFetch<T = any>(req: Request, path: string, init?: RequestInit): Promise<T> {
+  const url = supabaseUrl();
+  const anon = env("SUPABASE_ANON_KEY");
+  if (!url || !anon) throw new Error("Missing SUPABASE_URL / SUPABASE_ANON_KEY in Edge Function env");
+  return request<T>(url, anon, req.headers.get("Authorization") ?? "", path, init);
+}
+
+/** GET rows; always resolves to an array. */
+export async function dbSelect<T = any>(path: string): Promise<T[]> {
+  const rows = await dbFetch<T[] | null>(path, { method: "GET" });
+  return Array.isArray(rows) ? rows : [];
+}
+
+/** GET the first row matching `path` (caller adds filters; `limit=1` is appended). */
+export async function dbSelectOne<T = any>(path: string): Promise<T | null> {
+  const rows = await dbSelect<T>(`${path}&limit=1`);
+  return rows[0] ?? null;
+}
+
+/**
+ * INSERT rows. Pass `returning: true` to get inserted rows back.
+ * With `onConflict`, existing rows are updated (upsert) unless `ignoreDuplicates` is set.
+ */
+export async function dbInsert<T = any>(
+  table: string,
+  rows: unknown[],
+  opts?: { returning?: boolean; onConflict?: string; ignoreDuplicates?: boolean },
+): Promise<T[]> {
+  const qs = opts?.onConflict ? `?on_conflict=${opts.onConflict}` : "";
+  const prefer = [
+    opts?.returning ? "return=representation" : "return=minimal",
+    opts?.onConflict ? (opts.ignoreDuplicates ? "resolution=ignore-duplicates" : "resolution=merge-duplicates") : "",
+  ].filter(Boolean).join(",");
+  const out = await dbFetch<T[] | null>(`${table}${qs}`, {
+    method: "POST",
+    headers: { Prefer: prefer },
+    body: JSON.stringify(rows),
+  });
+  return Array.isArray(out) ? out : [];
+}
+
+/** PATCH rows matched by `path` (table + filters). */
+export async function dbPatch(path: string, patch: Record<string, unknown>): Promise<void> {
+  await dbFetch(path, {
+    method: "PATCH",
+    headers: { Prefer: "return=minimal" },
+    body: JSON.stringify(patch),
+  });
+}
+
+/** DELETE rows matched by `path` (table + filters). */
+export async function dbDelete(path: string): Promise<void> {
+  await dbFetch(path, {
+    method: "DELETE",
+    headers: { Prefer: "return=minimal" },
+  });
+}
+
+/** Call a SQL function via /rpc. */
+export async function dbRpc<T = any>(fn: string, args: Record<string, unknown>): Promise<T> {
+  return dbFetch<T>(`rpc/${fn}`, { method: "POST", body: JSON.stringify(args) });
+}
+
+/** Encode a value for use in a PostgREST filter (`col=eq.${q(v)}`). */
+export function q(v: unknown): string {
+  return encodeURIComponent(String(v ?? ""));
+}
+
+/** Build an `in.(...)` filter list. Items are quoted; commas/parentheses stay unencoded for PostgREST parsing. */
+export function inList(values: unknown[]): string {
+  return `(${values.map((v) => encodeURIComponent(`"${String(v ?? "").replaceAll('"', '\\"')}"`)).join(",")})`;
+}
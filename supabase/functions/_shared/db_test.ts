@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { DbError, dbFetch, dbInsert, dbPatch, dbSelect, dbSelectOne } from "./db.ts";
+import { jsonResponse, withEnv, withStub } from "./testServer.ts";
+
+declare const Deno: any;
+
+const SERVICE_KEY = "service-role-key";
+
+function withPostgrest(
+  handler: Parameters<typeof withStub>[0],
+  fn: Parameters<typeof withStub>[1],
+) {
+  return withStub(handler, (base, requests) =>
+    withEnv({ SUPABASE_URL: `${base}/`, SUPABASE_SERVICE_ROLE_KEY: SERVICE_KEY }, () => fn(base, requests))
+  );
+}
+
+Deno.test("dbFetch sends the service-role key and parses the JSON body", async () => {
+  await withPostgrest(() => jsonResponse({ ok: true }), async (_base, requests) => {
+    const out = await dbFetch("contacts?select=id", { method: "GET" });
+    assert.deepEqual(out, { ok: true });
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].path, "/rest/v1/contacts");
+    assert.equal(requests[0].search, "?select=id");
+    assert.equal(requests[0].headers.get("apikey"), SERVICE_KEY);
+    assert.equal(requests[0].headers.get("authorization"), `Bearer ${SERVICE_KEY}`);
+    assert.equal(requests[0].headers.get("content-type"), "application/json");
+  });
+});
+
+Deno.test("dbFetch resolves to null on an empty body", async () => {
+  await withPostgrest(() => new Response(null, { status: 204 }), async () => {
+    assert.equal(await dbFetch("contacts?id=eq.c1", { method: "PATCH", body: "{}" }), null);
+  });
+});
+
+Deno.test("dbFetch throws DbError with status and body on non-2xx responses", async () => {
+  await withPostgrest(() => new Response('{"message":"permission denied"}', { status: 403 }), async () => {
+    await assert.rejects(
+      () => dbFetch("contacts"),
+      (e: unknown) => {
+        assert.ok(e instanceof DbError);
+        assert.equal(e.status, 403);
+        assert.equal(e.body, '{"message":"permission denied"}');
+        assert.equal(e.message, 'DB error 403: {"message":"permission denied"}');
+        return true;
+      },
+    );
+  });
+});
+
+Deno.test("dbFetch fails fast without SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY", async () => {
+  await withEnv({ SUPABASE_URL: "", SUPABASE_SERVICE_ROLE_KEY: "" }, async () => {
+    await assert.rejects(() => dbFetch("contacts"), /Missing SUPABASE_URL/);
+  });
+});
+
+Deno.test("dbSelect always resolves to an array", async () => {
+  await withPostgrest((_req, i) => (i === 0 ? jsonResponse([{ id: "c1" }, { id: "c2" }]) : jsonResponse(null)), async (_base, requests) => {
+    assert.deepEqual(await dbSelect("contacts?select=id"), [{ id: "c1" }, { id: "c2" }]);
+    assert.deepEqual(await dbSelect("contacts?select=id&id=eq.none"), []);
+    assert.equal(requests[0].method, "GET");
+  });
+});
+
+Deno.test("dbSelectOne appends limit=1 and returns the first row or null", async () => {
+  await withPostgrest((_req, i) => jsonResponse(i === 0 ? [{ id: "c1" }] : []), async (_base, requests) => {
+    assert.deepEqual(await dbSelectOne("contacts?select=id&email=eq.a%40b.co"), { id: "c1" });
+    assert.equal(await dbSelectOne("contacts?select=id&email=eq.none"), null);
+    assert.equal(requests[0].search, "?select=id&email=eq.a%40b.co&limit=1");
+  });
+});
+
+Deno.test("dbInsert posts rows with return=minimal by default", async () => {
+  await withPostgrest(() => new Response(null, { status: 201 }), async (_base, requests) => {
+    assert.deepEqual(await dbInsert("contact_events", [{ contact_id: "c1" }]), []);
+    assert.equal(requests[0].method, "POST");
+    assert.equal(requests[0].path, "/rest/v1/contact_events");
+    assert.equal(requests[0].search, "");
+    assert.equal(requests[0].headers.get("prefer"), "return=minimal");
+    assert.deepEqual(JSON.parse(requests[0].body), [{ contact_id: "c1" }]);
+  });
+});
+
+Deno.test("dbInsert upserts with on_conflict and returns rows when asked", async () => {
+  await withPostgrest(() => jsonResponse([{ id: "r1" }], 201), async (_base, requests) => {
+    const rows = await dbInsert("suppressions", [{ value: "a@b.co" }], { returning: true, onConflict: "workspace_id,kind,value" });
+    assert.deepEqual(rows, [{ id: "r1" }]);
+    assert.equal(requests[0].search, "?on_conflict=workspace_id,kind,value");
+    assert.equal(requests[0].headers.get("prefer"), "return=representation,resolution=merge-duplicates");
+
+    await dbInsert("suppressions", [{ value: "a@b.co" }], { onConflict: "workspace_id,kind,value", ignoreDuplicates: true });
+    assert.equal(requests[1].headers.get("prefer"), "return=minimal,resolution=ignore-duplicates");
+  });
+});
+
+Deno.test("dbPatch sends a minimal PATCH to the filtered path", async () => {
+  await withPostgrest(() => new Response(null, { status: 204 }), async (_base, requests) => {
+    await dbPatch("contacts?workspace_id=eq.ws&id=eq.c1", { unsubscribed: true });
+    assert.equal(requests[0].method, "PATCH");
+    assert.equal(requests[0].search, "?workspace_id=eq.ws&id=eq.c1");
+    assert.equal(requests[0].headers.get("prefer"), "return=minimal");
+    assert.deepEqual(JSON.parse(requests[0].body), { unsubscribed: true });
+  });
+});
+
+Deno.test("dbPatch surfaces DbError", async () => {
+  await withPostgrest(() => new Response("boom", { status: 500 }), async () => {
+    await assert.rejects(() => dbPatch("contacts?id=eq.c1", { score: 1 }), DbError);
+  });
+});
@@ -0,0 +1,270 @@
+// Email rendering: EmailBlock[] (the email builder's content) + EmailStyle (brand colors, fonts, text
+// size) → email-client-safe HTML. Layout is nested tables with inline styles only (no <style>, flexbox or
+// CSS classes), 600px wide, so Outlook and Gmail render it like the builder does.
+//
+// The builder canvas and preview render blocks with this module, and email-send-worker / send-bulk-email
+// render what they send with it, so recipients get what the builder shows. Plain text bodies (automation
+// emails, bulk email) go through renderSimpleEmail, which renders them as one text block.
+//
+// renderEmailText / renderSimpleText build the text/plain alternative of the same content: headings
+// underlined, links numbered as footnotes, products and social links as lists.
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+import { applyVars, escapeHtml } from "./html.ts";
+
+export type EmailBlock =
+  | { id: string; type: "header"; text: string }
+  | { id: string; type: "text"; text: string }
+  | { id: string; type: "button"; text: string; href: string }
+  | { id: string; type: "image"; src: string; alt?: string }
+  | { id: string; type: "divider" }
+  | { id: string; type: "product"; title?: string; items: Array<{ id: string; name: string; price: string; imageUrl?: string; url?: string }> }
+  | { id: string; type: "social"; items: Array<{ id: string; network: "Facebook" | "Instagram" | "X" | "LinkedIn" | "YouTube"; url: string }> };
+
+export interface EmailStyle {
+  primaryColor: string; // hex
+  secondaryColor: string; // hex / neutral
+  primaryFont: string;
+  secondaryFont: string;
+  textScale: number; // 0.85 - 1.15
+}
+
+export type EmailRenderOptions = {
+  style?: Partial<EmailStyle> | null;
+  // Merge tag values ({{firstName}}, {{custom.plan}}…); without them tags are left as typed (builder).
+  vars?: Record<string, string>;
+  // Final href for a link in a block (click tracking); the block id identifies which block was clicked.
+  link?: (url: string, blockId: string) => string;
+  // Document title (the subject).
+  title?: string;
+  // Trusted HTML for the footer row (unsubscribe link, address).
+  footerHtml?: string;
+  // The footer in the text/plain part.
+  footerText?: string;
+  // 1×1 open-tracking image appended to the body.
+  trackingPixelUrl?: string;
+};
+
+export const DEFAULT_EMAIL_STYLE: EmailStyle = {
+  primaryColor: "#0284c7",
+  secondaryColor: "#0f172a",
+  primaryFont: "Inter",
+  secondaryFont: "Inter",
+  textScale: 1,
+};
+
+export const EMAIL_WIDTH = 600;
+const PADDING = 24;
+const CONTENT_WIDTH = EMAIL_WIDTH - PADDING * 2;
+const MUTED = "#64748b";
+const BORDER = "#e2e8f0";
+const BACKGROUND = "#f1f5f9";
+
+function color(v: unknown, fallback: string): string {
+  const s = String(v ?? "").trim();
+  return /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(s) ? s : fallback;
+}
+
+function font(v: unknown, fallback: string): string {
+  const s = String(v ?? "").replace(/[^A-Za-z0-9 \-]/g, "").trim();
+  return s || fallback;
+}
+
+/** A stored style (campaigns.email_style), with defaults for anything missing or unsafe to inline. */
+export function readEmailStyle(raw: unknown): EmailStyle {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Partial<EmailStyle>;
+  const scale = Number(r.textScale);
+  return {
+    primaryColor: color(r.primaryColor, DEFAULT_EMAIL_STYLE.primaryColor),
+    secondaryColor: color(r.secondaryColor, DEFAULT_EMAIL_STYLE.secondaryColor),
+    primaryFont: font(r.primaryFont, DEFAULT_EMAIL_STYLE.primaryFont),
+    secondaryFont: font(r.secondaryFont, DEFAULT_EMAIL_STYLE.secondaryFont),
+    textScale: Number.isFinite(scale) ? Math.max(0.85, Math.min(1.15, scale)) : 1,
+  };
+}
+
+function fontStack(name: string): string {
+  return `${name.includes(" ") ? `'${name}'` : name}, Helvetica, Arial, sans-serif`;
+}
+
+type Ctx = {
+  style: EmailStyle;
+  body: string; // font-family / size / color of body text
+  heading: string;
+  text: (s: unknown) => string; // merge tags + escaping
+  href: (url: unknown, blockId: string) => string;
+};
+
+function context(options: EmailRenderOptions): Ctx {
+  const style = readEmailStyle(options.style);
+  const size = (px: number) => Math.round(px * style.textScale);
+  return {
+    style,
+    body: `font-family:${fontStack(style.primaryFont)};font-size:${size(14)}px;line-height:1.55;color:${style.secondaryColor};`,
+    heading: `font-family:${fontStack(style.secondaryFont)};font-size:${size(22)}px;line-height:1.3;font-weight:700;color:${style.secondaryColor};`,
+    text: (s) => escapeHtml(options.vars ? applyVars(String(s ?? ""), options.vars) : String(s ?? "")),
+    href: (url, blockId) => {
+      const u = String(url ?? "").trim();
+      if (!u) return "#";
+      return escapeHtml(options.link && /^https?:\/\//i.test(u) ? options.link(u, blockId) : u);
+    },
+  };
+}
+
+const TABLE = `role="presentation" cellpadding="0" cellspacing="0" border="0"`;
+
+function productCell(item: { name?: string; price?: string; imageUrl?: string; url?: string }, blockId: string, ctx: Ctx, width: number): string {
+  const image = item.imageUrl
+    ? `<img src="${escapeHtml(String(item.imageUrl))}" alt="${ctx.text(item.name)}" width="${width}" style="display:block;width:100%;max-width:${width}px;height:auto;border:0;border-radius:8px;" />`
+    : "";
+  const inner = `${image}<div style="${ctx.body}font-weight:700;padding-top:8px;">${ctx.text(item.name)}</div>` +
+    `<div style="${ctx.body}color:${MUTED};">${ctx.text(item.price)}</div>`;
+  return item.url
+    ? `<a href="${ctx.href(item.url, blockId)}" style="text-decoration:none;color:inherit;">${inner}</a>`
+    : inner;
+}
+
+function blockHtml(b: EmailBlock, ctx: Ctx): string {
+  const id = String(b.id ?? "");
+  switch (b.type) {
+    case "header":
+      return `<h1 style="margin:0;${ctx.heading}">${ctx.text(b.text)}</h1>`;
+    case "text":
+      return `<div style="margin:0;${ctx.body}">${ctx.text(b.text).replace(/\r?\n/g, "<br />")}</div>`;
+    case "button":
+      return `<table ${TABLE}><tr><td bgcolor="${ctx.style.primaryColor}" style="border-radius:8px;background-color:${ctx.style.primaryColor};">` +
+        `<a href="${ctx.href(b.href, id)}" style="display:inline-block;padding:10px 18px;${ctx.body}font-weight:700;color:#ffffff;text-decoration:none;border-radius:8px;">${ctx.text(b.text || "Learn more")}</a>` +
+        `</td></tr></table>`;
+    case "image":
+      if (!b.src) return "";
+      return `<img src="${escapeHtml(String(b.src))}" alt="${ctx.text(b.alt ?? "")}" width="${CONTENT_WIDTH}" style="display:block;width:100%;max-width:${CONTENT_WIDTH}px;height:auto;border:0;border-radius:8px;" />`;
+    case "divider":
+      return `<table ${TABLE} width="100%"><tr><td style="border-top:1px solid ${BORDER};font-size:0;line-height:0;height:1px;">&nbsp;</td></tr></table>`;
+    case "product": {
+      const items = Array.isArray(b.items) ? b.items : [];
+      const cellWidth = Math.floor((CONTENT_WIDTH - 16) / 2);
+      const rows: string[] = [];
+      for (let i = 0; i < items.length; i += 2) {
+        const cells = [items[i], items[i + 1]].map((item, col) =>
+          `<td width="50%" valign="top" style="padding:${col === 0 ? "0 8px 16px 0" : "0 0 16px 8px"};">${item ? productCell(item, id, ctx, cellWidth) : "&nbsp;"}</td>`,
+        );
+        rows.push(`<tr>${cells.join("")}</tr>`);
+      }
+      const title = b.title ? `<div style="${ctx.body}font-weight:700;padding-bottom:12px;">${ctx.text(b.title)}</div>` : "";
+      return `${title}<table ${TABLE} width="100%">${rows.join("")}</table>`;
+    }
+    case "social": {
+      const items = Array.isArray(b.items) ? b.items.filter((it) => it?.url) : [];
+      if (items.length === 0) return "";
+      const links = items.map((it) =>
+        `<a href="${ctx.href(it.url, id)}" style="display:inline-block;margin:0 4px;padding:6px 12px;border:1px solid ${BORDER};border-radius:999px;${ctx.body}font-size:12px;color:${ctx.style.primaryColor};text-decoration:none;">${escapeHtml(String(it.network ?? "Link"))}</a>`,
+      );
+      return `<div style="text-align:center;">${links.join("")}</div>`;
+    }
+    default:
+      return "";
+  }
+}
+
+/** One block's HTML (the builder canvas shows blocks one by one). */
+export function renderEmailBlock(block: EmailBlock, options: EmailRenderOptions = {}): string {
+  return blockHtml(block, context(options));
+}
+
+/** Full HTML document for an email. */
+export function renderEmailHtml(blocks: EmailBlock[] | null | undefined, options: EmailRenderOptions = {}): string {
+  const ctx = context(options);
+  const rows = (Array.isArray(blocks) ? blocks : [])
+    .filter((b) => b && typeof b === "object")
+    .map((b) => blockHtml(b, ctx))
+    .filter(Boolean)
+    .map((html, i, all) => `<tr><td style="padding:0 0 ${i === all.length - 1 ? 0 : 16}px 0;">${html}</td></tr>`);
+  const footer = options.footerHtml
+    ? `<tr><td style="padding:16px ${PADDING}px;border-top:1px solid ${BORDER};${ctx.body}font-size:12px;color:${MUTED};">${options.footerHtml}</td></tr>`
+    : "";
+  const pixel = options.trackingPixelUrl
+    ? `<img src="${escapeHtml(options.trackingPixelUrl)}" width="1" height="1" alt="" style="display:block;border:0;width:1px;height:1px;" />`
+    : "";
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8" />` +
+    `<meta name="viewport" content="width=device-width, initial-scale=1" /><meta http-equiv="X-UA-Compatible" content="IE=edge" />` +
+    `<title>${escapeHtml(options.title ?? "")}</title></head>` +
+    `<body style="margin:0;padding:0;background-color:${BACKGROUND};">` +
+    `<table ${TABLE} width="100%" bgcolor="${BACKGROUND}" style="background-color:${BACKGROUND};"><tr><td align="center" style="padding:24px 12px;">` +
+    `<table ${TABLE} width="${EMAIL_WIDTH}" bgcolor="#ffffff" style="width:100%;max-width:${EMAIL_WIDTH}px;background-color:#ffffff;border-radius:12px;">` +
+    `<tr><td style="padding:${PADDING}px;"><table ${TABLE} width="100%">${rows.join("")}</table></td></tr>${footer}` +
+    `</table></td></tr></table>${pixel}</body></html>`;
+}
+
+/** A plain text body (automation / bulk emails) as an email: one text block. */
+export function renderSimpleEmail(body: string, vars: Record<string, string>, options: Omit<EmailRenderOptions, "vars"> = {}): string {
+  return renderEmailHtml([{ id: "body", type: "text", text: body }], { ...options, vars });
+}
+
+type TextCtx = {
+  text: (s: unknown) => string;
+  // Adds a link to the footnotes; returns its " [n]" marker ("" for empty or non-web links).
+  note: (url: unknown, blockId: string) => string;
+};
+
+function blockText(b: EmailBlock, ctx: TextCtx): string {
+  const id = String(b.id ?? "");
+  switch (b.type) {
+    case "header": {
+      const t = ctx.text(b.text).trim();
+      return t ? `${t}\n${"=".repeat(Math.min(t.length, 60))}` : "";
+    }
+    case "text":
+      return ctx.text(b.text).trim();
+    case "button":
+      return `${ctx.text(b.text || "Learn more").trim()}${ctx.note(b.href, id)}`;
+    case "image": {
+      const alt = ctx.text(b.alt ?? "").trim();
+      return b.src && alt ? `[${alt}]` : "";
+    }
+    case "divider":
+      return "-".repeat(20);
+    case "product": {
+      const items = (Array.isArray(b.items) ? b.items : []).map((it) => {
+        const price = ctx.text(it.price).trim();
+        return `- ${ctx.text(it.name).trim()}${price ? ` (${price})` : ""}${ctx.note(it.url, id)}`;
+      });
+      const title = ctx.text(b.title ?? "").trim();
+      return [title, ...items].filter(Boolean).join("\n");
+    }
+    case "social": {
+      const items = Array.isArray(b.items) ? b.items.filter((it) => it?.url) : [];
+      return items.map((it) => `${String(it.network ?? "Link")}${ctx.note(it.url, id)}`).join(" | ");
+    }
+    default:
+      return "";
+  }
+}
+
+/** text/plain alternative of an email: blocks in order, then numbered links, then the footer. */
+export function renderEmailText(blocks: EmailBlock[] | null | undefined, options: EmailRenderOptions = {}): string {
+  const links: string[] = [];
+  const ctx: TextCtx = {
+    text: (s) => (options.vars ? applyVars(String(s ?? ""), options.vars) : String(s ?? "")),
+    note: (url, blockId) => {
+      const u = String(url ?? "").trim();
+      if (!/^(https?:|mailto:)/i.test(u)) return "";
+      const href = options.link && /^https?:\/\//i.test(u) ? options.link(u, blockId) : u;
+      let n = links.indexOf(href) + 1;
+      if (n === 0) n = links.push(href);
+      return ` [${n}]`;
+    },
+  };
+  const parts = (Array.isArray(blocks) ? blocks : [])
+    .filter((b) => b && typeof b === "object")
+    .map((b) => blockText(b, ctx))
+    .filter(Boolean);
+  if (links.length > 0) parts.push(links.map((u, i) => `[${i + 1}] ${u}`).join("\n"));
+  if (options.footerText) parts.push(`--\n${options.footerText}`);
+  return parts.join("\n\n").replace(/\r\n?/g, "\n") + "\n";
+}
+
+/** text/plain alternative of a plain text body (see renderSimpleEmail). */
+export function renderSimpleText(body: string, vars: Record<string, string>, options: Omit<EmailRenderOptions, "vars"> = {}): string {
+  return renderEmailText([{ id: "body", type: "text", text: body }], { ...options, vars });
+}
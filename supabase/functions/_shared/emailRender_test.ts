@@ -0,0 +1,122 @@
+// Snapshot tests for the email renderer: every block type with a brand style, as HTML (builder canvas /
+// preview and sent emails) and as the text/plain alternative. Snapshots live in
+// __snapshots__/emailRender/; after an intended rendering change, review and rewrite them with:
+//
+//   deno test --allow-read --allow-write supabase/functions/_shared/emailRender_test.ts -- --update
+
+import assert from "node:assert/strict";
+import {
+  renderEmailBlock,
+  renderEmailHtml,
+  renderEmailText,
+  renderSimpleEmail,
+  renderSimpleText,
+  type EmailBlock,
+  type EmailStyle,
+} from "./emailRender.ts";
+
+declare const Deno: any;
+
+const UPDATE = Deno.args.includes("--update");
+
+async function assertSnapshot(name: string, actual: string) {
+  const url = new URL(`./__snapshots__/emailRender/${name}`, import.meta.url);
+  if (UPDATE) {
+    await Deno.mkdir(new URL(".", url), { recursive: true });
+    await Deno.writeTextFile(url, actual);
+    return;
+  }
+  let expected: string;
+  try {
+    expected = await Deno.readTextFile(url);
+  } catch {
+    throw new Error(`Missing snapshot ${name}; run the test with -- --update to create it`);
+  }
+  assert.equal(actual, expected, `Snapshot ${name} changed; if intended, run the test with -- --update`);
+}
+
+const BRAND: EmailStyle = {
+  primaryColor: "#e11d48",
+  secondaryColor: "#1e293b",
+  primaryFont: "Georgia",
+  secondaryFont: "Helvetica",
+  textScale: 1.1,
+};
+
+const BLOCKS: Record<EmailBlock["type"], EmailBlock> = {
+  header: { id: "h1", type: "header", text: "Spring sale for {{firstName}} & friends" },
+  text: { id: "t1", type: "text", text: "Hi {{firstName}},\n\nOur <best> deals on {{custom.plan}} end Friday.\nSee you soon!" },
+  button: { id: "b1", type: "button", text: "Shop now", href: "https://shop.example.com/sale?utm=spring&x=1" },
+  image: { id: "i1", type: "image", src: "https://cdn.example.com/hero.png", alt: "Spring \"hero\" banner" },
+  divider: { id: "d1", type: "divider" },
+  product: {
+    id: "p1",
+    type: "product",
+    title: "Picked for you",
+    items: [
+      { id: "p1a", name: "Linen shirt", price: "$49", imageUrl: "https://cdn.example.com/shirt.png", url: "https://shop.example.com/shirt" },
+      { id: "p1b", name: "Canvas tote", price: "$19", url: "https://shop.example.com/tote" },
+      { id: "p1c", name: "Gift card", price: "" },
+    ],
+  },
+  social: {
+    id: "s1",
+    type: "social",
+    items: [
+      { id: "s1a", network: "Instagram", url: "https://instagram.com/example" },
+      { id: "s1b", network: "LinkedIn", url: "https://linkedin.com/company/example" },
+      { id: "s1c", network: "X", url: "" },
+    ],
+  },
+};
+
+const VARS = { firstName: "Jane", "custom.plan": "Pro" };
+
+// What email-send-worker passes: merge tags, click tracking, footer and open pixel.
+const SEND_OPTIONS = {
+  style: BRAND,
+  vars: VARS,
+  title: "Spring sale",
+  link: (url: string, blockId: string) => `https://t.example.com/c?b=${blockId}&u=${encodeURIComponent(url)}`,
+  footerHtml: `<a href="https://fn.example.com/preferences?token=abc">Manage preferences</a> · Example Inc, 1 Main St`,
+  footerText: "Manage preferences: https://fn.example.com/preferences?token=abc\nExample Inc, 1 Main St",
+  trackingPixelUrl: "https://t.example.com/o?id=send-1",
+};
+
+for (const [type, block] of Object.entries(BLOCKS)) {
+  Deno.test(`renders a ${type} block with brand styles`, async () => {
+    await assertSnapshot(`${type}.html`, renderEmailHtml([block], { style: BRAND, vars: VARS }));
+    await assertSnapshot(`${type}.txt`, renderEmailText([block], { style: BRAND, vars: VARS }));
+  });
+}
+
+Deno.test("renders a full email as sent", async () => {
+  const blocks = Object.values(BLOCKS);
+  await assertSnapshot("email.html", renderEmailHtml(blocks, SEND_OPTIONS));
+  await assertSnapshot("email.txt", renderEmailText(blocks, SEND_OPTIONS));
+});
+
+Deno.test("renders a plain text body (automation / bulk emails)", async () => {
+  const body = "Hi {{firstName}},\n\nYour {{custom.plan}} trial ends tomorrow.";
+  await assertSnapshot("simple.html", renderSimpleEmail(body, VARS, { style: BRAND, title: "Trial ending" }));
+  await assertSnapshot("simple.txt", renderSimpleText(body, VARS, { footerText: "Unsubscribe: https://fn.example.com/unsubscribe?token=abc" }));
+});
+
+Deno.test("the builder canvas shows the same block HTML recipients get", () => {
+  const options = { style: BRAND, vars: VARS };
+  const html = renderEmailHtml(Object.values(BLOCKS), options);
+  for (const block of Object.values(BLOCKS)) {
+    assert.ok(html.includes(renderEmailBlock(block, options)), `${block.type} block differs between canvas and email`);
+  }
+});
+
+Deno.test("brand styles are applied and unsafe values fall back to defaults", () => {
+  const html = renderEmailHtml([BLOCKS.header, BLOCKS.button], { style: BRAND });
+  assert.ok(html.includes("#e11d48"));
+  assert.ok(html.includes("Georgia"));
+
+  const unsafe = renderEmailHtml([BLOCKS.button], { style: { primaryColor: "red;background:url(x)", primaryFont: "Evil</style>" } });
+  assert.ok(!unsafe.includes("url(x)"));
+  assert.ok(!unsafe.includes("</style>"));
+  assert.ok(unsafe.includes("#0284c7"));
+});
@@ -0,0 +1,20 @@
+// Shared helpers for Supabase Edge Functions: environment access.
+//
+// Avoid TS errors in the Vite workspace: this global exists in the Supabase Edge runtime.
+declare const Deno: any;
+
+export function env(name: string): string {
+  return String(Deno.env.get(name) ?? "").trim();
+}
+
+export function supabaseUrl(): string {
+  return env("SUPABASE_URL").replace(/\/$/, "");
+}
+
+export function functionsBaseUrl(): string {
+  const explicit = env("PUBLIC_FUNCTIONS_BASE_URL");
+  if (explicit) return explicit.replace(/\/$/, "");
+  // Fallback: Supabase project URL is always available in the Edge runtime.
+  const sbUrl = supabaseUrl();
+  return sbUrl ? `${sbUrl}/functions/v1` : "";
+}
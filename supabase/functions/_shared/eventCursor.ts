@@ -0,0 +1,34 @@
+// Shared helpers for Supabase Edge Functions: reading contact_events in order, batch by batch.
+//
+// Pages on (occurred_at, id) rather than occurred_at alone: many events share one timestamp (a segment pass
+// or bulk import inserts them in one statement, so Postgres stamps them all with the same now()), and a
+// plain `occurred_at > last` cursor would skip the rest of a tie once a batch ends inside it.
+
+import { dbSelect, q } from "./db.ts";
+
+/** Last processed event (automation_event_cursor.last_occurred_at / last_event_id). */
+export type EventCursor = {
+  occurredAt: string | null;
+  eventId: string | null;
+};
+
+/** PostgREST filter for events strictly after `cursor` in (occurred_at, id) order ("" = from the start). */
+export function eventsAfterFilter(cursor: EventCursor | null): string {
+  const ts = cursor?.occurredAt;
+  if (!ts) return "";
+  // Cursors saved before last_event_id was tracked fall back to the timestamp alone.
+  if (!cursor.eventId) return `&occurred_at=gt.${q(ts)}`;
+  return `&or=(occurred_at.gt.${q(ts)},and(occurred_at.eq.${q(ts)},id.gt.${q(cursor.eventId)}))`;
+}
+
+/** Next `limit` events of the workspace after `cursor`, oldest first. */
+export async function loadEventsAfter(
+  workspaceId: string,
+  cursor: EventCursor | null,
+  limit: number,
+  select = "id,contact_id,event_type,title,occurred_at,meta,campaign_id",
+): Promise<any[]> {
+  return dbSelect(
+    `contact_events?select=${select}&workspace_id=eq.${q(workspaceId)}${eventsAfterFilter(cursor)}&order=occurred_at.asc,id.asc&limit=${limit}`,
+  );
+}
@@ -0,0 +1,123 @@
+// automation-scanner reads contact_events in batches after its cursor. Events that share a timestamp (one
+// segment pass inserts them together) must all be read once, however the batches split them.
+
+import assert from "node:assert/strict";
+import { eventsAfterFilter, loadEventsAfter, type EventCursor } from "./eventCursor.ts";
+import { syncSegmentMembership } from "./segmentMembership.ts";
+import { segmentHash, type SegmentDefinition } from "./segments.ts";
+import { jsonResponse, withEnv, withStub, type StubRequest } from "./testServer.ts";
+
+declare const Deno: any;
+
+const WS = "ws-1";
+const BATCH = 50;
+
+type EventRow = { id: string; contact_id: string; event_type: string; occurred_at: string; meta?: unknown };
+
+const ts = (second: number) => `2026-10-19T10:00:${String(second).padStart(2, "0")}.000000+00:00`;
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, "0")}`;
+
+// contact_events stand-in: the (occurred_at, id) cursor filter, ordering and limit the scanner sends.
+// Inserts are stamped like Postgres' `default now()`: one timestamp per statement.
+function eventsTable(rows: EventRow[], insertedAt: () => string) {
+  return (req: StubRequest) => {
+    const params = new URLSearchParams(req.search);
+    if (req.method === "POST") {
+      const at = insertedAt();
+      for (const r of JSON.parse(req.body)) {
+        assert.equal(r.occurred_at, undefined, "events are stamped by the database");
+        rows.push({ ...r, id: uuid(rows.length + 1), occurred_at: at });
+      }
+      return new Response(null, { status: 201 });
+    }
+    assert.equal(params.get("workspace_id"), `eq.${WS}`);
+    assert.equal(params.get("order"), "occurred_at.asc,id.asc");
+    let out = [...rows];
+    const gt = params.get("occurred_at");
+    if (gt) out = out.filter((r) => r.occurred_at > gt.slice("gt.".length));
+    const or = params.get("or");
+    if (or) {
+      const m = or.match(/^\(occurred_at\.gt\.([^,]+),and\(occurred_at\.eq\.([^,]+),id\.gt\.([^,]+)\)\)$/);
+      assert.ok(m, `unexpected filter ${or}`);
+      out = out.filter((r) => r.occurred_at > m[1] || (r.occurred_at === m[2] && r.id > m[3]));
+    }
+    out.sort((a, b) => a.occurred_at.localeCompare(b.occurred_at) || a.id.localeCompare(b.id));
+    return jsonResponse(out.slice(0, Number(params.get("limit"))));
+  };
+}
+
+function withPostgrest(handler: (req: StubRequest) => Response, fn: () => Promise<void>) {
+  return withStub(handler, (base) => withEnv({ SUPABASE_URL: base, SUPABASE_SERVICE_ROLE_KEY: "service-role-key" }, fn));
+}
+
+/** The scanner loop: read a batch, move the cursor to its last event, repeat until nothing is left. */
+async function scanAll(cursor: EventCursor | null = null): Promise<{ ids: string[]; batches: number }> {
+  const ids: string[] = [];
+  let batches = 0;
+  for (;;) {
+    const evs = await loadEventsAfter(WS, cursor, BATCH);
+    if (evs.length === 0) return { ids, batches };
+    batches++;
+    ids.push(...evs.map((e) => String(e.id)));
+    const last = evs[evs.length - 1];
+    cursor = { occurredAt: String(last.occurred_at), eventId: String(last.id) };
+  }
+}
+
+Deno.test("eventsAfterFilter pages on (occurred_at, id)", () => {
+  assert.equal(eventsAfterFilter(null), "");
+  assert.equal(eventsAfterFilter({ occurredAt: null, eventId: null }), "");
+  assert.equal(eventsAfterFilter({ occurredAt: ts(1), eventId: null }), `&occurred_at=gt.${encodeURIComponent(ts(1))}`);
+  assert.equal(
+    eventsAfterFilter({ occurredAt: ts(1), eventId: uuid(7) }),
+    `&or=(occurred_at.gt.${encodeURIComponent(ts(1))},and(occurred_at.eq.${encodeURIComponent(ts(1))},id.gt.${uuid(7)}))`,
+  );
+});
+
+Deno.test("reads every event once when a timestamp tie spans several batches", async () => {
+  // 2 events before, 130 sharing one timestamp, 3 after: batches end inside the tie.
+  const rows: EventRow[] = [];
+  const add = (second: number) => rows.push({ id: uuid(rows.length + 1), contact_id: `c${rows.length}`, event_type: "segment_entered", occurred_at: ts(second) });
+  add(1);
+  add(2);
+  for (let i = 0; i < 130; i++) add(5);
+  for (let i = 0; i < 3; i++) add(9);
+
+  await withPostgrest(eventsTable(rows, () => ts(59)), async () => {
+    const { ids, batches } = await scanAll();
+    assert.equal(batches, 3);
+    assert.deepEqual(ids, rows.map((r) => r.id));
+  });
+});
+
+Deno.test("segment events written after the scanner moved past the pass's start are still read", async () => {
+  const definition: SegmentDefinition = { logic: "AND", conditions: [{ id: "vip", field: "tag", op: "contains", value: "vip" }] };
+  const contacts = Array.from({ length: 2 * BATCH + 20 }, (_, i) => ({ id: `c${String(i).padStart(3, "0")}`, tags: ["vip"], updated_at: ts(3) }));
+  const events: EventRow[] = [{ id: uuid(999), contact_id: "other", event_type: "email_opened", occurred_at: ts(10) }];
+  const eventsHandler = eventsTable(events, () => ts(20));
+
+  await withPostgrest((req) => {
+    if (req.path === "/rest/v1/contact_events") return eventsHandler(req);
+    if (req.path === "/rest/v1/segment_membership_state" && req.method === "GET") {
+      return jsonResponse([{ definition_hash: segmentHash(definition), evaluated_at: ts(0) }]);
+    }
+    if (req.path === "/rest/v1/contacts") {
+      return jsonResponse(new URLSearchParams(req.search).get("offset") === "0" ? contacts : []);
+    }
+    if (req.method === "GET") return jsonResponse([]);
+    return new Response(null, { status: 201 });
+  }, async () => {
+    // The scanner already processed an event newer than the pass's start time.
+    const before = await scanAll();
+    assert.deepEqual(before.ids, [uuid(999)]);
+
+    const res = await syncSegmentMembership({ workspaceId: WS, key: "segment:vip", name: "VIP", definition });
+    assert.equal(res.baseline, false);
+    assert.equal(res.entered, contacts.length);
+
+    const after = await scanAll({ occurredAt: ts(10), eventId: uuid(999) });
+    assert.equal(after.ids.length, contacts.length);
+    assert.equal(new Set(after.ids).size, contacts.length);
+    assert.ok(after.batches > 1);
+  });
+});
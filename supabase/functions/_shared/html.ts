@@ -0,0 +1,17 @@
+// Shared helpers for Supabase Edge Functions: email HTML helpers.
+
+export function escapeHtml(s: string) {
+  return String(s ?? "")
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#039;");
+}
+
+export function applyVars(s: string, vars: Record<string, string>) {
+  let out = s ?? "";
+  for (const [k, v] of Object.entries(vars)) out = out.replaceAll(`{{${k}}}`, v);
+  // Custom fields the contact has no value for ({{custom.<key>}}, see customFields.ts) render empty.
+  return out.replace(/\{\{custom\.[A-Za-z0-9_]+\}\}/g, "");
+}
@@ -0,0 +1,333 @@
+// Lead scoring model, shared by Settings (editor) and lead-score-worker.
+//
+// A workspace's model lives in workspace_settings.lead_scoring (null => DEFAULT_LEAD_SCORING):
+// - events:      points per contact_events type (email_open, link_click, …)
+// - rules:       URL / form / tag patterns; the first rule matching an event replaces its event-type points
+//                (link: meta.url of link_click, page: meta.url of page_visited,
+//                 form: meta.form of form_submitted, tag: meta.tag of tag_added)
+// - inactivity:  `points` (usually negative) applied every `days` while a contact has no opens, clicks or
+//                purchases; 0 days disables it
+// - decay:       scores move back towards the base score (0 within the caps) over time, either by a
+//                half-life ("half_life": halfLifeDays) or by a fixed number of points per week ("linear")
+// - min / max:   score caps, applied after every change
+// - warm / hot:  temperature thresholds (score >= hot => hot, >= warm => warm, else cold)
+// - models:      named scores kept next to the lead score, in contacts.scores[key] (see below)
+//
+// Named scores separate e.g. a demographic "Fit" score from engagement. Each has a stable `key` (from its
+// name when created), its own caps and one of two kinds:
+// - fit:         points for contact attributes, each rule a segment condition (Job Title contains
+//                "director" => +20); recomputed from the contact row whenever it changes
+// - engagement:  points per event type plus rules, scored from contact_events like the lead score
+//                (no inactivity or decay)
+// Segment conditions ("Named Score") and condition.lead_score automation steps pick a score by key;
+// LEAD_SCORE_KEY (or no key) is the lead score itself.
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+import { evalSegment, segmentFieldMeta, type SegmentCondition } from "./segments.ts";
+
+export type LeadScoringRuleKind = "link" | "page" | "form" | "tag";
+
+export type LeadScoringRule = {
+  id: string;
+  kind: LeadScoringRuleKind;
+  contains: string;
+  points: number;
+};
+
+export type LeadScoreDecayMode = "none" | "half_life" | "linear";
+
+export type LeadScoreDecay = {
+  mode: LeadScoreDecayMode;
+  halfLifeDays: number;
+  pointsPerWeek: number;
+};
+
+export type ScoreModelKind = "fit" | "engagement";
+
+export type FitRule = {
+  id: string;
+  condition: SegmentCondition;
+  points: number;
+};
+
+export type ScoreModel = {
+  key: string;
+  name: string;
+  kind: ScoreModelKind;
+  fit: FitRule[];
+  events: Record<string, number>;
+  rules: LeadScoringRule[];
+  min: number;
+  max: number;
+};
+
+export type LeadScoringModel = {
+  events: Record<string, number>;
+  rules: LeadScoringRule[];
+  inactivity: { days: number; points: number };
+  decay: LeadScoreDecay;
+  min: number;
+  max: number;
+  warm: number;
+  hot: number;
+  models: ScoreModel[];
+};
+
+export const LEAD_SCORE_KEY = "lead_score";
+
+export type LeadTemperature = "cold" | "warm" | "hot";
+
+export const LEAD_SCORING_EVENT_TYPES: Array<{ value: string; label: string }> = [
+  { value: "email_open", label: "Email opened" },
+  { value: "link_click", label: "Link clicked" },
+  { value: "page_visited", label: "Page visited" },
+  { value: "form_submitted", label: "Form submitted" },
+  { value: "tag_added", label: "Tag added" },
+  { value: "purchase", label: "Purchase" },
+  { value: "purchase_upgraded", label: "Purchase upgraded" },
+  { value: "purchase_cancelled", label: "Purchase cancelled" },
+];
+
+export const LEAD_SCORING_RULE_KINDS: Array<{ value: LeadScoringRuleKind; label: string; eventType: string }> = [
+  { value: "link", label: "Clicked link containing", eventType: "link_click" },
+  { value: "page", label: "Visited page containing", eventType: "page_visited" },
+  { value: "form", label: "Submitted form containing", eventType: "form_submitted" },
+  { value: "tag", label: "Tag added containing", eventType: "tag_added" },
+];
+
+export const SCORE_MODEL_KINDS: Array<{ value: ScoreModelKind; label: string }> = [
+  { value: "fit", label: "Fit (contact attributes)" },
+  { value: "engagement", label: "Engagement (events)" },
+];
+
+export const LEAD_SCORE_DECAY_MODES: Array<{ value: LeadScoreDecayMode; label: string }> = [
+  { value: "none", label: "No decay" },
+  { value: "half_life", label: "Half-life" },
+  { value: "linear", label: "Points per week" },
+];
+
+// The rules lead-score-worker used before scoring became configurable.
+export const DEFAULT_LEAD_SCORING: LeadScoringModel = {
+  events: {
+    email_open: 1,
+    link_click: 3,
+    page_visited: 0,
+    form_submitted: 4,
+    tag_added: 0,
+    purchase: 15,
+    purchase_upgraded: 10,
+    purchase_cancelled: -10,
+  },
+  rules: [
+    { id: "default_pricing", kind: "link", contains: "pricing", points: 5 },
+    { id: "default_checkout", kind: "link", contains: "checkout", points: 5 },
+    { id: "default_webinar", kind: "form", contains: "webinar", points: 10 },
+  ],
+  inactivity: { days: 0, points: 0 },
+  decay: { mode: "none", halfLifeDays: 90, pointsPerWeek: 2 },
+  min: 0,
+  max: 100,
+  warm: 20,
+  hot: 50,
+  models: [],
+};
+
+function norm(s: unknown): string {
+  return String(s ?? "").trim().toLowerCase();
+}
+
+function num(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function readEvents(raw: unknown, defaults: Record<string, number>): Record<string, number> {
+  const events: Record<string, number> = { ...defaults };
+  if (raw && typeof raw === "object") {
+    for (const [k, v] of Object.entries(raw)) events[k] = num(v, events[k] ?? 0);
+  }
+  return events;
+}
+
+function readRules(raw: unknown, defaults: LeadScoringRule[]): LeadScoringRule[] {
+  if (!Array.isArray(raw)) return defaults;
+  const kinds = new Set(LEAD_SCORING_RULE_KINDS.map((k) => k.value));
+  return raw
+    .filter((x: any) => x && kinds.has(x.kind))
+    .map((x: any, i: number) => ({
+      id: String(x.id ?? `rule_${i}`),
+      kind: x.kind as LeadScoringRuleKind,
+      contains: String(x.contains ?? "").trim(),
+      points: num(x.points, 0),
+    }));
+}
+
+/** Key for a new named score: its name as a slug, unique among `taken`. */
+export function scoreModelKey(name: string, taken: string[]): string {
+  const slug = norm(name).replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "score";
+  const used = new Set([LEAD_SCORE_KEY, ...taken]);
+  let key = slug;
+  for (let i = 2; used.has(key); i++) key = `${slug}_${i}`;
+  return key;
+}
+
+// Fit rules see the contact row only (no activity history, no other named scores).
+function isFitField(field: unknown): boolean {
+  const kind = segmentFieldMeta(field)?.kind;
+  return Boolean(kind) && kind !== "activity" && kind !== "sends" && field !== "score";
+}
+
+function readScoreModels(raw: unknown): ScoreModel[] {
+  if (!Array.isArray(raw)) return [];
+  const out: ScoreModel[] = [];
+  for (const x of raw) {
+    if (!x || typeof x !== "object") continue;
+    const key = String(x.key ?? "").trim();
+    if (!key || key === LEAD_SCORE_KEY || out.some((m) => m.key === key)) continue;
+    const min = num(x.min, 0);
+    out.push({
+      key,
+      name: String(x.name ?? "").trim() || key,
+      kind: x.kind === "engagement" ? "engagement" : "fit",
+      fit: Array.isArray(x.fit)
+        ? x.fit
+            .filter((f: any) => isFitField(f?.condition?.field))
+            .map((f: any, i: number) => ({ id: String(f.id ?? `fit_${i}`), condition: f.condition, points: num(f.points, 0) }))
+        : [],
+      events: readEvents(x.events, {}),
+      rules: readRules(x.rules, []),
+      min,
+      max: Math.max(min, num(x.max, 100)),
+    });
+  }
+  return out;
+}
+
+/** Model from a jsonb column / form state; missing or invalid parts fall back to the defaults. */
+export function readLeadScoringModel(raw: unknown): LeadScoringModel {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, any>;
+  const d = DEFAULT_LEAD_SCORING;
+  const events = readEvents(r.events, d.events);
+  const rules = readRules(r.rules, d.rules);
+  const min = num(r.min, d.min);
+  const max = Math.max(min, num(r.max, d.max));
+  const warm = num(r.warm, d.warm);
+  const decayModes = new Set(LEAD_SCORE_DECAY_MODES.map((m) => m.value));
+  return {
+    events,
+    rules,
+    inactivity: {
+      days: Math.max(0, Math.floor(num(r.inactivity?.days, d.inactivity.days))),
+      points: num(r.inactivity?.points, d.inactivity.points),
+    },
+    decay: {
+      mode: decayModes.has(r.decay?.mode) ? (r.decay.mode as LeadScoreDecayMode) : d.decay.mode,
+      halfLifeDays: Math.max(1, num(r.decay?.halfLifeDays, d.decay.halfLifeDays)),
+      pointsPerWeek: Math.max(0, num(r.decay?.pointsPerWeek, d.decay.pointsPerWeek)),
+    },
+    min,
+    max,
+    warm,
+    hot: Math.max(warm, num(r.hot, d.hot)),
+    models: readScoreModels(r.models),
+  };
+}
+
+function ruleTarget(kind: LeadScoringRuleKind, meta: Record<string, unknown>): string {
+  if (kind === "link" || kind === "page") return norm(meta.url ?? meta.href);
+  if (kind === "form") return norm(meta.form ?? meta.formName);
+  return norm(meta.tag);
+}
+
+/** The rule (if any) and points a contact_events row is worth. */
+export function scoreEvent(
+  model: Pick<LeadScoringModel, "events" | "rules">,
+  ev: { event_type?: unknown; meta?: unknown },
+): { points: number; rule: LeadScoringRule | null } {
+  const type = String(ev?.event_type ?? "");
+  const meta = (ev?.meta && typeof ev.meta === "object" ? ev.meta : {}) as Record<string, unknown>;
+  for (const rule of model.rules) {
+    const kind = LEAD_SCORING_RULE_KINDS.find((k) => k.value === rule.kind);
+    if (!kind || kind.eventType !== type || !rule.contains) continue;
+    if (ruleTarget(rule.kind, meta).includes(norm(rule.contains))) return { points: rule.points, rule };
+  }
+  return { points: model.events[type] ?? 0, rule: null };
+}
+
+export type LeadScoreSource = { key: string; label: string };
+
+export const LEAD_SCORE_INACTIVITY_SOURCE: LeadScoreSource = { key: "inactivity", label: "Inactivity" };
+export const LEAD_SCORE_DECAY_SOURCE: LeadScoreSource = { key: "decay", label: "Decay" };
+
+/** What an event's points came from, as stored in lead_score_changes (rule_key / rule_label). */
+export function scoreSource(eventType: string, rule: LeadScoringRule | null): LeadScoreSource {
+  if (rule) {
+    const kind = LEAD_SCORING_RULE_KINDS.find((k) => k.value === rule.kind);
+    return { key: `rule:${rule.id}`, label: `${kind?.label ?? rule.kind} "${rule.contains}"` };
+  }
+  const type = LEAD_SCORING_EVENT_TYPES.find((t) => t.value === eventType);
+  return { key: `event:${eventType}`, label: type?.label ?? eventType };
+}
+
+export function clampScore(model: Pick<LeadScoringModel, "min" | "max">, score: number): number {
+  return Math.max(model.min, Math.min(model.max, Math.round(score)));
+}
+
+export function temperatureForScore(model: LeadScoringModel, score: number): LeadTemperature {
+  if (score >= model.hot) return "hot";
+  if (score >= model.warm) return "warm";
+  return "cold";
+}
+
+/**
+ * Decay from `decayedAtMs` (when the score was last brought up to date) to `nowMs`, moving towards the base
+ * score without passing it, in whole points. `decayedAtMs` only moves on by the time those points took, so
+ * the remainder counts towards the next point however often the score is updated (at the base score it
+ * moves to `nowMs`).
+ */
+export function decayScoreSince(
+  model: LeadScoringModel,
+  score: number,
+  decayedAtMs: number,
+  nowMs: number,
+): { score: number; decayedAtMs: number } {
+  const { mode, halfLifeDays, pointsPerWeek } = model.decay;
+  const base = clampScore(model, 0);
+  const gap = Math.abs(score - base);
+  const elapsed = nowMs - decayedAtMs;
+  if (mode === "none" || gap === 0 || (mode === "linear" && pointsPerWeek <= 0)) return { score, decayedAtMs: nowMs };
+  if (elapsed <= 0) return { score, decayedAtMs };
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  let points: number;
+  let usedMs: number;
+  if (mode === "half_life") {
+    // Each point is taken off once the halving distance from the base score reaches it; the last one
+    // after one half-life (it would never reach the base score otherwise).
+    points = 0;
+    usedMs = 0;
+    while (points < gap) {
+      const left = gap - points;
+      const stepMs = halfLifeDays * dayMs * (left > 1 ? Math.log2(left / (left - 1)) : 1);
+      if (usedMs + stepMs > elapsed) break;
+      usedMs += stepMs;
+      points++;
+    }
+  } else {
+    const msPerPoint = (7 * dayMs) / pointsPerWeek;
+    points = Math.min(gap, Math.floor(elapsed / msPerPoint));
+    usedMs = points * msPerPoint;
+  }
+  const next = score > base ? score - points : score + points;
+  return { score: next, decayedAtMs: next === base ? nowMs : decayedAtMs + usedMs };
+}
+
+/** A fit model's score for a contact row (snake_case columns, as for evalSegment). */
+export function fitScore(model: ScoreModel, contact: unknown): number {
+  const points = model.fit.reduce(
+    (sum, f) => (evalSegment(contact, { logic: "AND", conditions: [f.condition] }) ? sum + f.points : sum),
+    0,
+  );
+  return clampScore(model, points);
+}
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { decayScoreSince, readLeadScoringModel } from "./leadScoring.ts";
+
+declare const Deno: any;
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.parse("2026-01-01T00:00:00Z");
+
+const linear = readLeadScoringModel({ decay: { mode: "linear", pointsPerWeek: 7 } }); // one point a day
+const halfLife = readLeadScoringModel({ decay: { mode: "half_life", halfLifeDays: 10 } });
+
+/** Brings decay up to date every `everyMs` (as frequent events would) until `untilMs`. */
+function decayInSteps(model: typeof linear, score: number, everyMs: number, untilMs: number) {
+  let state = { score, decayedAtMs: T0 };
+  for (let now = T0 + everyMs; now <= untilMs; now += everyMs) state = decayScoreSince(model, state.score, state.decayedAtMs, now);
+  return state;
+}
+
+Deno.test("linear decay takes off whole points and keeps the remainder on the clock", () => {
+  assert.deepEqual(decayScoreSince(linear, 50, T0, T0 + 2.5 * DAY), { score: 48, decayedAtMs: T0 + 2 * DAY });
+  assert.deepEqual(decayScoreSince(linear, 50, T0, T0 + 0.5 * DAY), { score: 50, decayedAtMs: T0 });
+  assert.deepEqual(decayScoreSince(linear, -5, T0, T0 + 3 * DAY), { score: -2, decayedAtMs: T0 + 3 * DAY });
+});
+
+Deno.test("decay stops at the base score and the clock moves to now", () => {
+  assert.deepEqual(decayScoreSince(linear, 3, T0, T0 + 10 * DAY), { score: 0, decayedAtMs: T0 + 10 * DAY });
+  assert.deepEqual(decayScoreSince(halfLife, 1, T0, T0 + 11 * DAY), { score: 0, decayedAtMs: T0 + 11 * DAY });
+  assert.deepEqual(decayScoreSince(linear, 0, T0, T0 + 1), { score: 0, decayedAtMs: T0 + 1 });
+});
+
+Deno.test("no decay and time going backwards leave the score alone", () => {
+  const none = readLeadScoringModel({ decay: { mode: "none" } });
+  assert.deepEqual(decayScoreSince(none, 40, T0, T0 + 30 * DAY), { score: 40, decayedAtMs: T0 + 30 * DAY });
+  assert.deepEqual(decayScoreSince(linear, 40, T0, T0 - DAY), { score: 40, decayedAtMs: T0 });
+});
+
+Deno.test("half-life decay halves the distance to the base score", () => {
+  assert.equal(decayScoreSince(halfLife, 80, T0, T0 + 10 * DAY).score, 40);
+  assert.equal(decayScoreSince(halfLife, 80, T0, T0 + 20 * DAY).score, 20);
+});
+
+Deno.test("frequent updates decay as much as one update at the end", () => {
+  for (const model of [linear, halfLife]) {
+    const once = decayScoreSince(model, 60, T0, T0 + 30 * DAY);
+    const hourly = decayInSteps(model, 60, 60 * 60 * 1000, T0 + 30 * DAY);
+    assert.equal(hourly.score, once.score);
+    assert.ok(Math.abs(hourly.decayedAtMs - once.decayedAtMs) < 1000);
+  }
+});
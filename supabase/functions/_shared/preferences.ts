@@ -0,0 +1,81 @@
+// Email preferences a contact sets in the preference center (the `preferences` Edge Function, reached
+// from the link in every email footer):
+// - topics:    the lists offered in workspace_settings.preference_lists; leaving one removes it from
+//              contacts.lists (list_left event). Campaigns with a topic list (campaigns.topic_list) only
+//              go to contacts on that list.
+// - frequency: contacts.email_frequency "digest" = at most one campaign email per DIGEST_INTERVAL_DAYS.
+// - pause:     contacts.paused_until; no emails at all until then.
+// - unsubscribe from everything (contacts.unsubscribed).
+//
+// email-send-worker checks every queued send with preferenceSkipReason before delivering it.
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+export type EmailFrequency = "all" | "digest";
+
+export const EMAIL_FREQUENCIES: Array<{ value: EmailFrequency; label: string; hint: string }> = [
+  { value: "all", label: "Every email", hint: "All campaigns for the topics you follow" },
+  { value: "digest", label: "Weekly digest", hint: "At most one email a week" },
+];
+
+export const DIGEST_INTERVAL_DAYS = 7;
+export const PAUSE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PreferenceContact = {
+  lists?: unknown;
+  unsubscribed?: unknown;
+  email_frequency?: unknown;
+  paused_until?: unknown;
+};
+
+export function readEmailFrequency(v: unknown): EmailFrequency {
+  return v === "digest" ? "digest" : "all";
+}
+
+/** Topic lists from workspace_settings.preference_lists (trimmed, de-duplicated case-insensitively). */
+export function readPreferenceLists(raw: unknown): string[] {
+  const out: string[] = [];
+  for (const item of Array.isArray(raw) ? raw : []) {
+    const s = String(item ?? "").trim();
+    if (s && !out.some((o) => o.toLowerCase() === s.toLowerCase())) out.push(s);
+  }
+  return out;
+}
+
+function onList(lists: unknown, list: string): boolean {
+  return (Array.isArray(lists) ? lists : []).some((l) => String(l ?? "").toLowerCase() === list.toLowerCase());
+}
+
+/** When the contact's pause ends, or null when they aren't paused at `now`. */
+export function pausedUntil(contact: PreferenceContact, now: Date): Date | null {
+  const ms = contact.paused_until ? new Date(String(contact.paused_until)).getTime() : NaN;
+  return Number.isFinite(ms) && ms > now.getTime() ? new Date(ms) : null;
+}
+
+/** Until when the last campaign email blocks the next one for a digest contact (null = not blocked). */
+export function digestBlockedUntil(contact: PreferenceContact, lastCampaignSentAt: string | null | undefined, now: Date): Date | null {
+  if (readEmailFrequency(contact.email_frequency) !== "digest" || !lastCampaignSentAt) return null;
+  const ms = new Date(lastCampaignSentAt).getTime() + DIGEST_INTERVAL_DAYS * DAY_MS;
+  return Number.isFinite(ms) && ms > now.getTime() ? new Date(ms) : null;
+}
+
+/**
+ * Why an email to this contact must not go out, or null when it may. `topicList` is the campaign's topic
+ * (null for automation emails and campaigns without one); `lastCampaignSentAt` is the contact's latest
+ * campaign email, used for digest contacts (pass null for automation emails: they aren't capped).
+ */
+export function preferenceSkipReason(
+  contact: PreferenceContact,
+  opts: { topicList?: string | null; lastCampaignSentAt?: string | null; now?: Date },
+): string | null {
+  const now = opts.now ?? new Date();
+  if (contact.unsubscribed === true) return "Contact unsubscribed";
+  const paused = pausedUntil(contact, now);
+  if (paused) return `Contact paused emails until ${paused.toISOString().slice(0, 10)}`;
+  const topic = String(opts.topicList ?? "").trim();
+  if (topic && !onList(contact.lists, topic)) return `Contact is not subscribed to "${topic}"`;
+  if (digestBlockedUntil(contact, opts.lastCampaignSentAt, now)) return "Contact gets a weekly digest; already emailed this week";
+  return null;
+}
@@ -0,0 +1,70 @@
+// Shared helpers for Supabase Edge Functions: contact history for activity segment conditions.
+//
+// loadSegmentActivity fetches the contact_events / email_sends rows that a segment's activity conditions
+// read (see segmentActivityNeeds in segments.ts) for a batch of contacts, keyed by contact id, ready to
+// pass to evalSegment. Callers hand in their own GET so user-scoped functions keep RLS.
+
+import { inList, q } from "./db.ts";
+import { segmentActivityNeeds, type SegmentActivity, type SegmentLike } from "./segments.ts";
+
+const PAGE = 1000;
+const CHUNK = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RowFetcher = (path: string) => Promise<unknown>;
+
+async function selectAll(fetchRows: RowFetcher, path: string): Promise<any[]> {
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += PAGE) {
+    const page = await fetchRows(`${path}&limit=${PAGE}&offset=${offset}`);
+    const list = Array.isArray(page) ? page : [];
+    rows.push(...list);
+    if (list.length < PAGE) return rows;
+  }
+}
+
+/** History per contact id; empty when the segment has no activity conditions. */
+export async function loadSegmentActivity(
+  fetchRows: RowFetcher,
+  workspaceId: string,
+  contactIds: string[],
+  seg: SegmentLike | null | undefined,
+  now = Date.now(),
+): Promise<Map<string, SegmentActivity>> {
+  const out = new Map<string, SegmentActivity>();
+  const { eventTypes, sinceDays, sends } = segmentActivityNeeds(seg);
+  if (contactIds.length === 0 || (eventTypes.length === 0 && sends === 0)) return out;
+
+  const activityOf = (id: string) => {
+    let a = out.get(id);
+    if (!a) {
+      a = { events: [], sends: [] };
+      out.set(id, a);
+    }
+    return a;
+  };
+  const since = sinceDays ? new Date(now - sinceDays * DAY_MS).toISOString() : null;
+
+  for (let i = 0; i < contactIds.length; i += CHUNK) {
+    const ids = inList(contactIds.slice(i, i + CHUNK));
+    if (eventTypes.length > 0) {
+      const rows = await selectAll(
+        fetchRows,
+        `contact_events?select=contact_id,event_type,occurred_at,campaign_id,meta&workspace_id=eq.${q(workspaceId)}&contact_id=in.${ids}&event_type=in.${inList(eventTypes)}${since ? `&occurred_at=gte.${q(since)}` : ""}&order=occurred_at.desc,id.asc`,
+      );
+      for (const r of rows) activityOf(String(r.contact_id)).events.push(r);
+    }
+    if (sends > 0) {
+      const rows = await selectAll(
+        fetchRows,
+        `email_sends?select=contact_id,campaign_id,sent_at,opened_at&workspace_id=eq.${q(workspaceId)}&contact_id=in.${ids}&sent_at=not.is.null&order=sent_at.desc,id.asc`,
+      );
+      for (const r of rows) {
+        const a = activityOf(String(r.contact_id));
+        // Newest first: keep only the sends the conditions look at.
+        if (a.sends.length < sends) a.sends.push(r);
+      }
+    }
+  }
+  return out;
+}
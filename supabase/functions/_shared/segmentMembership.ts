@@ -0,0 +1,115 @@
+// Shared helpers for Supabase Edge Functions: materialized segment membership.
+//
+// syncSegmentMembership re-evaluates one segment and diffs the result against segment_memberships:
+// - contacts that start matching are inserted and get a `segment_entered` contact event
+// - contacts that stop matching are removed and get a `segment_exited` contact event
+// automation-scanner turns those events into runs for segment entry / exit triggers. Events get occurred_at
+// from the database at insert (not the pass's start time), so the scanner's cursor can't already be past them.
+//
+// Incremental: only contacts updated since the previous pass are re-checked. The first pass for a
+// segment (or after its definition changed) evaluates everyone and records membership silently, so
+// existing matches don't all "enter" at once.
+
+import { dbDelete, dbInsert, dbSelect, dbSelectOne, inList, q } from "./db.ts";
+import { evalSegment, segmentHash, segmentIsTimeRelative, segmentUsesActivity, SEGMENT_CONTACT_COLUMNS, type SegmentLike } from "./segments.ts";
+import { loadSegmentActivity } from "./segmentActivity.ts";
+
+const CONTACT_COLUMNS = `id,${SEGMENT_CONTACT_COLUMNS}`;
+const PAGE = 1000;
+const CHUNK = 200;
+
+export type SegmentSyncResult = {
+  key: string;
+  baseline: boolean;
+  checked: number;
+  entered: number;
+  exited: number;
+};
+
+function chunks<T>(items: T[], size = CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+async function selectAll(path: string): Promise<any[]> {
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += PAGE) {
+    const page = await dbSelect(`${path}&limit=${PAGE}&offset=${offset}`);
+    rows.push(...page);
+    if (page.length < PAGE) return rows;
+  }
+}
+
+export async function syncSegmentMembership(opts: {
+  workspaceId: string;
+  key: string;
+  name: string;
+  definition: SegmentLike;
+}): Promise<SegmentSyncResult> {
+  const { workspaceId, key, definition } = opts;
+  const hash = segmentHash(definition);
+  const state = await dbSelectOne(
+    `segment_membership_state?select=definition_hash,evaluated_at&workspace_id=eq.${q(workspaceId)}&segment_key=eq.${q(key)}`,
+  );
+  const baseline = !state || String(state.definition_hash) !== hash;
+  const startedAt = new Date().toISOString();
+  // One minute of overlap so contacts written while the previous pass ran aren't missed.
+  // "Within N days" and activity conditions change without contact writes, so those segments re-check everyone.
+  const since = baseline || segmentIsTimeRelative(definition) || segmentUsesActivity(definition)
+    ? null
+    : new Date(new Date(String(state.evaluated_at)).getTime() - 60 * 1000).toISOString();
+
+  const contacts = await selectAll(
+    `contacts?select=${CONTACT_COLUMNS}&workspace_id=eq.${q(workspaceId)}${since ? `&updated_at=gte.${q(since)}` : ""}&order=id.asc`,
+  );
+  const members = new Set(
+    (await selectAll(`segment_memberships?select=contact_id&workspace_id=eq.${q(workspaceId)}&segment_key=eq.${q(key)}&order=contact_id.asc`))
+      .map((r) => String(r.contact_id)),
+  );
+
+  const activity = await loadSegmentActivity(dbSelect, workspaceId, contacts.map((c) => String(c.id)), definition);
+
+  const entered: string[] = [];
+  const exited: string[] = [];
+  for (const c of contacts) {
+    const id = String(c.id);
+    const matches = evalSegment(c, definition, activity.get(id));
+    if (matches && !members.has(id)) entered.push(id);
+    else if (!matches && members.has(id)) exited.push(id);
+  }
+
+  for (const ids of chunks(entered)) {
+    await dbInsert(
+      "segment_memberships",
+      ids.map((contact_id) => ({ workspace_id: workspaceId, segment_key: key, contact_id, entered_at: startedAt })),
+      { onConflict: "workspace_id,segment_key,contact_id", ignoreDuplicates: true },
+    );
+  }
+  for (const ids of chunks(exited)) {
+    await dbDelete(`segment_memberships?workspace_id=eq.${q(workspaceId)}&segment_key=eq.${q(key)}&contact_id=in.${inList(ids)}`);
+  }
+  await dbInsert(
+    "segment_membership_state",
+    [{ workspace_id: workspaceId, segment_key: key, definition_hash: hash, evaluated_at: startedAt }],
+    { onConflict: "workspace_id,segment_key" },
+  );
+
+  if (!baseline) {
+    const events = [
+      ...entered.map((id) => ({ id, type: "segment_entered", title: `Entered segment: ${opts.name}` })),
+      ...exited.map((id) => ({ id, type: "segment_exited", title: `Left segment: ${opts.name}` })),
+    ];
+    for (const batch of chunks(events)) {
+      await dbInsert("contact_events", batch.map((e) => ({
+        workspace_id: workspaceId,
+        contact_id: e.id,
+        event_type: e.type,
+        title: e.title,
+        meta: { segment_key: key, segment: opts.name },
+      })));
+    }
+  }
+
+  return { key, baseline, checked: contacts.length, entered: entered.length, exited: exited.length };
+}
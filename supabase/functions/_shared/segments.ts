@@ -0,0 +1,651 @@
+// Segment definitions and their evaluation on contact rows (snake_case columns), shared by edge
+// functions and the UI (SegmentBuilderModal maps a Contact to a row and calls evalSegment).
+//
+// A segment is a tree of condition groups:
+//   { logic: "AND" | "OR", negate?, conditions: [condition | { type: "group", id, logic, negate?, conditions }] }
+// A condition is { id, field, op, value }; which ops apply depends on the field kind (SEGMENT_FIELDS).
+// `negate` turns a group into NOT(...). Empty groups match everyone. Segments saved before groups
+// existed (flat `conditions`, legacy ops) evaluate as before.
+//
+// Activity conditions ("clicked a link containing /pricing at least once in the last 14 days", "opened
+// none of the last 3 emails") read the contact's history rather than the row: contact_events and
+// email_sends rows passed to evalSegment as a SegmentActivity. Edge functions load it with
+// segmentActivity.ts; the UI builds it from the contact's timeline and recent sends.
+//
+// "Named Score" conditions compare one of the workspace's named scores (contacts.scores[scoreKey], see
+// leadScoring.ts) like a number field. "Custom Field" conditions read contacts.attributes[attribute] (see
+// customFields.ts) and compare it as `attributeKind`, which the builder sets from the field's type.
+//
+// Edge functions also push segments down to Postgres with segmentContactFilter (a PostgREST filter that
+// keeps every matching contact) and then run evalSegment on the rows that come back.
+//
+// Segment keys identify a materialized membership (segment_memberships): a saved segment (public.segments)
+// is keyed by its id ("segment:<id>"); a segment defined inline on a trigger step is keyed by a hash of
+// its definition ("def:<hash>"), so triggers with the same definition share one membership and editing
+// the definition starts a fresh one.
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+export type SegmentLogic = "AND" | "OR";
+
+export type SegmentFieldKind = "choice" | "text" | "membership" | "number" | "date" | "activity" | "sends";
+
+export type SegmentField =
+  | "lifecycleStage"
+  | "temperature"
+  | "status"
+  | "tag"
+  | "list"
+  | "leadScore"
+  | "score"
+  | "custom"
+  | "company"
+  | "jobTitle"
+  | "location"
+  | "timezone"
+  | "acquisitionSource"
+  | "totalOpens"
+  | "totalClicks"
+  | "totalPurchases"
+  | "lastOpenDate"
+  | "lastClickDate"
+  | "lastPurchaseDate"
+  | "createdAt"
+  | "openedEmail"
+  | "clickedLink"
+  | "submittedForm"
+  | "recentEmails";
+
+export type SegmentOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "not_contains"
+  | "is_set"
+  | "is_not_set"
+  | ">="
+  | "<="
+  | ">"
+  | "<"
+  | "within_days"
+  | "not_within_days"
+  | "before"
+  | "after"
+  | "at_least"
+  | "fewer_than"
+  | "opened_any"
+  | "opened_none";
+
+export type SegmentCondition = {
+  id: string;
+  field: SegmentField;
+  op: SegmentOperator;
+  value: string | number;
+  // Activity conditions: how many matching events (default 1) within the last `days` (unset = ever).
+  count?: number;
+  days?: number;
+  // Display name for `value` when it is an id (e.g. the campaign name for "Opened email").
+  valueLabel?: string;
+  // "Named Score" conditions: which score (key in contacts.scores).
+  scoreKey?: string;
+  // "Custom Field" conditions: the field key (in contacts.attributes) and how to compare its values.
+  attribute?: string;
+  attributeKind?: SegmentFieldKind;
+};
+
+export type SegmentGroup = {
+  type: "group";
+  id: string;
+  logic: SegmentLogic;
+  negate?: boolean;
+  conditions: SegmentNode[];
+};
+
+export type SegmentNode = SegmentCondition | SegmentGroup;
+
+export type SegmentDefinition = {
+  logic: SegmentLogic;
+  negate?: boolean;
+  conditions: SegmentNode[];
+};
+
+// Loosely typed input: definitions come from jsonb columns and request bodies.
+export type SegmentLike = { logic?: unknown; negate?: unknown; conditions?: unknown };
+
+// History rows evalSegment reads for activity conditions (contact_events / email_sends columns).
+export type SegmentEventRow = {
+  event_type: string;
+  occurred_at: string;
+  campaign_id?: string | null;
+  meta?: Record<string, unknown> | null;
+};
+export type SegmentSendRow = { campaign_id?: string | null; sent_at: string | null; opened_at?: string | null };
+export type SegmentActivity = { events: SegmentEventRow[]; sends: SegmentSendRow[] };
+
+export const SEGMENT_FIELDS: Array<{ value: SegmentField; label: string; kind: SegmentFieldKind; column?: string; options?: string[] }> = [
+  { value: "lifecycleStage", label: "Lifecycle Stage", kind: "choice", column: "lifecycle_stage", options: ["cold", "lead", "mql", "customer", "churned"] },
+  { value: "temperature", label: "Temperature", kind: "choice", column: "temperature", options: ["cold", "warm", "hot"] },
+  { value: "status", label: "Status", kind: "choice", column: "status", options: ["Subscribed", "Unsubscribed", "Bounced"] },
+  { value: "tag", label: "Tag", kind: "membership", column: "tags" },
+  { value: "list", label: "List", kind: "membership", column: "lists" },
+  { value: "leadScore", label: "Lead Score", kind: "number", column: "lead_score" },
+  { value: "score", label: "Named Score", kind: "number", column: "scores" },
+  { value: "custom", label: "Custom Field", kind: "text", column: "attributes" },
+  { value: "company", label: "Company", kind: "text", column: "company" },
+  { value: "jobTitle", label: "Job Title", kind: "text", column: "job_title" },
+  { value: "location", label: "Location", kind: "text", column: "location" },
+  { value: "timezone", label: "Timezone", kind: "text", column: "timezone" },
+  { value: "acquisitionSource", label: "Acquisition Source", kind: "text", column: "acquisition_source" },
+  { value: "totalOpens", label: "Total Opens", kind: "number", column: "total_opens" },
+  { value: "totalClicks", label: "Total Clicks", kind: "number", column: "total_clicks" },
+  { value: "totalPurchases", label: "Total Purchases", kind: "number", column: "total_purchases" },
+  { value: "lastOpenDate", label: "Last Open", kind: "date", column: "last_open_date" },
+  { value: "lastClickDate", label: "Last Click", kind: "date", column: "last_click_date" },
+  { value: "lastPurchaseDate", label: "Last Purchase", kind: "date", column: "last_purchase_date" },
+  { value: "createdAt", label: "Created", kind: "date", column: "created_at" },
+  { value: "openedEmail", label: "Opened email", kind: "activity" },
+  { value: "clickedLink", label: "Clicked link", kind: "activity" },
+  { value: "submittedForm", label: "Submitted form", kind: "activity" },
+  { value: "recentEmails", label: "Recent emails", kind: "sends" },
+];
+
+// contact_events type each activity field counts.
+const ACTIVITY_EVENT_TYPES: Partial<Record<SegmentField, string>> = {
+  openedEmail: "email_open",
+  clickedLink: "link_click",
+  submittedForm: "form_submitted",
+};
+
+export const SEGMENT_OPERATORS: Record<SegmentFieldKind, Array<{ value: SegmentOperator; label: string }>> = {
+  choice: [
+    { value: "equals", label: "is" },
+    { value: "not_equals", label: "is not" },
+    { value: "is_set", label: "is set" },
+    { value: "is_not_set", label: "is not set" },
+  ],
+  text: [
+    { value: "equals", label: "is" },
+    { value: "not_equals", label: "is not" },
+    { value: "contains", label: "contains" },
+    { value: "not_contains", label: "does not contain" },
+    { value: "is_set", label: "is set" },
+    { value: "is_not_set", label: "is not set" },
+  ],
+  membership: [
+    { value: "equals", label: "has exactly" },
+    { value: "not_equals", label: "does not have" },
+    { value: "contains", label: "has one containing" },
+    { value: "not_contains", label: "has none containing" },
+    { value: "is_set", label: "has any" },
+    { value: "is_not_set", label: "has none" },
+  ],
+  number: [
+    { value: ">=", label: ">=" },
+    { value: "<=", label: "<=" },
+    { value: ">", label: ">" },
+    { value: "<", label: "<" },
+    { value: "equals", label: "=" },
+    { value: "not_equals", label: "≠" },
+  ],
+  date: [
+    { value: "within_days", label: "in the last N days" },
+    { value: "not_within_days", label: "not in the last N days" },
+    { value: "before", label: "before" },
+    { value: "after", label: "after" },
+    { value: "is_set", label: "is set" },
+    { value: "is_not_set", label: "is not set" },
+  ],
+  activity: [
+    { value: "at_least", label: "at least" },
+    { value: "fewer_than", label: "fewer than" },
+  ],
+  sends: [
+    { value: "opened_any", label: "opened at least one of the last" },
+    { value: "opened_none", label: "opened none of the last" },
+  ],
+};
+
+// Contact row columns evalSegment reads; select these (plus whatever else you need) to evaluate.
+export const SEGMENT_CONTACT_COLUMNS = [...new Set(SEGMENT_FIELDS.flatMap((f) => (f.column ? [f.column] : [])))].join(",");
+
+// "Last N emails" looks at most this many sends (the app only loads this many per contact).
+export const SEGMENT_MAX_RECENT_EMAILS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function normalize(s: unknown): string {
+  return String(s ?? "").trim().toLowerCase();
+}
+
+export function segmentFieldMeta(field: unknown) {
+  return SEGMENT_FIELDS.find((f) => f.value === field) ?? null;
+}
+
+export function isSegmentGroup(node: unknown): node is SegmentGroup {
+  return Boolean(node) && typeof node === "object" && (node as { type?: unknown }).type === "group";
+}
+
+export function segmentConditions(seg: SegmentLike | null | undefined): Array<Record<string, unknown>> {
+  return Array.isArray(seg?.conditions) ? (seg.conditions as Array<Record<string, unknown>>) : [];
+}
+
+/** Whether membership can change with the clock alone ("within N days"), not just contact updates. */
+export function segmentIsTimeRelative(seg: SegmentLike | null | undefined): boolean {
+  return segmentConditions(seg).some((n) =>
+    isSegmentGroup(n)
+      ? segmentIsTimeRelative(n)
+      : n.op === "within_days" || n.op === "not_within_days" || (isActivityField(n.field) && Number(n.days ?? 0) > 0),
+  );
+}
+
+function recentEmailCount(value: unknown): number {
+  return Math.min(SEGMENT_MAX_RECENT_EMAILS, Math.max(1, Number(value ?? 0) || 0));
+}
+
+function isActivityField(field: unknown): boolean {
+  const kind = segmentFieldMeta(field)?.kind;
+  return kind === "activity" || kind === "sends";
+}
+
+/**
+ * History a segment's activity conditions need: which contact_events types, how far back (null = all
+ * time), and how many of each contact's latest sends. Nothing to load when both are empty.
+ */
+export function segmentActivityNeeds(seg: SegmentLike | null | undefined): { eventTypes: string[]; sinceDays: number | null; sends: number } {
+  const eventTypes = new Set<string>();
+  let sinceDays: number | null = 0;
+  let sends = 0;
+  const walk = (group: SegmentLike) => {
+    for (const n of segmentConditions(group)) {
+      if (isSegmentGroup(n)) {
+        walk(n);
+        continue;
+      }
+      const type = ACTIVITY_EVENT_TYPES[n.field as SegmentField];
+      if (type) {
+        eventTypes.add(type);
+        const days = Number(n.days ?? 0);
+        sinceDays = days > 0 && sinceDays !== null ? Math.max(sinceDays, days) : null;
+      }
+      if (n.field === "recentEmails") sends = Math.max(sends, recentEmailCount(n.value));
+    }
+  };
+  walk(seg ?? {});
+  return { eventTypes: [...eventTypes], sinceDays: eventTypes.size > 0 ? sinceDays : null, sends };
+}
+
+export function segmentUsesActivity(seg: SegmentLike | null | undefined): boolean {
+  const needs = segmentActivityNeeds(seg);
+  return needs.eventTypes.length > 0 || needs.sends > 0;
+}
+
+// Kinds a custom field can be compared as.
+const ATTRIBUTE_KINDS: SegmentFieldKind[] = ["choice", "text", "membership", "number", "date"];
+
+/** How a condition compares values: its field's kind, or for custom fields the condition's attributeKind. */
+export function segmentConditionKind(c: { field?: unknown; attributeKind?: unknown }): SegmentFieldKind {
+  if (c.field === "custom") {
+    return ATTRIBUTE_KINDS.includes(c.attributeKind as SegmentFieldKind) ? (c.attributeKind as SegmentFieldKind) : "text";
+  }
+  return segmentFieldMeta(c.field)?.kind ?? "text";
+}
+
+/**
+ * Operators valid for a field (custom fields: for the kind they compare as); the first one is the default
+ * when the field changes.
+ */
+export function segmentOperatorsFor(field: unknown, attributeKind?: unknown): Array<{ value: SegmentOperator; label: string }> {
+  return SEGMENT_OPERATORS[segmentConditionKind({ field, attributeKind })];
+}
+
+/** Whether an operator takes a value (is_set / is_not_set don't). */
+export function segmentOperatorTakesValue(op: unknown): boolean {
+  return op !== "is_set" && op !== "is_not_set";
+}
+
+function toMs(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const ms = new Date(String(v)).getTime();
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/** Start of the UTC day for a YYYY-MM-DD value. */
+function dayStartMs(v: unknown): number | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(v ?? "").trim());
+  return m ? Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : null;
+}
+
+function eventMatches(field: unknown, ev: SegmentEventRow, value: string): boolean {
+  if (!value) return true;
+  const meta = ev.meta ?? {};
+  if (field === "openedEmail") return normalize(ev.campaign_id) === value;
+  if (field === "clickedLink") return normalize(meta.url ?? meta.href).includes(value);
+  if (field === "submittedForm") return normalize(meta.form ?? meta.formName) === value;
+  return true;
+}
+
+function checkActivity(activity: SegmentActivity | null | undefined, c: Record<string, unknown>, now: number): boolean {
+  const op = String(c.op ?? "");
+  if (c.field === "recentEmails") {
+    const n = recentEmailCount(c.value);
+    const recent = (activity?.sends ?? [])
+      .filter((s) => toMs(s.sent_at) !== null)
+      .sort((a, b) => (toMs(b.sent_at) ?? 0) - (toMs(a.sent_at) ?? 0))
+      .slice(0, n);
+    const opened = recent.some((s) => toMs(s.opened_at) !== null);
+    // "Opened none of the last N" needs N emails sent, so new contacts don't count as disengaged.
+    return op === "opened_none" ? recent.length >= n && !opened : opened;
+  }
+
+  const type = ACTIVITY_EVENT_TYPES[c.field as SegmentField];
+  const value = normalize(c.value);
+  const days = Number(c.days ?? 0);
+  const since = days > 0 ? now - days * DAY_MS : null;
+  const count = (activity?.events ?? []).filter((ev) => {
+    if (ev.event_type !== type) return false;
+    if (since !== null && (toMs(ev.occurred_at) ?? 0) < since) return false;
+    return eventMatches(c.field, ev, value);
+  }).length;
+  const min = Math.max(1, Number(c.count ?? 1) || 1);
+  return op === "fewer_than" ? count < min : count >= min;
+}
+
+function checkCondition(
+  contact: any,
+  c: Record<string, unknown>,
+  activity: SegmentActivity | null | undefined,
+  now: number,
+): boolean {
+  const meta = segmentFieldMeta(c.field);
+  if (!meta) return true;
+  if (meta.kind === "activity" || meta.kind === "sends") return checkActivity(activity, c, now);
+  const op = String(c.op ?? "");
+  const value = c.value;
+  const kind = segmentConditionKind(c);
+  const raw = c.field === "score"
+    ? contact?.scores?.[String(c.scoreKey ?? "")]
+    : c.field === "custom"
+      ? contact?.attributes?.[String(c.attribute ?? "")]
+      : meta.column ? contact?.[meta.column] : undefined;
+
+  if (kind === "membership") {
+    const items: string[] = Array.isArray(raw) ? raw.map(normalize).filter(Boolean) : [];
+    const v = normalize(value);
+    if (op === "is_set") return items.length > 0;
+    if (op === "is_not_set") return items.length === 0;
+    if (op === "equals") return items.includes(v);
+    if (op === "not_equals") return !items.includes(v);
+    if (op === "not_contains") return !items.some((t) => t.includes(v));
+    // "contains" (also the legacy tag/list op): exact or partial match.
+    return items.some((t) => t === v || t.includes(v));
+  }
+
+  if (kind === "number") {
+    // Missing counters / scores count as 0.
+    const n = Number(raw ?? 0) || 0;
+    const v = Number(value ?? 0);
+    if (op === ">=") return n >= v;
+    if (op === "<=") return n <= v;
+    if (op === ">") return n > v;
+    if (op === "<") return n < v;
+    if (op === "equals") return n === v;
+    if (op === "not_equals") return n !== v;
+    return true;
+  }
+
+  if (kind === "date") {
+    const ms = toMs(raw);
+    if (op === "is_set") return ms !== null;
+    if (op === "is_not_set") return ms === null;
+    if (op === "within_days" || op === "not_within_days") {
+      const within = ms !== null && now - ms <= Math.max(0, Number(value ?? 0)) * DAY_MS;
+      return op === "within_days" ? within : !within;
+    }
+    const day = dayStartMs(value);
+    if (ms === null || day === null) return false;
+    if (op === "before") return ms < day;
+    if (op === "after") return ms >= day + DAY_MS;
+    return true;
+  }
+
+  // choice / text
+  const s = normalize(raw);
+  const v = normalize(value);
+  if (op === "is_set") return s.length > 0;
+  if (op === "is_not_set") return s.length === 0;
+  if (op === "not_equals") return s !== v;
+  if (op === "contains") return s.includes(v);
+  if (op === "not_contains") return !s.includes(v);
+  return s === v;
+}
+
+function evalGroup(contact: any, group: SegmentLike, activity: SegmentActivity | null | undefined, now: number): boolean {
+  const nodes = segmentConditions(group);
+  if (nodes.length === 0) return true;
+  const check = (n: Record<string, unknown>) =>
+    isSegmentGroup(n) ? evalGroup(contact, n, activity, now) : checkCondition(contact, n, activity, now);
+  const matched = String(group.logic ?? "AND").toUpperCase() === "OR" ? nodes.some(check) : nodes.every(check);
+  return group.negate === true ? !matched : matched;
+}
+
+/**
+ * Whether a contact row matches a segment (null / empty segments match everyone). `activity` is the
+ * contact's history for activity conditions; without it they see no events and no sends.
+ */
+export function evalSegment(
+  contact: any,
+  seg: SegmentLike | null | undefined,
+  activity?: SegmentActivity | null,
+  now = Date.now(),
+): boolean {
+  if (!seg || typeof seg !== "object") return true;
+  return evalGroup(contact, seg, activity, now);
+}
+
+// ---------------------------------------------------------------------------------------------------------
+// PostgREST filter compilation.
+//
+// segmentContactFilter turns a segment into a `contacts` query filter that keeps at least every contact
+// evalSegment matches, so edge functions can let Postgres drop non-matching rows before paging through
+// them. Conditions the filter can't express exactly (activity history, tags / lists, which evalSegment
+// compares case-insensitively, LIKE wildcards in values) are loosened or left out, and `exact` is false:
+// callers then still run evalSegment on the rows they get back. Text comparisons are case-insensitive
+// (ilike) but not whitespace-trimmed; contact fields are stored trimmed.
+
+type CompiledFilter = { expr: string | null; exact: boolean }; // expr null = no constraint
+
+const MATCH_ALL: CompiledFilter = { expr: null, exact: true };
+const UNKNOWN: CompiledFilter = { expr: null, exact: false };
+// contacts.id is the primary key, so this never matches.
+const MATCH_NONE = "id.is.null";
+
+function pgValue(v: string | number): string {
+  if (typeof v === "number") return String(v);
+  return `"${v.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+}
+
+function hasLikeWildcards(v: string): boolean {
+  return /[%_*\\]/.test(v);
+}
+
+// Comparisons on NULL are NULL in SQL, and NOT(NULL) drops the row where evalSegment's NOT keeps it;
+// the guard makes a comparison plainly false for missing values.
+function nonNull(col: string, expr: string): string {
+  return `and(${col}.not.is.null,${expr})`;
+}
+
+function compileCondition(c: Record<string, unknown>, now: number): CompiledFilter {
+  const meta = segmentFieldMeta(c.field);
+  if (!meta) return MATCH_ALL;
+  const col = meta.column;
+  const op = String(c.op ?? "");
+  if (!col || meta.kind === "activity" || meta.kind === "sends") return UNKNOWN;
+  // jsonb values compare as jsonb in PostgREST; evalSegment does the typed comparison.
+  if (c.field === "score" || c.field === "custom") return UNKNOWN;
+
+  if (meta.kind === "membership") {
+    // Array containment is case-sensitive, so only "has any" narrows (loosely: blank items count).
+    return op === "is_set" ? { expr: nonNull(col, `${col}.neq.{}`), exact: false } : UNKNOWN;
+  }
+
+  if (meta.kind === "number") {
+    const v = Number(c.value ?? 0);
+    if (!Number.isFinite(v)) return UNKNOWN;
+    const pg: Record<string, string> = { ">=": "gte", "<=": "lte", ">": "gt", "<": "lt", equals: "eq", not_equals: "neq" };
+    if (!pg[op]) return MATCH_ALL;
+    const expr = `${col}.${pg[op]}.${v}`;
+    // Missing values count as 0 in evalSegment.
+    const zeroMatches = checkCondition({ [col]: null }, c, null, now);
+    return { expr: zeroMatches ? `or(${col}.is.null,${expr})` : nonNull(col, expr), exact: true };
+  }
+
+  if (meta.kind === "date") {
+    if (op === "is_set") return { expr: `${col}.not.is.null`, exact: true };
+    if (op === "is_not_set") return { expr: `${col}.is.null`, exact: true };
+    if (op === "within_days" || op === "not_within_days") {
+      const since = new Date(now - Math.max(0, Number(c.value ?? 0)) * DAY_MS).toISOString();
+      return op === "within_days"
+        ? { expr: nonNull(col, `${col}.gte.${pgValue(since)}`), exact: true }
+        : { expr: `or(${col}.is.null,${col}.lt.${pgValue(since)})`, exact: true };
+    }
+    const day = dayStartMs(c.value);
+    if (day === null) return { expr: MATCH_NONE, exact: true };
+    if (op === "before") return { expr: nonNull(col, `${col}.lt.${pgValue(new Date(day).toISOString())}`), exact: true };
+    if (op === "after") return { expr: nonNull(col, `${col}.gte.${pgValue(new Date(day + DAY_MS).toISOString())}`), exact: true };
+    return UNKNOWN;
+  }
+
+  // choice / text
+  const v = normalize(c.value);
+  const blank = `or(${col}.is.null,${col}.eq."")`;
+  if (op === "is_set") return { expr: `and(${col}.not.is.null,${col}.neq."")`, exact: true };
+  if (op === "is_not_set") return { expr: blank, exact: true };
+  const positive = op !== "not_equals" && op !== "not_contains";
+  if (!v) {
+    if (op === "contains") return MATCH_ALL;
+    if (op === "not_contains") return { expr: MATCH_NONE, exact: true };
+    return op === "not_equals" ? { expr: `and(${col}.not.is.null,${col}.neq."")`, exact: true } : { expr: blank, exact: true };
+  }
+  const wild = hasLikeWildcards(v);
+  // Unescaped wildcards widen a positive match (fine for a prefilter) but would narrow a negated one.
+  if (wild && !positive) return UNKNOWN;
+  const pattern = op === "contains" || op === "not_contains" ? pgValue(`*${v}*`) : pgValue(v);
+  if (positive) return { expr: nonNull(col, `${col}.ilike.${pattern}`), exact: !wild };
+  return { expr: `or(${col}.is.null,${col}.not.ilike.${pattern})`, exact: true };
+}
+
+function compileGroup(group: SegmentLike, now: number): CompiledFilter {
+  const parts = segmentConditions(group).map((n) => (isSegmentGroup(n) ? compileGroup(n, now) : compileCondition(n, now)));
+  const exact = parts.every((p) => p.exact);
+  let out: CompiledFilter;
+  if (parts.length === 0) {
+    out = MATCH_ALL;
+  } else if (String(group.logic ?? "AND").toUpperCase() === "OR") {
+    // One unconstrained branch leaves the whole OR unconstrained.
+    const open = parts.find((p) => p.expr === null);
+    out = open
+      ? parts.some((p) => p.expr === null && p.exact) ? MATCH_ALL : UNKNOWN
+      : { expr: parts.length === 1 ? parts[0].expr : `or(${parts.map((p) => p.expr).join(",")})`, exact };
+  } else {
+    // Dropping a loose conjunct keeps the result a superset.
+    const exprs = parts.flatMap((p) => (p.expr === null ? [] : [p.expr]));
+    out = { expr: exprs.length === 0 ? null : exprs.length === 1 ? exprs[0] : `and(${exprs.join(",")})`, exact };
+  }
+  if (group.negate !== true) return out;
+  // NOT of a superset is a subset, so only exact groups can be negated in SQL.
+  if (!out.exact) return UNKNOWN;
+  return { expr: out.expr === null ? MATCH_NONE : `not.and(${out.expr})`, exact: true };
+}
+
+/**
+ * PostgREST filter for `contacts` keeping every contact the segment matches: `query` is "" or
+ * "&and=(...)" to append to a contacts URL. When `exact` is false, evaluate the returned rows with
+ * evalSegment as well.
+ */
+export function segmentContactFilter(seg: SegmentLike | null | undefined, now = Date.now()): { query: string; exact: boolean } {
+  if (!seg || typeof seg !== "object") return { query: "", exact: true };
+  const { expr, exact } = compileGroup(seg, now);
+  return { query: expr ? `&and=${encodeURIComponent(`(${expr})`)}` : "", exact };
+}
+
+function canonical(node: Record<string, unknown>): unknown {
+  if (!isSegmentGroup(node) && !Array.isArray(node.conditions)) {
+    const base = [String(node.field ?? ""), String(node.op ?? ""), String(node.value ?? "")];
+    if (node.field === "score") return [...base, String(node.scoreKey ?? "")];
+    if (node.field === "custom") return [...base, String(node.attribute ?? ""), segmentConditionKind(node)];
+    return isActivityField(node.field) ? [...base, Number(node.count ?? 1) || 1, Number(node.days ?? 0) || 0] : base;
+  }
+  return {
+    logic: String(node.logic ?? "AND").toUpperCase() === "OR" ? "OR" : "AND",
+    ...(node.negate === true ? { negate: true } : {}),
+    conditions: segmentConditions(node).map(canonical),
+  };
+}
+
+/** Stable hash of what a segment matches (condition / group ids and order of keys don't count). */
+export function segmentHash(seg: SegmentLike | null | undefined): string {
+  const text = JSON.stringify(canonical({ ...(seg ?? {}), conditions: segmentConditions(seg) }));
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+const ACTIVITY_TARGETS: Partial<Record<SegmentField, string>> = {
+  openedEmail: "",
+  clickedLink: "containing ",
+  submittedForm: "",
+};
+
+function describeActivity(c: Record<string, unknown>, label: string): string {
+  if (c.field === "recentEmails") {
+    const n = recentEmailCount(c.value);
+    return `${c.op === "opened_none" ? "Opened none" : "Opened at least one"} of the last ${n} email${n === 1 ? "" : "s"}`;
+  }
+  const target = String(c.valueLabel ?? c.value ?? "").trim();
+  const count = Math.max(1, Number(c.count ?? 1) || 1);
+  const days = Number(c.days ?? 0);
+  let text = `${label} ${target ? `${ACTIVITY_TARGETS[c.field as SegmentField] ?? ""}${target}` : "(any)"}`;
+  if (count > 1) text += ` ${c.op === "fewer_than" ? "fewer than" : "at least"} ${count} times`;
+  if (days > 0) text += ` in the last ${days} day${days === 1 ? "" : "s"}`;
+  // "Fewer than 1 time" reads as "never".
+  return c.op === "fewer_than" && count === 1 ? `NOT ${text}` : text;
+}
+
+function describeCondition(c: Record<string, unknown>): string {
+  const meta = segmentFieldMeta(c.field);
+  if (meta?.kind === "activity" || meta?.kind === "sends") return describeActivity(c, meta.label);
+  const field = c.field === "score"
+    ? `Score "${String(c.scoreKey ?? "")}"`
+    : c.field === "custom"
+      ? `Field "${String(c.attribute ?? "")}"`
+      : meta?.label ?? String(c.field ?? "");
+  const op = SEGMENT_OPERATORS[segmentConditionKind(c)].find((o) => o.value === c.op)?.label ?? String(c.op ?? "");
+  if (!segmentOperatorTakesValue(c.op)) return `${field} ${op}`;
+  if (c.op === "within_days" || c.op === "not_within_days") return `${field} ${op.replace("N", String(c.value ?? 0))}`;
+  return `${field} ${op} ${String(c.value ?? "")}`;
+}
+
+function describeGroup(group: SegmentLike, nested: boolean): string {
+  const nodes = segmentConditions(group);
+  if (nodes.length === 0) return "All contacts";
+  const negate = group.negate === true;
+  const logic = String(group.logic ?? "AND").toUpperCase() === "OR" ? "OR" : "AND";
+  const text = nodes.map((n) => (isSegmentGroup(n) ? describeGroup(n, true) : describeCondition(n))).join(` ${logic} `);
+  const inner = nodes.length > 1 && (nested || negate) ? `(${text})` : text;
+  return negate ? `NOT ${inner}` : inner;
+}
+
+/** One-line summary, e.g. "Lead Score >= 50 AND (Temperature is hot OR Tag has exactly vip)". */
+export function describeSegment(seg: SegmentLike | null | undefined): string {
+  return describeGroup(seg ?? {}, false);
+}
+
+/** Membership key of the segment on a `trigger.segment_entered` / `trigger.segment_exited` step. */
+export function triggerSegmentKey(config: Record<string, unknown> | null | undefined): string {
+  const savedId = String(config?.segmentId ?? "").trim();
+  if (savedId) return `segment:${savedId}`;
+  return `def:${segmentHash(config?.segment as SegmentLike | undefined)}`;
+}
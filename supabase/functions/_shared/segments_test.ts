@@ -0,0 +1,434 @@
+// Conformance: segmentContactFilter (Postgres prefilter) must keep every contact evalSegment matches, and
+// exactly those when it reports `exact`. The compiled filter runs against a small PostgREST stand-in
+// below (logic trees, eq / neq / gt / gte / lt / lte / is / ilike with SQL NULL semantics).
+
+import assert from "node:assert/strict";
+import {
+  evalSegment,
+  SEGMENT_FIELDS,
+  segmentContactFilter,
+  type SegmentActivity,
+  type SegmentCondition,
+  type SegmentDefinition,
+  type SegmentNode,
+} from "./segments.ts";
+
+declare const Deno: any;
+
+// ----- PostgREST stand-in -----
+
+type Sql = boolean | null; // SQL three-valued logic: null = unknown
+
+const DATE_COLUMNS = new Set(SEGMENT_FIELDS.filter((f) => f.kind === "date").map((f) => f.column));
+
+/** Splits on commas outside parentheses and quotes. */
+function splitTop(s: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (quoted) {
+      if (ch === "\\") i++;
+      else if (ch === '"') quoted = false;
+    } else if (ch === '"') quoted = true;
+    else if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    else if (ch === "," && depth === 0) {
+      out.push(s.slice(start, i));
+      start = i + 1;
+    }
+  }
+  out.push(s.slice(start));
+  return out;
+}
+
+function unquote(v: string): string {
+  if (!v.startsWith('"')) return v;
+  return v.slice(1, -1).replace(/\\(.)/g, "$1");
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  let re = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") re += (pattern[++i] ?? "").replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    else if (ch === "*" || ch === "%") re += "[\\s\\S]*";
+    else if (ch === "_") re += "[\\s\\S]";
+    else re += ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`, "i");
+}
+
+function compare(col: string, cell: unknown, op: string, raw: string): Sql {
+  if (op === "is") return raw === "null" ? cell === null || cell === undefined : null;
+  if (cell === null || cell === undefined) return null;
+  const value = unquote(raw);
+  if (op === "ilike") return likeToRegExp(value).test(String(cell));
+  if (Array.isArray(cell)) {
+    assert.equal(value, "{}", `stand-in only compares arrays with {} (got ${raw})`);
+    if (op === "eq") return cell.length === 0;
+    if (op === "neq") return cell.length > 0;
+    throw new Error(`Unsupported array operator ${op}`);
+  }
+  let a: number | string = String(cell);
+  let b: number | string = value;
+  if (typeof cell === "number") {
+    b = Number(value);
+    a = cell;
+  } else if (DATE_COLUMNS.has(col)) {
+    a = Date.parse(String(cell));
+    b = Date.parse(value);
+  }
+  switch (op) {
+    case "eq": return a === b;
+    case "neq": return a !== b;
+    case "gt": return a > b;
+    case "gte": return a >= b;
+    case "lt": return a < b;
+    case "lte": return a <= b;
+  }
+  throw new Error(`Unsupported operator ${op}`);
+}
+
+function not(v: Sql): Sql {
+  return v === null ? null : !v;
+}
+
+function evalExpr(row: Record<string, unknown>, expr: string): Sql {
+  const group = /^(not\.)?(and|or)\((.*)\)$/s.exec(expr);
+  if (group) {
+    const parts = splitTop(group[3]).map((p) => evalExpr(row, p));
+    const v: Sql = group[2] === "and"
+      ? parts.includes(false) ? false : parts.includes(null) ? null : true
+      : parts.includes(true) ? true : parts.includes(null) ? null : false;
+    return group[1] ? not(v) : v;
+  }
+  const m = /^([a-z_]+)\.(not\.)?([a-z]+)\.(.*)$/s.exec(expr);
+  if (!m) throw new Error(`Unparsed filter: ${expr}`);
+  const v = compare(m[1], row[m[1]], m[3], m[4]);
+  return m[2] ? not(v) : v;
+}
+
+/** Rows a `contacts?…${query}` request returns. */
+function postgrest<T extends Record<string, unknown>>(rows: T[], query: string): T[] {
+  if (!query) return rows;
+  const and = new URLSearchParams(query.replace(/^&/, "")).get("and");
+  assert.ok(and, `unexpected query ${query}`);
+  return rows.filter((r) => evalExpr(r, `and${and}`) === true);
+}
+
+// ----- Fixtures -----
+
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0);
+const DAY = 24 * 60 * 60 * 1000;
+const ago = (days: number) => new Date(NOW - days * DAY).toISOString();
+
+const CONTACTS: Array<Record<string, unknown>> = [
+  {
+    id: "ana",
+    lifecycle_stage: "customer",
+    temperature: "hot",
+    status: "Subscribed",
+    tags: ["VIP", "newsletter"],
+    lists: ["Customers"],
+    lead_score: 80,
+    scores: { fit: 70, engagement: 20 },
+    attributes: { plan: "pro", seats: 12, trial_ends: "2026-01-01", addons: ["sso", "audit"] },
+    company: "Acme Corp",
+    job_title: "CTO",
+    location: "Berlin",
+    timezone: "Europe/Berlin",
+    acquisition_source: "google_ads",
+    total_opens: 10,
+    total_clicks: 4,
+    total_purchases: 2,
+    last_open_date: ago(2),
+    last_click_date: ago(5),
+    last_purchase_date: ago(40),
+    created_at: "2025-06-01T10:00:00Z",
+  },
+  {
+    id: "ben",
+    lifecycle_stage: "lead",
+    temperature: "warm",
+    status: "Subscribed",
+    tags: ["vip-trial"],
+    lists: [],
+    lead_score: 45,
+    scores: { fit: 30 },
+    attributes: { plan: "Free", seats: 1, addons: [] },
+    company: "acme labs",
+    job_title: "Developer",
+    location: "Paris",
+    timezone: "Europe/Paris",
+    acquisition_source: "organic",
+    total_opens: 3,
+    total_clicks: 0,
+    total_purchases: 0,
+    last_open_date: ago(20),
+    last_click_date: null,
+    last_purchase_date: null,
+    created_at: "2025-12-20T08:00:00Z",
+  },
+  {
+    id: "cleo",
+    lifecycle_stage: "mql",
+    temperature: "cold",
+    status: "Subscribed",
+    tags: [],
+    lists: ["Newsletter"],
+    lead_score: null,
+    scores: null,
+    attributes: {},
+    company: "",
+    job_title: null,
+    location: null,
+    timezone: null,
+    acquisition_source: null,
+    total_opens: null,
+    total_clicks: null,
+    total_purchases: null,
+    last_open_date: null,
+    last_click_date: null,
+    last_purchase_date: null,
+    created_at: ago(1),
+  },
+  {
+    id: "dan",
+    lifecycle_stage: "churned",
+    temperature: null,
+    status: "Unsubscribed",
+    tags: null,
+    lists: null,
+    lead_score: 0,
+    scores: { fit: 50, engagement: 90 },
+    attributes: { plan: "PRO", seats: "7", trial_ends: "2025-11-01" },
+    company: "Foo_Bar Ltd",
+    job_title: "Head of Growth",
+    location: "Berlin, DE",
+    timezone: "GMT+1",
+    acquisition_source: "referral",
+    total_opens: 25,
+    total_clicks: 9,
+    total_purchases: 0,
+    last_open_date: ago(100),
+    last_click_date: "2025-11-30T23:59:59Z",
+    last_purchase_date: null,
+    created_at: "2024-01-01T00:00:00Z",
+  },
+  {
+    id: "eve",
+    lifecycle_stage: null,
+    temperature: "Hot",
+    status: "Bounced",
+    tags: ["Blocked", ""],
+    lists: ["customers-eu"],
+    lead_score: 120,
+    scores: {},
+    attributes: null,
+    company: "ACME",
+    job_title: "",
+    location: "Lyon",
+    timezone: "Europe/Paris",
+    acquisition_source: "Google_Ads",
+    total_opens: 0,
+    total_clicks: 0,
+    total_purchases: 5,
+    last_open_date: ago(0),
+    last_click_date: null,
+    last_purchase_date: ago(7),
+    created_at: "2025-12-01T00:00:00Z",
+  },
+  { id: "finn", status: "Subscribed" },
+];
+
+const ACTIVITY: Record<string, SegmentActivity> = {
+  ana: {
+    events: [
+      { event_type: "email_open", occurred_at: ago(3), campaign_id: "camp-1" },
+      { event_type: "email_open", occurred_at: ago(30), campaign_id: "camp-2" },
+      { event_type: "link_click", occurred_at: ago(2), meta: { url: "https://example.com/pricing?a=1" } },
+      { event_type: "form_submitted", occurred_at: ago(10), meta: { form: "Demo request" } },
+    ],
+    sends: [
+      { campaign_id: "camp-1", sent_at: ago(3), opened_at: ago(3) },
+      { campaign_id: "camp-2", sent_at: ago(30), opened_at: null },
+      { campaign_id: "camp-3", sent_at: ago(60), opened_at: null },
+    ],
+  },
+  ben: {
+    events: [
+      { event_type: "email_open", occurred_at: ago(50), campaign_id: "camp-1" },
+      { event_type: "link_click", occurred_at: ago(1), meta: { href: "https://example.com/blog" } },
+    ],
+    sends: [
+      { campaign_id: "camp-1", sent_at: ago(3), opened_at: null },
+      { campaign_id: "camp-2", sent_at: ago(30), opened_at: null },
+      { campaign_id: "camp-3", sent_at: ago(50), opened_at: ago(50) },
+    ],
+  },
+  cleo: { events: [], sends: [{ campaign_id: "camp-1", sent_at: ago(3), opened_at: null }] },
+  dan: {
+    events: [
+      { event_type: "link_click", occurred_at: ago(20), meta: { url: "https://example.com/Pricing" } },
+      { event_type: "link_click", occurred_at: ago(1), meta: { url: "https://example.com/pricing" } },
+      { event_type: "form_submitted", occurred_at: ago(5), meta: { formName: "demo request" } },
+    ],
+    sends: [
+      { campaign_id: "camp-1", sent_at: ago(3), opened_at: null },
+      { campaign_id: "camp-2", sent_at: ago(30), opened_at: null },
+      { campaign_id: "camp-3", sent_at: ago(50), opened_at: null },
+      { campaign_id: "camp-4", sent_at: ago(70), opened_at: ago(69) },
+    ],
+  },
+};
+
+let seq = 0;
+function c(field: SegmentCondition["field"], op: SegmentCondition["op"], value: string | number = "", extra: Partial<SegmentCondition> = {}): SegmentCondition {
+  return { id: `c${++seq}`, field, op, value, ...extra };
+}
+function and(...conditions: SegmentNode[]): SegmentDefinition {
+  return { logic: "AND", conditions };
+}
+function or(...conditions: SegmentNode[]): SegmentDefinition {
+  return { logic: "OR", conditions };
+}
+function group(logic: "AND" | "OR", conditions: SegmentNode[], negate = false): SegmentNode {
+  return { type: "group", id: `g${++seq}`, logic, negate, conditions };
+}
+
+type Fixture = { name: string; segment: SegmentDefinition; expect: string[]; exact?: boolean };
+
+const FIXTURES: Fixture[] = [
+  // choice
+  { name: "choice equals", segment: and(c("lifecycleStage", "equals", "customer")), expect: ["ana"], exact: true },
+  { name: "choice equals is case-insensitive", segment: and(c("temperature", "equals", "hot")), expect: ["ana", "eve"], exact: true },
+  { name: "choice not_equals keeps missing values", segment: and(c("temperature", "not_equals", "hot")), expect: ["ben", "cleo", "dan", "finn"], exact: true },
+  { name: "choice is_set", segment: and(c("lifecycleStage", "is_set")), expect: ["ana", "ben", "cleo", "dan"], exact: true },
+  { name: "choice is_not_set", segment: and(c("temperature", "is_not_set")), expect: ["dan", "finn"], exact: true },
+  { name: "status equals", segment: and(c("status", "equals", "Subscribed")), expect: ["ana", "ben", "cleo", "finn"], exact: true },
+
+  // text
+  { name: "text equals", segment: and(c("company", "equals", "ACME corp")), expect: ["ana"], exact: true },
+  { name: "text not_equals", segment: and(c("company", "not_equals", "acme")), expect: ["ana", "ben", "cleo", "dan", "finn"], exact: true },
+  { name: "text contains", segment: and(c("company", "contains", "acme")), expect: ["ana", "ben", "eve"], exact: true },
+  { name: "text not_contains", segment: and(c("location", "not_contains", "berlin")), expect: ["ben", "cleo", "eve", "finn"], exact: true },
+  { name: "text is_set treats blanks as missing", segment: and(c("jobTitle", "is_set")), expect: ["ana", "ben", "dan"], exact: true },
+  { name: "text is_not_set", segment: and(c("company", "is_not_set")), expect: ["cleo", "finn"], exact: true },
+  { name: "text equals empty", segment: and(c("company", "equals", "")), expect: ["cleo", "finn"], exact: true },
+  { name: "text not_equals empty", segment: and(c("company", "not_equals", "")), expect: ["ana", "ben", "dan", "eve"], exact: true },
+  { name: "text contains empty matches all", segment: and(c("company", "contains", "")), expect: ["ana", "ben", "cleo", "dan", "eve", "finn"], exact: true },
+  { name: "text not_contains empty matches none", segment: and(c("company", "not_contains", "")), expect: [], exact: true },
+  { name: "text value with LIKE wildcard", segment: and(c("acquisitionSource", "equals", "google_ads")), expect: ["ana", "eve"], exact: false },
+  { name: "text contains with LIKE wildcard", segment: and(c("company", "contains", "o_b")), expect: ["dan"], exact: false },
+  { name: "negated text with LIKE wildcard", segment: and(c("company", "not_contains", "o_b")), expect: ["ana", "ben", "cleo", "eve", "finn"], exact: false },
+  { name: "text with quotes and commas", segment: and(c("location", "equals", 'berlin, de')), expect: ["dan"], exact: true },
+
+  // membership
+  { name: "tag equals", segment: and(c("tag", "equals", "vip")), expect: ["ana"], exact: false },
+  { name: "tag not_equals", segment: and(c("tag", "not_equals", "vip")), expect: ["ben", "cleo", "dan", "eve", "finn"], exact: false },
+  { name: "tag contains", segment: and(c("tag", "contains", "vip")), expect: ["ana", "ben"], exact: false },
+  { name: "tag not_contains", segment: and(c("tag", "not_contains", "vip")), expect: ["cleo", "dan", "eve", "finn"], exact: false },
+  { name: "tag is_set", segment: and(c("tag", "is_set")), expect: ["ana", "ben", "eve"], exact: false },
+  { name: "tag is_not_set", segment: and(c("tag", "is_not_set")), expect: ["cleo", "dan", "finn"], exact: false },
+  { name: "list contains", segment: and(c("list", "contains", "customers")), expect: ["ana", "eve"], exact: false },
+
+  // number
+  { name: "number >=", segment: and(c("leadScore", ">=", 80)), expect: ["ana", "eve"], exact: true },
+  { name: "number <=", segment: and(c("leadScore", "<=", 45)), expect: ["ben", "cleo", "dan", "finn"], exact: true },
+  { name: "number >", segment: and(c("totalOpens", ">", 3)), expect: ["ana", "dan"], exact: true },
+  { name: "number < counts missing as 0", segment: and(c("totalClicks", "<", 1)), expect: ["ben", "cleo", "eve", "finn"], exact: true },
+  { name: "number equals 0", segment: and(c("totalPurchases", "equals", 0)), expect: ["ben", "cleo", "dan", "finn"], exact: true },
+  { name: "number not_equals 0", segment: and(c("totalPurchases", "not_equals", 0)), expect: ["ana", "eve"], exact: true },
+
+  // date
+  { name: "date within_days", segment: and(c("lastOpenDate", "within_days", 7)), expect: ["ana", "eve"], exact: true },
+  { name: "date not_within_days", segment: and(c("lastOpenDate", "not_within_days", 7)), expect: ["ben", "cleo", "dan", "finn"], exact: true },
+  { name: "date before", segment: and(c("createdAt", "before", "2025-12-01")), expect: ["ana", "dan"], exact: true },
+  { name: "date after", segment: and(c("createdAt", "after", "2025-12-01")), expect: ["ben", "cleo"], exact: true },
+  { name: "date after (end of day)", segment: and(c("lastClickDate", "after", "2025-11-30")), expect: ["ana"], exact: true },
+  { name: "date is_set", segment: and(c("lastClickDate", "is_set")), expect: ["ana", "dan"], exact: true },
+  { name: "date is_not_set", segment: and(c("lastPurchaseDate", "is_not_set")), expect: ["ben", "cleo", "dan", "finn"], exact: true },
+  { name: "date before an invalid date", segment: and(c("createdAt", "before", "soon")), expect: [], exact: true },
+
+  // activity
+  { name: "opened a specific email", segment: and(c("openedEmail", "at_least", "camp-1")), expect: ["ana", "ben"], exact: false },
+  { name: "opened any email in the last 7 days", segment: and(c("openedEmail", "at_least", "", { days: 7 })), expect: ["ana"], exact: false },
+  { name: "clicked a link at least twice", segment: and(c("clickedLink", "at_least", "pricing", { count: 2 })), expect: ["dan"], exact: false },
+  { name: "never submitted the demo form", segment: and(c("submittedForm", "fewer_than", "demo request")), expect: ["ben", "cleo", "eve", "finn"], exact: false },
+  { name: "opened one of the last 3 emails", segment: and(c("recentEmails", "opened_any", 3)), expect: ["ana", "ben"], exact: false },
+  { name: "opened none of the last 3 emails", segment: and(c("recentEmails", "opened_none", 3)), expect: ["dan"], exact: false },
+
+  // named scores and custom fields (compared client-side)
+  { name: "named score >=", segment: and(c("score", ">=", 50, { scoreKey: "fit" })), expect: ["ana", "dan"], exact: false },
+  { name: "named score < counts missing as 0", segment: and(c("score", "<", 50, { scoreKey: "engagement" })), expect: ["ana", "ben", "cleo", "eve", "finn"], exact: false },
+  { name: "custom text equals", segment: and(c("custom", "equals", "pro", { attribute: "plan", attributeKind: "text" })), expect: ["ana", "dan"], exact: false },
+  { name: "custom number >", segment: and(c("custom", ">", 5, { attribute: "seats", attributeKind: "number" })), expect: ["ana", "dan"], exact: false },
+  { name: "custom date before", segment: and(c("custom", "before", "2025-12-15", { attribute: "trial_ends", attributeKind: "date" })), expect: ["dan"], exact: false },
+  { name: "custom multi-choice has", segment: and(c("custom", "equals", "sso", { attribute: "addons", attributeKind: "membership" })), expect: ["ana"], exact: false },
+  { name: "custom is_not_set", segment: and(c("custom", "is_not_set", "", { attribute: "plan" })), expect: ["cleo", "eve", "finn"], exact: false },
+
+  // logic
+  { name: "empty segment", segment: and(), expect: ["ana", "ben", "cleo", "dan", "eve", "finn"], exact: true },
+  { name: "AND of exact conditions", segment: and(c("status", "equals", "Subscribed"), c("leadScore", ">", 40)), expect: ["ana", "ben"], exact: true },
+  { name: "OR of exact conditions", segment: or(c("temperature", "equals", "warm"), c("totalPurchases", ">=", 5)), expect: ["ben", "eve"], exact: true },
+  {
+    name: "nested AND / OR",
+    segment: and(
+      c("status", "not_equals", "Bounced"),
+      group("OR", [c("location", "contains", "berlin"), group("AND", [c("leadScore", ">=", 40), c("company", "contains", "acme")])]),
+    ),
+    expect: ["ana", "ben", "dan"],
+    exact: true,
+  },
+  { name: "negated exact group", segment: and(group("AND", [c("company", "contains", "acme"), c("leadScore", ">", 50)], true)), expect: ["ben", "cleo", "dan", "finn"], exact: true },
+  { name: "negated top level", segment: { logic: "OR", negate: true, conditions: [c("temperature", "equals", "hot"), c("lifecycleStage", "is_not_set")] }, expect: ["ben", "cleo", "dan"], exact: true },
+  { name: "negated group with a loose condition", segment: and(group("OR", [c("tag", "equals", "vip"), c("leadScore", ">=", 100)], true)), expect: ["ben", "cleo", "dan", "finn"], exact: false },
+  { name: "AND with an activity condition", segment: and(c("status", "equals", "Subscribed"), c("openedEmail", "at_least", "camp-1")), expect: ["ana", "ben"], exact: false },
+  { name: "OR with an activity branch", segment: or(c("leadScore", ">=", 100), c("clickedLink", "at_least", "pricing", { days: 3 })), expect: ["ana", "dan", "eve"], exact: false },
+  { name: "OR with a loose membership branch", segment: or(c("tag", "is_set"), c("totalOpens", ">=", 20)), expect: ["ana", "ben", "dan", "eve"], exact: false },
+  {
+    name: "three levels with negation and named scores",
+    segment: or(
+      group("AND", [c("score", ">=", 60, { scoreKey: "engagement" }), group("OR", [c("lifecycleStage", "equals", "churned")], true)]),
+      group("AND", [c("createdAt", "within_days", 30), c("company", "is_not_set")]),
+    ),
+    expect: ["cleo"],
+    exact: false,
+  },
+  { name: "legacy flat tag contains", segment: { logic: "AND", conditions: [{ id: "legacy", field: "tag", op: "contains", value: "newsletter" }] }, expect: ["ana"], exact: false },
+];
+
+function ids(rows: Array<Record<string, unknown>>): string[] {
+  return rows.map((r) => String(r.id));
+}
+
+for (const f of FIXTURES) {
+  Deno.test(`segment conformance: ${f.name}`, () => {
+    const direct = ids(CONTACTS.filter((row) => evalSegment(row, f.segment, ACTIVITY[String(row.id)], NOW)));
+    assert.deepEqual(direct, f.expect, "evalSegment");
+
+    const filter = segmentContactFilter(f.segment, NOW);
+    if (f.exact !== undefined) assert.equal(filter.exact, f.exact, `exact (${filter.query})`);
+    const fetched = postgrest(CONTACTS, filter.query);
+    // The prefilter may keep extra rows, never drop a match.
+    for (const id of direct) assert.ok(ids(fetched).includes(id), `filter dropped ${id}: ${decodeURIComponent(filter.query)}`);
+
+    // What senders do with the rows: re-check with evalSegment unless the filter is exact.
+    const viaFilter = filter.exact ? fetched : fetched.filter((row) => evalSegment(row, f.segment, ACTIVITY[String(row.id)], NOW));
+    assert.deepEqual(ids(viaFilter), direct, `via filter: ${decodeURIComponent(filter.query)}`);
+  });
+}
+
+Deno.test("segment conformance: exact filters narrow in Postgres", () => {
+  const { query } = segmentContactFilter(and(c("leadScore", ">=", 80)), NOW);
+  assert.equal(decodeURIComponent(query), "&and=(and(lead_score.not.is.null,lead_score.gte.80))");
+  assert.deepEqual(ids(postgrest(CONTACTS, query)), ["ana", "eve"]);
+});
+
+Deno.test("segment conformance: no segment means no filter", () => {
+  assert.deepEqual(segmentContactFilter(null, NOW), { query: "", exact: true });
+  assert.deepEqual(segmentContactFilter(and(c("openedEmail", "at_least", "")), NOW), { query: "", exact: false });
+});
@@ -0,0 +1,91 @@
+// Workspace suppression list (public.suppressions): addresses and whole domains that must never be
+// mailed, whatever sends the email. One row per (kind, value):
+//   { kind: "email",  value: "jane@example.com", reason: "bounced",    source: "resend-webhook" }
+//   { kind: "domain", value: "competitor.com",   reason: "manual",     source: "settings" }
+//
+// email-send-worker checks every email right before delivery (matchSuppression); unsubscribes, bounces
+// and spam complaints add rows automatically, and Settings → Suppressions adds / imports / exports them.
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+export type SuppressionKind = "email" | "domain";
+
+export type SuppressionReason = "unsubscribed" | "bounced" | "complained" | "manual";
+
+export type Suppression = {
+  kind: SuppressionKind;
+  value: string;
+  reason: SuppressionReason;
+  // What added it: "settings", "csv_import", "unsubscribe", "preferences", "resend-webhook"…
+  source: string;
+  createdAt?: string; // ISO
+};
+
+export const SUPPRESSION_REASONS: Array<{ value: SuppressionReason; label: string }> = [
+  { value: "unsubscribed", label: "Unsubscribed" },
+  { value: "bounced", label: "Bounced" },
+  { value: "complained", label: "Spam complaint" },
+  { value: "manual", label: "Manual" },
+];
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DOMAIN_RE = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+
+export function readSuppressionReason(v: unknown, fallback: SuppressionReason = "manual"): SuppressionReason {
+  const s = String(v ?? "").trim().toLowerCase();
+  if (s === "complaint" || s === "spam" || s === "spam_complaint") return "complained";
+  if (s === "bounce" || s === "hard_bounce") return "bounced";
+  if (s === "unsubscribe") return "unsubscribed";
+  return SUPPRESSION_REASONS.some((r) => r.value === s) ? (s as SuppressionReason) : fallback;
+}
+
+/** "Jane@Example.com" → email "jane@example.com"; "@example.com" / "example.com" → domain; null when neither. */
+export function readSuppressionTarget(raw: unknown): { kind: SuppressionKind; value: string } | null {
+  const s = String(raw ?? "").trim().toLowerCase().replace(/^mailto:/, "");
+  if (!s) return null;
+  if (EMAIL_RE.test(s)) return { kind: "email", value: s };
+  const domain = s.replace(/^@/, "");
+  return DOMAIN_RE.test(domain) ? { kind: "domain", value: domain } : null;
+}
+
+/** A suppressions row (or an imported / typed entry), or null when the address isn't usable. */
+export function readSuppression(raw: unknown): Suppression | null {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const target = readSuppressionTarget(r.value ?? r.email ?? r.domain);
+  if (!target) return null;
+  const created = r.created_at ?? r.createdAt;
+  return {
+    ...target,
+    reason: readSuppressionReason(r.reason),
+    source: String(r.source ?? "").trim() || "manual",
+    createdAt: created ? String(created) : undefined,
+  };
+}
+
+/** The values to look up for a recipient: the address and its domain. */
+export function suppressionKeys(email: string): string[] {
+  const s = String(email ?? "").trim().toLowerCase();
+  const at = s.lastIndexOf("@");
+  return at > 0 ? [s, s.slice(at + 1)] : [s];
+}
+
+/** The entry blocking `email` among `rows` (an exact address wins over its domain), or null. */
+export function matchSuppression(email: string, rows: unknown): Suppression | null {
+  const [address, domain] = suppressionKeys(email);
+  const list = (Array.isArray(rows) ? rows : []).map(readSuppression).filter((s): s is Suppression => s !== null);
+  return list.find((s) => s.kind === "email" && s.value === address)
+    ?? list.find((s) => s.kind === "domain" && s.value === domain)
+    ?? null;
+}
+
+/** Row for public.suppressions. */
+export function suppressionRow(workspaceId: string, s: Suppression) {
+  return {
+    workspace_id: workspaceId,
+    kind: s.kind,
+    value: s.value,
+    reason: s.reason,
+    source: s.source,
+    created_at: s.createdAt ?? new Date().toISOString(),
+  };
+}
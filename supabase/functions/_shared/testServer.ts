@@ -0,0 +1,49 @@
+// Helpers for the Deno unit tests in this folder (`*_test.ts`): a local HTTP stub standing in for
+// PostgREST / Supabase Auth / webhook receivers, and scoped environment variables.
+//
+//   deno test --allow-net --allow-env --allow-read supabase/functions/_shared
+
+declare const Deno: any;
+
+export type StubRequest = {
+  method: string;
+  path: string;
+  search: string;
+  headers: Headers;
+  body: string;
+};
+
+/** Serves `handler` on a random local port for the duration of `fn`; every request is recorded. */
+export async function withStub(
+  handler: (req: StubRequest, index: number) => Response | Promise<Response>,
+  fn: (baseUrl: string, requests: StubRequest[]) => Promise<void>,
+): Promise<void> {
+  const requests: StubRequest[] = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async (req: Request) => {
+    const url = new URL(req.url);
+    const r: StubRequest = { method: req.method, path: url.pathname, search: url.search, headers: req.headers, body: await req.text() };
+    requests.push(r);
+    return handler(r, requests.length - 1);
+  });
+  try {
+    await fn(`http://127.0.0.1:${server.addr.port}`, requests);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+/** Sets environment variables (empty string = unset) for the duration of `fn`, then restores them. */
+export async function withEnv(vars: Record<string, string>, fn: () => Promise<void>): Promise<void> {
+  const saved = Object.keys(vars).map((k) => [k, Deno.env.get(k)] as const);
+  const apply = (k: string, v: string | undefined) => (v ? Deno.env.set(k, v) : Deno.env.delete(k));
+  Object.entries(vars).forEach(([k, v]) => apply(k, v));
+  try {
+    await fn();
+  } finally {
+    saved.forEach(([k, v]) => apply(k, v));
+  }
+}
+
+export function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), { status, headers: { "Content-Type": "application/json" } });
+}
@@ -0,0 +1,91 @@
+// Contact timezone helpers (wall-clock time in a contact's timezone), shared by automation waits and
+// date-based triggers.
+//
+// contacts.timezone holds IANA names ("Europe/Berlin") or offsets as typed in the contact editor
+// ("GMT-8", "UTC+2"). Anything Intl can't resolve falls back to UTC.
+//
+// No runtime-specific APIs here: this file is imported by both Vite and Deno.
+
+export type LocalParts = {
+  y: number;
+  mo: number; // 1-12
+  d: number;
+  h: number;
+  mi: number;
+  s: number;
+  weekday: number; // 0 = Sunday
+};
+
+function supported(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** IANA / offset zone Intl accepts for `tz`, or "UTC". */
+export function resolveTimeZone(tz: string | null | undefined): string {
+  const raw = String(tz ?? "").trim();
+  if (!raw) return "UTC";
+  if (supported(raw)) return raw;
+  const m = /^(?:GMT|UTC)\s*([+-])\s*(\d{1,2})(?::?(\d{2}))?$/i.exec(raw);
+  if (m) {
+    const h = Number(m[2]);
+    const mi = Number(m[3] ?? 0);
+    // Etc/GMT zones have inverted signs (Etc/GMT+8 is UTC-8) and whole hours only.
+    if (mi === 0 && h <= 14) return h === 0 ? "UTC" : `Etc/GMT${m[1] === "+" ? "-" : "+"}${h}`;
+    const offset = `${m[1]}${String(h).padStart(2, "0")}:${String(mi).padStart(2, "0")}`;
+    if (supported(offset)) return offset;
+  }
+  return "UTC";
+}
+
+/** Wall-clock parts of `utcMs` in a resolved timezone. */
+export function localParts(utcMs: number, timeZone: string): LocalParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    weekday: "short",
+  }).formatToParts(new Date(utcMs));
+  const get = (t: string) => Number(parts.find((p) => p.type === t)?.value ?? 0);
+  const wd = parts.find((p) => p.type === "weekday")?.value ?? "Sun";
+  return {
+    y: get("year"),
+    mo: get("month"),
+    d: get("day"),
+    h: get("hour"),
+    mi: get("minute"),
+    s: get("second"),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(wd),
+  };
+}
+
+function offsetMs(utcMs: number, timeZone: string): number {
+  const p = localParts(utcMs, timeZone);
+  return Date.UTC(p.y, p.mo - 1, p.d, p.h, p.mi, p.s) - Math.floor(utcMs / 1000) * 1000;
+}
+
+/** UTC instant of a local wall-clock time (month is 1-based; day overflow rolls into the next month). */
+export function zonedTimeToUtc(y: number, mo: number, d: number, h: number, mi: number, timeZone: string): Date {
+  const tz = resolveTimeZone(timeZone);
+  const wall = Date.UTC(y, mo - 1, d, h, mi);
+  // Two passes settle DST transitions (the offset at the guess can differ from the offset at the result).
+  let ts = wall - offsetMs(wall, tz);
+  ts = wall - offsetMs(ts, tz);
+  return new Date(ts);
+}
+
+/** "HH:MM" → hour / minute (09:00 when unparseable). */
+export function parseTime(v: string): { h: number; m: number } {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(v ?? "").trim());
+  if (!m) return { h: 9, m: 0 };
+  return { h: Math.min(23, Number(m[1])), m: Math.min(59, Number(m[2])) };
+}
@@ -0,0 +1,91 @@
+// Shared helpers for Supabase Edge Functions: base64url + HMAC-signed tokens.
+//
+// Token format: base64url(JSON payload) + "." + base64url(HMAC-SHA256(secret, payloadB64))
+
+import { env, functionsBaseUrl } from "./env.ts";
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replaceAll("+", "-").replaceAll("/", "_").replaceAll("=", "");
+}
+
+export function base64UrlToBytes(s: string): Uint8Array {
+  const pad = s.length % 4 === 0 ? "" : "=".repeat(4 - (s.length % 4));
+  const raw = atob((s + pad).replaceAll("-", "+").replaceAll("_", "/"));
+  const out = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) out[i] = raw.charCodeAt(i);
+  return out;
+}
+
+async function hmacKey(secret: string, usage: "sign" | "verify") {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage],
+  );
+}
+
+export async function hmacSign(secret: string, payload: string): Promise<string> {
+  const key = await hmacKey(secret, "sign");
+  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  return bytesToBase64Url(new Uint8Array(sig));
+}
+
+export async function hmacVerify(secret: string, payload: string, signature: string): Promise<boolean> {
+  const key = await hmacKey(secret, "verify");
+  let sigBytes: Uint8Array;
+  try {
+    sigBytes = base64UrlToBytes(signature);
+  } catch {
+    return false;
+  }
+  const sigBuf = sigBytes.buffer.slice(sigBytes.byteOffset, sigBytes.byteOffset + sigBytes.byteLength) as ArrayBuffer;
+  return crypto.subtle.verify("HMAC", key, sigBuf, new TextEncoder().encode(payload));
+}
+
+export async function signToken(secret: string, payload: unknown): Promise<string> {
+  const payloadB64 = bytesToBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${payloadB64}.${await hmacSign(secret, payloadB64)}`;
+}
+
+/** Returns the decoded payload, or null if the token is malformed or the signature doesn't match. */
+export async function verifyToken<T = any>(secret: string, token: string): Promise<T | null> {
+  const [payloadB64, sig] = String(token ?? "").split(".");
+  if (!payloadB64 || !sig) return null;
+  if (!(await hmacVerify(secret, payloadB64, sig))) return null;
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlToBytes(payloadB64))) as T;
+  } catch {
+    return null;
+  }
+}
+
+export type UnsubscribePayload = { ws: string; contactId: string; exp: number };
+
+const UNSUBSCRIBE_TTL_MS = 1000 * 60 * 60 * 24 * 365;
+
+export async function makeUnsubscribeToken(secret: string, workspaceId: string, contactId: string): Promise<string> {
+  const payload: UnsubscribePayload = { ws: workspaceId, contactId, exp: Date.now() + UNSUBSCRIBE_TTL_MS };
+  return signToken(secret, payload);
+}
+
+async function contactLink(fn: string, workspaceId: string, contactId: string): Promise<string | null> {
+  const secret = env("UNSUBSCRIBE_SIGNING_KEY");
+  const base = functionsBaseUrl();
+  if (!secret || !base) return null;
+  const token = await makeUnsubscribeToken(secret, workspaceId, contactId);
+  return `${base}/${fn}?token=${encodeURIComponent(token)}`;
+}
+
+/** Public unsubscribe link for a contact, or null if UNSUBSCRIBE_SIGNING_KEY / functions base URL aren't configured. */
+export function makeUnsubUrl(workspaceId: string, contactId: string): Promise<string | null> {
+  return contactLink("unsubscribe", workspaceId, contactId);
+}
+
+/** Public preference center link for a contact (same token as the unsubscribe link). */
+export function makePreferencesUrl(workspaceId: string, contactId: string): Promise<string | null> {
+  return contactLink("preferences", workspaceId, contactId);
+}
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import {
+  base64UrlToBytes,
+  bytesToBase64Url,
+  makePreferencesUrl,
+  makeUnsubscribeToken,
+  makeUnsubUrl,
+  signToken,
+  verifyToken,
+  type UnsubscribePayload,
+} from "./tokens.ts";
+import { readContactToken } from "./unsubscribe.ts";
+import { withEnv } from "./testServer.ts";
+
+declare const Deno: any;
+
+const SECRET = "unsubscribe-signing-key";
+
+Deno.test("base64url round-trips arbitrary bytes without padding", () => {
+  const bytes = new Uint8Array([0, 250, 251, 252, 253, 254, 255, 62, 63]);
+  const s = bytesToBase64Url(bytes);
+  assert.match(s, /^[A-Za-z0-9_-]+$/);
+  assert.deepEqual(base64UrlToBytes(s), bytes);
+});
+
+Deno.test("signToken / verifyToken round-trip the payload", async () => {
+  const payload = { ws: "ws-1", contactId: "c-1", exp: 123, note: "héllo / ünïcode" };
+  const token = await signToken(SECRET, payload);
+  assert.equal(token.split(".").length, 2);
+  assert.deepEqual(await verifyToken(SECRET, token), payload);
+});
+
+Deno.test("verifyToken rejects tampered payloads and signatures", async () => {
+  const token = await signToken(SECRET, { ws: "ws-1", contactId: "c-1" });
+  const [payloadB64, sig] = token.split(".");
+  const forged = bytesToBase64Url(new TextEncoder().encode(JSON.stringify({ ws: "ws-1", contactId: "c-2" })));
+
+  assert.equal(await verifyToken(SECRET, `${forged}.${sig}`), null);
+  assert.equal(await verifyToken(SECRET, `${payloadB64}.${sig.slice(0, -2)}${sig.endsWith("AA") ? "BB" : "AA"}`), null);
+  assert.equal(await verifyToken("another-secret", token), null);
+});
+
+Deno.test("verifyToken rejects malformed tokens", async () => {
+  assert.equal(await verifyToken(SECRET, ""), null);
+  assert.equal(await verifyToken(SECRET, "no-dot"), null);
+  assert.equal(await verifyToken(SECRET, ".sig"), null);
+  assert.equal(await verifyToken(SECRET, "payload.!!!"), null);
+});
+
+Deno.test("makeUnsubscribeToken signs a one-year token for the contact", async () => {
+  const before = Date.now();
+  const payload = await verifyToken<UnsubscribePayload>(SECRET, await makeUnsubscribeToken(SECRET, "ws-1", "c-1"));
+  assert.ok(payload);
+  assert.equal(payload.ws, "ws-1");
+  assert.equal(payload.contactId, "c-1");
+  const days = (payload.exp - before) / (24 * 60 * 60 * 1000);
+  assert.ok(days > 364.9 && days < 365.1, `exp is ${days} days ahead`);
+});
+
+Deno.test("readContactToken accepts valid tokens and rejects expired or invalid ones", async () => {
+  await withEnv({ UNSUBSCRIBE_SIGNING_KEY: SECRET }, async () => {
+    const valid = await signToken(SECRET, { ws: "ws-1", contactId: "c-1", exp: Date.now() + 60_000 });
+    assert.deepEqual(await readContactToken(valid), { workspaceId: "ws-1", contactId: "c-1" });
+
+    const expired = await signToken(SECRET, { ws: "ws-1", contactId: "c-1", exp: Date.now() - 1 });
+    assert.deepEqual(await readContactToken(expired), { error: "Link expired", status: 400 });
+
+    const foreign = await signToken("another-secret", { ws: "ws-1", contactId: "c-1", exp: Date.now() + 60_000 });
+    assert.deepEqual(await readContactToken(foreign), { error: "Invalid link", status: 400 });
+
+    const noContact = await signToken(SECRET, { ws: "ws-1", exp: Date.now() + 60_000 });
+    assert.deepEqual(await readContactToken(noContact), { error: "Invalid link", status: 400 });
+    assert.deepEqual(await readContactToken(""), { error: "Invalid link", status: 400 });
+  });
+});
+
+Deno.test("readContactToken reports a missing signing key", async () => {
+  await withEnv({ UNSUBSCRIBE_SIGNING_KEY: "" }, async () => {
+    assert.deepEqual(await readContactToken("a.b"), { error: "Server not configured", status: 500 });
+  });
+});
+
+Deno.test("contact links carry a verifiable token", async () => {
+  await withEnv({ UNSUBSCRIBE_SIGNING_KEY: SECRET, PUBLIC_FUNCTIONS_BASE_URL: "https://fn.example.com/functions/v1/" }, async () => {
+    for (const [make, fn] of [[makeUnsubUrl, "unsubscribe"], [makePreferencesUrl, "preferences"]] as const) {
+      const url = new URL(String(await make("ws-1", "c-1")));
+      assert.equal(`${url.origin}${url.pathname}`, `https://fn.example.com/functions/v1/${fn}`);
+      const payload = await verifyToken<UnsubscribePayload>(SECRET, url.searchParams.get("token") ?? "");
+      assert.equal(payload?.contactId, "c-1");
+    }
+  });
+  await withEnv({ UNSUBSCRIBE_SIGNING_KEY: "" }, async () => {
+    assert.equal(await makeUnsubUrl("ws-1", "c-1"), null);
+  });
+});
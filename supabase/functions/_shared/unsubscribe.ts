@@ -0,0 +1,64 @@
+// Shared helpers for the unsubscribe and preferences Edge Functions: signed contact tokens (see tokens.ts)
+// and the global unsubscribe write (contact flag, timeline event, suppression list entry).
+
+import { dbFetch } from "./db.ts";
+import { env } from "./env.ts";
+import { readSuppressionTarget, suppressionRow } from "./suppressions.ts";
+import { verifyToken, type UnsubscribePayload } from "./tokens.ts";
+
+export type ContactToken = { workspaceId: string; contactId: string } | { error: string; status: number };
+
+/** The contact a signed link is for, or the error to show. */
+export async function readContactToken(token: string): Promise<ContactToken> {
+  if (!token) return { error: "Invalid link", status: 400 };
+
+  const secret = env("UNSUBSCRIBE_SIGNING_KEY");
+  if (!secret) return { error: "Server not configured", status: 500 };
+
+  const payload = await verifyToken<UnsubscribePayload>(secret, token);
+  if (!payload) return { error: "Invalid link", status: 400 };
+  const workspaceId = String(payload?.ws ?? "default") || "default";
+  const contactId = String(payload?.contactId ?? "").trim();
+  const exp = Number(payload?.exp ?? 0);
+  if (!contactId) return { error: "Invalid link", status: 400 };
+  if (exp && Date.now() > exp) return { error: "Link expired", status: 400 };
+  return { workspaceId, contactId };
+}
+
+/** Unsubscribes the contact from everything, writes the `unsubscribed` timeline event and suppresses the address. */
+export async function unsubscribeContact(workspaceId: string, contactId: string, method: "link" | "one_click" | "preferences") {
+  // Update contact (best-effort)
+  await dbFetch(`contacts?workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}`, {
+    method: "PATCH",
+    headers: { Prefer: "return=minimal" },
+    body: JSON.stringify({ status: "Unsubscribed", unsubscribed: true, updated_at: new Date().toISOString() }),
+  });
+
+  // Timeline event
+  await dbFetch("contact_events", {
+    method: "POST",
+    headers: { Prefer: "return=minimal" },
+    body: JSON.stringify([{
+      workspace_id: workspaceId,
+      contact_id: contactId,
+      event_type: "unsubscribed",
+      title: method === "one_click" ? "Unsubscribed (one-click)" : method === "preferences" ? "Unsubscribed (preference center)" : "Unsubscribed",
+      occurred_at: new Date().toISOString(),
+      meta: { method },
+    }]),
+  });
+
+  // Suppression list (kept if the address is already suppressed, e.g. after a bounce)
+  const rows = await dbFetch(
+    `contacts?select=email&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}&limit=1`,
+    { method: "GET" },
+  );
+  const target = readSuppressionTarget(Array.isArray(rows) ? rows[0]?.email : null);
+  if (target?.kind === "email") {
+    await dbFetch("suppressions", {
+      method: "POST",
+      headers: { Prefer: "resolution=ignore-duplicates,return=minimal" },
+      body: JSON.stringify([suppressionRow(workspaceId, { ...target, reason: "unsubscribed", source: method === "preferences" ? "preferences" : "unsubscribe" })]),
+    });
+  }
+}
@@ -0,0 +1,155 @@
+// Shared helpers for Supabase Edge Functions: outbound webhooks (automation `action.webhook` steps).
+//
+// Payload: the step's JSON template. String values are merge templates: "{{contact.email}}" inside a
+// string is interpolated; a string that is exactly one placeholder ("{{contact}}") is replaced by the raw
+// value (object / number / null). An empty template sends { contact, event, run }.
+//
+// Signing (when WEBHOOK_SIGNING_SECRET is set):
+//   X-Flowmail-Timestamp: <unix seconds>
+//   X-Flowmail-Signature: v1=<base64url HMAC-SHA256(secret, "<timestamp>.<raw body>")>
+
+import { env } from "./env.ts";
+import { hmacSign } from "./tokens.ts";
+
+export type WebhookConfig = {
+  url: string;
+  method: "POST" | "PUT" | "PATCH";
+  headers: Record<string, string>;
+  template: string;
+  timeoutMs: number;
+  maxRetries: number;
+  // optional response check: JSON path (dot notation) that must equal `matchValue`
+  matchPath: string;
+  matchValue: string;
+};
+
+export type WebhookResult = {
+  ok: boolean;
+  status: number | null;
+  // network errors, timeouts, 429 and 5xx are worth retrying
+  retryable: boolean;
+  error: string | null;
+  body: unknown;
+};
+
+export function readWebhookConfig(cfg: Record<string, unknown> | null | undefined): WebhookConfig {
+  const method = String(cfg?.method ?? "POST").toUpperCase();
+  return {
+    url: String(cfg?.url ?? "").trim(),
+    method: method === "PUT" || method === "PATCH" ? method : "POST",
+    headers: parseHeaderLines(String(cfg?.headers ?? "")),
+    template: String(cfg?.payload ?? "").trim(),
+    timeoutMs: Math.max(1000, Math.min(30000, Number(cfg?.timeoutMs ?? 10000) || 10000)),
+    maxRetries: Math.max(0, Math.min(8, Math.floor(Number(cfg?.maxRetries ?? 3)))),
+    matchPath: String(cfg?.matchPath ?? "").trim(),
+    matchValue: String(cfg?.matchValue ?? "").trim(),
+  };
+}
+
+/** "Name: value" per line. */
+function parseHeaderLines(text: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const idx = line.indexOf(":");
+    if (idx <= 0) continue;
+    const name = line.slice(0, idx).trim();
+    const value = line.slice(idx + 1).trim();
+    if (name) out[name] = value;
+  }
+  return out;
+}
+
+function lookup(vars: Record<string, unknown>, path: string): unknown {
+  let cur: unknown = vars;
+  for (const part of path.split(".")) {
+    if (cur === null || typeof cur !== "object") return undefined;
+    cur = (cur as Record<string, unknown>)[part];
+  }
+  return cur;
+}
+
+function renderValue(v: unknown, vars: Record<string, unknown>): unknown {
+  if (typeof v === "string") {
+    const whole = v.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+    if (whole) return lookup(vars, whole[1]) ?? null;
+    return v.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, p: string) => {
+      const x = lookup(vars, p);
+      if (x === undefined || x === null) return "";
+      return typeof x === "object" ? JSON.stringify(x) : String(x);
+    });
+  }
+  if (Array.isArray(v)) return v.map((x) => renderValue(x, vars));
+  if (v && typeof v === "object") {
+    return Object.fromEntries(Object.entries(v as Record<string, unknown>).map(([k, x]) => [k, renderValue(x, vars)]));
+  }
+  return v;
+}
+
+/** Renders the JSON payload template. Throws if the template isn't valid JSON. */
+export function renderWebhookPayload(template: string, vars: Record<string, unknown>): unknown {
+  if (!template) return { contact: vars.contact ?? null, event: vars.event ?? null, run: vars.run ?? null };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(template);
+  } catch (e) {
+    throw new Error(`Webhook payload template is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return renderValue(parsed, vars);
+}
+
+/** Delay before retry `attempt` (1-based): 30s, 1m, 2m, 4m… capped at 1h. */
+export function webhookBackoffMs(attempt: number): number {
+  return Math.min(60 * 60 * 1000, 30 * 1000 * 2 ** Math.max(0, attempt - 1));
+}
+
+/** Delay before retrying after attempt `attempt` (1-based) returned `res`, or null when the result is final. */
+export function webhookRetryDelayMs(res: WebhookResult, attempt: number, maxRetries: number): number | null {
+  return !res.ok && res.retryable && attempt <= maxRetries ? webhookBackoffMs(attempt) : null;
+}
+
+export async function callWebhook(cfg: WebhookConfig, payload: unknown): Promise<WebhookResult> {
+  if (!/^https?:\/\//i.test(cfg.url)) {
+    return { ok: false, status: null, retryable: false, error: "Webhook URL must start with http:// or https://", body: null };
+  }
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "FlowMail-Webhook/1",
+    ...cfg.headers,
+  };
+  const secret = env("WEBHOOK_SIGNING_SECRET");
+  if (secret) {
+    const ts = String(Math.floor(Date.now() / 1000));
+    headers["X-Flowmail-Timestamp"] = ts;
+    headers["X-Flowmail-Signature"] = `v1=${await hmacSign(secret, `${ts}.${body}`)}`;
+  }
+
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), cfg.timeoutMs);
+  try {
+    const res = await fetch(cfg.url, { method: cfg.method, headers, body, signal: ctrl.signal });
+    const text = await res.text();
+    let parsed: unknown = text;
+    try {
+      parsed = text ? JSON.parse(text) : null;
+    } catch {
+      // keep raw text
+    }
+    if (!res.ok) {
+      const retryable = res.status === 429 || res.status >= 500;
+      return { ok: false, status: res.status, retryable, error: `HTTP ${res.status}: ${text.slice(0, 300)}`, body: parsed };
+    }
+    if (cfg.matchPath) {
+      const got = parsed && typeof parsed === "object" ? lookup(parsed as Record<string, unknown>, cfg.matchPath) : undefined;
+      const ok = String(got ?? "") === cfg.matchValue;
+      return { ok, status: res.status, retryable: false, error: ok ? null : `Response ${cfg.matchPath}=${JSON.stringify(got ?? null)}`, body: parsed };
+    }
+    return { ok: true, status: res.status, retryable: false, error: null, body: parsed };
+  } catch (e) {
+    const aborted = e instanceof DOMException && e.name === "AbortError";
+    const error = aborted ? `Timed out after ${cfg.timeoutMs}ms` : e instanceof Error ? e.message : String(e);
+    return { ok: false, status: null, retryable: true, error, body: null };
+  } finally {
+    clearTimeout(timer);
+  }
+}
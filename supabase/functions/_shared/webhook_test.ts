@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { pickEdge, type AutomationGraph, type GraphStep } from "./automationGraph.ts";
+import { bytesToBase64Url } from "./tokens.ts";
+import {
+  callWebhook,
+  readWebhookConfig,
+  renderWebhookPayload,
+  webhookBackoffMs,
+  webhookRetryDelayMs,
+  type WebhookConfig,
+  type WebhookResult,
+} from "./webhook.ts";
+import { jsonResponse, withEnv, withStub } from "./testServer.ts";
+
+declare const Deno: any;
+
+const SECRET = "webhook-signing-secret";
+
+function config(url: string, over: Partial<WebhookConfig> = {}): WebhookConfig {
+  return { ...readWebhookConfig({ url }), ...over };
+}
+
+/** Same loop as automation-worker: each attempt is a queue run, retried while webhookRetryDelayMs says so. */
+async function deliver(cfg: WebhookConfig, payload: unknown): Promise<{ res: WebhookResult; attempts: number; delays: number[] }> {
+  const delays: number[] = [];
+  for (let attempt = 1; ; attempt++) {
+    const res = await callWebhook(cfg, payload);
+    const delay = webhookRetryDelayMs(res, attempt, cfg.maxRetries);
+    if (delay === null) return { res, attempts: attempt, delays };
+    delays.push(delay);
+  }
+}
+
+async function expectedSignature(ts: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(SECRET), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${ts}.${body}`));
+  return `v1=${bytesToBase64Url(new Uint8Array(sig))}`;
+}
+
+Deno.test("signs the raw body with the timestamp", async () => {
+  await withEnv({ WEBHOOK_SIGNING_SECRET: SECRET }, async () => {
+    await withStub(() => jsonResponse({ ok: true }), async (base, requests) => {
+      const payload = renderWebhookPayload('{"email":"{{contact.email}}","contact":"{{contact}}"}', { contact: { id: "c1", email: "a@b.co" } });
+      const res = await callWebhook(config(`${base}/hook`, { headers: { "X-Custom": "yes" } }), payload);
+      assert.equal(res.ok, true);
+
+      const req = requests[0];
+      assert.equal(req.method, "POST");
+      assert.deepEqual(JSON.parse(req.body), { email: "a@b.co", contact: { id: "c1", email: "a@b.co" } });
+      assert.equal(req.headers.get("content-type"), "application/json");
+      assert.equal(req.headers.get("x-custom"), "yes");
+      const ts = String(req.headers.get("x-flowmail-timestamp"));
+      assert.ok(Math.abs(Number(ts) - Date.now() / 1000) < 60);
+      assert.equal(req.headers.get("x-flowmail-signature"), await expectedSignature(ts, req.body));
+    });
+  });
+});
+
+Deno.test("sends no signature headers without WEBHOOK_SIGNING_SECRET", async () => {
+  await withEnv({ WEBHOOK_SIGNING_SECRET: "" }, async () => {
+    await withStub(() => new Response(null, { status: 204 }), async (base, requests) => {
+      assert.equal((await callWebhook(config(base), {})).ok, true);
+      assert.equal(requests[0].headers.get("x-flowmail-signature"), null);
+      assert.equal(requests[0].headers.get("x-flowmail-timestamp"), null);
+    });
+  });
+});
+
+Deno.test("retries 5xx responses with backoff until one succeeds", async () => {
+  await withStub((_req, i) => (i < 2 ? new Response("busy", { status: 503 }) : jsonResponse({ received: true })), async (base, requests) => {
+    const { res, attempts, delays } = await deliver(config(base, { maxRetries: 3 }), { n: 1 });
+    assert.equal(res.ok, true);
+    assert.deepEqual(res.body, { received: true });
+    assert.equal(attempts, 3);
+    assert.deepEqual(delays, [30_000, 60_000]);
+    assert.equal(requests.length, 3);
+  });
+});
+
+Deno.test("gives up after maxRetries retries", async () => {
+  await withStub(() => new Response("down", { status: 500 }), async (base, requests) => {
+    const { res, attempts, delays } = await deliver(config(base, { maxRetries: 2 }), {});
+    assert.equal(res.ok, false);
+    assert.equal(res.status, 500);
+    assert.equal(res.error, "HTTP 500: down");
+    assert.equal(attempts, 3);
+    assert.deepEqual(delays, [30_000, 60_000]);
+    assert.equal(requests.length, 3);
+  });
+});
+
+Deno.test("retries timeouts", async () => {
+  await withStub(async (_req, i) => {
+    if (i === 0) await new Promise((r) => setTimeout(r, 300));
+    return jsonResponse({ ok: true });
+  }, async (base) => {
+    const { res, attempts, delays } = await deliver(config(base, { timeoutMs: 50, maxRetries: 3 }), {});
+    assert.equal(res.ok, true);
+    assert.equal(attempts, 2);
+    assert.deepEqual(delays, [30_000]);
+  });
+});
+
+Deno.test("does not retry 4xx responses or a failed response check", async () => {
+  await withStub((_req, i) => (i === 0 ? new Response("bad", { status: 422 }) : jsonResponse({ status: "rejected" })), async (base) => {
+    const rejected = await deliver(config(base), {});
+    assert.equal(rejected.res.ok, false);
+    assert.equal(rejected.res.status, 422);
+    assert.equal(rejected.attempts, 1);
+
+    const mismatch = await deliver(config(base, { matchPath: "status", matchValue: "accepted" }), {});
+    assert.equal(mismatch.res.ok, false);
+    assert.equal(mismatch.res.error, 'Response status="rejected"');
+    assert.equal(mismatch.attempts, 1);
+  });
+});
+
+Deno.test("rate limits are retried", () => {
+  const res: WebhookResult = { ok: false, status: 429, retryable: true, error: "HTTP 429", body: null };
+  assert.equal(webhookRetryDelayMs(res, 1, 3), 30_000);
+  assert.equal(webhookRetryDelayMs(res, 4, 3), null);
+  assert.equal(webhookRetryDelayMs({ ...res, ok: true, retryable: false }, 1, 3), null);
+});
+
+Deno.test("backoff doubles from 30s and caps at one hour", () => {
+  assert.deepEqual([1, 2, 3, 4].map(webhookBackoffMs), [30_000, 60_000, 120_000, 240_000]);
+  assert.equal(webhookBackoffMs(20), 60 * 60 * 1000);
+});
+
+Deno.test("rejects non-http URLs without a request", async () => {
+  const res = await callWebhook(config("ftp://example.com"), {});
+  assert.equal(res.ok, false);
+  assert.equal(res.retryable, false);
+});
+
+const hook: GraphStep = { id: "hook", type: "action", title: "Webhook", config: { kind: "action.webhook" } };
+const graph: AutomationGraph = {
+  nodes: [hook, { id: "ok", type: "action", title: "Delivered" }, { id: "failed", type: "action", title: "Failed" }],
+  edges: [
+    { id: "hook:yes:ok", from: "hook", to: "ok", kind: "yes" },
+    { id: "hook:no:failed", from: "hook", to: "failed", kind: "no" },
+  ],
+};
+
+Deno.test("delivered and failed webhooks follow the success and failure edges", async () => {
+  await withStub((req) => (req.path === "/ok" ? jsonResponse({ ok: true }) : new Response("down", { status: 503 })), async (base) => {
+    const delivered = await deliver(config(`${base}/ok`), {});
+    assert.equal(pickEdge(graph, hook, { outcome: delivered.res.ok })?.to, "ok");
+
+    const failed = await deliver(config(`${base}/down`, { maxRetries: 1 }), {});
+    assert.equal(failed.attempts, 2);
+    assert.equal(pickEdge(graph, hook, { outcome: failed.res.ok })?.to, "failed");
+  });
+});
+
+Deno.test("webhooks without yes / no links follow next", () => {
+  const linear: AutomationGraph = { nodes: graph.nodes, edges: [{ id: "hook:next:ok", from: "hook", to: "ok", kind: "next" }] };
+  assert.equal(pickEdge(linear, hook, { outcome: true })?.to, "ok");
+  assert.equal(pickEdge(linear, hook, { outcome: false })?.to, "ok");
+});
@@ -0,0 +1,106 @@
+// Supabase Edge Function: automation-date-triggers
+//
+// Starts runs for date-based triggers (`trigger.date`: signup anniversary, N days after last purchase,
+// birthday or any custom date attribute). See _shared/automationDateTrigger.ts for the matching rules.
+//
+// Each call walks the workspace's contacts and fires triggers whose occurrence is due in the contact's
+// timezone. automation_date_trigger_fires dedupes per contact + occurrence, so calling this every few
+// minutes (automation-runner does) fires each occurrence once, shortly after its local time.
+// New runs respect the automation's entry policy.
+//
+// Deploy:
+//   supabase functions deploy automation-date-triggers
+//
+// Secrets:
+//   supabase secrets set SUPABASE_SERVICE_ROLE_KEY=...
+
+import { corsHeaders, json } from "../_shared/http.ts";
+import { requireRunnerTokenOrWorkspaceUser } from "../_shared/auth.ts";
+import { dbInsert, dbPatch, dbSelect, q } from "../_shared/db.ts";
+import { entryAfterTrigger, stepKind, toGraph } from "../_shared/automationGraph.ts";
+import { DATE_TRIGGER_KIND, dateTriggerOccurrence, readDateTrigger } from "../_shared/automationDateTrigger.ts";
+import { startRun } from "../_shared/automationRuns.ts";
+
+declare const Deno: any;
+
+const PAGE = 1000;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const workspaceId = String(body?.workspaceId ?? "default") || "default";
+    const auth = await requireRunnerTokenOrWorkspaceUser(req, workspaceId);
+    if (auth) return auth;
+    const maxContacts = Math.max(PAGE, Math.min(50000, Number(body?.maxContacts ?? 10000)));
+
+    const autos = await dbSelect(
+      `automations?select=id,steps,edges,entry_policy&workspace_id=eq.${q(workspaceId)}&status=eq.Running&limit=200`,
+    );
+    const triggers = autos.flatMap((a) => {
+      const graph = toGraph(a.steps, a.edges);
+      return graph.nodes
+        .filter((n) => n.type === "trigger" && stepKind(n) === DATE_TRIGGER_KIND)
+        .map((n) => ({ a, stepId: n.id, cfg: readDateTrigger(n.config), entry: entryAfterTrigger(graph, n.id) }))
+        .filter((t) => Boolean(t.entry));
+    });
+    if (triggers.length === 0) return json({ ok: true, triggers: 0, checkedContacts: 0, startedRuns: 0, skippedRuns: 0 });
+
+    const now = Date.now();
+    let checked = 0;
+    let started = 0;
+    let skipped = 0;
+    for (let offset = 0; offset < maxContacts; offset += PAGE) {
+      const contacts = await dbSelect(
+        `contacts?select=id,timezone,created_at,last_purchase_date,attributes&workspace_id=eq.${q(workspaceId)}&unsubscribed=eq.false&order=id.asc&limit=${PAGE}&offset=${offset}`,
+      );
+      checked += contacts.length;
+
+      for (const t of triggers) {
+        const due = contacts
+          .map((c) => ({ c, occurrence: dateTriggerOccurrence(t.cfg, c, now) }))
+          .filter((x): x is { c: any; occurrence: string } => Boolean(x.occurrence));
+        if (due.length === 0) continue;
+
+        // Claim occurrences first; only rows actually inserted (not fired before) start a run.
+        const claimed = await dbInsert(
+          "automation_date_trigger_fires",
+          due.map((x) => ({
+            workspace_id: workspaceId,
+            automation_id: String(t.a.id),
+            step_id: t.stepId,
+            contact_id: String(x.c.id),
+            occurrence: x.occurrence,
+          })),
+          { returning: true, onConflict: "workspace_id,automation_id,step_id,contact_id,occurrence", ignoreDuplicates: true },
+        );
+        for (const row of claimed) {
+          const res = await startRun({
+            workspaceId,
+            automation: t.a,
+            contactId: String(row.contact_id),
+            stepId: String(t.entry),
+            meta: { trigger_kind: DATE_TRIGGER_KIND, trigger_step_id: t.stepId, date_occurrence: row.occurrence },
+          });
+          if (res.skipped) skipped++;
+          else if (res.runId) started++;
+          if (res.runId) {
+            await dbPatch(
+              `automation_date_trigger_fires?workspace_id=eq.${q(workspaceId)}&automation_id=eq.${q(t.a.id)}&step_id=eq.${q(t.stepId)}&contact_id=eq.${q(row.contact_id)}&occurrence=eq.${q(row.occurrence)}`,
+              { run_id: res.runId },
+            );
+          }
+        }
+      }
+
+      if (contacts.length < PAGE) break;
+    }
+
+    return json({ ok: true, triggers: triggers.length, checkedContacts: checked, startedRuns: started, skippedRuns: skipped });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json({ error: message }, 500);
+  }
+});
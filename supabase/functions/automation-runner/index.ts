@@ -2,7 +2,7 @@
 //
 // Production entrypoint for automations:
 // - Finds workspaces with running automations
-// - Runs scanner -> worker -> email-send-worker for each workspace
+// - Runs date triggers -> segment membership -> scanner -> worker -> email-send-worker for each workspace
 //
 // Deploy:
 //   supabase functions deploy automation-runner
@@ -11,44 +11,11 @@
 //   SUPABASE_SERVICE_ROLE_KEY=...
 //   FLOWMAIL_RUNNER_TOKEN=... (recommended) - passed via header x-flowmail-runner-token
 //
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-flowmail-runner-token",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
+import { corsHeaders, json } from "../_shared/http.ts";
+import { requireRunnerToken } from "../_shared/auth.ts";
+import { dbFetch } from "../_shared/db.ts";
 
-function requireRunnerToken(req: Request): Response | null {
-  const required = (Deno.env.get("FLOWMAIL_RUNNER_TOKEN") ?? "").trim();
-  if (!required) return null; // not enforced
-  const got = String(req.headers.get("x-flowmail-runner-token") ?? "").trim();
-  if (!got || got !== required) return json({ error: "Unauthorized" }, 401);
-  return null;
-}
-
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
+declare const Deno: any;
 
 async function callFn(name: string, tokenHeader: string | null, body: any) {
   const url = Deno.env.get("SUPABASE_URL");
@@ -94,15 +61,17 @@ Deno.serve(async (req) => {
     const wsIds = Array.from(new Set(wsIdsRaw)).slice(0, maxWorkspaces);
 
     let processedWorkspaces = 0;
-    const results: Array<{ workspaceId: string; scanner?: any; worker?: any; email?: any; error?: string }> = [];
+    const results: Array<{ workspaceId: string; dateTriggers?: any; segments?: any; scanner?: any; worker?: any; email?: any; error?: string }> = [];
     for (const ws of wsIds) {
       try {
         // Keep lead_score/temperature fresh from recent contact_events (used by automation conditions).
         await callFn("lead-score-worker", tokenHeader, { workspaceId: ws, limit: scanLimit });
+        const dateTriggers = await callFn("automation-date-triggers", tokenHeader, { workspaceId: ws });
+        const segments = await callFn("segment-membership-worker", tokenHeader, { workspaceId: ws });
         const scanner = await callFn("automation-scanner", tokenHeader, { workspaceId: ws, limit: scanLimit });
         const worker = await callFn("automation-worker", tokenHeader, { workspaceId: ws, batch: stepBatch });
         const email = await callFn("email-send-worker", tokenHeader, { workspaceId: ws, batch: emailBatch });
-        results.push({ workspaceId: ws, scanner, worker, email });
+        results.push({ workspaceId: ws, dateTriggers, segments, scanner, worker, email });
         processedWorkspaces++;
       } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
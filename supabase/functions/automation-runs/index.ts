@@ -1,6 +1,8 @@
 // Supabase Edge Function: automation-runs
 //
 // Lists automation runs for a workspace (optionally filtered by automationId or runId).
+// With automationId, also returns per-path stats for its random split steps (`splits`);
+// `resetSplitStepId` first clears that split step's declared winner.
 // Uses service role to read DB; authorizes either runner token OR an interactive signed-in user
 // whose auth.uid() matches workspace_id.
 //
@@ -10,73 +12,13 @@
 // Secrets:
 //   SUPABASE_SERVICE_ROLE_KEY=...
 //   FLOWMAIL_RUNNER_TOKEN=... (optional)
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-flowmail-runner-token",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
-
-function bearerFrom(req: Request): string | null {
-  const h = String(req.headers.get("authorization") ?? "");
-  const m = h.match(/^Bearer\s+(.+)$/i);
-  return m?.[1]?.trim() ? m[1].trim() : null;
-}
-
-async function authUserId(req: Request): Promise<string | null> {
-  const sbUrl = (Deno.env.get("SUPABASE_URL") ?? "").trim().replace(/\/$/, "");
-  const service = (Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "").trim();
-  const jwt = bearerFrom(req);
-  if (!sbUrl || !service || !jwt) return null;
-  const res = await fetch(`${sbUrl}/auth/v1/user`, {
-    method: "GET",
-    headers: {
-      apikey: service,
-      Authorization: `Bearer ${jwt}`,
-    },
-  });
-  if (!res.ok) return null;
-  const u = await res.json().catch(() => null);
-  const id = u?.id ? String(u.id).trim() : "";
-  return id || null;
-}
-
-async function requireRunnerTokenOrWorkspaceUser(req: Request, workspaceId: string): Promise<Response | null> {
-  const required = (Deno.env.get("FLOWMAIL_RUNNER_TOKEN") ?? "").trim();
-  if (!required) return null; // not enforced
+import { corsHeaders, json } from "../_shared/http.ts";
+import { authUserId, requireRunnerTokenOrWorkspaceUser } from "../_shared/auth.ts";
+import { dbFetch, dbSelectOne, q } from "../_shared/db.ts";
+import { toGraph } from "../_shared/automationGraph.ts";
+import { loadSplitReports, resetSplitWinner, type SplitReport } from "../_shared/automationSplit.ts";
 
-  const got = String(req.headers.get("x-flowmail-runner-token") ?? "").trim();
-  if (got && got === required) return null;
-
-  const uid = await authUserId(req);
-  if (uid && String(workspaceId).trim() === uid) return null;
-
-  return json({ error: "Unauthorized" }, 401);
-}
-
-async function dbFetch(path: string) {
-  const url = (Deno.env.get("SUPABASE_URL") ?? "").trim().replace(/\/$/, "");
-  const service = (Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "").trim();
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const res = await fetch(`${url}/rest/v1/${path}`, {
-    method: "GET",
-    headers: {
-      apikey: service,
-      Authorization: `Bearer ${service}`,
-    },
-  });
-  const text = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${text}`);
-  return text ? JSON.parse(text) : null;
-}
+declare const Deno: any;
 
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
@@ -88,6 +30,7 @@ Deno.serve(async (req) => {
     const workspaceId = String(body?.workspaceId ?? uid ?? "default").trim() || "default";
     const automationId = String(body?.automationId ?? "").trim();
     const runId = String(body?.runId ?? "").trim();
+    const resetSplitStepId = String(body?.resetSplitStepId ?? "").trim();
     const limit = Math.max(1, Math.min(200, Number(body?.limit ?? 50)));
 
     const auth = await requireRunnerTokenOrWorkspaceUser(req, workspaceId);
@@ -100,10 +43,18 @@ Deno.serve(async (req) => {
     qs.push(`order=started_at.desc`);
     qs.push(`limit=${limit}`);
 
+    if (automationId && resetSplitStepId) await resetSplitWinner(workspaceId, automationId, resetSplitStepId);
+
     const rows = await dbFetch(
-      `automation_runs?select=id,automation_id,contact_id,status,current_step_id,started_at,finished_at,last_error&${qs.join("&")}`,
+      `automation_runs?select=id,automation_id,contact_id,status,current_step_id,started_at,finished_at,last_error,goal_reached_at,exit_reason&${qs.join("&")}`,
     );
-    return json({ ok: true, rows: Array.isArray(rows) ? rows : [] });
+
+    let splits: SplitReport[] = [];
+    if (automationId && !runId) {
+      const automation = await dbSelectOne(`automations?select=id,steps,edges&workspace_id=eq.${q(workspaceId)}&id=eq.${q(automationId)}`);
+      if (automation) splits = await loadSplitReports(workspaceId, automationId, toGraph(automation.steps, automation.edges));
+    }
+    return json({ ok: true, rows: Array.isArray(rows) ? rows : [], splits });
   } catch (e) {
     const message = e instanceof Error ? e.message : String(e);
     return json({ error: message }, 500);
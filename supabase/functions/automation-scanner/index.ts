@@ -3,6 +3,18 @@
 // Scans new contact_events and starts automation runs for matching triggers.
 // This makes Phase 3 "real": triggers fire automatically from incoming events.
 //
+// Before starting runs, each event is checked against the goals / exit conditions of automations
+// the contact is already running (see _shared/automationGoals.ts):
+// - goal reached: pending queue items are cancelled; the run jumps to the goal step or completes
+// - exit condition: pending queue items are cancelled and the run is marked "exited"
+//
+// Pending wait-for-event steps (queue items with payload.wait_event) waiting for this event type are
+// woken: their execute_at moves to now so automation-worker routes them down the YES path.
+//
+// New runs respect the automation's entry policy; blocked entries are logged as "skipped" runs.
+// Events written by automation actions never re-enter an automation already in their chain
+// (meta.automation_chain; see _shared/automationRuns.ts).
+//
 // Deploy:
 //   supabase functions deploy automation-scanner
 //
@@ -12,81 +24,17 @@
 // Trigger:
 // - Supabase Scheduled Triggers (cron): call every 1-5 minutes.
 
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-flowmail-runner-token",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders, json } from "../_shared/http.ts";
+import { requireRunnerTokenOrWorkspaceUser } from "../_shared/auth.ts";
+import { dbFetch, dbInsert, dbPatch, dbSelect, inList, q } from "../_shared/db.ts";
+import { entryAfterTrigger, findNode, isWaitForEventStep, toGraph, type AutomationGraph } from "../_shared/automationGraph.ts";
+import { describeGoal, matchGoal, readGoals, type AutomationGoal } from "../_shared/automationGoals.ts";
+import { triggerSegmentKey } from "../_shared/segments.ts";
+import { readWaitConfig, waitEventMatches, type WaitEventPayload } from "../_shared/automationWait.ts";
+import { automationChain, chainBlocksEntry, startRun } from "../_shared/automationRuns.ts";
+import { loadEventsAfter } from "../_shared/eventCursor.ts";
 
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
-
-function bearerFrom(req: Request): string | null {
-  const h = String(req.headers.get("authorization") ?? "");
-  const m = h.match(/^Bearer\s+(.+)$/i);
-  return m?.[1]?.trim() ? m[1].trim() : null;
-}
-
-async function authUserId(req: Request): Promise<string | null> {
-  const sbUrl = (Deno.env.get("SUPABASE_URL") ?? "").trim().replace(/\/$/, "");
-  const service = (Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "").trim();
-  const jwt = bearerFrom(req);
-  if (!sbUrl || !service || !jwt) return null;
-  const res = await fetch(`${sbUrl}/auth/v1/user`, {
-    method: "GET",
-    headers: {
-      apikey: service,
-      Authorization: `Bearer ${jwt}`,
-    },
-  });
-  if (!res.ok) return null;
-  const u = await res.json().catch(() => null);
-  const id = u?.id ? String(u.id).trim() : "";
-  return id || null;
-}
-
-async function requireRunnerTokenOrWorkspaceUser(req: Request, workspaceId: string): Promise<Response | null> {
-  const required = (Deno.env.get("FLOWMAIL_RUNNER_TOKEN") ?? "").trim();
-  // If runner token isn't configured, allow.
-  if (!required) return null;
-  // Runner-token path (cron/runner).
-  const got = String(req.headers.get("x-flowmail-runner-token") ?? "").trim();
-  if (got && got === required) return null;
-  // Interactive path: allow signed-in user if workspace matches their auth user id.
-  const uid = await authUserId(req);
-  if (uid && String(workspaceId).trim() === uid) return null;
-  return json({ error: "Unauthorized" }, 401);
-}
-
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
-
-function getNextAfter(step: any, steps: any[]): string | null {
-  const next = step?.config?.next;
-  if (typeof next === "string" && next.length > 0) return next;
-  const idx = Array.isArray(steps) ? steps.findIndex((s) => String(s?.id) === String(step?.id)) : -1;
-  if (idx >= 0 && idx + 1 < steps.length) return String(steps[idx + 1]?.id ?? "") || null;
-  return null;
-}
+declare const Deno: any;
 
 function triggerMatches(triggerStep: any, ev: any): boolean {
   const kind = String(triggerStep?.config?.kind ?? "");
@@ -155,6 +103,12 @@ function triggerMatches(triggerStep: any, ev: any): boolean {
     return u.includes(urlContains);
   }
 
+  if (kind === "trigger.segment_entered" || kind === "trigger.segment_exited") {
+    // Written by segment-membership-worker; the key identifies the trigger's segment definition.
+    if (type !== (kind === "trigger.segment_entered" ? "segment_entered" : "segment_exited")) return false;
+    return String(meta?.segment_key ?? "") === triggerSegmentKey(triggerStep?.config);
+  }
+
   if (kind === "trigger.purchase") return type === "purchase";
   if (kind === "trigger.purchase_upgraded") return type === "purchase_upgraded";
   if (kind === "trigger.purchase_cancelled") return type === "purchase_cancelled";
@@ -162,6 +116,47 @@ function triggerMatches(triggerStep: any, ev: any): boolean {
   return false;
 }
 
+async function applyGoal(
+  workspaceId: string,
+  run: any,
+  goal: AutomationGoal,
+  ev: any,
+  graph: AutomationGraph,
+): Promise<"jumped" | "completed" | "exited"> {
+  const nowIso = new Date().toISOString();
+  const runPath = `automation_runs?workspace_id=eq.${q(workspaceId)}&id=eq.${q(run.id)}`;
+  const meta = { ...(run.meta ?? {}), goal_event_id: ev.id };
+
+  // Drop whatever the run was waiting for (e.g. a pending wait step).
+  await dbPatch(`automation_queue?workspace_id=eq.${q(workspaceId)}&run_id=eq.${q(run.id)}&status=eq.queued`, {
+    status: "cancelled",
+    updated_at: nowIso,
+  });
+
+  if (goal.role === "exit") {
+    await dbPatch(runPath, { status: "exited", exit_reason: describeGoal(goal), finished_at: nowIso, updated_at: nowIso, meta });
+    return "exited";
+  }
+
+  const target = goal.stepId && findNode(graph, goal.stepId) ? goal.stepId : null;
+  if (!target) {
+    await dbPatch(runPath, { status: "completed", goal_id: goal.id, goal_reached_at: nowIso, finished_at: nowIso, updated_at: nowIso, meta });
+    return "completed";
+  }
+  await dbPatch(runPath, { goal_id: goal.id, goal_reached_at: nowIso, current_step_id: target, updated_at: nowIso, meta });
+  await dbInsert("automation_queue", [{
+    workspace_id: workspaceId,
+    run_id: run.id,
+    automation_id: String(run.automation_id),
+    contact_id: String(run.contact_id),
+    step_id: target,
+    execute_at: nowIso,
+    status: "queued",
+    payload: { goal_id: goal.id, goal_event_id: ev.id },
+  }]);
+  return "jumped";
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
   if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
@@ -179,65 +174,96 @@ Deno.serve(async (req) => {
       { method: "GET" },
     );
     const cursor = Array.isArray(cursorRows) ? cursorRows[0] : null;
-    const lastTs = cursor?.last_occurred_at ? String(cursor.last_occurred_at) : null;
 
-    const events = await dbFetch(
-      `contact_events?select=id,contact_id,event_type,title,occurred_at,meta,campaign_id&workspace_id=eq.${encodeURIComponent(workspaceId)}${lastTs ? `&occurred_at=gt.${encodeURIComponent(lastTs)}` : ""}&order=occurred_at.asc&limit=${limit}`,
-      { method: "GET" },
-    );
-    const evs = Array.isArray(events) ? events : [];
-    if (evs.length === 0) return json({ ok: true, processedEvents: 0, startedRuns: 0 });
+    // Events after the last processed one in (occurred_at, id) order, so ties across batches aren't skipped
+    const evs = await loadEventsAfter(workspaceId, {
+      occurredAt: cursor?.last_occurred_at ? String(cursor.last_occurred_at) : null,
+      eventId: cursor?.last_event_id ? String(cursor.last_event_id) : null,
+    }, limit);
+    if (evs.length === 0) {
+      return json({ ok: true, processedEvents: 0, startedRuns: 0, skippedRuns: 0, loopBlocked: 0, goalsReached: 0, exitedRuns: 0, wokenWaits: 0 });
+    }
 
     const automations = await dbFetch(
-      `automations?select=id,name,status,steps&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.Running&limit=200`,
+      `automations?select=id,name,status,steps,edges,goals,entry_policy&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.Running&limit=200`,
       { method: "GET" },
     );
     const autos = Array.isArray(automations) ? automations : [];
+    const withGoals = autos.map((a) => ({ a, goals: readGoals(a.goals) })).filter((x) => x.goals.length > 0);
+    // Event types some running automation waits for (skip the queue lookup for everything else)
+    const waitTypes = new Set(
+      autos.flatMap((a) => toGraph(a.steps, a.edges).nodes.filter(isWaitForEventStep).map((n) => readWaitConfig(n.config).eventType)),
+    );
 
     let started = 0;
+    let skipped = 0;
+    let loopBlocked = 0;
+    let goalsReached = 0;
+    let exited = 0;
+    let woken = 0;
     for (const ev of evs) {
+      if (ev.contact_id && waitTypes.has(String(ev.event_type))) {
+        const waits = await dbSelect(
+          `automation_queue?select=id,payload&workspace_id=eq.${q(workspaceId)}&contact_id=eq.${q(ev.contact_id)}&status=eq.queued&payload->wait_event->>event_type=eq.${q(ev.event_type)}`,
+        );
+        for (const w of waits) {
+          if (!waitEventMatches(w.payload.wait_event as WaitEventPayload, ev)) continue;
+          await dbPatch(`automation_queue?workspace_id=eq.${q(workspaceId)}&id=eq.${q(w.id)}&status=eq.queued`, {
+            execute_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          });
+          woken++;
+        }
+      }
+
+      // Goals / exit conditions for runs already in progress
+      const hits = withGoals
+        .map((x) => ({ a: x.a, goal: matchGoal(x.goals, ev) }))
+        .filter((x): x is { a: any; goal: AutomationGoal } => Boolean(x.goal));
+      if (hits.length > 0 && ev.contact_id) {
+        const runs = await dbSelect(
+          `automation_runs?select=id,automation_id,contact_id,meta,goal_reached_at&workspace_id=eq.${q(workspaceId)}&contact_id=eq.${q(ev.contact_id)}&status=eq.running&automation_id=in.${inList(hits.map((h) => h.a.id))}`,
+        );
+        for (const run of runs) {
+          const hit = hits.find((h) => String(h.a.id) === String(run.automation_id));
+          if (!hit) continue;
+          // A goal converts a run once; exit conditions still apply afterwards.
+          if (hit.goal.role === "goal" && run.goal_reached_at) continue;
+          const outcome = await applyGoal(workspaceId, run, hit.goal, ev, toGraph(hit.a.steps, hit.a.edges));
+          if (outcome === "exited") exited++;
+          else goalsReached++;
+        }
+      }
+
+      const chain = automationChain(ev.meta);
       for (const a of autos) {
-        const steps = Array.isArray(a.steps) ? a.steps : [];
-        const triggers = steps.filter((s: any) => s?.type === "trigger");
+        const graph = toGraph(a.steps, a.edges);
+        const triggers = graph.nodes.filter((s: any) => s?.type === "trigger");
         for (const t of triggers) {
           if (!triggerMatches(t, ev)) continue;
 
-          const nextStepId = getNextAfter(t, steps);
+          const nextStepId = entryAfterTrigger(graph, t.id);
           if (!nextStepId) continue;
-
-          // Create run
-          const runRows = await dbFetch("automation_runs", {
-            method: "POST",
-            headers: { Prefer: "return=representation" },
-            body: JSON.stringify([{
-              workspace_id: workspaceId,
-              automation_id: String(a.id),
-              contact_id: String(ev.contact_id),
-              status: "running",
-              current_step_id: nextStepId,
-              meta: { triggered_by_event_id: ev.id, trigger_kind: t?.config?.kind ?? null },
-            }]),
+          if (chainBlocksEntry(chain, String(a.id))) {
+            loopBlocked++;
+            continue;
+          }
+
+          // Create run + enqueue first step after trigger (entry policy may skip it)
+          const res = await startRun({
+            workspaceId,
+            automation: a,
+            contactId: String(ev.contact_id),
+            stepId: nextStepId,
+            meta: {
+              triggered_by_event_id: ev.id,
+              trigger_kind: t?.config?.kind ?? null,
+              ...(chain.length > 0 ? { automation_chain: chain } : {}),
+            },
+            payload: { triggered_event_id: ev.id },
           });
-          const run = Array.isArray(runRows) ? runRows[0] : null;
-          if (!run?.id) continue;
-
-          // Enqueue first step after trigger
-          await dbFetch("automation_queue", {
-            method: "POST",
-            headers: { Prefer: "return=minimal" },
-            body: JSON.stringify([{
-              workspace_id: workspaceId,
-              run_id: run.id,
-              automation_id: String(a.id),
-              contact_id: String(ev.contact_id),
-              step_id: nextStepId,
-              execute_at: new Date().toISOString(),
-              status: "queued",
-              payload: { triggered_event_id: ev.id },
-            }]),
-          });
-
-          started++;
+          if (res.skipped) skipped++;
+          else if (res.runId) started++;
         }
       }
     }
@@ -264,7 +290,16 @@ Deno.serve(async (req) => {
       });
     }
 
-    return json({ ok: true, processedEvents: evs.length, startedRuns: started });
+    return json({
+      ok: true,
+      processedEvents: evs.length,
+      startedRuns: started,
+      skippedRuns: skipped,
+      loopBlocked,
+      goalsReached,
+      exitedRuns: exited,
+      wokenWaits: woken,
+    });
   } catch (e) {
     const message = e instanceof Error ? e.message : String(e);
     return json({ error: message }, 500);
@@ -2,6 +2,7 @@
 //
 // Creates an automation_run and enqueues the first actionable step for a contact.
 // This is a minimal building block for Phase 3.
+// The automation's entry policy applies unless `ignoreEntryPolicy` is set (builder test runs).
 //
 // Deploy:
 //   supabase functions deploy automation-trigger
@@ -9,51 +10,21 @@
 //   supabase secrets set SUPABASE_SERVICE_ROLE_KEY=...
 
 // Avoid TS errors in the Vite workspace: these globals exist in the Supabase Edge runtime.
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
-
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
+import { corsHeaders, json } from "../_shared/http.ts";
+import { requireRunnerTokenOrWorkspaceUser } from "../_shared/auth.ts";
+import { dbFetch } from "../_shared/db.ts";
+import { entryAfterTrigger, toGraph, type AutomationGraph } from "../_shared/automationGraph.ts";
+import { startRun } from "../_shared/automationRuns.ts";
 
-function getNextAfter(step: any, steps: any[]): string | null {
-  const next = step?.config?.next;
-  if (typeof next === "string" && next.length > 0) return next;
-  const idx = Array.isArray(steps) ? steps.findIndex((s) => String(s?.id) === String(step?.id)) : -1;
-  if (idx >= 0 && idx + 1 < steps.length) return String(steps[idx + 1]?.id ?? "") || null;
-  return null;
-}
+declare const Deno: any;
 
-function findFirstExecutableStep(steps: any[]): string | null {
-  if (!Array.isArray(steps) || steps.length === 0) return null;
+function findFirstExecutableStep(graph: AutomationGraph): string | null {
+  const steps = graph.nodes;
+  if (steps.length === 0) return null;
   // Prefer the step AFTER the first trigger (matches scanner behavior).
   const firstTrigger = steps.find((s) => s?.type === "trigger");
   if (firstTrigger) {
-    const next = getNextAfter(firstTrigger, steps);
+    const next = entryAfterTrigger(graph, firstTrigger.id);
     if (next) return next;
   }
   // Fallback: first non-trigger step, else the very first step.
@@ -68,53 +39,35 @@ Deno.serve(async (req) => {
   try {
     const body = await req.json().catch(() => ({}));
     const workspaceId = String(body?.workspaceId ?? "default") || "default";
+    const auth = await requireRunnerTokenOrWorkspaceUser(req, workspaceId);
+    if (auth) return auth;
     const automationId = String(body?.automationId ?? "").trim();
     const contactId = String(body?.contactId ?? "").trim();
     if (!automationId) return json({ error: "Missing automationId" }, 400);
     if (!contactId) return json({ error: "Missing contactId" }, 400);
 
     const rows = await dbFetch(
-      `automations?select=id,steps&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(automationId)}&limit=1`,
+      `automations?select=id,steps,edges,entry_policy&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(automationId)}&limit=1`,
       { method: "GET" },
     );
     const automation = Array.isArray(rows) ? rows[0] : null;
     if (!automation) return json({ error: "Automation not found" }, 404);
 
-    const steps = automation.steps ?? [];
-    const firstStepId = findFirstExecutableStep(steps);
+    const firstStepId = findFirstExecutableStep(toGraph(automation.steps, automation.edges));
     if (!firstStepId) return json({ error: "Automation has no steps" }, 400);
 
-    // Create run
-    const runRows = await dbFetch("automation_runs", {
-      method: "POST",
-      headers: { Prefer: "return=representation" },
-      body: JSON.stringify([{
-        workspace_id: workspaceId,
-        automation_id: automationId,
-        contact_id: contactId,
-        status: "running",
-        current_step_id: firstStepId,
-      }]),
-    });
-    const run = Array.isArray(runRows) ? runRows[0] : null;
-    if (!run?.id) return json({ error: "Failed to create run" }, 500);
-
-    // Enqueue
-    await dbFetch("automation_queue", {
-      method: "POST",
-      headers: { Prefer: "return=minimal" },
-      body: JSON.stringify([{
-        workspace_id: workspaceId,
-        run_id: run.id,
-        automation_id: automationId,
-        contact_id: contactId,
-        step_id: firstStepId,
-        execute_at: new Date().toISOString(),
-        status: "queued",
-      }]),
+    // Create run + enqueue
+    const run = await startRun({
+      workspaceId,
+      automation,
+      contactId,
+      stepId: firstStepId,
+      ignoreEntryPolicy: Boolean(body?.ignoreEntryPolicy),
     });
+    if (!run.runId) return json({ error: "Failed to create run" }, 500);
+    if (run.skipped) return json({ ok: true, runId: run.runId, skipped: run.skipped });
 
-    return json({ ok: true, runId: run.id, stepId: firstStepId });
+    return json({ ok: true, runId: run.runId, stepId: firstStepId });
   } catch (e) {
     const message = e instanceof Error ? e.message : String(e);
     return json({ error: message }, 500);
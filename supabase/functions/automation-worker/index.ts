@@ -1,9 +1,26 @@
 // Supabase Edge Function: automation-worker
 //
 // Processes due items from automation_queue and executes basic steps:
-// - wait: schedules next step
+// - wait: schedules the next step after a delay, or at a date / weekday + time in the contact's timezone
+// - wait (mode "event"): parks the item until the timeout (automation-scanner wakes it early when the
+//   event arrives), then routes yes (event happened) / no (timed out); see _shared/automationWait.ts
 // - action.send_email: enqueues an email_sends row (delivery is done by email-send-worker via SMTP gateway)
-// - condition.lead_score: routes yes/no based on contact.lead_score
+// - condition.*: routes yes/no based on the contact
+// - condition.branch: multi-way routing (first matching arm, else default)
+// - condition.random_split: weighted A/B/n paths, deterministic per contact (+ optional auto-winner)
+// - action.add_tag / remove_tag / add_to_list / remove_from_list / set_lifecycle: change the contact and
+//   write the matching contact event (tag_added, list_left, lifecycle_changed…) in one transaction via the
+//   apply_contact_change RPC; the event carries the run's automation chain for loop protection
+// - action.webhook: POSTs a templated JSON payload (see _shared/webhook.ts); network errors / 5xx / 429
+//   are retried with backoff by re-queueing the item; the result routes success (yes) / failure (no)
+// - action.update_field: sets a contact field; "custom.<key>" fields update contacts.attributes typed by
+//   the workspace's field definition (see _shared/customFields.ts)
+//
+// Daily cap: workspace_settings.max_automation_emails_per_day limits automated emails per contact
+// (rolling 24h). A send step over the cap is deferred until the oldest send leaves the window.
+//
+// Routing follows the automation graph (automations.edges; see _shared/automationGraph.ts).
+// Loop guards are counted per run in automation_runs.meta.edge_traversals.
 //
 // Deploy:
 //   supabase functions deploy automation-worker
@@ -15,147 +32,39 @@
 // Trigger:
 // - Use Supabase Scheduled Triggers (cron) to hit this endpoint periodically, or run manually.
 
+import { corsHeaders, json } from "../_shared/http.ts";
+import { requireRunnerTokenOrWorkspaceUser } from "../_shared/auth.ts";
+import { dbFetch, dbInsert, dbPatch, dbRpc, dbSelect, dbSelectOne, q } from "../_shared/db.ts";
+import {
+  conditionContact,
+  evaluateCondition,
+  findNode,
+  isBranchStep,
+  isSplitStep,
+  outgoing,
+  pickEdge,
+  stepKind,
+  toGraph,
+  type EdgeTraversals,
+} from "../_shared/automationGraph.ts";
+import { automationChain } from "../_shared/automationRuns.ts";
+import { maybeDeclareSplitWinner, recordSplitAssignment } from "../_shared/automationSplit.ts";
+import { readWaitConfig, waitEventMatches, waitUntil, type WaitEventPayload } from "../_shared/automationWait.ts";
+import { callWebhook, readWebhookConfig, renderWebhookPayload, webhookRetryDelayMs } from "../_shared/webhook.ts";
+import { coerceCustomValue, CUSTOM_FIELD_PREFIX, readCustomField, updateCustomValue, withCustomValue } from "../_shared/customFields.ts";
+
 // Avoid TS errors in the Vite workspace: these globals exist in the Supabase Edge runtime.
 declare const Deno: any;
 
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-flowmail-runner-token",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
+// Dedicated contact-change actions → apply_contact_change p_change
+const CONTACT_CHANGES: Record<string, string> = {
+  "action.add_tag": "add_tag",
+  "action.remove_tag": "remove_tag",
+  "action.add_to_list": "add_to_list",
+  "action.remove_from_list": "remove_from_list",
+  "action.set_lifecycle": "set_lifecycle",
 };
 
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
-
-function functionsBaseUrl(): string {
-  const explicit = (Deno.env.get("PUBLIC_FUNCTIONS_BASE_URL") ?? "").trim();
-  if (explicit) return explicit.replace(/\/$/, "");
-  const sbUrl = (Deno.env.get("SUPABASE_URL") ?? "").trim().replace(/\/$/, "");
-  return sbUrl ? `${sbUrl}/functions/v1` : "";
-}
-
-function requireRunnerToken(req: Request): Response | null {
-  const required = (Deno.env.get("FLOWMAIL_RUNNER_TOKEN") ?? "").trim();
-  // If runner token isn't configured, allow.
-  if (!required) return null;
-  // Runner-token path (cron/runner).
-  const got = String(req.headers.get("x-flowmail-runner-token") ?? "").trim();
-  if (got && got === required) return null;
-  // Interactive path: allow signed-in user if workspace matches their auth user id.
-  const uid = await authUserId(req);
-  if (uid && String(workspaceId).trim() === uid) return null;
-  return json({ error: "Unauthorized" }, 401);
-}
-
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
-
-async function makeUnsubUrl(workspaceId: string, contactId: string): Promise<string | null> {
-  const secret = Deno.env.get("UNSUBSCRIBE_SIGNING_KEY") ?? "";
-  const base = functionsBaseUrl();
-  if (!secret || !base) return null;
-
-  const payload = { ws: workspaceId, contactId, exp: Date.now() + 1000 * 60 * 60 * 24 * 365 };
-  const enc = new TextEncoder();
-  const payloadB64 = (() => {
-    let bin = '';
-    const bytes = enc.encode(JSON.stringify(payload));
-    bytes.forEach((b) => (bin += String.fromCharCode(b)));
-    const b64 = btoa(bin);
-    return b64.replaceAll('+', '-').replaceAll('/', '_').replaceAll('=', '');
-  })();
-
-  const key = await crypto.subtle.importKey(
-    "raw",
-    enc.encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"],
-  );
-  const sig = await crypto.subtle.sign("HMAC", key, enc.encode(payloadB64));
-  const sigB64 = (() => {
-    let bin = '';
-    new Uint8Array(sig).forEach((b) => (bin += String.fromCharCode(b)));
-    const b64 = btoa(bin);
-    return b64.replaceAll('+', '-').replaceAll('/', '_').replaceAll('=', '');
-  })();
-
-  const token = `${payloadB64}.${sigB64}`;
-  return `${base.replace(/\/$/, "")}/unsubscribe?token=${encodeURIComponent(token)}`;
-}
-
-function escapeHtml(s: string) {
-  return String(s ?? "")
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#039;");
-}
-
-function renderSimpleEmail(body: string, vars: Record<string, string>) {
-  let out = body ?? "";
-  for (const [k, v] of Object.entries(vars)) {
-    out = out.replaceAll(`{{${k}}}`, v);
-  }
-  return `<div style="font-family: Inter, Arial, sans-serif; font-size: 14px; line-height: 1.55; color: #0f172a; white-space: pre-wrap;">${escapeHtml(out)}</div>`;
-}
-
-function findStep(steps: any[], id: string) {
-  return Array.isArray(steps) ? steps.find((s) => String(s?.id) === String(id)) : null;
-}
-
-function getNextId(step: any): string | null {
-  const n = step?.config?.next;
-  return typeof n === "string" && n.length > 0 ? n : null;
-}
-
-function getNextAfter(step: any, steps: any[]): string | null {
-  // Primary: explicit link
-  const direct = getNextId(step);
-  if (direct) return direct;
-  // Fallback: treat the steps array ordering as the default flow
-  const idx = Array.isArray(steps) ? steps.findIndex((s) => String(s?.id) === String(step?.id)) : -1;
-  if (idx >= 0 && idx + 1 < steps.length) return String(steps[idx + 1]?.id ?? "") || null;
-  return null;
-}
-
-function getYesNo(step: any): { yes: string | null; no: string | null } {
-  const y = step?.config?.nextYes;
-  const n = step?.config?.nextNo;
-  return {
-    yes: typeof y === "string" && y.length > 0 ? y : null,
-    no: typeof n === "string" && n.length > 0 ? n : null,
-  };
-}
-
-function addDays(iso: string, days: number): string {
-  const d = new Date(iso);
-  d.setUTCDate(d.getUTCDate() + Math.max(0, Math.floor(days)));
-  return d.toISOString();
-}
-
-function norm(s: unknown) {
-  return String(s ?? "").trim().toLowerCase();
-}
-
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
   if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
@@ -169,13 +78,18 @@ Deno.serve(async (req) => {
 
     const now = new Date().toISOString();
     const queued = await dbFetch(
-      `automation_queue?select=id,run_id,automation_id,contact_id,step_id,attempts&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.queued&execute_at=lte.${encodeURIComponent(now)}&order=execute_at.asc&limit=${batch}`,
+      `automation_queue?select=id,run_id,automation_id,contact_id,step_id,attempts,payload&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.queued&execute_at=lte.${encodeURIComponent(now)}&order=execute_at.asc&limit=${batch}`,
       { method: "GET" },
     );
     const items = Array.isArray(queued) ? queued : [];
     if (items.length === 0) return json({ ok: true, processed: 0 });
 
+    const settings = await dbSelectOne(`workspace_settings?select=max_automation_emails_per_day&workspace_id=eq.${q(workspaceId)}`);
+    const dailyCap = Math.max(0, Math.floor(Number(settings?.max_automation_emails_per_day ?? 0) || 0));
+
     let processed = 0;
+    let deferred = 0;
+    let waiting = 0;
     for (const it of items) {
       const qid = String(it.id);
       const runId = String(it.run_id);
@@ -191,270 +105,175 @@ Deno.serve(async (req) => {
       });
 
       try {
-        const autoRows = await dbFetch(
-          `automations?select=id,steps&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(automationId)}&limit=1`,
-          { method: "GET" },
+        // Runs stopped by a goal / exit condition (automation-scanner) drop any item still in flight.
+        const run = await dbSelectOne(`automation_runs?select=id,status,meta&workspace_id=eq.${q(workspaceId)}&id=eq.${q(runId)}`);
+        if (run && String(run.status) !== "running") {
+          await dbPatch(`automation_queue?workspace_id=eq.${q(workspaceId)}&id=eq.${q(qid)}`, { status: "cancelled", updated_at: new Date().toISOString() });
+          continue;
+        }
+
+        const automation = await dbSelectOne(
+          `automations?select=id,steps,edges&workspace_id=eq.${q(workspaceId)}&id=eq.${q(automationId)}`,
         );
-        const automation = Array.isArray(autoRows) ? autoRows[0] : null;
         if (!automation) throw new Error("Automation not found");
 
-        const steps = automation.steps ?? [];
-        const step = findStep(steps, stepId);
+        const graph = toGraph(automation.steps, automation.edges);
+        let step = findNode(graph, stepId);
         if (!step) throw new Error("Step not found");
 
         // Load contact for conditions + send
-        const contactRows = await dbFetch(
-          `contacts?select=id,email,first_name,last_name,lead_score,lifecycle_stage,temperature,tags,lists,last_open_date,timezone&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}&limit=1`,
-          { method: "GET" },
+        const contact = await dbSelectOne(
+          `contacts?select=id,email,first_name,last_name,lead_score,scores,lifecycle_stage,temperature,tags,lists,last_open_date,timezone&workspace_id=eq.${q(workspaceId)}&id=eq.${q(contactId)}`,
         );
-        const contact = Array.isArray(contactRows) ? contactRows[0] : null;
         const email = String(contact?.email ?? "").trim();
-        const firstName = String(contact?.first_name ?? "").trim();
-        const lastName = String(contact?.last_name ?? "").trim();
-        const leadScore = Number(contact?.lead_score ?? 0);
-        const lifecycleStage = norm(contact?.lifecycle_stage ?? "");
-        const tags: string[] = Array.isArray(contact?.tags) ? contact.tags.map((t: any) => String(t)) : [];
-        const lists: string[] = Array.isArray(contact?.lists) ? contact.lists.map((t: any) => String(t)) : [];
-        const lastOpen = contact?.last_open_date ? new Date(String(contact.last_open_date)) : null;
+        const cond = conditionContact(contact);
 
-        const kind = String(step?.config?.kind ?? "");
-        let nextStepId: string | null = null;
-
-        if (step.type === "wait" || kind === "wait") {
-          const days = Number(step?.config?.days ?? 1);
-          const next = getNextAfter(step, steps);
-          nextStepId = next;
-          if (next) {
-            await dbFetch("automation_queue", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                run_id: runId,
-                automation_id: automationId,
-                contact_id: contactId,
-                step_id: next,
-                execute_at: addDays(new Date().toISOString(), days),
-                status: "queued",
-              }]),
-            });
-          }
-        } else if (step.type === "condition" && kind === "condition.lead_score") {
-          const op = String(step?.config?.op ?? ">");
-          const value = Number(step?.config?.value ?? 50);
-          const { yes, no } = getYesNo(step);
-          const pass =
-            op === ">" ? leadScore > value :
-            op === ">=" ? leadScore >= value :
-            op === "<" ? leadScore < value :
-            op === "<=" ? leadScore <= value :
-            leadScore > value;
-          const next = pass ? (yes ?? "") : (no ?? "");
-          nextStepId = next || null;
-          if (next) {
-            await dbFetch("automation_queue", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                run_id: runId,
-                automation_id: automationId,
-                contact_id: contactId,
-                step_id: next,
-                execute_at: new Date().toISOString(),
-                status: "queued",
-              }]),
-            });
-          }
-        } else if (step.type === "condition" && kind === "condition.lifecycle_stage") {
-          const expected = norm(step?.config?.value ?? "lead");
-          const { yes, no } = getYesNo(step);
-          const next = (lifecycleStage === expected) ? (yes ?? "") : (no ?? "");
-          nextStepId = next || null;
-          if (next) {
-            await dbFetch("automation_queue", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                run_id: runId,
-                automation_id: automationId,
-                contact_id: contactId,
-                step_id: next,
-                execute_at: new Date().toISOString(),
-                status: "queued",
-              }]),
+        const kind = stepKind(step);
+        if (dailyCap > 0 && step.type === "action" && kind === "action.send_email" && email) {
+          const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+          const recent = await dbSelect(
+            `email_sends?select=created_at&workspace_id=eq.${q(workspaceId)}&contact_id=eq.${q(contactId)}&meta->>source=eq.automation&created_at=gte.${q(since)}&order=created_at.asc&limit=${dailyCap}`,
+          );
+          if (recent.length >= dailyCap) {
+            const freeAt = new Date(new Date(String(recent[0].created_at)).getTime() + 24 * 60 * 60 * 1000 + 60 * 1000).toISOString();
+            await dbPatch(`automation_queue?workspace_id=eq.${q(workspaceId)}&id=eq.${q(qid)}`, {
+              status: "queued",
+              execute_at: freeAt,
+              last_error: `Deferred: daily cap of ${dailyCap} automated email(s) per contact reached`,
+              updated_at: new Date().toISOString(),
             });
+            deferred++;
+            continue;
           }
-        } else if (step.type === "condition" && kind === "condition.last_open_days") {
-          const days = Number(step?.config?.days ?? 30);
-          const { yes, no } = getYesNo(step);
-          const diffDays = lastOpen ? Math.floor((Date.now() - lastOpen.getTime()) / (1000 * 60 * 60 * 24)) : 999999;
-          const pass = diffDays >= days; // "has not opened in N days"
-          const next = pass ? (yes ?? "") : (no ?? "");
-          nextStepId = next || null;
-          if (next) {
-            await dbFetch("automation_queue", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                run_id: runId,
-                automation_id: automationId,
-                contact_id: contactId,
-                step_id: next,
-                execute_at: new Date().toISOString(),
-                status: "queued",
-              }]),
+        }
+
+        let outcome: boolean | undefined;
+        let nextAt = new Date();
+        // Events this step writes carry the automations that led here (loop protection in the scanner).
+        const chain = [...automationChain(run?.meta), automationId];
+
+        if (step.type === "wait" || kind === "wait") {
+          const wait = readWaitConfig(step.config);
+          const pending = it.payload?.wait_event as WaitEventPayload | undefined;
+          if (wait.mode === "event" && !pending) {
+            // Park until the timeout; automation-scanner moves execute_at to now when the event arrives.
+            const wev: WaitEventPayload = { event_type: wait.eventType, since: new Date().toISOString() };
+            if (wait.sameAutomation && (wait.eventType === "email_open" || wait.eventType === "link_click")) wev.automation_id = automationId;
+            await dbPatch(`automation_queue?workspace_id=eq.${q(workspaceId)}&id=eq.${q(qid)}`, {
+              status: "queued",
+              execute_at: waitUntil(wait, contact?.timezone).toISOString(),
+              payload: { ...(it.payload ?? {}), wait_event: wev },
+              updated_at: new Date().toISOString(),
             });
+            waiting++;
+            continue;
           }
-        } else if (step.type === "condition" && kind === "condition.has_tag") {
-          const want = norm(step?.config?.tag ?? "");
-          const { yes, no } = getYesNo(step);
-          const pass = !want ? true : tags.some((t) => norm(t) === want || norm(t).includes(want));
-          const next = pass ? (yes ?? "") : (no ?? "");
-          nextStepId = next || null;
-          if (next) {
-            await dbFetch("automation_queue", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                run_id: runId,
-                automation_id: automationId,
-                contact_id: contactId,
-                step_id: next,
-                execute_at: new Date().toISOString(),
-                status: "queued",
-              }]),
-            });
+          if (wait.mode === "event" && pending) {
+            // Woken early or timed out: did the event happen while waiting?
+            const seen = await dbSelect(
+              `contact_events?select=id,event_type,occurred_at,campaign_id&workspace_id=eq.${q(workspaceId)}&contact_id=eq.${q(contactId)}&event_type=eq.${q(pending.event_type)}&occurred_at=gte.${q(pending.since)}&order=occurred_at.asc&limit=100`,
+            );
+            outcome = seen.some((ev) => waitEventMatches(pending, ev));
+          } else {
+            nextAt = waitUntil(wait, contact?.timezone);
           }
+        } else if (isBranchStep(step)) {
+          // Arms are evaluated by pickEdge below.
+        } else if (isSplitStep(step)) {
+          // Path is picked by pickEdge below; a declared winner takes all later entrants.
+          step = await maybeDeclareSplitWinner(workspaceId, automationId, graph, step);
+        } else if (step.type === "condition") {
+          outcome = evaluateCondition(step.config, cond);
         } else if (step.type === "action" && kind === "action.send_email") {
           const subject = String(step?.config?.subject ?? "Hello").trim();
           const bodyText = String(step?.config?.body ?? "").trim();
           if (email) {
             const nowIso = new Date().toISOString();
-            await dbFetch("email_sends", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                campaign_id: automationId, // link to automation for reporting
-                contact_id: contactId,
-                to_email: email,
-                subject,
-                status: "queued",
-                execute_at: nowIso,
-                created_at: nowIso,
-                updated_at: nowIso,
-                meta: { source: "automation", automation_id: automationId, step_id: stepId, body: bodyText },
-              }]),
-            });
-            await dbFetch("contact_events", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                contact_id: contactId,
-                event_type: "email_queued",
-                title: `Automation Email Queued: "${subject}"`,
-                occurred_at: nowIso,
-                meta: { automation_id: automationId, step_id: stepId },
-              }]),
-            });
-          }
-
-          const next = getNextAfter(step, steps);
-          nextStepId = next;
-          if (next) {
-            await dbFetch("automation_queue", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                run_id: runId,
-                automation_id: automationId,
-                contact_id: contactId,
-                step_id: next,
-                execute_at: new Date().toISOString(),
-                status: "queued",
-              }]),
-            });
+            await dbInsert("email_sends", [{
+              workspace_id: workspaceId,
+              campaign_id: automationId, // link to automation for reporting
+              contact_id: contactId,
+              to_email: email,
+              subject,
+              status: "queued",
+              execute_at: nowIso,
+              created_at: nowIso,
+              updated_at: nowIso,
+              meta: { source: "automation", automation_id: automationId, step_id: stepId, body: bodyText },
+            }]);
+            await dbInsert("contact_events", [{
+              workspace_id: workspaceId,
+              contact_id: contactId,
+              event_type: "email_queued",
+              title: `Automation Email Queued: "${subject}"`,
+              occurred_at: nowIso,
+              meta: { automation_id: automationId, step_id: stepId },
+            }]);
           }
+        } else if (step.type === "action" && CONTACT_CHANGES[kind]) {
+          const value = String(step?.config?.value ?? "").trim();
+          if (!value) throw new Error(`"${step.title || kind}" has no value`);
+          await dbRpc("apply_contact_change", {
+            p_workspace_id: workspaceId,
+            p_contact_id: contactId,
+            p_change: CONTACT_CHANGES[kind],
+            p_value: value,
+            p_meta: { automation_id: automationId, step_id: stepId, run_id: runId, automation_chain: chain },
+          });
         } else if (step.type === "action" && kind === "action.update_field") {
-          // Generic field update
+          // Generic field update. Tag / list / lifecycle changes go through apply_contact_change so they
+          // emit the same trigger events as the dedicated actions.
           const field = String(step?.config?.field ?? "").trim();
           const op = String(step?.config?.op ?? "set").trim(); // set|add|remove
           const value = step?.config?.value;
 
-          // fetch current contact row for tags/lists
-          const contactRows2 = await dbFetch(
-            `contacts?select=id,tags,lists,lifecycle_stage,temperature,lead_score,status&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}&limit=1`,
-            { method: "GET" },
-          );
-          const c2 = Array.isArray(contactRows2) ? contactRows2[0] : null;
-
-          const patch: any = { updated_at: new Date().toISOString() };
-          if (field === "lifecycleStage") patch.lifecycle_stage = String(value ?? "");
-          else if (field === "temperature") patch.temperature = String(value ?? "");
-          else if (field === "status") patch.status = String(value ?? "");
-          else if (field === "leadScore") patch.lead_score = Number(value ?? 0);
-          else if (field === "tag") {
-            const cur: string[] = Array.isArray(c2?.tags) ? c2.tags : [];
-            const v = String(value ?? "").trim();
-            if (v) {
-              const ncur = op === "remove"
-                ? cur.filter((t) => norm(t) !== norm(v))
-                : Array.from(new Set([...cur, v]));
-              patch.tags = ncur;
-            }
-          } else if (field === "list") {
-            const cur: string[] = Array.isArray(c2?.lists) ? c2.lists : [];
-            const v = String(value ?? "").trim();
-            if (v) {
-              const ncur = op === "remove"
-                ? cur.filter((t) => norm(t) !== norm(v))
-                : Array.from(new Set([...cur, v]));
-              patch.lists = ncur;
+          const change = field === "tag"
+            ? (op === "remove" ? "remove_tag" : "add_tag")
+            : field === "list"
+              ? (op === "remove" ? "remove_from_list" : "add_to_list")
+              : field === "lifecycleStage"
+                ? "set_lifecycle"
+                : null;
+          if (change) {
+            await dbRpc("apply_contact_change", {
+              p_workspace_id: workspaceId,
+              p_contact_id: contactId,
+              p_change: change,
+              p_value: String(value ?? ""),
+              p_meta: { automation_id: automationId, step_id: stepId, run_id: runId, automation_chain: chain },
+            });
+          } else if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+            const key = field.slice(CUSTOM_FIELD_PREFIX.length);
+            const def = readCustomField(await dbSelectOne(
+              `contact_fields?select=key,label,type,options&workspace_id=eq.${q(workspaceId)}&key=eq.${q(key)}`,
+            ));
+            if (!def) throw new Error(`Custom field "${key}" does not exist`);
+            if (op !== "remove" && String(value ?? "").trim() && coerceCustomValue(def, value) === null) {
+              throw new Error(`"${String(value)}" is not a valid value for ${def.label}`);
             }
-          }
-
-          await dbFetch(`contacts?workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}`, {
-            method: "PATCH",
-            headers: { Prefer: "return=minimal" },
-            body: JSON.stringify(patch),
-          });
-
-          await dbFetch("contact_events", {
-            method: "POST",
-            headers: { Prefer: "return=minimal" },
-            body: JSON.stringify([{
-              workspace_id: workspaceId,
-              contact_id: contactId,
-              event_type: "automation_update_field",
-              title: `Automation updated ${field}`,
-              occurred_at: new Date().toISOString(),
-              meta: { automation_id: automationId, step_id: stepId, field, op, value: value ?? null },
-            }]),
-          });
-
-          const next = getNextAfter(step, steps);
-          nextStepId = next;
-          if (next) {
-            await dbFetch("automation_queue", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                run_id: runId,
-                automation_id: automationId,
-                contact_id: contactId,
-                step_id: next,
-                execute_at: new Date().toISOString(),
-                status: "queued",
-              }]),
+            const row = await dbSelectOne<{ attributes: Record<string, unknown> | null }>(
+              `contacts?select=attributes&workspace_id=eq.${q(workspaceId)}&id=eq.${q(contactId)}`,
+            );
+            const next = updateCustomValue(def, row?.attributes?.[key], op, value);
+            await dbPatch(`contacts?workspace_id=eq.${q(workspaceId)}&id=eq.${q(contactId)}`, {
+              attributes: withCustomValue(row?.attributes, key, next),
+              updated_at: new Date().toISOString(),
             });
+          } else {
+            const patch: any = { updated_at: new Date().toISOString() };
+            if (field === "temperature") patch.temperature = String(value ?? "");
+            else if (field === "status") patch.status = String(value ?? "");
+            else if (field === "leadScore") patch.lead_score = Number(value ?? 0);
+            await dbPatch(`contacts?workspace_id=eq.${q(workspaceId)}&id=eq.${q(contactId)}`, patch);
           }
+          await dbInsert("contact_events", [{
+            workspace_id: workspaceId,
+            contact_id: contactId,
+            event_type: "automation_update_field",
+            title: `Automation updated ${field}`,
+            occurred_at: new Date().toISOString(),
+            meta: { automation_id: automationId, step_id: stepId, field, op, value: value ?? null },
+          }]);
         } else if (step.type === "action" && kind === "action.notify") {
           const fallbackTo = Deno.env.get("TEAM_NOTIFY_EMAIL") ?? "";
           const toEmail = String(step?.config?.toEmail ?? step?.config?.to ?? fallbackTo).trim();
@@ -462,41 +281,97 @@ Deno.serve(async (req) => {
           const bodyText = String(step?.config?.body ?? `Contact ${email || contactId} reached step "${step?.title ?? stepId}"`).trim();
           if (toEmail) {
             const nowIso = new Date().toISOString();
-            await dbFetch("email_sends", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                campaign_id: automationId,
-                contact_id: contactId,
-                to_email: toEmail,
-                subject,
-                status: "queued",
-                execute_at: nowIso,
-                created_at: nowIso,
-                updated_at: nowIso,
-                meta: { source: "automation_notify", automation_id: automationId, step_id: stepId, body: bodyText },
-              }]),
-            });
+            await dbInsert("email_sends", [{
+              workspace_id: workspaceId,
+              campaign_id: automationId,
+              contact_id: contactId,
+              to_email: toEmail,
+              subject,
+              status: "queued",
+              execute_at: nowIso,
+              created_at: nowIso,
+              updated_at: nowIso,
+              meta: { source: "automation_notify", automation_id: automationId, step_id: stepId, body: bodyText },
+            }]);
           }
-
-          const next = getNextAfter(step, steps);
-          nextStepId = next;
-          if (next) {
-            await dbFetch("automation_queue", {
-              method: "POST",
-              headers: { Prefer: "return=minimal" },
-              body: JSON.stringify([{
-                workspace_id: workspaceId,
-                run_id: runId,
-                automation_id: automationId,
-                contact_id: contactId,
-                step_id: next,
-                execute_at: new Date().toISOString(),
-                status: "queued",
-              }]),
+        } else if (step.type === "action" && kind === "action.webhook") {
+          const cfg = readWebhookConfig(step.config);
+          const eventId = String(run?.meta?.triggered_by_event_id ?? "");
+          const event = eventId
+            ? await dbSelectOne(`contact_events?select=id,event_type,title,occurred_at,meta,campaign_id&workspace_id=eq.${q(workspaceId)}&id=eq.${q(eventId)}`)
+            : null;
+          const payload = renderWebhookPayload(cfg.template, {
+            contact: contact ?? { id: contactId },
+            event,
+            run: { id: runId, automation_id: automationId, step_id: stepId },
+            workspace_id: workspaceId,
+          });
+          const res = await callWebhook(cfg, payload);
+          const attempt = Number(it.attempts ?? 0) + 1;
+          const retryInMs = webhookRetryDelayMs(res, attempt, cfg.maxRetries);
+          if (retryInMs !== null) {
+            await dbPatch(`automation_queue?workspace_id=eq.${q(workspaceId)}&id=eq.${q(qid)}`, {
+              status: "queued",
+              execute_at: new Date(Date.now() + retryInMs).toISOString(),
+              last_error: `Webhook attempt ${attempt} failed (${res.error}); retrying`,
+              updated_at: new Date().toISOString(),
             });
+            continue;
+          }
+          let host = cfg.url;
+          try {
+            host = new URL(cfg.url).host;
+          } catch {
+            // keep raw
           }
+          await dbInsert("contact_events", [{
+            workspace_id: workspaceId,
+            contact_id: contactId,
+            event_type: "webhook_sent",
+            title: `Webhook ${res.ok ? "delivered" : "failed"}: ${host}`,
+            occurred_at: new Date().toISOString(),
+            meta: { automation_id: automationId, step_id: stepId, host, status: res.status, ok: res.ok, error: res.error, attempts: attempt },
+          }]);
+          // Without a failure path a failed webhook fails the run (visible in Runs).
+          if (!res.ok && !outgoing(graph, step.id).some((e) => e.kind === "no")) throw new Error(`Webhook failed: ${res.error}`);
+          outcome = res.ok;
+        } else if (step.type !== "trigger") {
+          throw new Error(`Unsupported step: ${kind || step.type}`);
+        }
+
+        // Route along the graph. Loop guards need the run's traversal counts.
+        const traversals: EdgeTraversals = { ...(run?.meta?.edge_traversals ?? {}) };
+        const edge = pickEdge(graph, step, { outcome, contact: cond, contactId, traversals });
+        const nextStepId = edge?.to ?? null;
+        if (edge && isSplitStep(step)) {
+          await recordSplitAssignment({
+            workspaceId,
+            automationId,
+            stepId: step.id,
+            contactId,
+            runId,
+            edgeId: edge.id,
+            viaWinner: Boolean(step.config?.winnerEdgeId),
+          });
+        }
+        if (edge && Number(edge.maxTraversals ?? 0) > 0) {
+          traversals[edge.id] = Number(traversals[edge.id] ?? 0) + 1;
+          await dbPatch(`automation_runs?workspace_id=eq.${q(workspaceId)}&id=eq.${q(runId)}`, {
+            meta: { ...(run?.meta ?? {}), edge_traversals: traversals },
+            updated_at: new Date().toISOString(),
+          });
+        }
+        if (nextStepId) {
+          await dbInsert("automation_queue", [{
+            workspace_id: workspaceId,
+            run_id: runId,
+            automation_id: automationId,
+            contact_id: contactId,
+            step_id: nextStepId,
+            execute_at: nextAt.toISOString(),
+            status: "queued",
+            payload: edge ? { via_edge: edge.id } : null,
+          }]);
         }
 
         // mark done
@@ -544,7 +419,7 @@ Deno.serve(async (req) => {
       }
     }
 
-    return json({ ok: true, processed });
+    return json({ ok: true, processed, deferred, waiting });
   } catch (e) {
     const message = e instanceof Error ? e.message : String(e);
     return json({ error: message }, 500);
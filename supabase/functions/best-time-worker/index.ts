@@ -1,67 +1,29 @@
 // Supabase Edge Function: best-time-worker
 //
 // Learns best send time per contact by observing email_open events.
-// Stores the most common open hour/minute (bucketed to 15-min increments) in contact fields:
-// - best_send_hour
-// - best_send_minute
+// Counts opens per hour of the week in the contact's timezone (see _shared/bestTime.ts) in contact fields:
+// - best_time_hours (168 counts), best_time_samples, best_time_confidence
+// - best_send_hour / best_send_minute: the peak hour of day, kept as a summary
+// and the same counts over all contacts in best_time_cursor.workspace_hours (the workspace fallback curve).
 //
 // Deploy:
 //   supabase functions deploy best-time-worker
 // Secrets:
 //   SUPABASE_SERVICE_ROLE_KEY=...
 
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
-
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
+import { corsHeaders, json } from "../_shared/http.ts";
+import { requireRunnerToken } from "../_shared/auth.ts";
+import { dbFetch } from "../_shared/db.ts";
+import { bestTimeConfidence, hourOfWeek, peakHour, readHours, sampleCount } from "../_shared/bestTime.ts";
+import { resolveTimeZone } from "../_shared/timezone.ts";
 
-function toLocalHM(date: Date, timeZone: string): { h: number; m: number } {
-  const fmt = new Intl.DateTimeFormat("en-US", {
-    timeZone: timeZone || "UTC",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  });
-  const parts = fmt.formatToParts(date);
-  const h = Number(parts.find((p) => p.type === "hour")?.value ?? "9");
-  const m = Number(parts.find((p) => p.type === "minute")?.value ?? "0");
-  return { h: Number.isFinite(h) ? h : 9, m: Number.isFinite(m) ? m : 0 };
-}
-
-function bucket15(m: number) {
-  const b = Math.round(m / 15) * 15;
-  return b === 60 ? 45 : Math.max(0, Math.min(45, b));
-}
+declare const Deno: any;
 
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
   if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  const auth = requireRunnerToken(req);
+  if (auth) return auth;
 
   try {
     const body = await req.json().catch(() => ({}));
@@ -69,11 +31,12 @@ Deno.serve(async (req) => {
     const limit = Math.max(1, Math.min(500, Number(body?.limit ?? 200)));
 
     const cursorRows = await dbFetch(
-      `best_time_cursor?select=id,last_occurred_at,last_event_id&workspace_id=eq.${encodeURIComponent(workspaceId)}&order=updated_at.desc&limit=1`,
+      `best_time_cursor?select=id,last_occurred_at,last_event_id,workspace_hours&workspace_id=eq.${encodeURIComponent(workspaceId)}&order=updated_at.desc&limit=1`,
       { method: "GET" },
     );
     const cursor = Array.isArray(cursorRows) ? cursorRows[0] : null;
     const lastTs = cursor?.last_occurred_at ? String(cursor.last_occurred_at) : null;
+    const workspaceHours = readHours(cursor?.workspace_hours);
 
     const events = await dbFetch(
       `contact_events?select=id,contact_id,event_type,occurred_at&workspace_id=eq.${encodeURIComponent(workspaceId)}&event_type=eq.email_open${lastTs ? `&occurred_at=gt.${encodeURIComponent(lastTs)}` : ""}&order=occurred_at.asc&limit=${limit}`,
@@ -95,42 +58,33 @@ Deno.serve(async (req) => {
     let updated = 0;
     for (const [contactId, times] of byContact.entries()) {
       const rows = await dbFetch(
-        `contacts?select=id,timezone,best_send_hour,best_send_minute&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}&limit=1`,
+        `contacts?select=id,timezone,best_time_hours&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}&limit=1`,
         { method: "GET" },
       );
       const c = Array.isArray(rows) ? rows[0] : null;
-      const tz = String(c?.timezone ?? "UTC");
+      if (!c) continue;
+      const tz = resolveTimeZone(c.timezone);
 
-      // Build a small histogram from the new events only (good enough for now)
-      const counts = new Map<string, number>();
+      const hours = readHours(c.best_time_hours);
       for (const t of times) {
-        const d = new Date(t);
-        const { h, m } = toLocalHM(d, tz);
-        const b = bucket15(m);
-        const key = `${h}:${b}`;
-        counts.set(key, (counts.get(key) ?? 0) + 1);
-      }
-
-      // Choose the best bucket; if tie, prefer latest bucket
-      let bestKey: string | null = null;
-      let bestCount = -1;
-      for (const [k, v] of counts.entries()) {
-        if (v > bestCount) {
-          bestKey = k;
-          bestCount = v;
-        }
+        const slot = hourOfWeek(new Date(t).getTime(), tz);
+        hours[slot] += 1;
+        workspaceHours[slot] += 1;
       }
-      if (!bestKey) continue;
-      const [hh, mm] = bestKey.split(":").map((x) => Number(x));
+      const samples = sampleCount(hours);
 
+      const now = new Date().toISOString();
       await dbFetch(`contacts?workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}`, {
         method: "PATCH",
         headers: { Prefer: "return=minimal" },
         body: JSON.stringify({
-          best_send_hour: hh,
-          best_send_minute: mm,
-          best_send_updated_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
+          best_time_hours: hours,
+          best_time_samples: samples,
+          best_time_confidence: bestTimeConfidence(samples),
+          best_send_hour: peakHour(hours),
+          best_send_minute: 0,
+          best_send_updated_at: now,
+          updated_at: now,
         }),
       });
       updated++;
@@ -142,6 +96,7 @@ Deno.serve(async (req) => {
       workspace_id: workspaceId,
       last_occurred_at: last.occurred_at,
       last_event_id: last.id,
+      workspace_hours: workspaceHours,
       updated_at: new Date().toISOString(),
     };
     if (cursor?.id) {
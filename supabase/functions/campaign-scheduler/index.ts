@@ -6,8 +6,10 @@
 // - public.email_sends queue (executed by email-send-worker)
 //
 // Modes:
-// - best_time: queue emails at each contact's best_send_hour/minute within a window
-// - fixed_time: queue emails at window_start time in schedule timezone (simple)
+// - best_time: queue each email at the hour of the week the contact most likely opens (their open
+//   distribution blended with the workspace curve, see _shared/bestTime.ts), within
+//   window_start..window_end in the contact's own timezone (schedule timezone when unset)
+// - fixed_time: queue emails at the next window_start in the schedule timezone
 //
 // Deploy:
 //   supabase functions deploy campaign-scheduler
@@ -15,106 +17,45 @@
 // Secrets:
 //   SUPABASE_SERVICE_ROLE_KEY=...
 
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
-
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
-
-function normalize(s: unknown): string {
-  return String(s ?? '').trim().toLowerCase();
-}
+import { corsHeaders, json } from "../_shared/http.ts";
+import { requireRunnerToken } from "../_shared/auth.ts";
+import { dbFetch } from "../_shared/db.ts";
+import { evalSegment, segmentContactFilter, SEGMENT_CONTACT_COLUMNS } from "../_shared/segments.ts";
+import { loadSegmentActivity } from "../_shared/segmentActivity.ts";
+import { bestSendTime, blendedDistribution, readHours, sampleCount } from "../_shared/bestTime.ts";
+import { localParts, parseTime, resolveTimeZone, zonedTimeToUtc } from "../_shared/timezone.ts";
 
-function evalSegment(contact: any, seg: any): boolean {
-  if (!seg || typeof seg !== "object") return true;
-  const logic = String(seg.logic ?? "AND").toUpperCase() === "OR" ? "OR" : "AND";
-  const conds = Array.isArray(seg.conditions) ? seg.conditions : [];
-  if (conds.length === 0) return true;
-
-  const stage = normalize(contact.lifecycle_stage);
-  const temp = normalize(contact.temperature);
-  const tags: string[] = Array.isArray(contact.tags) ? contact.tags.map(normalize) : [];
-  const lists: string[] = Array.isArray(contact.lists) ? contact.lists.map(normalize) : [];
-  const leadScore = Number(contact.lead_score ?? 0);
-
-  const check = (c: any) => {
-    const field = String(c.field ?? '');
-    const op = String(c.op ?? '');
-    const value = c.value;
-    if (field === 'lifecycleStage') return stage === normalize(value);
-    if (field === 'temperature') return temp === normalize(value);
-    if (field === 'tag') return tags.some((t) => t === normalize(value) || t.includes(normalize(value)));
-    if (field === 'list') return lists.some((t) => t === normalize(value) || t.includes(normalize(value)));
-    if (field === 'leadScore') {
-      const v = Number(value ?? 0);
-      if (op === '>=') return leadScore >= v;
-      if (op === '<=') return leadScore <= v;
-      if (op === '>') return leadScore > v;
-      if (op === '<') return leadScore < v;
-    }
-    return true;
-  };
-
-  return logic === "AND" ? conds.every(check) : conds.some(check);
-}
+declare const Deno: any;
 
-function parseHHMM(hhmm: string, fallbackH = 9, fallbackM = 0): { h: number; m: number } {
-  const [h, m] = String(hhmm ?? "").split(":").map((x) => Number(x));
-  return {
-    h: Number.isFinite(h) ? Math.max(0, Math.min(23, h)) : fallbackH,
-    m: Number.isFinite(m) ? Math.max(0, Math.min(59, m)) : fallbackM,
-  };
+// Stored opens per hour of week, or, for contacts learned before the distribution existed, their
+// best_send_hour counted as a single open spread over the week.
+function contactHours(contact: any): number[] {
+  const hours = readHours(contact.best_time_hours);
+  const legacy = Number(contact.best_send_hour);
+  if (sampleCount(hours) === 0 && contact.best_send_hour != null && Number.isFinite(legacy)) {
+    for (let wd = 0; wd < 7; wd++) hours[wd * 24 + Math.max(0, Math.min(23, legacy))] = 1 / 7;
+  }
+  return hours;
 }
 
-function toContactExecuteAt(now: Date, contact: any, schedule: any): string {
+function toContactExecuteAt(now: Date, contact: any, schedule: any, workspaceHours: number[]): string {
   const mode = String(schedule.mode ?? "best_time");
-  const tz = String(contact.timezone ?? schedule.timezone ?? "UTC");
-
-  const winStart = parseHHMM(String(schedule.window_start ?? "09:00"), 9, 0);
-  const winEnd = parseHHMM(String(schedule.window_end ?? "17:00"), 17, 0);
-  const bestH = Number.isFinite(Number(contact.best_send_hour)) ? Number(contact.best_send_hour) : winStart.h;
-  const bestM = Number.isFinite(Number(contact.best_send_minute)) ? Number(contact.best_send_minute) : winStart.m;
+  const windowStart = String(schedule.window_start ?? "09:00");
+  const windowEnd = String(schedule.window_end ?? "17:00");
 
-  const target = mode === "best_time" ? { h: bestH, m: bestM } : winStart;
-
-  // We keep it simple: schedule at "today" (UTC) at target time. (Timezone refinement can be added next.)
-  const d = new Date(now);
-  d.setUTCHours(target.h, target.m, 0, 0);
-  if (d < now) d.setUTCDate(d.getUTCDate() + 1);
-  // Enforce window (basic): if outside window, push to window_start tomorrow
-  const tMin = target.h * 60 + target.m;
-  const wS = winStart.h * 60 + winStart.m;
-  const wE = winEnd.h * 60 + winEnd.m;
-  if (tMin < wS || tMin > wE) {
-    d.setUTCHours(winStart.h, winStart.m, 0, 0);
-    if (d < now) d.setUTCDate(d.getUTCDate() + 1);
+  if (mode === "best_time") {
+    const tz = resolveTimeZone(contact.timezone || schedule.timezone);
+    const distribution = blendedDistribution(contactHours(contact), workspaceHours);
+    return bestSendTime(distribution, now, tz, windowStart, windowEnd).toISOString();
   }
-  return d.toISOString();
+
+  // fixed_time: next window_start in the schedule's timezone
+  const tz = resolveTimeZone(schedule.timezone);
+  const start = parseTime(windowStart);
+  const today = localParts(now.getTime(), tz);
+  let at = zonedTimeToUtc(today.y, today.mo, today.d, start.h, start.m, tz);
+  if (at <= now) at = zonedTimeToUtc(today.y, today.mo, today.d + 1, start.h, start.m, tz);
+  return at.toISOString();
 }
 
 function pickVariant(subjects: string[], idx: number): { variant: string; subject: string } {
@@ -126,6 +67,8 @@ function pickVariant(subjects: string[], idx: number): { variant: string; subjec
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
   if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  const auth = requireRunnerToken(req);
+  if (auth) return auth;
 
   try {
     const body = await req.json().catch(() => ({}));
@@ -135,17 +78,34 @@ Deno.serve(async (req) => {
     const now = new Date();
 
     const schedules = await dbFetch(
-      `campaign_schedules?select=id,campaign_id,status,mode,window_start,window_end,timezone,next_run_at,ab_enabled,ab_subject_a,ab_subject_b,ab_subject_c,ab_test_fraction,ab_wait_minutes,ab_metric,segment_json&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.active&next_run_at=lte.${encodeURIComponent(now.toISOString())}&order=next_run_at.asc&limit=${limitSchedules}`,
+      `campaign_schedules?select=id,campaign_id,status,mode,window_start,window_end,timezone,next_run_at,ab_enabled,ab_subject_a,ab_subject_b,ab_subject_c,ab_test_fraction,ab_wait_minutes,ab_metric,segment_json,segment_id&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.active&next_run_at=lte.${encodeURIComponent(now.toISOString())}&order=next_run_at.asc&limit=${limitSchedules}`,
       { method: "GET" },
     );
     const due = Array.isArray(schedules) ? schedules : [];
     if (due.length === 0) return json({ ok: true, processed: 0 });
 
+    // Workspace open curve (best-time-worker), the fallback for contacts with few opens.
+    const curveRows = await dbFetch(
+      `best_time_cursor?select=workspace_hours&workspace_id=eq.${encodeURIComponent(workspaceId)}&order=updated_at.desc&limit=1`,
+      { method: "GET" },
+    );
+    const workspaceHours = readHours(Array.isArray(curveRows) ? curveRows[0]?.workspace_hours : null);
+
     let processed = 0;
     for (const s of due) {
       const scheduleId = String(s.id);
       const campaignId = String(s.campaign_id);
-      const segment = s.segment_json ?? null;
+      // Saved segment by id (current definition), else the inline segment_json.
+      let segment = s.segment_json ?? null;
+      if (s.segment_id) {
+        const segmentRows = await dbFetch(
+          `segments?select=definition&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(String(s.segment_id))}&limit=1`,
+          { method: "GET" },
+        );
+        const saved = Array.isArray(segmentRows) ? segmentRows[0] : null;
+        if (!saved) continue; // segment was deleted
+        segment = saved.definition ?? null;
+      }
 
       // Load campaign
       const campRows = await dbFetch(
@@ -155,12 +115,19 @@ Deno.serve(async (req) => {
       const campaign = Array.isArray(campRows) ? campRows[0] : null;
       if (!campaign) continue;
 
-      // Load recipients
+      // Load recipients (segment filtered in Postgres first, so the limit counts matching contacts)
       const contacts = await dbFetch(
-        `contacts?select=id,email,first_name,last_name,status,unsubscribed,bounced,spam_complaint,timezone,lifecycle_stage,temperature,tags,lists,lead_score,best_send_hour,best_send_minute&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.Subscribed&unsubscribed=is.false&bounced=is.false&spam_complaint=is.false&limit=${limitRecipients}`,
+        `contacts?select=id,email,first_name,last_name,unsubscribed,bounced,spam_complaint,best_send_hour,best_time_hours,${SEGMENT_CONTACT_COLUMNS}&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.Subscribed&unsubscribed=is.false&bounced=is.false&spam_complaint=is.false${segmentContactFilter(segment).query}&limit=${limitRecipients}`,
         { method: "GET" },
       );
-      const eligible = (Array.isArray(contacts) ? contacts : []).filter((c: any) => evalSegment(c, segment));
+      const rows = Array.isArray(contacts) ? contacts : [];
+      const activity = await loadSegmentActivity(
+        (path) => dbFetch(path, { method: "GET" }),
+        workspaceId,
+        rows.map((c: any) => String(c.id)),
+        segment,
+      );
+      const eligible = rows.filter((c: any) => evalSegment(c, segment, activity.get(String(c.id))));
 
       const baseSubject = String(campaign.subject ?? campaign.name ?? "Campaign").trim();
       const subjects = [
@@ -173,6 +140,12 @@ Deno.serve(async (req) => {
       const testFrac = Math.max(0.05, Math.min(0.3, Number(s.ab_test_fraction ?? 0.1)));
       const testCount = abEnabled ? Math.max(1, Math.floor(eligible.length * testFrac)) : 0;
 
+      // Test sends go out at each contact's own send time (best_time can be days ahead), so the test
+      // ends ab_wait_minutes after the last of them rather than after `now`.
+      const toTest = abEnabled ? eligible.slice(0, testCount) : [];
+      const toRest = abEnabled ? eligible.slice(testCount) : eligible;
+      const testExecuteAt = toTest.map((c: any) => toContactExecuteAt(now, c, s, workspaceHours));
+
       // Create/ensure AB state
       if (abEnabled) {
         const stateRows = await dbFetch(
@@ -181,7 +154,8 @@ Deno.serve(async (req) => {
         );
         const st = Array.isArray(stateRows) ? stateRows[0] : null;
         if (!st) {
-          const end = new Date(now.getTime() + Number(s.ab_wait_minutes ?? 120) * 60 * 1000).toISOString();
+          const lastTestMs = testExecuteAt.reduce((max, at) => Math.max(max, new Date(at).getTime()), now.getTime());
+          const end = new Date(lastTestMs + Number(s.ab_wait_minutes ?? 120) * 60 * 1000).toISOString();
           await dbFetch("campaign_ab_state", {
             method: "POST",
             headers: { Prefer: "return=minimal" },
@@ -196,9 +170,6 @@ Deno.serve(async (req) => {
       }
 
       // Queue test sends (round-robin across variants)
-      const toTest = abEnabled ? eligible.slice(0, testCount) : [];
-      const toRest = abEnabled ? eligible.slice(testCount) : eligible;
-
       if (abEnabled && toTest.length > 0) {
         const inserts: any[] = [];
         for (let i = 0; i < toTest.length; i++) {
@@ -211,7 +182,7 @@ Deno.serve(async (req) => {
             to_email: c.email,
             subject,
             status: "queued",
-            execute_at: toContactExecuteAt(now, c, s),
+            execute_at: testExecuteAt[i],
             schedule_id: scheduleId,
             ab_variant: variant,
             is_test: true,
@@ -279,7 +250,7 @@ Deno.serve(async (req) => {
               to_email: c.email,
               subject: winnerSubject || baseSubject,
               status: "queued",
-              execute_at: toContactExecuteAt(now, c, s),
+              execute_at: toContactExecuteAt(now, c, s, workspaceHours),
               schedule_id: scheduleId,
               ab_variant: bestV,
               is_test: false,
@@ -311,7 +282,7 @@ Deno.serve(async (req) => {
             to_email: c.email,
             subject: baseSubject,
             status: "queued",
-            execute_at: toContactExecuteAt(now, c, s),
+            execute_at: toContactExecuteAt(now, c, s, workspaceHours),
             schedule_id: scheduleId,
             ab_variant: null,
             is_test: false,
@@ -20,56 +20,31 @@
 // Option B (SMTP Gateway):
 //   MAIL_GATEWAY_URL=...          (ex: https://your-domain.com)
 //   MAIL_GATEWAY_TOKEN=...        (Bearer token to protect gateway)
+// Contact preferences (see _shared/preferences.ts) are checked per send: sends to unsubscribed or paused
+// contacts, campaigns on a topic the contact left, and campaigns over a digest contact's weekly limit are
+// marked "skipped" instead of sent. Team notifications (meta.source "automation_notify") aren't checked.
+//
+// Suppression list (public.suppressions, see _shared/suppressions.ts): every email, whatever queued it
+// (bulk, campaign, newsletter, automation, team notification), is checked after the preference checks and
+// before rendering; sends to a suppressed address or domain are marked "suppressed" with the reason, even
+// when the workspace has no from address configured yet.
+//
 // Optional (tracking/compliance):
 //   PUBLIC_FUNCTIONS_BASE_URL=... (ex: https://<project>.functions.supabase.co)
 //   UNSUBSCRIBE_SIGNING_KEY=...   (for unsubscribe links)
 
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
+import { corsHeaders, json } from "../_shared/http.ts";
+import { requireRunnerToken } from "../_shared/auth.ts";
+import { dbFetch, inList } from "../_shared/db.ts";
+import { functionsBaseUrl } from "../_shared/env.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { renderEmailHtml, renderEmailText, renderSimpleEmail, renderSimpleText, type EmailRenderOptions } from "../_shared/emailRender.ts";
+import { customFieldVars } from "../_shared/customFields.ts";
+import { DIGEST_INTERVAL_DAYS, preferenceSkipReason } from "../_shared/preferences.ts";
+import { matchSuppression, suppressionKeys, type Suppression } from "../_shared/suppressions.ts";
+import { makePreferencesUrl, makeUnsubUrl } from "../_shared/tokens.ts";
 
-function functionsBaseUrl(): string {
-  const explicit = (Deno.env.get("PUBLIC_FUNCTIONS_BASE_URL") ?? "").trim();
-  if (explicit) return explicit.replace(/\/$/, "");
-  // Fallback: Supabase project URL is always available in the Edge runtime.
-  const sbUrl = (Deno.env.get("SUPABASE_URL") ?? "").trim().replace(/\/$/, "");
-  return sbUrl ? `${sbUrl}/functions/v1` : "";
-}
-
-function requireRunnerToken(req: Request): Response | null {
-  const required = (Deno.env.get("FLOWMAIL_RUNNER_TOKEN") ?? "").trim();
-  if (!required) return null; // not enforced
-  const got = String(req.headers.get("x-flowmail-runner-token") ?? "").trim();
-  if (!got || got !== required) return json({ error: "Unauthorized" }, 401);
-  return null;
-}
-
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
+declare const Deno: any;
 
 async function gatewaySend(gatewayUrl: string, token: string, payload: any) {
   const res = await fetch(`${gatewayUrl.replace(/\/$/, "")}/send`, {
@@ -85,7 +60,10 @@ async function gatewaySend(gatewayUrl: string, token: string, payload: any) {
   return text ? JSON.parse(text) : null;
 }
 
-async function resendSend(apiKey: string, payload: { to: string; subject: string; html?: string; text?: string; from?: string }) {
+async function resendSend(
+  apiKey: string,
+  payload: { to: string; subject: string; html?: string; text?: string; from?: string; headers?: Record<string, string> },
+) {
   const res = await fetch("https://api.resend.com/emails", {
     method: "POST",
     headers: {
@@ -98,6 +76,7 @@ async function resendSend(apiKey: string, payload: { to: string; subject: string
       subject: payload.subject,
       html: payload.html,
       text: payload.text,
+      headers: payload.headers,
     }),
   });
   const text = await res.text();
@@ -105,6 +84,37 @@ async function resendSend(apiKey: string, payload: { to: string; subject: string
   return text ? JSON.parse(text) : null;
 }
 
+// RFC 8058 one-click unsubscribe (required by Gmail / Yahoo for bulk senders): providers POST
+// "List-Unsubscribe=One-Click" to the same signed link, which the unsubscribe function accepts.
+function listUnsubscribeHeaders(unsubUrl: string | null): Record<string, string> | undefined {
+  if (!unsubUrl) return undefined;
+  return {
+    "List-Unsubscribe": `<${unsubUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
+
+const AUTOMATION_SOURCES = ["automation", "automation_notify"];
+
+// When the contact's latest campaign email (not automation) went out in the digest window, if any.
+async function lastCampaignSentAt(workspaceId: string, contactId: string): Promise<string | null> {
+  const since = new Date(Date.now() - DIGEST_INTERVAL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const rows = await dbFetch(
+    `email_sends?select=sent_at&workspace_id=eq.${encodeURIComponent(workspaceId)}&contact_id=eq.${encodeURIComponent(contactId)}&sent_at=gte.${encodeURIComponent(since)}&or=(meta->>source.is.null,meta->>source.not.in.(${AUTOMATION_SOURCES.join(",")}))&order=sent_at.desc&limit=1`,
+    { method: "GET" },
+  );
+  return Array.isArray(rows) && rows[0]?.sent_at ? String(rows[0].sent_at) : null;
+}
+
+// The suppression list entry blocking this recipient (address or domain), if any.
+async function findSuppression(workspaceId: string, email: string): Promise<Suppression | null> {
+  const rows = await dbFetch(
+    `suppressions?select=kind,value,reason,source,created_at&workspace_id=eq.${encodeURIComponent(workspaceId)}&value=in.${inList(suppressionKeys(email))}`,
+    { method: "GET" },
+  );
+  return matchSuppression(email, rows);
+}
+
 async function loadWorkspaceSettings(workspaceId: string): Promise<{ companyName: string | null; defaultFromEmail: string | null } | null> {
   try {
     const rows = await dbFetch(
@@ -122,101 +132,6 @@ async function loadWorkspaceSettings(workspaceId: string): Promise<{ companyName
   }
 }
 
-function escapeHtml(s: string) {
-  return String(s ?? "")
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#039;");
-}
-
-function applyVars(s: string, vars: Record<string, string>) {
-  let out = s ?? "";
-  for (const [k, v] of Object.entries(vars)) out = out.replaceAll(`{{${k}}}`, v);
-  return out;
-}
-
-function renderSimpleEmail(body: string, vars: Record<string, string>) {
-  let out = body ?? "";
-  for (const [k, v] of Object.entries(vars)) out = out.replaceAll(`{{${k}}}`, v);
-  return `<div style="font-family: Inter, Arial, sans-serif; font-size: 14px; line-height: 1.55; color: #0f172a; white-space: pre-wrap;">${escapeHtml(out)}</div>`;
-}
-
-function blocksToHtml(
-  blocks: any[] | null | undefined,
-  vars: Record<string, string>,
-  fallbackBody: string | undefined,
-  trackingBase: string | null,
-  sid: string,
-) {
-  if (!Array.isArray(blocks) || blocks.length === 0) {
-    return `<div style="font-family: Inter, Arial, sans-serif; font-size: 14px; line-height: 1.55; color: #0f172a;">
-      ${escapeHtml(applyVars(fallbackBody ?? "", vars)).replaceAll("\n", "<br/>")}
-    </div>`;
-  }
-  const parts: string[] = [];
-  for (const b of blocks) {
-    if (!b || typeof b !== "object") continue;
-    if (b.type === "header") parts.push(`<h1 style="margin: 0 0 12px; font-size: 22px;">${escapeHtml(applyVars(String(b.text ?? ""), vars))}</h1>`);
-    else if (b.type === "text") parts.push(`<p style="margin: 0 0 12px; white-space: pre-wrap;">${escapeHtml(applyVars(String(b.text ?? ""), vars))}</p>`);
-    else if (b.type === "button") {
-      const href = String(b.href ?? "#");
-      const bid = String(b.id ?? "").trim();
-      const trackedHref =
-        trackingBase && href && href.startsWith("http")
-          ? `${trackingBase.replace(/\/$/, "")}/track/click?sid=${encodeURIComponent(sid)}&bid=${encodeURIComponent(bid || "btn")}&url=${encodeURIComponent(href)}`
-          : href;
-      parts.push(`<p style="margin: 16px 0;">
-        <a href="${escapeHtml(trackedHref)}" style="display:inline-block;background:#0284c7;color:#fff;text-decoration:none;padding:10px 14px;border-radius:10px;font-weight:700;">
-          ${escapeHtml(applyVars(String(b.text ?? "Learn more"), vars))}
-        </a>
-      </p>`);
-    } else if (b.type === "divider") {
-      parts.push(`<hr style="border:0;border-top:1px solid #e2e8f0;margin:18px 0;" />`);
-    } else if (b.type === "image") {
-      parts.push(`<p style="margin: 14px 0;"><img src="${escapeHtml(String(b.src ?? ""))}" alt="${escapeHtml(String(b.alt ?? ""))}" style="max-width:100%;border-radius:12px;border:1px solid #e2e8f0;" /></p>`);
-    } else {
-      // Unknown block types: ignore
-    }
-  }
-  return `<div style="font-family: Inter, Arial, sans-serif; font-size: 14px; line-height: 1.55; color: #0f172a;">${parts.join("")}</div>`;
-}
-
-function rewriteLinks(html: string, base: string, sid: string): string {
-  if (!base) return html;
-  // Replace href="https://..." with tracking redirect.
-  return html.replace(/href="(https?:\/\/[^"]+)"/g, (_m, url) => {
-    const u = String(url);
-    // Don't double-wrap links we already generated for tracking (includes bid)
-    if (u.includes("/track/click?sid=")) return `href="${u}"`;
-    const tracked = `${base.replace(/\/$/, "")}/track/click?sid=${encodeURIComponent(sid)}&url=${encodeURIComponent(u)}`;
-    return `href="${tracked}"`;
-  });
-}
-
-async function makeUnsubUrl(workspaceId: string, contactId: string): Promise<string | null> {
-  const secret = Deno.env.get("UNSUBSCRIBE_SIGNING_KEY") ?? "";
-  const base = functionsBaseUrl();
-  if (!secret || !base) return null;
-
-  const payload = { ws: workspaceId, contactId, exp: Date.now() + 1000 * 60 * 60 * 24 * 365 };
-  const enc = new TextEncoder();
-  let bin = '';
-  const bytes = enc.encode(JSON.stringify(payload));
-  bytes.forEach((b) => (bin += String.fromCharCode(b)));
-  const payloadB64 = btoa(bin).replaceAll('+', '-').replaceAll('/', '_').replaceAll('=', '');
-
-  const key = await crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
-  const sig = await crypto.subtle.sign("HMAC", key, enc.encode(payloadB64));
-  let sbin = '';
-  new Uint8Array(sig).forEach((b) => (sbin += String.fromCharCode(b)));
-  const sigB64 = btoa(sbin).replaceAll('+', '-').replaceAll('/', '_').replaceAll('=', '');
-
-  const token = `${payloadB64}.${sigB64}`;
-  return `${base.replace(/\/$/, "")}/unsubscribe?token=${encodeURIComponent(token)}`;
-}
-
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
   if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
@@ -249,7 +164,7 @@ Deno.serve(async (req) => {
     // Load campaigns once (small N) — note: some queued sends (automations/notify) may not have a campaign row.
     const campaignIds = Array.from(new Set(items.map((x: any) => String(x.campaign_id ?? "")).filter(Boolean)));
     const campRows = campaignIds.length
-      ? await dbFetch(`campaigns?select=id,subject,body,email_blocks&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=in.(${campaignIds.map(encodeURIComponent).join(",")})`, { method: "GET" })
+      ? await dbFetch(`campaigns?select=id,subject,body,email_blocks,email_style,topic_list&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=in.(${campaignIds.map(encodeURIComponent).join(",")})`, { method: "GET" })
       : [];
     const campById = new Map<string, any>();
     (Array.isArray(campRows) ? campRows : []).forEach((c: any) => campById.set(String(c.id), c));
@@ -259,6 +174,8 @@ Deno.serve(async (req) => {
     const companyName = (wsSettings?.companyName ?? "").trim() || null;
 
     let processed = 0;
+    let skipped = 0;
+    let suppressed = 0;
     for (const it of items) {
       const id = String(it.id);
       const to = String(it.to_email ?? "").trim();
@@ -280,47 +197,83 @@ Deno.serve(async (req) => {
         const subj = String(it.subject ?? campaign?.subject ?? "Message").trim();
         const meta = it.meta ?? {};
         const bodyText = String((meta as any)?.body ?? campaign?.body ?? "").trim();
+        const source = String((meta as any)?.source ?? "");
 
         // Minimal personalization
         let firstName = "";
         let lastName = "";
+        let customVars: Record<string, string> = {};
         if (contactId) {
           const cr = await dbFetch(
-            `contacts?select=first_name,last_name,email&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}&limit=1`,
+            `contacts?select=first_name,last_name,email,attributes,lists,unsubscribed,email_frequency,paused_until&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}&limit=1`,
             { method: "GET" },
           );
           const c = Array.isArray(cr) ? cr[0] : null;
           firstName = String(c?.first_name ?? "").trim();
           lastName = String(c?.last_name ?? "").trim();
+          customVars = customFieldVars(c?.attributes);
+
+          if (c && source !== "automation_notify") {
+            const isCampaign = !AUTOMATION_SOURCES.includes(source);
+            const reason = preferenceSkipReason(c, {
+              topicList: isCampaign ? campaign?.topic_list : null,
+              lastCampaignSentAt: isCampaign && c.email_frequency === "digest" ? await lastCampaignSentAt(workspaceId, contactId) : null,
+            });
+            if (reason) {
+              await dbFetch(`email_sends?workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(id)}`, {
+                method: "PATCH",
+                headers: { Prefer: "return=minimal" },
+                body: JSON.stringify({ status: "skipped", meta: { ...meta, skipped_reason: reason }, updated_at: new Date().toISOString() }),
+              });
+              skipped++;
+              continue;
+            }
+          }
+        }
+
+        const suppression = await findSuppression(workspaceId, to);
+        if (suppression) {
+          await dbFetch(`email_sends?workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(id)}`, {
+            method: "PATCH",
+            headers: { Prefer: "return=minimal" },
+            body: JSON.stringify({
+              status: "suppressed",
+              meta: { ...meta, suppressed: { kind: suppression.kind, value: suppression.value, reason: suppression.reason } },
+              updated_at: new Date().toISOString(),
+            }),
+          });
+          suppressed++;
+          continue;
         }
 
         const senderName = companyName || (Deno.env.get("DEFAULT_FROM_NAME") ?? "").trim() || "FlowMail";
-        const vars = { firstName, lastName, email: to, companyName: companyName || "", senderName };
+        const vars = { ...customVars, firstName, lastName, email: to, companyName: companyName || "", senderName };
         const blocks = campaign?.email_blocks;
         const trackingBase = functionBase ? functionBase.replace(/\/$/, "") : null;
-        let html = Array.isArray(blocks) && blocks.length > 0
-          ? blocksToHtml(blocks, vars, bodyText, trackingBase, id)
-          : renderSimpleEmail(bodyText, vars);
-        // Tracking pixel + click redirect (if configured)
-        if (functionBase) {
-          const base = functionBase.replace(/\/$/, "");
-          html = rewriteLinks(html, base, id);
-          html = `${html}<img src="${base}/track/open?sid=${encodeURIComponent(id)}" width="1" height="1" alt="" />`;
-        }
-        // Unsubscribe footer if we can build a link
-        if (contactId) {
-          const unsub = await makeUnsubUrl(workspaceId, contactId);
-          if (unsub) {
-            html = `${html}<div style="margin-top:24px;padding-top:12px;border-top:1px solid #e2e8f0;font-size:12px;color:#64748b;"><a href="${unsub}" style="color:#64748b;">Unsubscribe</a></div>`;
-          }
-        }
+        const unsub = contactId ? await makeUnsubUrl(workspaceId, contactId) : null;
+        const prefs = contactId ? await makePreferencesUrl(workspaceId, contactId) : null;
+        const render: Omit<EmailRenderOptions, "vars"> = {
+          style: campaign?.email_style,
+          title: subj,
+          // Click redirect + open pixel (if configured)
+          link: trackingBase
+            ? (url, blockId) => `${trackingBase}/track/click?sid=${encodeURIComponent(id)}&bid=${encodeURIComponent(blockId || "link")}&url=${encodeURIComponent(url)}`
+            : undefined,
+          trackingPixelUrl: trackingBase ? `${trackingBase}/track/open?sid=${encodeURIComponent(id)}` : undefined,
+          footerHtml: prefs ? `<a href="${escapeHtml(prefs)}" style="color:#64748b;">Manage preferences or unsubscribe</a>` : undefined,
+          footerText: prefs ? `Manage preferences or unsubscribe: ${prefs}` : undefined,
+        };
+        const hasBlocks = Array.isArray(blocks) && blocks.length > 0;
+        const html = hasBlocks ? renderEmailHtml(blocks, { ...render, vars }) : renderSimpleEmail(bodyText, vars, render);
+        const text = hasBlocks ? renderEmailText(blocks, { ...render, vars }) : renderSimpleText(bodyText, vars, render);
 
         const from = fromEmail ? `"${senderName.replaceAll('"', "")}" <${fromEmail}>` : undefined;
         if (!fromEmail) throw new Error("Missing from email (set workspace default_from_email or DEFAULT_FROM_EMAIL secret)");
 
+        const headers = listUnsubscribeHeaders(unsub);
         const sendRes = canUseResend
-          ? await resendSend(resendApiKey, { to, subject: subj, html, from })
-          : await gatewaySend(gatewayUrl, gatewayToken, { to, subject: subj, html, from });
+          ? await resendSend(resendApiKey, { to, subject: subj, html, text, from, headers })
+          : await gatewaySend(gatewayUrl, gatewayToken, { to, subject: subj, html, text, from, headers });
 
         const provider = canUseResend ? "resend" : "smtp";
         const providerId = canUseResend ? String(sendRes?.id ?? sendRes?.data?.id ?? "") : String(sendRes?.messageId ?? "");
@@ -350,7 +303,7 @@ Deno.serve(async (req) => {
       }
     }
 
-    return json({ ok: true, processed });
+    return json({ ok: true, processed, skipped, suppressed });
   } catch (e) {
     const message = e instanceof Error ? e.message : String(e);
     return json({ error: message }, 500);
@@ -8,20 +8,9 @@
 //   supabase.functions.invoke('generate-email', { body: { topic, tone } })
 
 // Avoid TS errors in the Vite workspace: these globals exist in the Supabase Edge runtime.
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders, json } from "../_shared/http.ts";
 
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
+declare const Deno: any;
 
 async function geminiGenerateJSON(apiKey: string, prompt: string) {
   const url =
@@ -4,171 +4,506 @@
 // - processes new contact_events incrementally
 // - updates contacts.lead_score and maps contacts.temperature
 //
-// Rules (simple defaults; tweak as needed):
+// Rules come from the workspace's scoring model (workspace_settings.lead_scoring, edited in Settings;
+// see _shared/leadScoring.ts). Without one, the defaults apply:
 // - email_open: +1
 // - link_click: +3 (pricing/checkout links: +5)
 // - form_submitted: +4 (webinar forms: +10)
 // - purchase: +15
-// - inactivity: handled by separate job (optional)
+// - scores stay within 0..100; 20+ => warm, 50+ => hot
 //
-// Temperature mapping:
-// - 0..19 => cold
-// - 20..49 => warm
-// - 50+ => hot
+// Each run also applies the model's inactivity points to contacts with no opens, clicks or purchases in
+// the last N days (at most once per N days per contact, tracked in contacts.lead_score_inactive_at).
+//
+// With decay turned on in the model, scores also move back towards the base score over time. Decay is
+// brought up to date whenever a contact's score changes (events, inactivity), and a daily pass
+// (lead_score_cursor.last_decay_at) decays everyone else. contacts.lead_score_decayed_at is how far decay
+// has been applied: it only moves on by the whole points taken off, so frequent updates don't lose it.
+//
+// Named scores (model.models) are kept in contacts.scores by key: engagement models are scored from the
+// same events, fit models from the contact row in a fit pass (contacts updated since the last pass, or all
+// of them after the fit rules changed). History and breakdown cover the lead score only.
+//
+// Every score change is recorded in lead_score_history (shown as a series on the contact page), and
+// broken down in lead_score_changes: one row per contribution (event + rule, inactivity or decay) with the
+// delta it applied after caps, for the "Score breakdown" panel.
+//
+// Modes (body.mode):
+// - incremental (default): events after lead_score_cursor, then the inactivity, decay and fit passes
+// - recalculate: rebuild the next `batch` contacts (default 200, in id order) by replaying their
+//   contact_events with the current model (e.g. after editing it), decaying between events and up to now.
+//   Call again until the response says `done`; `restart: true` starts over. Each batch resets the contacts,
+//   writes their new breakdown and then drops the old one, so an interrupted run resumes from the last
+//   finished batch. The last batch re-scores every contact's fit. Inactivity points are not replayed.
 //
 // Deploy:
 //   supabase functions deploy lead-score-worker
 // Secrets:
 //   supabase secrets set SUPABASE_SERVICE_ROLE_KEY=...
 
+import { corsHeaders, json } from "../_shared/http.ts";
+import { requireRunnerTokenOrWorkspaceUser } from "../_shared/auth.ts";
+import { dbDelete, dbInsert, dbPatch, dbSelect, dbSelectOne, inList, q } from "../_shared/db.ts";
+import { SEGMENT_CONTACT_COLUMNS } from "../_shared/segments.ts";
+import {
+  clampScore,
+  decayScoreSince,
+  fitScore,
+  LEAD_SCORE_DECAY_SOURCE,
+  LEAD_SCORE_INACTIVITY_SOURCE,
+  readLeadScoringModel,
+  scoreEvent,
+  scoreSource,
+  temperatureForScore,
+  type LeadScoreSource,
+  type LeadScoringModel,
+  type ScoreModel,
+} from "../_shared/leadScoring.ts";
+
 declare const Deno: any;
 
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
+const PAGE = 1000;
+const INACTIVITY_BATCH = 500;
+const HISTORY_BATCH = 500;
+const RECALC_BATCH = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ScoreChange = {
+  contact_id: string;
+  event_id: string | null;
+  event_type: string | null;
+  rule_key: string;
+  rule_label: string;
+  delta: number;
+  score: number;
+  occurred_at: string;
 };
 
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
+function scoreChange(
+  contactId: string,
+  source: LeadScoreSource,
+  before: number,
+  after: number,
+  occurredAt: string,
+  ev?: { id?: unknown; event_type?: unknown },
+): ScoreChange {
+  return {
+    contact_id: contactId,
+    event_id: ev?.id ? String(ev.id) : null,
+    event_type: ev?.event_type ? String(ev.event_type) : null,
+    rule_key: source.key,
+    rule_label: source.label,
+    delta: after - before,
+    score: after,
+    occurred_at: occurredAt,
+  };
+}
+
+async function loadModel(workspaceId: string): Promise<LeadScoringModel> {
+  const row = await dbSelectOne(`workspace_settings?select=lead_scoring&workspace_id=eq.${q(workspaceId)}`).catch(() => null);
+  return readLeadScoringModel(row?.lead_scoring);
+}
+
+async function patchScore(
+  workspaceId: string,
+  contactId: string,
+  model: LeadScoringModel,
+  score: number,
+  decayedAtMs: number,
+  at: string,
+  extra: Record<string, unknown> = {},
+) {
+  await dbPatch(`contacts?workspace_id=eq.${q(workspaceId)}&id=eq.${q(contactId)}`, {
+    lead_score: score,
+    temperature: temperatureForScore(model, score),
+    lead_score_decayed_at: new Date(decayedAtMs).toISOString(),
+    updated_at: at,
+    ...extra,
   });
 }
 
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
+function engagementModels(model: LeadScoringModel): ScoreModel[] {
+  return model.models.filter((m) => m.kind === "engagement");
+}
+
+// Fit rules as saved, so the fit pass notices edits that need every contact re-scored.
+function fitHash(fit: ScoreModel[]): string {
+  const text = JSON.stringify(fit.map((m) => [m.key, m.min, m.max, m.fit.map((f) => [f.condition, f.points])]));
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
 }
 
-function norm(s: unknown) {
-  return String(s ?? "").trim().toLowerCase();
+async function recordHistory(
+  workspaceId: string,
+  model: LeadScoringModel,
+  changes: Array<[string, number]>,
+  reason: string,
+  at: string,
+) {
+  const rows = changes.map(([contactId, score]) => ({
+    workspace_id: workspaceId,
+    contact_id: contactId,
+    score,
+    temperature: temperatureForScore(model, score),
+    reason,
+    recorded_at: at,
+  }));
+  for (let i = 0; i < rows.length; i += HISTORY_BATCH) {
+    await dbInsert("lead_score_history", rows.slice(i, i + HISTORY_BATCH));
+  }
 }
 
-function clamp(n: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, n));
+async function recordChanges(workspaceId: string, changes: ScoreChange[], createdAt?: string) {
+  for (let i = 0; i < changes.length; i += HISTORY_BATCH) {
+    await dbInsert(
+      "lead_score_changes",
+      changes.slice(i, i + HISTORY_BATCH).map((c) => ({ workspace_id: workspaceId, ...c, ...(createdAt ? { created_at: createdAt } : {}) })),
+    );
+  }
 }
 
-function tempFromScore(score: number): "cold" | "warm" | "hot" {
-  if (score >= 50) return "hot";
-  if (score >= 20) return "warm";
-  return "cold";
+async function loadCursor(workspaceId: string) {
+  return await dbSelectOne(
+    `lead_score_cursor?select=id,last_occurred_at,last_event_id,last_decay_at,last_fit_at,fit_hash,recalc_started_at,recalc_after&workspace_id=eq.${q(workspaceId)}&order=updated_at.desc`,
+  );
 }
 
-function scoreDelta(ev: any): number {
-  const t = String(ev?.event_type ?? "");
-  const meta = ev?.meta ?? {};
-  if (t === "email_open") return 1;
-  if (t === "link_click") {
-    const url = norm(meta?.url ?? meta?.href ?? "");
-    if (url.includes("pricing") || url.includes("checkout")) return 5;
-    return 3;
+async function saveCursor(workspaceId: string, cursorId: string | null, fields: Record<string, unknown>) {
+  const patch = { workspace_id: workspaceId, ...fields, updated_at: new Date().toISOString() };
+  if (cursorId) {
+    await dbPatch(`lead_score_cursor?workspace_id=eq.${q(workspaceId)}&id=eq.${q(cursorId)}`, patch);
+  } else {
+    await dbInsert("lead_score_cursor", [patch]);
   }
-  if (t === "form_submitted") {
-    const form = norm(meta?.form ?? meta?.formName ?? "");
-    if (form.includes("webinar")) return 10;
-    return 4;
+}
+
+async function incremental(workspaceId: string, model: LeadScoringModel, limit: number) {
+  const cursor = await loadCursor(workspaceId);
+  const lastTs = cursor?.last_occurred_at ? String(cursor.last_occurred_at) : null;
+
+  const evs = await dbSelect(
+    `contact_events?select=id,contact_id,event_type,occurred_at,meta&workspace_id=eq.${q(workspaceId)}${lastTs ? `&occurred_at=gt.${q(lastTs)}` : ""}&order=occurred_at.asc&limit=${limit}`,
+  );
+  if (evs.length === 0) return { processedEvents: 0, updatedContacts: 0 };
+
+  // Events per contact, in order: caps apply after each event, as in a full recalculation.
+  const engagement = engagementModels(model);
+  const byContact = new Map<string, any[]>();
+  for (const ev of evs) {
+    const cid = String(ev.contact_id ?? "");
+    if (!cid) continue;
+    if (!scoreEvent(model, ev).points && !engagement.some((m) => scoreEvent(m, ev).points)) continue;
+    byContact.set(cid, [...(byContact.get(cid) ?? []), ev]);
   }
-  if (t === "purchase") return 15;
-  if (t === "purchase_upgraded") return 10;
-  if (t === "purchase_cancelled") return -10;
-  return 0;
+
+  const nowMs = Date.now();
+  const now = new Date(nowMs).toISOString();
+  const changes: Array<[string, number]> = [];
+  const breakdown: ScoreChange[] = [];
+  let updated = 0;
+  for (const [contactId, contactEvents] of byContact.entries()) {
+    const c = await dbSelectOne(
+      `contacts?select=id,lead_score,lead_score_decayed_at,scores&workspace_id=eq.${q(workspaceId)}&id=eq.${q(contactId)}`,
+    );
+    if (!c) continue;
+
+    const scores: Record<string, number> = { ...(c.scores ?? {}) };
+    for (const m of engagement) {
+      const before = clampScore(m, Number(scores[m.key] ?? 0));
+      scores[m.key] = contactEvents.reduce((s, ev) => clampScore(m, s + scoreEvent(m, ev).points), before);
+    }
+    const extra = engagement.length > 0 ? { scores } : {};
+
+    const scored: Array<{ ev: any; points: number; source: LeadScoreSource }> = [];
+    for (const ev of contactEvents) {
+      const { points, rule } = scoreEvent(model, ev);
+      if (points) scored.push({ ev, points, source: scoreSource(String(ev.event_type ?? ""), rule) });
+    }
+    if (scored.length === 0) {
+      // Only named scores changed.
+      await dbPatch(`contacts?workspace_id=eq.${q(workspaceId)}&id=eq.${q(contactId)}`, { scores, updated_at: now });
+      updated++;
+      continue;
+    }
+    // Decay the current score up to now before adding the new points.
+    const current = clampScore(model, Number(c.lead_score ?? 0));
+    const decayedAt = c.lead_score_decayed_at ? Date.parse(String(c.lead_score_decayed_at)) : nowMs;
+    const decay = decayScoreSince(model, current, decayedAt, nowMs);
+    let score = decay.score;
+    if (score !== current) breakdown.push(scoreChange(contactId, LEAD_SCORE_DECAY_SOURCE, current, score, now));
+    for (const { ev, points, source } of scored) {
+      const next = clampScore(model, score + points);
+      if (next !== score) breakdown.push(scoreChange(contactId, source, score, next, String(ev.occurred_at ?? now), ev));
+      score = next;
+    }
+    await patchScore(workspaceId, contactId, model, score, decay.decayedAtMs, now, extra);
+    changes.push([contactId, score]);
+    updated++;
+  }
+  await recordHistory(workspaceId, model, changes, "events", now);
+  await recordChanges(workspaceId, breakdown);
+
+  const last = evs[evs.length - 1];
+  await saveCursor(workspaceId, cursor?.id ? String(cursor.id) : null, {
+    last_occurred_at: last.occurred_at,
+    last_event_id: last.id,
+  });
+  return { processedEvents: evs.length, updatedContacts: updated };
 }
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
-  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+async function applyInactivity(workspaceId: string, model: LeadScoringModel): Promise<number> {
+  const { days, points } = model.inactivity;
+  if (days <= 0 || !points) return 0;
+  const cutoff = q(new Date(Date.now() - days * DAY_MS).toISOString());
+  const quiet = (col: string) => `or(${col}.is.null,${col}.lt.${cutoff})`;
+  const rows = await dbSelect(
+    `contacts?select=id,lead_score,lead_score_decayed_at&workspace_id=eq.${q(workspaceId)}&created_at=lt.${cutoff}` +
+      `&and=(${[quiet("last_open_date"), quiet("last_click_date"), quiet("last_purchase_date"), quiet("lead_score_inactive_at")].join(",")})` +
+      `&limit=${INACTIVITY_BATCH}`,
+  );
+  const nowMs = Date.now();
+  const now = new Date(nowMs).toISOString();
+  const changes: Array<[string, number]> = [];
+  const breakdown: ScoreChange[] = [];
+  for (const c of rows) {
+    // Decay is brought up to date before the inactivity points, as for event points.
+    const current = Number(c.lead_score ?? 0);
+    const decayedAt = c.lead_score_decayed_at ? Date.parse(String(c.lead_score_decayed_at)) : nowMs;
+    const decay = decayScoreSince(model, current, decayedAt, nowMs);
+    if (decay.score !== current) breakdown.push(scoreChange(String(c.id), LEAD_SCORE_DECAY_SOURCE, current, decay.score, now));
+    const score = clampScore(model, decay.score + points);
+    await patchScore(workspaceId, String(c.id), model, score, decay.decayedAtMs, now, { lead_score_inactive_at: now });
+    changes.push([String(c.id), score]);
+    if (score !== decay.score) breakdown.push(scoreChange(String(c.id), LEAD_SCORE_INACTIVITY_SOURCE, decay.score, score, now));
+  }
+  await recordHistory(workspaceId, model, changes, "inactivity", now);
+  await recordChanges(workspaceId, breakdown);
+  return rows.length;
+}
 
-  try {
-    const body = await req.json().catch(() => ({}));
-    const workspaceId = String(body?.workspaceId ?? "default") || "default";
-    const limit = Math.max(1, Math.min(500, Number(body?.limit ?? 200)));
+async function applyDecay(workspaceId: string, model: LeadScoringModel): Promise<number> {
+  if (model.decay.mode === "none") return 0;
+  const cursor = await loadCursor(workspaceId);
+  const nowMs = Date.now();
+  if (cursor?.last_decay_at && nowMs - Date.parse(String(cursor.last_decay_at)) < DAY_MS) return 0;
 
-    const cursorRows = await dbFetch(
-      `lead_score_cursor?select=id,last_occurred_at,last_event_id&workspace_id=eq.${encodeURIComponent(workspaceId)}&order=updated_at.desc&limit=1`,
-      { method: "GET" },
+  const now = new Date(nowMs).toISOString();
+  const base = clampScore(model, 0);
+  const changes: Array<[string, number]> = [];
+  const breakdown: ScoreChange[] = [];
+  for (let after = ""; ; ) {
+    const page = await dbSelect(
+      `contacts?select=id,lead_score,lead_score_decayed_at&workspace_id=eq.${q(workspaceId)}&lead_score=neq.${base}&lead_score_decayed_at=not.is.null${after ? `&id=gt.${q(after)}` : ""}&order=id.asc&limit=${PAGE}`,
     );
-    const cursor = Array.isArray(cursorRows) ? cursorRows[0] : null;
-    const lastTs = cursor?.last_occurred_at ? String(cursor.last_occurred_at) : null;
+    for (const c of page) {
+      const score = Number(c.lead_score ?? 0);
+      const { score: next, decayedAtMs } = decayScoreSince(model, score, Date.parse(String(c.lead_score_decayed_at)), nowMs);
+      // Unchanged scores keep their timestamp, so slow decay still adds up over several passes.
+      if (next === score) continue;
+      await patchScore(workspaceId, String(c.id), model, next, decayedAtMs, now);
+      changes.push([String(c.id), next]);
+      breakdown.push(scoreChange(String(c.id), LEAD_SCORE_DECAY_SOURCE, score, next, now));
+    }
+    if (page.length < PAGE) break;
+    after = String(page[page.length - 1].id);
+  }
+  // Scores from before decay tracking start decaying from now.
+  await dbPatch(`contacts?workspace_id=eq.${q(workspaceId)}&lead_score_decayed_at=is.null`, { lead_score_decayed_at: now });
+  await recordHistory(workspaceId, model, changes, "decay", now);
+  await recordChanges(workspaceId, breakdown);
+  await saveCursor(workspaceId, cursor?.id ? String(cursor.id) : null, { last_decay_at: now });
+  return changes.length;
+}
 
-    const events = await dbFetch(
-      `contact_events?select=id,contact_id,event_type,occurred_at,meta&workspace_id=eq.${encodeURIComponent(workspaceId)}${lastTs ? `&occurred_at=gt.${encodeURIComponent(lastTs)}` : ""}&order=occurred_at.asc&limit=${limit}`,
-      { method: "GET" },
+async function applyFit(workspaceId: string, model: LeadScoringModel, force = false): Promise<number> {
+  const fit = model.models.filter((m) => m.kind === "fit");
+  if (fit.length === 0) return 0;
+  const cursor = await loadCursor(workspaceId);
+  const hash = fitHash(fit);
+  const since = !force && cursor?.fit_hash === hash && cursor?.last_fit_at ? String(cursor.last_fit_at) : null;
+  // Contacts this pass updates count as updated after `startedAt`, so the next pass checks them once more
+  // (and finds nothing to change).
+  const startedAt = new Date().toISOString();
+  let updated = 0;
+  for (let after = ""; ; ) {
+    // SEGMENT_CONTACT_COLUMNS includes `scores`.
+    const page = await dbSelect(
+      `contacts?select=id,${SEGMENT_CONTACT_COLUMNS}&workspace_id=eq.${q(workspaceId)}${since ? `&updated_at=gte.${q(since)}` : ""}${after ? `&id=gt.${q(after)}` : ""}&order=id.asc&limit=${PAGE}`,
     );
-    const evs = Array.isArray(events) ? events : [];
-    if (evs.length === 0) return json({ ok: true, processedEvents: 0, updatedContacts: 0 });
+    for (const c of page) {
+      const scores: Record<string, number> = { ...(c.scores ?? {}) };
+      let changed = false;
+      for (const m of fit) {
+        const next = fitScore(m, c);
+        if (scores[m.key] === next) continue;
+        scores[m.key] = next;
+        changed = true;
+      }
+      if (!changed) continue;
+      await dbPatch(`contacts?workspace_id=eq.${q(workspaceId)}&id=eq.${q(String(c.id))}`, {
+        scores,
+        updated_at: new Date().toISOString(),
+      });
+      updated++;
+    }
+    if (page.length < PAGE) break;
+    after = String(page[page.length - 1].id);
+  }
+  await saveCursor(workspaceId, cursor?.id ? String(cursor.id) : null, { last_fit_at: startedAt, fit_hash: hash });
+  return updated;
+}
+
+/**
+ * Rebuilds the next batch of contacts (in id order) from their contact_events with the current model.
+ * Progress is kept on the cursor (recalc_after), so a failed or timed-out call resumes where it stopped;
+ * `restart` begins a new recalculation. Events up to the incremental cursor are replayed, later ones are
+ * left to the incremental pass.
+ */
+async function recalculate(workspaceId: string, model: LeadScoringModel, opts: { restart: boolean; batch: number }) {
+  let cursor = await loadCursor(workspaceId);
+  if (opts.restart || !cursor?.recalc_started_at) {
+    const startedAt = new Date().toISOString();
+    const fields: Record<string, unknown> = { recalc_started_at: startedAt, recalc_after: "" };
+    if (!cursor?.last_occurred_at) {
+      const latest = await dbSelectOne(
+        `contact_events?select=id,occurred_at&workspace_id=eq.${q(workspaceId)}&order=occurred_at.desc,id.desc`,
+      );
+      fields.last_occurred_at = latest?.occurred_at ?? startedAt;
+      fields.last_event_id = latest?.id ?? null;
+    }
+    await saveCursor(workspaceId, cursor?.id ? String(cursor.id) : null, fields);
+    cursor = await loadCursor(workspaceId);
+  }
+  const after = String(cursor?.recalc_after ?? "");
+  const cutoff = String(cursor?.last_occurred_at ?? "");
 
-    // Aggregate deltas per contact
-    const deltas = new Map<string, number>();
-    for (const ev of evs) {
+  const contacts = await dbSelect(
+    `contacts?select=id,lead_score,scores&workspace_id=eq.${q(workspaceId)}${after ? `&id=gt.${q(after)}` : ""}&order=id.asc&limit=${opts.batch}`,
+  );
+  const ids = contacts.map((c) => String(c.id));
+  const base = clampScore(model, 0);
+  const nowMs = Date.now();
+  const now = new Date(nowMs).toISOString();
+  // Score per contact, when its decay was last brought up to date (so decay applies between events) and the
+  // decay so far.
+  const scores = new Map<string, { score: number; at: number; decay: number }>();
+  const engagement = engagementModels(model);
+  const named = new Map<string, Record<string, number>>();
+  const breakdown: ScoreChange[] = [];
+  let replayed = 0;
+  for (let offset = 0; ids.length > 0; offset += PAGE) {
+    const page = await dbSelect(
+      `contact_events?select=id,contact_id,event_type,occurred_at,meta&workspace_id=eq.${q(workspaceId)}&contact_id=in.${inList(ids)}&occurred_at=lte.${q(cutoff)}&order=occurred_at.asc,id.asc&limit=${PAGE}&offset=${offset}`,
+    );
+    for (const ev of page) {
       const cid = String(ev.contact_id ?? "");
-      if (!cid) continue;
-      const d = scoreDelta(ev);
-      if (!d) continue;
-      deltas.set(cid, (deltas.get(cid) ?? 0) + d);
+      const { points, rule } = scoreEvent(model, ev);
+      if (cid && points) {
+        const at = Date.parse(String(ev.occurred_at ?? "")) || nowMs;
+        const prev = scores.get(cid) ?? { score: base, at, decay: 0 };
+        const { score: decayed, decayedAtMs } = decayScoreSince(model, prev.score, prev.at, at);
+        const next = clampScore(model, decayed + points);
+        scores.set(cid, { score: next, at: decayedAtMs, decay: prev.decay + decayed - prev.score });
+        if (next !== decayed) {
+          const source = scoreSource(String(ev.event_type ?? ""), rule);
+          breakdown.push(scoreChange(cid, source, decayed, next, String(ev.occurred_at ?? new Date(at).toISOString()), ev));
+        }
+      }
+      for (const m of engagement) {
+        const pts = cid ? scoreEvent(m, ev).points : 0;
+        if (!pts) continue;
+        const values = named.get(cid) ?? {};
+        values[m.key] = clampScore(m, (values[m.key] ?? clampScore(m, 0)) + pts);
+        named.set(cid, values);
+      }
     }
+    replayed += page.length;
+    if (page.length < PAGE) break;
+  }
 
-    let updated = 0;
-    for (const [contactId, delta] of deltas.entries()) {
-      const rows = await dbFetch(
-        `contacts?select=id,lead_score,temperature&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}&limit=1`,
-        { method: "GET" },
-      );
-      const c = Array.isArray(rows) ? rows[0] : null;
-      const current = Number(c?.lead_score ?? 0);
-      const nextScore = clamp(current + delta, 0, 100);
-      const nextTemp = tempFromScore(nextScore);
-
-      await dbFetch(`contacts?workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(contactId)}`, {
-        method: "PATCH",
-        headers: { Prefer: "return=minimal" },
-        body: JSON.stringify({
-          lead_score: nextScore,
-          temperature: nextTemp,
-          updated_at: new Date().toISOString(),
-        }),
-      });
+  // The batch starts from the base score; contacts with scored events are then set individually.
+  if (ids.length > 0) {
+    await dbPatch(`contacts?workspace_id=eq.${q(workspaceId)}&id=in.${inList(ids)}`, {
+      lead_score: base,
+      temperature: temperatureForScore(model, base),
+      lead_score_inactive_at: null,
+      lead_score_decayed_at: now,
+      updated_at: now,
+    });
+  }
+  const fitKeys = new Set(model.models.filter((m) => m.kind === "fit").map((m) => m.key));
+  const changes: Array<[string, number]> = [];
+  let updated = 0;
+  for (const c of contacts) {
+    const contactId = String(c.id);
+    let next = base;
+    let decayedAtMs = nowMs;
+    const replay = scores.get(contactId);
+    if (replay) {
+      ({ score: next, decayedAtMs } = decayScoreSince(model, replay.score, replay.at, nowMs));
+      // Decay between events and up to now, as a single contribution.
+      const decayed = replay.decay + next - replay.score;
+      if (decayed !== 0) breakdown.push(scoreChange(contactId, LEAD_SCORE_DECAY_SOURCE, next - decayed, next, now));
+    }
+    // Engagement scores come from the replay; fit scores are kept and re-scored once the last batch is done.
+    const current: Record<string, number> = c.scores ?? {};
+    const values = { ...Object.fromEntries(Object.entries(current).filter(([k]) => fitKeys.has(k))), ...(named.get(contactId) ?? {}) };
+    const extra = JSON.stringify(values) !== JSON.stringify(current) ? { scores: values } : {};
+    if (next !== base) {
+      await patchScore(workspaceId, contactId, model, next, decayedAtMs, now, extra);
       updated++;
+    } else if (extra.scores) {
+      await dbPatch(`contacts?workspace_id=eq.${q(workspaceId)}&id=eq.${q(contactId)}`, { ...extra, updated_at: now });
     }
+    if (next !== base || Number(c.lead_score ?? base) !== base) changes.push([contactId, next]);
+  }
+  await recordHistory(workspaceId, model, changes, "recalculate", now);
+  // The batch's new breakdown goes in before its old one is removed, so a contact is never left without one.
+  await recordChanges(workspaceId, breakdown, now);
+  if (ids.length > 0) {
+    await dbDelete(`lead_score_changes?workspace_id=eq.${q(workspaceId)}&contact_id=in.${inList(ids)}&created_at=lt.${q(now)}`);
+  }
 
-    // Advance cursor
-    const last = evs[evs.length - 1];
-    const patch = {
-      workspace_id: workspaceId,
-      last_occurred_at: last.occurred_at,
-      last_event_id: last.id,
-      updated_at: new Date().toISOString(),
-    };
-    if (cursor?.id) {
-      await dbFetch(`lead_score_cursor?workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(String(cursor.id))}`, {
-        method: "PATCH",
-        headers: { Prefer: "return=minimal" },
-        body: JSON.stringify(patch),
-      });
-    } else {
-      await dbFetch("lead_score_cursor", {
-        method: "POST",
-        headers: { Prefer: "return=minimal" },
-        body: JSON.stringify([patch]),
-      });
+  const done = contacts.length < opts.batch;
+  await saveCursor(
+    workspaceId,
+    cursor?.id ? String(cursor.id) : null,
+    done ? { recalc_started_at: null, recalc_after: null } : { recalc_after: ids[ids.length - 1] },
+  );
+  const fitContacts = done ? await applyFit(workspaceId, model, true) : 0;
+  return { done, replayedEvents: replayed, updatedContacts: updated, fitContacts };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const workspaceId = String(body?.workspaceId ?? "default") || "default";
+    // Recalculation is started from Settings, so signed-in workspace users may call this too.
+    const auth = await requireRunnerTokenOrWorkspaceUser(req, workspaceId);
+    if (auth) return auth;
+
+    const model = await loadModel(workspaceId);
+    if (String(body?.mode ?? "") === "recalculate") {
+      const batch = Math.max(1, Math.min(500, Number(body?.batch ?? RECALC_BATCH)));
+      const result = await recalculate(workspaceId, model, { restart: Boolean(body?.restart), batch });
+      return json({ ok: true, mode: "recalculate", ...result });
     }
 
-    return json({ ok: true, processedEvents: evs.length, updatedContacts: updated });
+    const limit = Math.max(1, Math.min(500, Number(body?.limit ?? 200)));
+    const result = await incremental(workspaceId, model, limit);
+    const inactiveContacts = await applyInactivity(workspaceId, model);
+    const decayedContacts = await applyDecay(workspaceId, model);
+    const fitContacts = await applyFit(workspaceId, model);
+    return json({ ok: true, ...result, inactiveContacts, decayedContacts, fitContacts });
   } catch (e) {
     const message = e instanceof Error ? e.message : String(e);
     return json({ error: message }, 500);
   }
 });
-
-
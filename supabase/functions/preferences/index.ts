@@ -0,0 +1,158 @@
+// Supabase Edge Function: preferences (GET + POST)
+//
+// Hosted preference center, linked from every email footer (email-send-worker) with the same signed token
+// as the unsubscribe link. Contacts can:
+// - follow / leave topics: the lists in workspace_settings.preference_lists, mapped to contacts.lists
+//   through apply_contact_change (list_joined / list_left events)
+// - switch to a weekly digest (contacts.email_frequency)
+// - pause all emails for 30 days (contacts.paused_until)
+// - unsubscribe from everything (unsubscribed event)
+// Senders respect these through _shared/preferences.ts.
+//
+// Deploy:
+//   supabase functions deploy preferences
+//
+// Secrets:
+//   supabase secrets set SUPABASE_SERVICE_ROLE_KEY=...
+//   supabase secrets set UNSUBSCRIBE_SIGNING_KEY=...   (same key as the unsubscribe function)
+
+import { html } from "../_shared/http.ts";
+import { dbPatch, dbRpc, dbSelectOne, q } from "../_shared/db.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import {
+  EMAIL_FREQUENCIES,
+  PAUSE_DAYS,
+  pausedUntil,
+  readEmailFrequency,
+  readPreferenceLists,
+} from "../_shared/preferences.ts";
+import { readContactToken, unsubscribeContact } from "../_shared/unsubscribe.ts";
+
+declare const Deno: any;
+
+function page(title: string, body: string, status = 200) {
+  return html(`<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title></head>
+<body style="margin:0;background:#f1f5f9;font-family:Inter,Arial,sans-serif;color:#0f172a;">
+<div style="max-width:520px;margin:32px auto;background:#fff;border:1px solid #e2e8f0;border-radius:12px;padding:24px;">
+${body}
+</div></body></html>`, status);
+}
+
+function onList(lists: string[], list: string) {
+  return lists.some((l) => l.toLowerCase() === list.toLowerCase());
+}
+
+type Loaded = {
+  contact: any;
+  lists: string[];
+  topics: string[];
+  companyName: string;
+};
+
+async function load(workspaceId: string, contactId: string): Promise<Loaded | null> {
+  const contact = await dbSelectOne(
+    `contacts?select=id,email,lists,unsubscribed,email_frequency,paused_until&workspace_id=eq.${q(workspaceId)}&id=eq.${q(contactId)}`,
+  );
+  if (!contact) return null;
+  const settings = await dbSelectOne(`workspace_settings?select=company_name,preference_lists&workspace_id=eq.${q(workspaceId)}`);
+  return {
+    contact,
+    lists: (Array.isArray(contact.lists) ? contact.lists : []).map((l: unknown) => String(l ?? "")),
+    topics: readPreferenceLists(settings?.preference_lists),
+    companyName: String(settings?.company_name ?? "").trim(),
+  };
+}
+
+function render(token: string, d: Loaded, notice = "") {
+  const from = d.companyName ? ` from ${escapeHtml(d.companyName)}` : "";
+  const heading = `<h2 style="margin:0 0 4px;">Email preferences</h2>
+<p style="margin:0 0 20px;color:#64748b;font-size:14px;">${escapeHtml(String(d.contact.email ?? ""))}</p>`;
+  const note = notice ? `<p style="background:#ecfdf5;color:#047857;border-radius:8px;padding:10px 12px;font-size:14px;">${escapeHtml(notice)}</p>` : "";
+
+  if (d.contact.unsubscribed === true) {
+    return page("Email preferences", `${heading}${note}<p>You're unsubscribed from all emails${from}.</p>`);
+  }
+
+  const frequency = readEmailFrequency(d.contact.email_frequency);
+  const paused = pausedUntil(d.contact, new Date());
+  const label = "display:flex;gap:8px;align-items:flex-start;margin:8px 0;font-size:14px;";
+  const section = "margin:20px 0 8px;font-size:13px;font-weight:700;text-transform:uppercase;letter-spacing:.04em;color:#64748b;";
+
+  const topics = d.topics.length > 0
+    ? `<div style="${section}">Topics</div>` + d.topics.map((t) =>
+      `<label style="${label}"><input type="checkbox" name="list" value="${escapeHtml(t)}"${onList(d.lists, t) ? " checked" : ""} /> ${escapeHtml(t)}</label>`
+    ).join("")
+    : "";
+  const frequencies = `<div style="${section}">How often</div>` + EMAIL_FREQUENCIES.map((f) =>
+    `<label style="${label}"><input type="radio" name="frequency" value="${f.value}"${frequency === f.value ? " checked" : ""} />
+<span>${escapeHtml(f.label)}<br /><span style="color:#64748b;font-size:13px;">${escapeHtml(f.hint)}</span></span></label>`
+  ).join("");
+  const pause = `<div style="${section}">Take a break</div>
+<label style="${label}"><input type="checkbox" name="pause" value="1"${paused ? " checked" : ""} />
+${paused ? `Emails paused until ${escapeHtml(paused.toISOString().slice(0, 10))}` : `Pause all emails for ${PAUSE_DAYS} days`}</label>`;
+
+  const button = "display:inline-block;border-radius:8px;padding:10px 16px;font-size:14px;font-weight:700;cursor:pointer;";
+  return page("Email preferences", `${heading}${note}
+<form method="POST" action="?token=${encodeURIComponent(token)}">
+${topics}${frequencies}${pause}
+<div style="margin-top:24px;display:flex;gap:8px;flex-wrap:wrap;">
+<button type="submit" name="action" value="save" style="${button}border:0;background:#0284c7;color:#fff;">Save preferences</button>
+<button type="submit" name="action" value="unsubscribe" style="${button}border:1px solid #e2e8f0;background:#fff;color:#b91c1c;">Unsubscribe from everything</button>
+</div>
+</form>`);
+}
+
+async function save(workspaceId: string, d: Loaded, form: FormData) {
+  const chosen = form.getAll("list").map((v) => String(v ?? ""));
+  for (const topic of d.topics) {
+    const want = onList(chosen, topic);
+    if (want === onList(d.lists, topic)) continue;
+    await dbRpc("apply_contact_change", {
+      p_workspace_id: workspaceId,
+      p_contact_id: String(d.contact.id),
+      p_change: want ? "add_to_list" : "remove_from_list",
+      p_value: topic,
+      p_meta: { source: "preferences" },
+    });
+  }
+
+  const patch: Record<string, unknown> = {};
+  const frequency = readEmailFrequency(form.get("frequency"));
+  if (frequency !== readEmailFrequency(d.contact.email_frequency)) patch.email_frequency = frequency;
+  const pause = form.get("pause") === "1";
+  const paused = pausedUntil(d.contact, new Date());
+  if (pause && !paused) patch.paused_until = new Date(Date.now() + PAUSE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  if (!pause && paused) patch.paused_until = null;
+  if (Object.keys(patch).length > 0) {
+    await dbPatch(`contacts?workspace_id=eq.${q(workspaceId)}&id=eq.${q(String(d.contact.id))}`, {
+      ...patch,
+      updated_at: new Date().toISOString(),
+    });
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  try {
+    const token = new URL(req.url).searchParams.get("token") ?? "";
+    const r = await readContactToken(token);
+    if ("error" in r) return page("Email preferences", `<h2>${escapeHtml(r.error)}</h2>`, r.status);
+
+    const d = await load(r.workspaceId, r.contactId);
+    if (!d) return page("Email preferences", "<h2>Invalid link</h2>", 404);
+    if (req.method !== "POST") return render(token, d);
+
+    const form = await req.formData();
+    if (String(form.get("action") ?? "") === "unsubscribe") {
+      await unsubscribeContact(r.workspaceId, r.contactId, "preferences");
+    } else if (d.contact.unsubscribed !== true) {
+      await save(r.workspaceId, d, form);
+    }
+    const next = await load(r.workspaceId, r.contactId);
+    return render(token, next ?? d, "Your preferences have been saved.");
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return page("Error", `<h2>Error</h2><pre>${escapeHtml(msg)}</pre>`, 500);
+  }
+});
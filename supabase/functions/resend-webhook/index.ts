@@ -4,6 +4,7 @@
 // - public.resend_events (raw)
 // - public.email_sends (status/timestamps)
 // - public.contacts suppression flags and counters
+// - public.suppressions (bounced / complained recipients)
 // - public.contact_events timeline
 //
 // Deploy:
@@ -16,36 +17,11 @@
 // NOTE: Signature validation is provider-specific; implement once Resend signature details are confirmed.
 
 // Avoid TS errors in the Vite workspace: these globals exist in the Supabase Edge runtime.
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
+import { corsHeaders, json } from "../_shared/http.ts";
+import { dbFetch } from "../_shared/db.ts";
+import { readSuppressionTarget, suppressionRow } from "../_shared/suppressions.ts";
 
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
+declare const Deno: any;
 
 function toWorkspaceId(payload: any): string {
   // Single-tenant default for now.
@@ -71,6 +47,7 @@ Deno.serve(async (req) => {
     const data = payload?.data ?? payload;
     const providerMessageId = String(data?.email_id ?? data?.id ?? data?.emailId ?? "").trim();
     const toEmail = String(data?.to ?? data?.recipient ?? data?.email ?? "").trim();
+    let recipient = toEmail;
 
     // Store raw event
     await dbFetch("resend_events", {
@@ -107,6 +84,7 @@ Deno.serve(async (req) => {
       );
       const send = Array.isArray(sendRows) ? sendRows[0] : null;
       const contactId = send?.contact_id ? String(send.contact_id) : null;
+      recipient = recipient || String(send?.to_email ?? "").trim();
 
       // Update contact flags/counters (best-effort)
       if (contactId) {
@@ -159,6 +137,18 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Bounced / complaining addresses go on the suppression list (replacing a milder reason such as unsubscribed)
+    const bounced = eventType.includes("bounced");
+    const complained = eventType.includes("complain") || eventType.includes("complaint");
+    const target = readSuppressionTarget(recipient);
+    if ((bounced || complained) && target?.kind === "email") {
+      await dbFetch("suppressions", {
+        method: "POST",
+        headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+        body: JSON.stringify([suppressionRow(workspaceId, { ...target, reason: complained ? "complained" : "bounced", source: "resend-webhook" })]),
+      });
+    }
+
     return json({ ok: true });
   } catch (e) {
     const message = e instanceof Error ? e.message : String(e);
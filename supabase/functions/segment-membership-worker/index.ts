@@ -0,0 +1,85 @@
+// Supabase Edge Function: segment-membership-worker
+//
+// Keeps materialized segment membership (segment_memberships) up to date for every segment used by a
+// segment entry / exit trigger of a running automation (saved segments by id, or conditions defined on
+// the trigger itself), and writes `segment_entered` /
+// `segment_exited` contact events for contacts that start / stop matching
+// (see _shared/segmentMembership.ts). automation-scanner then starts the runs.
+//
+// Deploy:
+//   supabase functions deploy segment-membership-worker
+//
+// Secrets:
+//   supabase secrets set SUPABASE_SERVICE_ROLE_KEY=...
+//
+// Trigger:
+// - automation-runner calls it before automation-scanner; the app also calls it after contact edits.
+
+import { corsHeaders, json } from "../_shared/http.ts";
+import { requireRunnerTokenOrWorkspaceUser } from "../_shared/auth.ts";
+import { dbSelect, inList, q } from "../_shared/db.ts";
+import { stepKind, toGraph } from "../_shared/automationGraph.ts";
+import { segmentConditions, triggerSegmentKey, type SegmentLike } from "../_shared/segments.ts";
+import { syncSegmentMembership, type SegmentSyncResult } from "../_shared/segmentMembership.ts";
+
+declare const Deno: any;
+
+const SEGMENT_TRIGGER_KINDS = ["trigger.segment_entered", "trigger.segment_exited"];
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const workspaceId = String(body?.workspaceId ?? "default") || "default";
+    const auth = await requireRunnerTokenOrWorkspaceUser(req, workspaceId);
+    if (auth) return auth;
+
+    const autos = await dbSelect(
+      `automations?select=id,steps,edges&workspace_id=eq.${q(workspaceId)}&status=eq.Running&limit=200`,
+    );
+    const triggers = autos.flatMap((a) =>
+      toGraph(a.steps, a.edges).nodes.filter((n) => n.type === "trigger" && SEGMENT_TRIGGER_KINDS.includes(stepKind(n))),
+    );
+    const savedIds = [...new Set(triggers.map((n) => String(n.config?.segmentId ?? "").trim()).filter(Boolean))];
+    const saved = new Map<string, { name: string; definition: SegmentLike }>();
+    if (savedIds.length > 0) {
+      const rows = await dbSelect(
+        `segments?select=id,name,definition&workspace_id=eq.${q(workspaceId)}&id=in.${inList(savedIds)}`,
+      );
+      for (const r of rows) saved.set(String(r.id), { name: String(r.name ?? ""), definition: r.definition ?? null });
+    }
+
+    // One sync per distinct segment, however many triggers use it.
+    const segments = new Map<string, { name: string; definition: SegmentLike }>();
+    for (const n of triggers) {
+      const savedId = String(n.config?.segmentId ?? "").trim();
+      const savedSegment = savedId ? saved.get(savedId) : undefined;
+      // A deleted saved segment has nothing left to evaluate.
+      if (savedId && !savedSegment) continue;
+      const definition = (savedSegment ? savedSegment.definition : n.config?.segment ?? null) as SegmentLike | null;
+      // A segment without conditions matches everyone; not a useful trigger.
+      if (!definition || segmentConditions(definition).length === 0) continue;
+      const key = triggerSegmentKey(n.config);
+      const name = savedSegment?.name || String(n.config?.segmentName ?? "").trim() || n.title;
+      if (!segments.has(key)) segments.set(key, { name, definition });
+    }
+
+    const results: SegmentSyncResult[] = [];
+    for (const [key, seg] of segments) {
+      results.push(await syncSegmentMembership({ workspaceId, key, name: seg.name, definition: seg.definition }));
+    }
+
+    return json({
+      ok: true,
+      segments: results.length,
+      entered: results.reduce((a, r) => a + r.entered, 0),
+      exited: results.reduce((a, r) => a + r.exited, 0),
+      results,
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json({ error: message }, 500);
+  }
+});
@@ -3,55 +3,30 @@
 //   supabase functions deploy send-bulk-email
 //
 // Frontend calls:
-//   supabase.functions.invoke('send-bulk-email', { body: { workspaceId?, subject, body, maxRecipients?, pageSize?, segmentJson?, contactIds?, sendImmediately?, dryRun? } })
+//   supabase.functions.invoke('send-bulk-email', { body: { workspaceId?, subject, body, maxRecipients?, pageSize?, segmentJson?, segmentId?, contactIds?, sendImmediately?, dryRun? } })
+//
+// `segmentId` references a saved segment (public.segments) and takes precedence over `segmentJson`.
 //
 // By default this function enqueues rows into `email_sends`; `email-send-worker` performs delivery.
-// If `sendImmediately=true`, we send synchronously via Resend (requires RESEND_API_KEY) and record `email_sends` as sent/failed.
+// If `sendImmediately=true`, we send synchronously via Resend (requires RESEND_API_KEY) and record `email_sends` as sent/failed;
+// recipients on the suppression list (public.suppressions) are recorded as suppressed instead, like email-send-worker does.
 
 // Avoid TS errors in the Vite workspace: these globals exist in the Supabase Edge runtime.
+import { corsHeaders, json } from "../_shared/http.ts";
+import { userDbFetch as pgFetch, inList } from "../_shared/db.ts";
+import { renderSimpleEmail, renderSimpleText } from "../_shared/emailRender.ts";
+import { customFieldVars } from "../_shared/customFields.ts";
+import { pausedUntil } from "../_shared/preferences.ts";
+import { matchSuppression, suppressionKeys, type Suppression } from "../_shared/suppressions.ts";
+import { evalSegment, segmentContactFilter, SEGMENT_CONTACT_COLUMNS } from "../_shared/segments.ts";
+import { loadSegmentActivity } from "../_shared/segmentActivity.ts";
+
 declare const Deno: any;
 
 const BULK_CAMPAIGN_ID = "bulk_email"; // required because email_sends.campaign_id is NOT NULL in schema
 const MAX_IMMEDIATE_RECIPIENTS = 50;
 
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
-
-function normalize(s: unknown): string {
-  return String(s ?? "").trim().toLowerCase();
-}
-
-function escapeHtml(s: string) {
-  return String(s ?? "")
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#039;");
-}
-
-function applyVars(s: string, vars: Record<string, string>) {
-  let out = s ?? "";
-  for (const [k, v] of Object.entries(vars)) out = out.replaceAll(`{{${k}}}`, v);
-  return out;
-}
-
-function renderSimpleEmail(body: string, vars: Record<string, string>) {
-  const out = applyVars(body ?? "", vars);
-  return `<div style="font-family: Inter, Arial, sans-serif; font-size: 14px; line-height: 1.55; color: #0f172a; white-space: pre-wrap;">${escapeHtml(out)}</div>`;
-}
-
-async function resendSend(apiKey: string, payload: { to: string; subject: string; html?: string; from: string }) {
+async function resendSend(apiKey: string, payload: { to: string; subject: string; html?: string; text?: string; from: string }) {
   const res = await fetch("https://api.resend.com/emails", {
     method: "POST",
     headers: {
@@ -63,6 +38,7 @@ async function resendSend(apiKey: string, payload: { to: string; subject: string
       to: payload.to,
       subject: payload.subject,
       html: payload.html,
+      text: payload.text,
     }),
   });
   const text = await res.text();
@@ -70,60 +46,7 @@ async function resendSend(apiKey: string, payload: { to: string; subject: string
   return text ? JSON.parse(text) : null;
 }
 
-// SegmentDefinition-compatible evaluator (same shape as UI + schedulers).
-function evalSegment(contact: any, seg: any): boolean {
-  if (!seg || typeof seg !== "object") return true;
-  const logic = String(seg.logic ?? "AND").toUpperCase() === "OR" ? "OR" : "AND";
-  const conds = Array.isArray(seg.conditions) ? seg.conditions : [];
-  if (conds.length === 0) return true;
-
-  const stage = normalize(contact.lifecycle_stage);
-  const temp = normalize(contact.temperature);
-  const tags: string[] = Array.isArray(contact.tags) ? contact.tags.map(normalize) : [];
-  const lists: string[] = Array.isArray(contact.lists) ? contact.lists.map(normalize) : [];
-  const leadScore = Number(contact.lead_score ?? 0);
-  const status = String(contact.status ?? "");
-
-  const check = (c: any) => {
-    const field = String(c.field ?? "");
-    const op = String(c.op ?? "");
-    const value = c.value;
-    if (field === "lifecycleStage") return stage === normalize(value);
-    if (field === "temperature") return temp === normalize(value);
-    if (field === "status") return status === String(value ?? "");
-    if (field === "tag") return tags.some((t) => t === normalize(value) || t.includes(normalize(value)));
-    if (field === "list") return lists.some((t) => t === normalize(value) || t.includes(normalize(value)));
-    if (field === "leadScore") {
-      const v = Number(value ?? 0);
-      if (op === ">=") return leadScore >= v;
-      if (op === "<=") return leadScore <= v;
-      if (op === ">") return leadScore > v;
-      if (op === "<") return leadScore < v;
-    }
-    return true;
-  };
-
-  return logic === "AND" ? conds.every(check) : conds.some(check);
-}
-
 // Minimal PostgREST access with the user's JWT (RLS applies).
-async function pgFetch(req: Request, path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const anon = Deno.env.get("SUPABASE_ANON_KEY");
-  if (!url || !anon) throw new Error("Missing SUPABASE_URL / SUPABASE_ANON_KEY in Edge Function env");
-  const auth = req.headers.get("Authorization") ?? "";
-  const headers: Record<string, string> = {
-    apikey: anon,
-    Authorization: auth,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
-
 async function ensureBulkCampaign(req: Request, workspaceId: string) {
   const existing = await pgFetch(
     req,
@@ -160,16 +83,6 @@ function chunk<T>(xs: T[], size: number): T[][] {
   return out;
 }
 
-function toInList(ids: string[]): string {
-  // Encode each item but keep commas/parentheses unencoded for PostgREST parsing.
-  return ids
-    .map((id) => {
-      const safe = String(id ?? "").replaceAll('"', '\\"');
-      return encodeURIComponent(`"${safe}"`);
-    })
-    .join(",");
-}
-
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
   if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
@@ -186,7 +99,8 @@ Deno.serve(async (req) => {
     const dryRun = Boolean(body?.dryRun);
     const sendImmediately = Boolean(body?.sendImmediately);
     const sampleSize = Math.max(0, Math.min(25, Number(body?.sampleSize ?? 10)));
-    const segmentJson = body?.segmentJson ?? null;
+    const segmentId = String(body?.segmentId ?? "").trim();
+    let segmentJson = body?.segmentJson ?? null;
     const contactIdsRaw = body?.contactIds;
     const contactIds =
       Array.isArray(contactIdsRaw) ? contactIdsRaw.map((x: any) => String(x ?? "").trim()).filter(Boolean) : [];
@@ -199,7 +113,20 @@ Deno.serve(async (req) => {
     if (!subject) return json({ error: "Missing subject" }, 400);
     if (!textBody) return json({ error: "Missing body" }, 400);
 
-    const recipients: Array<{ id: string; email: string; firstName: string; lastName: string }> = [];
+    if (segmentId && contactIds.length === 0) {
+      const segmentRows = await pgFetch(
+        req,
+        `segments?select=definition&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(segmentId)}&limit=1`,
+        { method: "GET" },
+      );
+      const saved = Array.isArray(segmentRows) ? segmentRows[0] : null;
+      if (!saved) return json({ error: "Segment not found" }, 404);
+      segmentJson = saved.definition ?? null;
+    }
+
+    // Contacts who paused emails in the preference center are left out.
+    const startedAt = new Date();
+    const recipients: Array<{ id: string; email: string; firstName: string; lastName: string; attributes: unknown }> = [];
 
     if (contactIds.length > 0) {
       // Fetch only selected contacts (still enforcing eligible rules server-side).
@@ -208,45 +135,55 @@ Deno.serve(async (req) => {
       for (const ids of batches) {
         const rows = await pgFetch(
           req,
-          `contacts?select=id,email,first_name,last_name,status,unsubscribed,bounced,spam_complaint,lifecycle_stage,temperature,tags,lists,lead_score&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.Subscribed&unsubscribed=is.false&bounced=is.false&spam_complaint=is.false&id=in.(${toInList(ids)})&limit=${ids.length}`,
+          `contacts?select=id,email,first_name,last_name,unsubscribed,bounced,spam_complaint,paused_until,${SEGMENT_CONTACT_COLUMNS}&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.Subscribed&unsubscribed=is.false&bounced=is.false&spam_complaint=is.false&id=in.${inList(ids)}&limit=${ids.length}`,
           { method: "GET" },
         );
         (Array.isArray(rows) ? rows : []).forEach((c: any) => {
           const email = String(c.email ?? "").trim();
-          if (!email) return;
+          if (!email || pausedUntil(c, startedAt)) return;
           recipients.push({
             id: String(c.id ?? ""),
             email,
             firstName: String(c.first_name ?? "").trim(),
             lastName: String(c.last_name ?? "").trim(),
+            attributes: c.attributes ?? null,
           });
         });
       }
     } else {
-      // Load recipients (subscribed + not suppressed), paged, then (optionally) segment-filtered.
+      // Load recipients (subscribed + not suppressed), paged. Postgres applies what it can of the segment;
+      // evalSegment makes the final call per contact.
+      const segmentFilter = segmentContactFilter(segmentJson).query;
       let offset = 0;
       while (recipients.length < maxRecipients) {
         const remaining = maxRecipients - recipients.length;
         const fetchN = Math.max(1, Math.min(pageSize, remaining));
         const contacts = await pgFetch(
           req,
-          `contacts?select=id,email,first_name,last_name,status,unsubscribed,bounced,spam_complaint,lifecycle_stage,temperature,tags,lists,lead_score&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.Subscribed&unsubscribed=is.false&bounced=is.false&spam_complaint=is.false&order=created_at.asc&limit=${fetchN}&offset=${offset}`,
+          `contacts?select=id,email,first_name,last_name,unsubscribed,bounced,spam_complaint,paused_until,${SEGMENT_CONTACT_COLUMNS}&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.Subscribed&unsubscribed=is.false&bounced=is.false&spam_complaint=is.false${segmentFilter}&order=created_at.asc&limit=${fetchN}&offset=${offset}`,
           { method: "GET" },
         );
         const rows = Array.isArray(contacts) ? contacts : [];
         if (rows.length === 0) break;
         offset += rows.length;
+        const activity = await loadSegmentActivity(
+          (path) => pgFetch(req, path, { method: "GET" }),
+          workspaceId,
+          rows.map((c: any) => String(c.id)),
+          segmentJson,
+        );
 
         for (const c of rows) {
           if (recipients.length >= maxRecipients) break;
-          if (segmentJson && !evalSegment(c, segmentJson)) continue;
+          if (segmentJson && !evalSegment(c, segmentJson, activity.get(String(c.id)))) continue;
           const email = String(c.email ?? "").trim();
-          if (!email) continue;
+          if (!email || pausedUntil(c, startedAt)) continue;
           recipients.push({
             id: String(c.id ?? ""),
             email,
             firstName: String(c.first_name ?? "").trim(),
             lastName: String(c.last_name ?? "").trim(),
+            attributes: c.attributes ?? null,
           });
         }
       }
@@ -278,6 +215,7 @@ Deno.serve(async (req) => {
       source: "send-bulk-email",
       body: textBody,
       segment: contactIds.length > 0 ? null : (segmentJson ?? null),
+      segment_id: contactIds.length > 0 ? null : (segmentId || null),
       selected_contact_ids: contactIds.length > 0 ? contactIds.slice(0, maxRecipients) : null,
     };
 
@@ -289,14 +227,27 @@ Deno.serve(async (req) => {
       }
 
       const from = `"${defaultFromName.replaceAll('"', "")}" <${defaultFromEmail}>`;
-      const results: Array<{ ok: boolean; providerId?: string; error?: string; r: any }> = [];
+      const results: Array<{ ok: boolean; providerId?: string; error?: string; suppressed?: Suppression; r: any }> = [];
+
+      const keys = Array.from(new Set(recipients.flatMap((r) => suppressionKeys(r.email))));
+      const suppressionRows = await pgFetch(
+        req,
+        `suppressions?select=kind,value,reason,source&workspace_id=eq.${encodeURIComponent(workspaceId)}&value=in.${inList(keys)}`,
+        { method: "GET" },
+      );
+      const deliverable = recipients.filter((r) => {
+        const suppressed = matchSuppression(r.email, suppressionRows);
+        if (suppressed) results.push({ ok: false, suppressed, r });
+        return !suppressed;
+      });
 
       // Send with small concurrency to keep within function limits.
-      const batches = chunk(recipients, 5);
+      const batches = chunk(deliverable, 5);
       for (const b of batches) {
         const settled = await Promise.allSettled(
           b.map(async (r) => {
             const vars = {
+              ...customFieldVars(r.attributes),
               firstName: String(r.firstName ?? ""),
               lastName: String(r.lastName ?? ""),
               email: String(r.email ?? ""),
@@ -304,7 +255,8 @@ Deno.serve(async (req) => {
               senderName: defaultFromName,
             };
             const html = renderSimpleEmail(textBody, vars);
-            const resp = await resendSend(resendApiKey, { to: r.email, subject, html, from });
+            const text = renderSimpleText(textBody, vars);
+            const resp = await resendSend(resendApiKey, { to: r.email, subject, html, text, from });
             const id = String(resp?.id ?? resp?.data?.id ?? "").trim();
             return { r, id };
           }),
@@ -320,7 +272,8 @@ Deno.serve(async (req) => {
       }
 
       const sent = results.filter((x) => x.ok).length;
-      const failed = results.filter((x) => !x.ok).length;
+      const suppressed = results.filter((x) => x.suppressed).length;
+      const failed = results.filter((x) => !x.ok && !x.suppressed).length;
 
       // Record results in email_sends for reporting/tracking updates.
       const inserts = results.map((x) => ({
@@ -332,12 +285,16 @@ Deno.serve(async (req) => {
         subject,
         provider: "resend",
         provider_message_id: x.ok ? (x.providerId || null) : null,
-        status: x.ok ? "sent" : "failed",
+        status: x.ok ? "sent" : x.suppressed ? "suppressed" : "failed",
         execute_at: now,
         sent_at: x.ok ? now : null,
         created_at: now,
         updated_at: now,
-        meta: x.ok ? meta : { ...meta, error: x.error || "Send failed" },
+        meta: x.ok
+          ? meta
+          : x.suppressed
+          ? { ...meta, suppressed: { kind: x.suppressed.kind, value: x.suppressed.value, reason: x.suppressed.reason } }
+          : { ...meta, error: x.error || "Send failed" },
       }));
 
       for (let i = 0; i < inserts.length; i += pageSize) {
@@ -349,10 +306,10 @@ Deno.serve(async (req) => {
       }
 
       const errorSamples = results
-        .filter((x) => !x.ok)
+        .filter((x) => !x.ok && !x.suppressed)
         .slice(0, 5)
         .map((x) => ({ to: String(x.r?.email ?? ""), error: String(x.error ?? "Send failed") }));
-      return json({ mode: "instant", sent, failed, from: defaultFromEmail, errors: errorSamples });
+      return json({ mode: "instant", sent, failed, suppressed, from: defaultFromEmail, errors: errorSamples });
     }
 
     // Queue mode (default). Delivery is handled by `email-send-worker`.
@@ -3,123 +3,22 @@
 //   supabase functions deploy send-campaign
 //
 // Frontend calls:
-//   supabase.functions.invoke('send-campaign', { body: { campaignId, workspaceId?, maxRecipients?, pageSize?, segmentJson?, dryRun? } })
+//   supabase.functions.invoke('send-campaign', { body: { campaignId, workspaceId?, maxRecipients?, pageSize?, segmentJson?, segmentId?, dryRun? } })
+//
+// `segmentId` references a saved segment (public.segments) and takes precedence over `segmentJson`.
 
 // Avoid TS errors in the Vite workspace: these globals exist in the Supabase Edge runtime.
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders, json } from "../_shared/http.ts";
+import { userDbFetch as pgFetch } from "../_shared/db.ts";
+import { evalSegment, segmentContactFilter, SEGMENT_CONTACT_COLUMNS } from "../_shared/segments.ts";
+import { loadSegmentActivity } from "../_shared/segmentActivity.ts";
 
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
-
-function escapeHtml(s: string) {
-  return s
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#039;");
-}
-
-function blocksToHtml(blocks: any[] | null | undefined, fallbackBody?: string) {
-  if (!Array.isArray(blocks) || blocks.length === 0) {
-    return `<div style="font-family: Inter, Arial, sans-serif; font-size: 14px; line-height: 1.55; color: #0f172a;">
-      ${escapeHtml(fallbackBody ?? "").replaceAll("\n", "<br/>")}
-    </div>`;
-  }
-  const parts: string[] = [];
-  for (const b of blocks) {
-    if (!b || typeof b !== "object") continue;
-    if (b.type === "header") parts.push(`<h1 style="margin: 0 0 12px; font-size: 22px;">${escapeHtml(String(b.text ?? ""))}</h1>`);
-    else if (b.type === "text") parts.push(`<p style="margin: 0 0 12px; white-space: pre-wrap;">${escapeHtml(String(b.text ?? ""))}</p>`);
-    else if (b.type === "button") {
-      const href = String(b.href ?? "#");
-      parts.push(`<p style="margin: 16px 0;">
-        <a href="${escapeHtml(href)}" style="display:inline-block;background:#0284c7;color:#fff;text-decoration:none;padding:10px 14px;border-radius:10px;font-weight:700;">
-          ${escapeHtml(String(b.text ?? "Learn more"))}
-        </a>
-      </p>`);
-    } else if (b.type === "divider") {
-      parts.push(`<hr style="border:0;border-top:1px solid #e2e8f0;margin:18px 0;" />`);
-    } else if (b.type === "image") {
-      parts.push(`<p style="margin: 14px 0;"><img src="${escapeHtml(String(b.src ?? ""))}" alt="${escapeHtml(String(b.alt ?? ""))}" style="max-width:100%;border-radius:12px;border:1px solid #e2e8f0;" /></p>`);
-    } else {
-      // Unknown block types: ignore for now
-    }
-  }
-  return `<div style="font-family: Inter, Arial, sans-serif; font-size: 14px; line-height: 1.55; color: #0f172a;">${parts.join("")}</div>`;
-}
+declare const Deno: any;
 
 // NOTE: We no longer send directly from this function.
 // We only enqueue rows into `email_sends`; `email-send-worker` performs SMTP delivery.
 
-function normalize(s: unknown): string {
-  return String(s ?? "").trim().toLowerCase();
-}
-
-// SegmentDefinition-compatible evaluator (same shape as UI + campaign/newsletter schedulers).
-function evalSegment(contact: any, seg: any): boolean {
-  if (!seg || typeof seg !== "object") return true;
-  const logic = String(seg.logic ?? "AND").toUpperCase() === "OR" ? "OR" : "AND";
-  const conds = Array.isArray(seg.conditions) ? seg.conditions : [];
-  if (conds.length === 0) return true;
-
-  const stage = normalize(contact.lifecycle_stage);
-  const temp = normalize(contact.temperature);
-  const tags: string[] = Array.isArray(contact.tags) ? contact.tags.map(normalize) : [];
-  const lists: string[] = Array.isArray(contact.lists) ? contact.lists.map(normalize) : [];
-  const leadScore = Number(contact.lead_score ?? 0);
-  const status = String(contact.status ?? "");
-
-  const check = (c: any) => {
-    const field = String(c.field ?? "");
-    const op = String(c.op ?? "");
-    const value = c.value;
-    if (field === "lifecycleStage") return stage === normalize(value);
-    if (field === "temperature") return temp === normalize(value);
-    if (field === "status") return status === String(value ?? "");
-    if (field === "tag") return tags.some((t) => t === normalize(value) || t.includes(normalize(value)));
-    if (field === "list") return lists.some((t) => t === normalize(value) || t.includes(normalize(value)));
-    if (field === "leadScore") {
-      const v = Number(value ?? 0);
-      if (op === ">=") return leadScore >= v;
-      if (op === "<=") return leadScore <= v;
-      if (op === ">") return leadScore > v;
-      if (op === "<") return leadScore < v;
-    }
-    return true;
-  };
-
-  return logic === "AND" ? conds.every(check) : conds.some(check);
-}
-
 // Minimal PostgREST access with the user's JWT (RLS applies).
-async function pgFetch(req: Request, path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const anon = Deno.env.get("SUPABASE_ANON_KEY");
-  if (!url || !anon) throw new Error("Missing SUPABASE_URL / SUPABASE_ANON_KEY in Edge Function env");
-  const auth = req.headers.get("Authorization") ?? "";
-  const headers: Record<string, string> = {
-    apikey: anon,
-    Authorization: auth,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
-
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
   if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
@@ -141,9 +40,21 @@ Deno.serve(async (req) => {
     const pageSize = Math.max(1, Math.min(1000, pageSizeRaw));
     const dryRun = Boolean(body?.dryRun);
     const sampleSize = Math.max(0, Math.min(25, Number(body?.sampleSize ?? 10)));
-    const segmentJson = body?.segmentJson ?? null;
+    const segmentId = String(body?.segmentId ?? "").trim();
+    let segmentJson = body?.segmentJson ?? null;
     if (!campaignId) return json({ error: "Missing campaignId" }, 400);
 
+    if (segmentId) {
+      const segmentRows = await pgFetch(
+        req,
+        `segments?select=definition&workspace_id=eq.${encodeURIComponent(workspaceId)}&id=eq.${encodeURIComponent(segmentId)}&limit=1`,
+        { method: "GET" },
+      );
+      const saved = Array.isArray(segmentRows) ? segmentRows[0] : null;
+      if (!saved) return json({ error: "Segment not found" }, 404);
+      segmentJson = saved.definition ?? null;
+    }
+
     // Load campaign
     const campaignRows = await pgFetch(
       req,
@@ -155,24 +66,32 @@ Deno.serve(async (req) => {
 
     const subject = String(campaign.subject ?? campaign.name ?? "Campaign").trim();
 
-    // Load recipients (subscribed + not suppressed), paged, then (optionally) segment-filtered.
+    // Load recipients (subscribed + not suppressed), paged. Postgres applies what it can of the segment;
+    // evalSegment makes the final call per contact.
     const recipients: Array<{ id: string; email: string; firstName: string; lastName: string }> = [];
+    const segmentFilter = segmentContactFilter(segmentJson).query;
     let offset = 0;
     while (recipients.length < maxRecipients) {
       const remaining = maxRecipients - recipients.length;
       const fetchN = Math.max(1, Math.min(pageSize, remaining));
       const contacts = await pgFetch(
         req,
-        `contacts?select=id,email,first_name,last_name,status,unsubscribed,bounced,spam_complaint,lifecycle_stage,temperature,tags,lists,lead_score&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.Subscribed&unsubscribed=is.false&bounced=is.false&spam_complaint=is.false&order=created_at.asc&limit=${fetchN}&offset=${offset}`,
+        `contacts?select=id,email,first_name,last_name,unsubscribed,bounced,spam_complaint,${SEGMENT_CONTACT_COLUMNS}&workspace_id=eq.${encodeURIComponent(workspaceId)}&status=eq.Subscribed&unsubscribed=is.false&bounced=is.false&spam_complaint=is.false${segmentFilter}&order=created_at.asc&limit=${fetchN}&offset=${offset}`,
         { method: "GET" },
       );
       const rows = Array.isArray(contacts) ? contacts : [];
       if (rows.length === 0) break;
       offset += rows.length;
+      const activity = await loadSegmentActivity(
+        (path) => pgFetch(req, path, { method: "GET" }),
+        workspaceId,
+        rows.map((c: any) => String(c.id)),
+        segmentJson,
+      );
 
       for (const c of rows) {
         if (recipients.length >= maxRecipients) break;
-        if (segmentJson && !evalSegment(c, segmentJson)) continue;
+        if (segmentJson && !evalSegment(c, segmentJson, activity.get(String(c.id)))) continue;
         const email = String(c.email ?? "").trim();
         if (!email) continue;
         recipients.push({
@@ -206,6 +125,7 @@ Deno.serve(async (req) => {
     const meta = {
       source: "send-campaign",
       segment: segmentJson ?? null,
+      segment_id: segmentId || null,
       // Keep a small payload; avoid dumping huge objects in meta.
     };
     for (let i = 0; i < recipients.length; i += pageSize) {
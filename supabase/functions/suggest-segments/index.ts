@@ -11,36 +11,10 @@
 // Optional:
 //   GEMINI_API_KEY=...  (adds nicer copy, but suggestions still work without it)
 
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
+import { corsHeaders, json } from "../_shared/http.ts";
+import { dbFetch } from "../_shared/db.ts";
 
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
+declare const Deno: any;
 
 async function gemini(apiKey: string, prompt: string) {
   const res = await fetch(
@@ -78,7 +52,7 @@ Deno.serve(async (req) => {
           logic: "AND",
           conditions: [
             { id: "c1", field: "leadScore", op: ">=", value: 40 },
-            { id: "c2", field: "lifecycleStage", op: "equals", value: "lead" },
+            { id: "c2", field: "totalPurchases", op: "equals", value: 0 },
           ],
         },
       },
@@ -101,8 +75,8 @@ Deno.serve(async (req) => {
         segment: {
           logic: "AND",
           conditions: [
-            { id: "c1", field: "lifecycleStage", op: "equals", value: "customer" },
-            { id: "c2", field: "leadScore", op: "<", value: 30 },
+            { id: "c1", field: "totalPurchases", op: "equals", value: 1 },
+            { id: "c2", field: "lastPurchaseDate", op: "not_within_days", value: 90 },
           ],
         },
       },
@@ -13,20 +13,10 @@
 // Secrets:
 //   SUPABASE_SERVICE_ROLE_KEY=...
 
-declare const Deno: any;
-
-const corsHeaders: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "GET, OPTIONS",
-};
+import { corsHeaders, json } from "../_shared/http.ts";
+import { dbFetch, dbRpc } from "../_shared/db.ts";
 
-function json(data: unknown, status = 200) {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
+declare const Deno: any;
 
 function gif1x1(): Uint8Array {
   // Transparent 1x1 GIF
@@ -36,28 +26,9 @@ function gif1x1(): Uint8Array {
   ]);
 }
 
-async function dbFetch(path: string, init?: RequestInit) {
-  const url = Deno.env.get("SUPABASE_URL");
-  const service = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !service) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${service}`,
-    apikey: service,
-    "Content-Type": "application/json",
-    ...(init?.headers as any),
-  };
-  const res = await fetch(`${url}/rest/v1/${path}`, { ...(init ?? {}), headers });
-  const body = await res.text();
-  if (!res.ok) throw new Error(`DB error ${res.status}: ${body}`);
-  return body ? JSON.parse(body) : null;
-}
-
 async function bumpMetric(workspaceId: string, contactId: string, metric: "open" | "click") {
   // Call SQL function (added in schema.sql)
-  await dbFetch(`rpc/bump_contact_metric`, {
-    method: "POST",
-    body: JSON.stringify({ p_workspace_id: workspaceId, p_contact_id: contactId, p_metric: metric }),
-  });
+  await dbRpc("bump_contact_metric", { p_workspace_id: workspaceId, p_contact_id: contactId, p_metric: metric });
 }
 
 Deno.serve(async (req) => {
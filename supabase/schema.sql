@@ -62,6 +62,13 @@ alter table public.contacts add column if not exists spam_complaint boolean not
 alter table public.contacts add column if not exists best_send_hour integer;
 alter table public.contacts add column if not exists best_send_minute integer;
 alter table public.contacts add column if not exists best_send_updated_at timestamptz;
+-- Opens per hour of week (168 counts, index weekday * 24 + hour in the contact's timezone); see _shared/bestTime.ts.
+alter table public.contacts add column if not exists best_time_hours jsonb;
+alter table public.contacts add column if not exists best_time_samples integer not null default 0;
+alter table public.contacts add column if not exists best_time_confidence real not null default 0;
+-- Custom attributes by name (e.g. {"birthday": "1990-05-17"}); used by date-based automation triggers.
+-- Workspace-defined custom fields (public.contact_fields) store their values here too.
+alter table public.contacts add column if not exists attributes jsonb not null default '{}'::jsonb;
 
 -- Best-send-time cursor (Phase 4): update contacts.best_send_* based on opens incrementally
 create table if not exists public.best_time_cursor (
@@ -73,6 +80,8 @@ create table if not exists public.best_time_cursor (
   primary key (workspace_id, id)
 );
 alter table public.best_time_cursor alter column workspace_id set default (auth.uid()::text);
+-- Workspace-wide opens per hour of week: the fallback curve for contacts with few opens.
+alter table public.best_time_cursor add column if not exists workspace_hours jsonb;
 
 create index if not exists best_time_cursor_updated_idx on public.best_time_cursor (workspace_id, updated_at desc);
 
@@ -116,6 +125,12 @@ create table if not exists public.automations (
   primary key (workspace_id, id)
 );
 alter table public.automations alter column workspace_id set default (auth.uid()::text);
+-- Graph model: typed links between steps (null => legacy config.next / nextYes / nextNo links)
+alter table public.automations add column if not exists edges jsonb;
+-- Goals / exit conditions: [{ id, role: goal|exit, kind: event|lifecycle_stage|tag_added, value, stepId? }]
+alter table public.automations add column if not exists goals jsonb;
+-- Entry policy: { mode: unlimited|once|once_per_days|not_if_active, days? } (null => unlimited)
+alter table public.automations add column if not exists entry_policy jsonb;
 
 -- Workspace settings (real Settings screen)
 create table if not exists public.workspace_settings (
@@ -135,6 +150,11 @@ alter table public.workspace_settings add column if not exists company_name text
 alter table public.workspace_settings add column if not exists timezone text;
 alter table public.workspace_settings add column if not exists default_from_email text;
 alter table public.workspace_settings add column if not exists team_notify_email text;
+-- Max automated emails per contact per rolling 24h (null/0 = no cap); enforced by automation-worker
+alter table public.workspace_settings add column if not exists max_automation_emails_per_day integer;
+-- Lead scoring model (points per event / rule, inactivity, caps, temperature thresholds); null => defaults.
+-- Shape: see supabase/functions/_shared/leadScoring.ts
+alter table public.workspace_settings add column if not exists lead_scoring jsonb;
 
 alter table public.workspace_settings enable row level security;
 
@@ -247,6 +267,8 @@ create table if not exists public.contact_events (
 );
 
 create index if not exists contact_events_contact_idx on public.contact_events (workspace_id, contact_id, occurred_at desc);
+-- automation-scanner reads events in (occurred_at, id) order after its cursor (_shared/eventCursor.ts)
+create index if not exists contact_events_scan_idx on public.contact_events (workspace_id, occurred_at, id);
 
 -- Email sends (per recipient) + provider events (Phase 2 tracking)
 create table if not exists public.email_sends (
@@ -259,7 +281,7 @@ create table if not exists public.email_sends (
   subject text,
   provider text not null default 'resend',
   provider_message_id text,
-  status text not null default 'queued', -- queued|sent|delivered|bounced|complained
+  status text not null default 'queued', -- queued|processing|sent|skipped|suppressed|failed|delivered|bounced|complained
   execute_at timestamptz,
   schedule_id uuid,
   ab_variant text,
@@ -315,6 +337,93 @@ begin
 end;
 $$;
 
+-- Contact change + matching timeline event in one transaction (automation tag / list / lifecycle actions).
+-- p_change: add_tag | remove_tag | add_to_list | remove_from_list | set_lifecycle
+-- Returns false (and writes no event) when the contact already had that state.
+create or replace function public.apply_contact_change(
+  p_workspace_id text,
+  p_contact_id text,
+  p_change text,
+  p_value text,
+  p_meta jsonb default '{}'::jsonb
+) returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_value text := btrim(coalesce(p_value, ''));
+  v_tags text[];
+  v_lists text[];
+  v_stage text;
+  v_has boolean;
+  v_type text;
+  v_title text;
+  v_meta jsonb := coalesce(p_meta, '{}'::jsonb);
+begin
+  if v_value = '' then
+    return false;
+  end if;
+
+  select coalesce(tags, '{}'), coalesce(lists, '{}'), lifecycle_stage
+    into v_tags, v_lists, v_stage
+    from public.contacts
+    where workspace_id = p_workspace_id and id = p_contact_id
+    for update;
+  if not found then
+    raise exception 'Contact not found: %', p_contact_id;
+  end if;
+
+  if p_change in ('add_tag', 'remove_tag') then
+    v_has := exists (select 1 from unnest(v_tags) t where lower(t) = lower(v_value));
+    if (p_change = 'add_tag') = v_has then
+      return false;
+    end if;
+    update public.contacts
+      set tags = case when p_change = 'add_tag' then array_append(v_tags, v_value)
+                      else array(select t from unnest(v_tags) t where lower(t) <> lower(v_value)) end,
+          updated_at = now()
+      where workspace_id = p_workspace_id and id = p_contact_id;
+    v_type := case when p_change = 'add_tag' then 'tag_added' else 'tag_removed' end;
+    v_title := case when p_change = 'add_tag' then 'Tag Added: ' else 'Tag Removed: ' end || v_value;
+    v_meta := v_meta || jsonb_build_object('tag', v_value);
+  elsif p_change in ('add_to_list', 'remove_from_list') then
+    v_has := exists (select 1 from unnest(v_lists) l where lower(l) = lower(v_value));
+    if (p_change = 'add_to_list') = v_has then
+      return false;
+    end if;
+    update public.contacts
+      set lists = case when p_change = 'add_to_list' then array_append(v_lists, v_value)
+                       else array(select l from unnest(v_lists) l where lower(l) <> lower(v_value)) end,
+          updated_at = now()
+      where workspace_id = p_workspace_id and id = p_contact_id;
+    v_type := case when p_change = 'add_to_list' then 'list_joined' else 'list_left' end;
+    v_title := case when p_change = 'add_to_list' then 'List Joined: ' else 'List Left: ' end || v_value;
+    v_meta := v_meta || jsonb_build_object('list', v_value);
+  elsif p_change = 'set_lifecycle' then
+    if lower(coalesce(v_stage, '')) = lower(v_value) then
+      return false;
+    end if;
+    update public.contacts
+      set lifecycle_stage = v_value, updated_at = now()
+      where workspace_id = p_workspace_id and id = p_contact_id;
+    v_type := 'lifecycle_changed';
+    v_title := 'Lifecycle Stage: ' || v_value;
+    v_meta := v_meta || jsonb_build_object('from', v_stage, 'to', v_value);
+  else
+    raise exception 'Unknown contact change: %', p_change;
+  end if;
+
+  insert into public.contact_events (workspace_id, contact_id, event_type, title, occurred_at, meta)
+    values (p_workspace_id, p_contact_id, v_type, v_title, now(), v_meta);
+  return true;
+end;
+$$;
+
+-- Runs as owner and takes any workspace id: service role (automation-worker) only.
+revoke execute on function public.apply_contact_change(text, text, text, text, jsonb) from public, anon, authenticated;
+grant execute on function public.apply_contact_change(text, text, text, text, jsonb) to service_role;
+
 create table if not exists public.resend_events (
   workspace_id text not null default 'default',
   id uuid not null default gen_random_uuid(),
@@ -333,7 +442,7 @@ create table if not exists public.automation_runs (
   id uuid not null default gen_random_uuid(),
   automation_id text not null,
   contact_id text not null,
-  status text not null default 'running', -- running|completed|failed|cancelled
+  status text not null default 'running', -- running|completed|failed|cancelled|exited|skipped
   current_step_id text,
   started_at timestamptz not null default now(),
   finished_at timestamptz,
@@ -346,6 +455,10 @@ create table if not exists public.automation_runs (
 
 create index if not exists automation_runs_contact_idx on public.automation_runs (workspace_id, contact_id, created_at desc);
 create index if not exists automation_runs_automation_idx on public.automation_runs (workspace_id, automation_id, created_at desc);
+-- Goals / exit conditions (see automation-scanner)
+alter table public.automation_runs add column if not exists goal_id text;
+alter table public.automation_runs add column if not exists goal_reached_at timestamptz;
+alter table public.automation_runs add column if not exists exit_reason text;
 
 create table if not exists public.automation_queue (
   workspace_id text not null default 'default',
@@ -355,7 +468,7 @@ create table if not exists public.automation_queue (
   contact_id text not null,
   step_id text not null,
   execute_at timestamptz not null default now(),
-  status text not null default 'queued', -- queued|processing|done|failed
+  status text not null default 'queued', -- queued|processing|done|failed|cancelled
   attempts integer not null default 0,
   last_error text,
   payload jsonb,
@@ -378,6 +491,66 @@ create table if not exists public.automation_event_cursor (
 
 create index if not exists automation_event_cursor_updated_idx on public.automation_event_cursor (workspace_id, updated_at desc);
 
+-- Random split (A/B/n) steps: one assignment per contact per split step (first assignment wins)
+create table if not exists public.automation_split_assignments (
+  workspace_id text not null default 'default',
+  automation_id text not null,
+  step_id text not null,
+  contact_id text not null,
+  run_id uuid,
+  edge_id text not null,
+  via_winner boolean not null default false, -- routed after auto-winner (excluded from stats)
+  assigned_at timestamptz not null default now(),
+  primary key (workspace_id, automation_id, step_id, contact_id)
+);
+
+-- Split step auto-winner (see _shared/automationSplit.ts): the declared winning edge, kept out of
+-- automations.steps so builder saves and winner declarations don't overwrite each other. checked_at
+-- throttles re-evaluating the test while no winner is declared. Deleting the row resets the test.
+create table if not exists public.automation_split_state (
+  workspace_id text not null default 'default',
+  automation_id text not null,
+  step_id text not null,
+  edge_id text,
+  declared_at timestamptz,
+  checked_at timestamptz not null default now(),
+  primary key (workspace_id, automation_id, step_id)
+);
+
+-- Date-based triggers (trigger.date): one row per contact per occurrence (contact-local date) so a
+-- trigger fires once per birthday / anniversary even though automation-date-triggers runs all day.
+create table if not exists public.automation_date_trigger_fires (
+  workspace_id text not null default 'default',
+  automation_id text not null,
+  step_id text not null,
+  contact_id text not null,
+  occurrence date not null,
+  run_id uuid,
+  fired_at timestamptz not null default now(),
+  primary key (workspace_id, automation_id, step_id, contact_id, occurrence)
+);
+
+-- Materialized segment membership (segment entry / exit triggers), maintained by segment-membership-worker.
+-- segment_key: "segment:<id>" for a saved segment, "def:<hash>" for a segment defined on a trigger step
+-- (see _shared/segments.ts).
+create table if not exists public.segment_memberships (
+  workspace_id text not null default 'default',
+  segment_key text not null,
+  contact_id text not null,
+  entered_at timestamptz not null default now(),
+  primary key (workspace_id, segment_key, contact_id)
+);
+
+-- Last evaluation per segment: only contacts updated since evaluated_at are re-checked. A new or
+-- changed definition (definition_hash) is evaluated in full without firing entry / exit events.
+create table if not exists public.segment_membership_state (
+  workspace_id text not null default 'default',
+  segment_key text not null,
+  definition_hash text not null,
+  evaluated_at timestamptz not null,
+  primary key (workspace_id, segment_key)
+);
+
 -- Lead scoring cursor (Phase 3): process contact_events incrementally to update lead_score + temperature
 create table if not exists public.lead_score_cursor (
   workspace_id text not null default 'default',
@@ -390,6 +563,77 @@ create table if not exists public.lead_score_cursor (
 
 create index if not exists lead_score_cursor_updated_idx on public.lead_score_cursor (workspace_id, updated_at desc);
 
+-- Last time lead-score-worker applied inactivity points to the contact (at most once per inactivity window)
+alter table public.contacts add column if not exists lead_score_inactive_at timestamptz;
+
+-- Score decay: when the contact's score last decayed, and when the workspace's daily decay pass last ran
+alter table public.contacts add column if not exists lead_score_decayed_at timestamptz;
+alter table public.lead_score_cursor add column if not exists last_decay_at timestamptz;
+
+-- Named scores (workspace_settings.lead_scoring.models), by model key, e.g. {"fit": 40, "engagement": 12}.
+-- The fit pass re-scores contacts updated since last_fit_at, or all of them when the fit rules changed (fit_hash).
+alter table public.contacts add column if not exists scores jsonb not null default '{}'::jsonb;
+alter table public.lead_score_cursor add column if not exists last_fit_at timestamptz;
+alter table public.lead_score_cursor add column if not exists fit_hash text;
+
+-- Recalculation (lead-score-worker mode "recalculate") runs in batches of contacts in id order:
+-- recalc_after is the last contact rebuilt, recalc_started_at is set while a recalculation is unfinished.
+alter table public.lead_score_cursor add column if not exists recalc_started_at timestamptz;
+alter table public.lead_score_cursor add column if not exists recalc_after text;
+
+-- Lead score history: one row per score change made by lead-score-worker
+-- reason: events | inactivity | decay | recalculate
+create table if not exists public.lead_score_history (
+  workspace_id text not null default 'default',
+  id uuid not null default gen_random_uuid(),
+  contact_id text not null,
+  score integer not null,
+  temperature text,
+  reason text not null,
+  recorded_at timestamptz not null default now(),
+  primary key (workspace_id, id)
+);
+
+create index if not exists lead_score_history_contact_idx on public.lead_score_history (workspace_id, contact_id, recorded_at desc);
+
+alter table public.lead_score_history enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='lead_score_history' and policyname='lead_score_history_read') then
+    execute 'create policy lead_score_history_read on public.lead_score_history for select to authenticated using (workspace_id = auth.uid()::text)';
+  end if;
+end $$;
+
+-- Lead score audit trail: what each score change came from.
+-- rule_key: rule:<id> | event:<event_type> | inactivity | decay; delta is the change after caps.
+-- A recalculation replaces the workspace's rows with the replayed ones.
+create table if not exists public.lead_score_changes (
+  workspace_id text not null default 'default',
+  id uuid not null default gen_random_uuid(),
+  contact_id text not null,
+  event_id uuid,
+  event_type text,
+  rule_key text not null,
+  rule_label text not null,
+  delta integer not null,
+  score integer not null,
+  occurred_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, id)
+);
+
+create index if not exists lead_score_changes_contact_idx on public.lead_score_changes (workspace_id, contact_id, occurred_at desc);
+
+alter table public.lead_score_changes enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='lead_score_changes' and policyname='lead_score_changes_read') then
+    execute 'create policy lead_score_changes_read on public.lead_score_changes for select to authenticated using (workspace_id = auth.uid()::text)';
+  end if;
+end $$;
+
 -- Campaign scheduling + A/B testing state (Phase 4)
 create table if not exists public.campaign_schedules (
   workspace_id text not null default 'default',
@@ -457,5 +701,126 @@ alter table public.newsletter_schedules add column if not exists segment_json js
 -- Unsubscribe token support (Phase 2 compliance)
 -- We keep it simple: we generate a signed token and store nothing server-side.
 
+-- Saved, reusable segments. Schedules, bulk sends and segment triggers reference them by id
+-- (segment_id / segmentId) and read the definition at send / evaluation time, so edits propagate.
+-- definition: SegmentDefinition ({ logic, conditions }).
+create table if not exists public.segments (
+  workspace_id text not null default 'default',
+  id text not null,
+  name text not null,
+  description text,
+  definition jsonb not null default '{"logic":"AND","conditions":[]}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (workspace_id, id)
+);
+alter table public.segments alter column workspace_id set default (auth.uid()::text);
 
+alter table public.segments enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='segments' and policyname='segments_read') then
+    execute 'create policy segments_read on public.segments for select to authenticated using (workspace_id = auth.uid()::text)';
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='segments' and policyname='segments_write') then
+    execute 'create policy segments_write on public.segments for insert to authenticated with check (workspace_id = auth.uid()::text)';
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='segments' and policyname='segments_update') then
+    execute 'create policy segments_update on public.segments for update to authenticated using (workspace_id = auth.uid()::text) with check (workspace_id = auth.uid()::text)';
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='segments' and policyname='segments_delete') then
+    execute 'create policy segments_delete on public.segments for delete to authenticated using (workspace_id = auth.uid()::text)';
+  end if;
+end $$;
+
+-- Custom contact fields (Settings → Custom Fields). Values live in contacts.attributes under `key`,
+-- typed by `type`; see supabase/functions/_shared/customFields.ts.
+create table if not exists public.contact_fields (
+  workspace_id text not null default 'default',
+  key text not null,
+  label text not null,
+  type text not null default 'string' check (type in ('string','number','boolean','date','enum','multi_select')),
+  options jsonb not null default '[]'::jsonb, -- allowed values for enum / multi_select
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (workspace_id, key)
+);
+alter table public.contact_fields alter column workspace_id set default (auth.uid()::text);
+
+alter table public.contact_fields enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='contact_fields' and policyname='contact_fields_read') then
+    execute 'create policy contact_fields_read on public.contact_fields for select to authenticated using (workspace_id = auth.uid()::text)';
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='contact_fields' and policyname='contact_fields_write') then
+    execute 'create policy contact_fields_write on public.contact_fields for insert to authenticated with check (workspace_id = auth.uid()::text)';
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='contact_fields' and policyname='contact_fields_update') then
+    execute 'create policy contact_fields_update on public.contact_fields for update to authenticated using (workspace_id = auth.uid()::text) with check (workspace_id = auth.uid()::text)';
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='contact_fields' and policyname='contact_fields_delete') then
+    execute 'create policy contact_fields_delete on public.contact_fields for delete to authenticated using (workspace_id = auth.uid()::text)';
+  end if;
+end $$;
+
+-- Saved segment per schedule (takes precedence over segment_json, which stays for inline segments).
+alter table public.campaign_schedules add column if not exists segment_id text;
+alter table public.newsletter_schedules add column if not exists segment_id text;
+
+-- Preference center (the `preferences` Edge Function; rules in supabase/functions/_shared/preferences.ts).
+-- Topics a contact can join / leave (contact lists), and the campaign's topic: only contacts on it receive it.
+alter table public.workspace_settings add column if not exists preference_lists text[] not null default '{}';
+alter table public.campaigns add column if not exists topic_list text;
+-- 'digest' = at most one campaign email a week; paused_until = no emails before then.
+alter table public.contacts add column if not exists email_frequency text not null default 'all' check (email_frequency in ('all','digest'));
+alter table public.contacts add column if not exists paused_until timestamptz;
+
+-- Suppression list: addresses (kind 'email') and domains (kind 'domain') that are never mailed, checked by
+-- email-send-worker right before delivery; see supabase/functions/_shared/suppressions.ts.
+create table if not exists public.suppressions (
+  workspace_id text not null default 'default',
+  kind text not null check (kind in ('email','domain')),
+  value text not null, -- lowercase address or domain
+  reason text not null default 'manual' check (reason in ('unsubscribed','bounced','complained','manual')),
+  source text not null default 'manual', -- settings | csv_import | unsubscribe | preferences | resend-webhook | backfill
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, kind, value)
+);
+alter table public.suppressions alter column workspace_id set default (auth.uid()::text);
+create index if not exists suppressions_value_idx on public.suppressions (workspace_id, value);
+
+alter table public.suppressions enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='suppressions' and policyname='suppressions_read') then
+    execute 'create policy suppressions_read on public.suppressions for select to authenticated using (workspace_id = auth.uid()::text)';
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='suppressions' and policyname='suppressions_write') then
+    execute 'create policy suppressions_write on public.suppressions for insert to authenticated with check (workspace_id = auth.uid()::text)';
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='suppressions' and policyname='suppressions_update') then
+    execute 'create policy suppressions_update on public.suppressions for update to authenticated using (workspace_id = auth.uid()::text) with check (workspace_id = auth.uid()::text)';
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='suppressions' and policyname='suppressions_delete') then
+    execute 'create policy suppressions_delete on public.suppressions for delete to authenticated using (workspace_id = auth.uid()::text)';
+  end if;
+end $$;
 
+-- Backfill from the contact flags (safe to re-run; existing entries are kept).
+insert into public.suppressions (workspace_id, kind, value, reason, source, created_at)
+select distinct on (c.workspace_id, lower(btrim(c.email)))
+  c.workspace_id,
+  'email',
+  lower(btrim(c.email)),
+  case when c.spam_complaint then 'complained' when c.bounced then 'bounced' else 'unsubscribed' end,
+  'backfill',
+  c.updated_at
+from public.contacts c
+where (c.unsubscribed or c.bounced or c.spam_complaint) and btrim(coalesce(c.email, '')) like '%@%'
+order by c.workspace_id, lower(btrim(c.email)), c.spam_complaint desc, c.bounced desc
+on conflict (workspace_id, kind, value) do nothing;
@@ -1,3 +1,26 @@
+// Graph model lives next to the edge functions so the worker and the builder share one implementation.
+import type { AutomationEdge } from './supabase/functions/_shared/automationGraph.ts';
+export type { AutomationEdge, AutomationEdgeKind } from './supabase/functions/_shared/automationGraph.ts';
+import type { AutomationGoal } from './supabase/functions/_shared/automationGoals.ts';
+export type { AutomationGoal, AutomationGoalKind, AutomationGoalRole } from './supabase/functions/_shared/automationGoals.ts';
+import type { AutomationEntryPolicy } from './supabase/functions/_shared/automationEntry.ts';
+export type { AutomationEntryMode, AutomationEntryPolicy } from './supabase/functions/_shared/automationEntry.ts';
+import type { SegmentDefinition } from './supabase/functions/_shared/segments.ts';
+import type { CustomFieldValue } from './supabase/functions/_shared/customFields.ts';
+import type { EmailBlock, EmailStyle } from './supabase/functions/_shared/emailRender.ts';
+import type { EmailFrequency } from './supabase/functions/_shared/preferences.ts';
+export type { CustomField, CustomFieldType, CustomFieldValue } from './supabase/functions/_shared/customFields.ts';
+export type { EmailFrequency } from './supabase/functions/_shared/preferences.ts';
+export type {
+  SegmentCondition,
+  SegmentDefinition,
+  SegmentField,
+  SegmentGroup,
+  SegmentLogic,
+  SegmentNode,
+  SegmentOperator,
+} from './supabase/functions/_shared/segments.ts';
+
 
 export interface Metric {
   label: string;
@@ -25,6 +48,8 @@ export interface Campaign {
   clickCount?: number;
   conversionCount?: number;
   segmentName?: string;
+  // Preference center topic (a contact list); only contacts on the list receive the campaign
+  topicList?: string;
   emailBlocks?: EmailBlock[];
   emailStyle?: EmailStyle;
 }
@@ -37,11 +62,19 @@ export interface Automation {
   count: number;
   // Derived from automation_runs (not necessarily persisted)
   errorCount?: number;
+  goalConversions?: number; // runs that reached a goal
+  totalRuns?: number;
   trigger?: string;
   createdAt?: string; // ISO
   updatedAt?: string; // ISO
   lastActivityAt?: string; // ISO
   steps?: AutomationStep[];
+  // Typed links between steps (graph model). Undefined for automations saved before edges existed.
+  edges?: AutomationEdge[];
+  // Goals / exit conditions checked by automation-scanner against new contact events
+  goals?: AutomationGoal[];
+  // Re-entry / concurrency rule applied when a trigger fires (undefined => unlimited)
+  entryPolicy?: AutomationEntryPolicy;
 }
 
 export interface Contact {
@@ -85,14 +118,23 @@ export interface Contact {
   unsubscribed?: boolean;
   bounced?: boolean;
   spamComplaint?: boolean;
+  // set by the contact in the preference center
+  emailFrequency?: EmailFrequency;
+  pausedUntil?: string; // ISO
   leadScore?: number; // 0-100
+  // named scores by model key (e.g. fit: 40), set by lead-score-worker
+  scores?: Record<string, number>;
   company?: string;
   jobTitle?: string;
   location?: string;
   website?: string;
+  // custom attributes by name (e.g. birthday: "1990-05-17"), including workspace custom field values
+  attributes?: Record<string, CustomFieldValue>;
   createdAt?: string; // ISO
   updatedAt?: string; // ISO
   events?: ContactEvent[];
+  // Latest emails sent to the contact, newest first (segment conditions on recent opens)
+  recentSends?: ContactEmailSend[];
 }
 
 export interface ChartData {
@@ -102,22 +144,8 @@ export interface ChartData {
   conversions: number;
 }
 
-export type EmailBlock =
-  | { id: string; type: 'header'; text: string }
-  | { id: string; type: 'text'; text: string }
-  | { id: string; type: 'button'; text: string; href: string }
-  | { id: string; type: 'image'; src: string; alt?: string }
-  | { id: string; type: 'divider' }
-  | { id: string; type: 'product'; title?: string; items: Array<{ id: string; name: string; price: string; imageUrl?: string; url?: string }> }
-  | { id: string; type: 'social'; items: Array<{ id: string; network: 'Facebook' | 'Instagram' | 'X' | 'LinkedIn' | 'YouTube'; url: string }> };
-
-export interface EmailStyle {
-  primaryColor: string; // hex
-  secondaryColor: string; // hex / neutral
-  primaryFont: string;
-  secondaryFont: string;
-  textScale: number; // 0.85 - 1.15
-}
+// Email content lives next to the renderer so the builder and the senders share one implementation.
+export type { EmailBlock, EmailStyle } from './supabase/functions/_shared/emailRender.ts';
 
 export type ContactEventType =
   | 'email_open'
@@ -140,9 +168,27 @@ export interface ContactEvent {
   type: ContactEventType;
   title: string;
   occurredAt: string; // ISO
+  campaignId?: string;
   meta?: Record<string, string | number | boolean | null>;
 }
 
+export interface ContactEmailSend {
+  campaignId: string;
+  sentAt: string; // ISO
+  openedAt?: string; // ISO
+}
+
+// Saved, reusable segment. Schedules, bulk sends and automation triggers reference it by id,
+// so editing the definition changes who they target.
+export interface Segment {
+  id: string;
+  name: string;
+  description?: string;
+  definition: SegmentDefinition;
+  createdAt?: string; // ISO
+  updatedAt?: string; // ISO
+}
+
 export type AutomationStepType = 'trigger' | 'condition' | 'action' | 'wait';
 
 export interface AutomationStep {
@@ -163,6 +209,7 @@ export interface WorkspaceSettings {
   timezone: string;
   defaultFromEmail?: string;
   teamNotifyEmail?: string;
+  maxAutomationEmailsPerDay?: number;
 }
 
 export enum ViewState {